@@ -14,6 +14,8 @@ const nextConfig: NextConfig = {
     position: 'bottom-left',
   },
   poweredByHeader: false,
+  // jsdom reads its own files at runtime, so it is loaded from node_modules as is
+  serverExternalPackages: ['jsdom'],
   async headers() {
     return [
       {
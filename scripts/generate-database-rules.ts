@@ -0,0 +1,21 @@
+// Writes `database.rules.json` from `src/lib/database-rules.ts`. Run through
+// `npm run rules:build`; with `--check` it only reports whether the file is current.
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { buildDatabaseRules } from '../src/lib/database-rules';
+
+const RULES_FILE = 'database.rules.json';
+
+const generated = `${JSON.stringify(buildDatabaseRules(), null, 2)}\n`;
+const current = existsSync(RULES_FILE) ? readFileSync(RULES_FILE, 'utf8') : null;
+
+if (process.argv.includes('--check')) {
+  if (current !== generated) {
+    console.error(`${RULES_FILE} is out of date; run \`npm run rules:build\``);
+    process.exit(1);
+  }
+  console.log(`${RULES_FILE} is up to date`);
+} else if (current !== generated) {
+  writeFileSync(RULES_FILE, generated);
+  console.log(`Wrote ${RULES_FILE}`);
+}
@@ -0,0 +1,17 @@
+// Seeds the running emulators with a user, an admin and a root admin (see
+// `src/test/emulators.ts`). Run through `npm run emulators:seed` after
+// `firebase emulators:start`; `npm run test:emulators` seeds on its own.
+
+import { EMULATOR_ACCOUNTS } from '../src/test/emulators';
+import { seedEmulators } from '../src/test/seed-emulators';
+
+seedEmulators()
+  .then(() => {
+    Object.values(EMULATOR_ACCOUNTS).forEach(({ email, password, role }) => {
+      console.log(`${role}: ${email} / ${password}`);
+    });
+  })
+  .catch((error) => {
+    console.error('Error seeding the emulators:', error);
+    process.exit(1);
+  });
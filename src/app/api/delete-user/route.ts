@@ -1,11 +1,123 @@
 import { NextResponse } from 'next/server';
-import { adminAuth } from '@/lib/firebase-admin';
+import { adminAuth, adminDb, adminRepositories, adminStorage } from '@/lib/firebase-admin';
+import { ApiAuthError, apiErrorResponse, withAuth } from '@/lib/api-auth';
+import { DeleteUserReport, UserPermissionError } from '@/lib/users-repository';
+import type { FolderRecord } from '@/lib/schema';
 
-export async function POST(request: Request) {
+// Normalize the `users/{uid}/folders` value, which may be stored as an array or an object
+const toIdList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value);
+  }
+  return [];
+};
+
+// Remove every folder, note and the user node in a single multi-path update.
+// Everything is looked up again on each call, so a retry picks up whatever
+// a previous, interrupted attempt left behind.
+const deleteUserData = async (userId: string) => {
+  const [userSnapshot, ownedFoldersSnapshot, ownedNotesSnapshot, ownedSharesSnapshot] = await Promise.all([
+    adminDb.ref(`users/${userId}`).once('value'),
+    adminDb.ref('folders').orderByChild('userId').equalTo(userId).once('value'),
+    adminDb.ref('notes').orderByChild('userId').equalTo(userId).once('value'),
+    adminDb.ref('shares').orderByChild('userId').equalTo(userId).once('value')
+  ]);
+
+  // Every folder to delete, with its stored value
+  const folders = new Map<string, FolderRecord>(Object.entries(ownedFoldersSnapshot.val() || {}));
+  const noteIds = new Set<string>(Object.keys(ownedNotesSnapshot.val() || {}));
+
+  // Folders listed on the user node that the userId index did not return
+  const listedFolderIds = toIdList(userSnapshot.val()?.folders).filter(id => !folders.has(id));
+  const listedFolderSnapshots = await Promise.all(
+    listedFolderIds.map(folderId => adminDb.ref(`folders/${folderId}`).once('value'))
+  );
+
+  listedFolderSnapshots.forEach(snapshot => {
+    if (snapshot.exists() && snapshot.val().userId === userId) {
+      folders.set(snapshot.key as string, snapshot.val());
+    }
+  });
+  const folderIds = Array.from(folders.keys());
+
+  // Notes in the user's folders but missing from the userId index
+  const folderNotesSnapshots = await Promise.all(
+    folderIds.map(folderId => adminDb.ref('notes').orderByChild('folderId').equalTo(folderId).once('value'))
+  );
+
+  folderNotesSnapshots.forEach(snapshot => {
+    snapshot.forEach(note => {
+      if (note.val().userId === userId) {
+        noteIds.add(note.key as string);
+      }
+    });
+  });
+
+  const updates: Record<string, null> = {};
+  folderIds.forEach(folderId => {
+    updates[`folders/${folderId}`] = null;
+  });
+
+  // Unshare the user's folders from their members, and leave folders shared with the user
+  folders.forEach((folder, folderId) => {
+    Object.keys(folder.members || {}).forEach(memberId => {
+      updates[`users/${memberId}/sharedFolders/${folderId}`] = null;
+    });
+  });
+  Object.keys(userSnapshot.val()?.sharedFolders || {}).forEach(folderId => {
+    if (!folders.has(folderId)) {
+      updates[`folders/${folderId}/members/${userId}`] = null;
+    }
+  });
+  noteIds.forEach(noteId => {
+    updates[`notes/${noteId}`] = null;
+    updates[`noteRevisions/${noteId}`] = null;
+  });
+  updates[`drafts/${userId}`] = null;
+  updates[`attachmentUploads/${userId}`] = null;
+  Object.keys(ownedSharesSnapshot.val() || {}).forEach(token => {
+    updates[`shares/${token}`] = null;
+    updates[`shareUnlockFailures/${token}`] = null;
+  });
+  if (userSnapshot.exists()) {
+    updates[`users/${userId}`] = null;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await adminDb.ref().update(updates);
+  }
+
+  // Attachment files of all the user's notes share one prefix
+  await adminStorage.bucket().deleteFiles({ prefix: `attachments/${userId}/` });
+
+  return {
+    folderIds,
+    noteIds: Array.from(noteIds),
+    userRecordDeleted: userSnapshot.exists()
+  };
+};
+
+// Delete the Firebase Auth record, treating an already missing account as done
+const deleteAuthRecord = async (userId: string): Promise<boolean> => {
+  try {
+    await adminAuth.deleteUser(userId);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'auth/user-not-found') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+export const POST = withAuth(async (request, caller) => {
   try {
     const { userId } = await request.json();
-    
-    if (!userId) {
+
+    if (!userId || typeof userId !== 'string') {
       console.error('No user ID provided');
       return NextResponse.json(
         { error: 'User ID is required' },
@@ -13,60 +125,42 @@ export async function POST(request: Request) {
       );
     }
 
-    // Logging removed for security
-    
     try {
-      // First check if user exists
-      try {
-        await adminAuth.getUser(userId);
-      } catch (error: any) {
-        if (error.code === 'auth/user-not-found') {
-          // Logging removed for security
-          return NextResponse.json({ 
-            success: true, 
-            message: 'User not found in Auth (may have been already deleted)' 
-          });
-        }
-        throw error;
-      }
-      
-      // Delete the user from Firebase Auth
-      await adminAuth.deleteUser(userId);
-      // Logging removed for security
-      
-      return NextResponse.json({ 
-        success: true,
-        message: 'User deleted successfully from Auth' 
-      });
-      
-    } catch (error: any) {
-      console.error('Error in delete operation:', error);
-      
-      // Handle specific Firebase Auth errors
-      if (error.code === 'auth/user-not-found') {
-        return NextResponse.json(
-          { 
-            success: true,
-            message: 'User not found in Auth (may have been already deleted)' 
-          },
-          { status: 200 }
-        );
+      await adminRepositories.users.checkCanDelete(caller, userId);
+    } catch (error) {
+      if (error instanceof UserPermissionError) {
+        return apiErrorResponse(new ApiAuthError(error.message, 403, error.code));
       }
-      
       throw error;
     }
-    
+
+    // Database first, so a failure here leaves the Auth account for a retry
+    const removed = await deleteUserData(userId);
+    const authRecordDeleted = await deleteAuthRecord(userId);
+
+    const report: DeleteUserReport = {
+      userId,
+      ...removed,
+      authRecordDeleted
+    };
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted successfully',
+      report
+    });
+
   } catch (error: any) {
     console.error('Error in delete-user API:', error);
     const errorMessage = error.message || 'Failed to delete user';
     const statusCode = error.status || 500;
-    
+
     return NextResponse.json(
-      { 
+      {
         error: errorMessage,
         code: error.code || 'unknown_error'
       },
       { status: statusCode }
     );
   }
-}
+}, { roles: ['root_admin'] });
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { ApiAuthError, apiErrorResponse, withAuth } from '@/lib/api-auth';
+
+// Remove a member from a folder. The owner can remove anyone; members can
+// remove themselves to leave a folder shared with them.
+export const DELETE = withAuth<{ folderId: string; memberId: string }>(async (request, caller, { params }) => {
+  try {
+    const { folderId, memberId } = await params;
+
+    const ownerSnapshot = await adminDb.ref(`folders/${folderId}/userId`).once('value');
+    if (!ownerSnapshot.exists()) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (ownerSnapshot.val() !== caller.uid && memberId !== caller.uid) {
+      return apiErrorResponse(
+        new ApiAuthError('Only the folder owner can remove other members', 403, 'folders/not-owner')
+      );
+    }
+
+    await adminDb.ref().update({
+      [`folders/${folderId}/members/${memberId}`]: null,
+      [`users/${memberId}/sharedFolders/${folderId}`]: null
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in folder members API:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to remove member',
+        code: 'unknown_error'
+      },
+      { status: 500 }
+    );
+  }
+});
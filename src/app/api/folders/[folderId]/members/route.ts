@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { ApiAuthError, apiErrorResponse, withAuth } from '@/lib/api-auth';
+import { FolderMember, isFolderRole } from '@/lib/folder-members';
+
+// Invite a user to a folder by email, or change the role of an existing member.
+// Invitations to addresses without an account are accepted and do nothing.
+// Runs on the server because looking up users by email needs the Admin SDK and
+// the member's `users/{uid}/sharedFolders` entry can't be written by the owner.
+export const POST = withAuth<{ folderId: string }>(async (request, caller, { params }) => {
+  try {
+    const { folderId } = await params;
+    const { email, role } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isFolderRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be "viewer" or "editor"' },
+        { status: 400 }
+      );
+    }
+
+    const folderSnapshot = await adminDb.ref(`folders/${folderId}`).once('value');
+    const folder = folderSnapshot.val();
+
+    if (!folder || folder.deletedAt) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (folder.userId !== caller.uid) {
+      return apiErrorResponse(
+        new ApiAuthError('Only the folder owner can manage members', 403, 'folders/not-owner')
+      );
+    }
+
+    // Unknown addresses get the same answer as invited ones, so the API can't be
+    // used to find out which email addresses have an account
+    let invitedUser;
+    try {
+      invitedUser = await adminAuth.getUserByEmail(email.trim().toLowerCase());
+    } catch (error) {
+      if ((error as { code?: string }).code === 'auth/user-not-found') {
+        return NextResponse.json({ success: true });
+      }
+      throw error;
+    }
+
+    if (invitedUser.uid === caller.uid) {
+      return NextResponse.json(
+        { error: 'You already own this folder' },
+        { status: 400 }
+      );
+    }
+
+    const existingMember: FolderMember | null = folder.members?.[invitedUser.uid] || null;
+    const member: FolderMember = {
+      role,
+      email: invitedUser.email || email,
+      ...(invitedUser.displayName && { displayName: invitedUser.displayName }),
+      addedAt: existingMember?.addedAt || Date.now()
+    };
+
+    await adminDb.ref().update({
+      [`folders/${folderId}/members/${invitedUser.uid}`]: member,
+      [`users/${invitedUser.uid}/sharedFolders/${folderId}`]: true
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in folder members API:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to add member',
+        code: 'unknown_error'
+      },
+      { status: 500 }
+    );
+  }
+});
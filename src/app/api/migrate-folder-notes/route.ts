@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { withAuth } from '@/lib/api-auth';
+import { buildFolderNoteMigration } from '@/lib/folder-notes';
+
+// One-off migration from folders listing their notes in `noteIds` to note counters
+// (see `@/lib/folder-notes`). Safe to run again: it only writes what differs, so
+// it also repairs counters. `?dryRun=1` reports the changes without writing them.
+export const POST = withAuth(async (request) => {
+  try {
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === '1';
+
+    const [foldersSnapshot, notesSnapshot] = await Promise.all([
+      adminDb.ref('folders').once('value'),
+      adminDb.ref('notes').once('value')
+    ]);
+
+    const { updates, foldersUpdated, notesLinked } = buildFolderNoteMigration(
+      foldersSnapshot.val() || {},
+      notesSnapshot.val() || {}
+    );
+
+    if (!dryRun && Object.keys(updates).length > 0) {
+      await adminDb.ref().update(updates);
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      foldersUpdated,
+      notesLinked
+    });
+  } catch (error) {
+    console.error('Error in migrate-folder-notes API:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to migrate folders' },
+      { status: 500 }
+    );
+  }
+}, { roles: ['root_admin'] });
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { adminDb, adminStorage } from '@/lib/firebase-admin';
+import { ApiAuthError, apiErrorResponse, withAuth } from '@/lib/api-auth';
+import {
+  ATTACHMENT_QUOTA,
+  MAX_ATTACHMENT_SIZE,
+  AttachmentUploadEntry,
+  NoteAttachment,
+  formatFileSize,
+  getAttachmentPath,
+  getAttachmentUsage
+} from '@/lib/attachments';
+import type { NoteRecord } from '@/lib/schema';
+
+// URL that serves a stored file to anyone who has it, like the client SDK's download URLs
+const getDownloadUrl = (bucketName: string, storagePath: string, token: string) => {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const origin = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com';
+  return `${origin}/v0/b/${bucketName}/o/${encodeURIComponent(storagePath)}?alt=media&token=${token}`;
+};
+
+// Upload a file to one of the caller's notes. Uploads go through here rather than
+// straight to Storage so the quota is checked against what the server recorded,
+// not against sizes the client wrote. The space is reserved in a transaction on
+// the caller's upload entries, so parallel uploads can't add up past the quota.
+export const POST = withAuth<{ noteId: string }>(async (request, caller, { params }) => {
+  try {
+    const { noteId } = await params;
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File) || !file.name) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return NextResponse.json(
+        { error: `${file.name} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`, code: 'attachments/too-large' },
+        { status: 413 }
+      );
+    }
+
+    const note: NoteRecord | null = (await adminDb.ref(`notes/${noteId}`).once('value')).val();
+
+    // Files are stored under and counted against the note owner's account
+    if (!note || note.deletedAt) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+    if (note.userId !== caller.uid) {
+      return apiErrorResponse(
+        new ApiAuthError('Only the note owner can add attachments', 403, 'attachments/not-owner')
+      );
+    }
+
+    // Sizes of the attachments on the caller's notes, as recorded when they were uploaded
+    const readAt = Date.now();
+    const notesSnapshot = await adminDb.ref('notes').orderByChild('userId').equalTo(caller.uid).once('value');
+    const attached: Record<string, number> = {};
+    notesSnapshot.forEach((child) => {
+      Object.entries((child.val() as NoteRecord).attachments || {}).forEach(([attachmentId, attachment]) => {
+        attached[attachmentId] = Number(attachment.size) || 0;
+      });
+    });
+
+    const attachmentId = adminDb.ref(`notes/${noteId}/attachments`).push().key as string;
+    const storagePath = getAttachmentPath(caller.uid, noteId, attachmentId, file.name);
+    const uploadsPath = `attachmentUploads/${caller.uid}`;
+
+    let usage = getAttachmentUsage(null, attached, readAt);
+    const reservation = await adminDb.ref(uploadsPath).transaction((uploads: Record<string, AttachmentUploadEntry> | null) => {
+      usage = getAttachmentUsage(uploads, attached, readAt);
+      if (usage.used + file.size > ATTACHMENT_QUOTA) return;
+
+      const entry: AttachmentUploadEntry = { noteId, storagePath, size: file.size, startedAt: Date.now() };
+      return { ...usage.entries, [attachmentId]: entry };
+    });
+
+    if (!reservation.committed) {
+      const left = ATTACHMENT_QUOTA - Math.min(usage.used, ATTACHMENT_QUOTA);
+      return NextResponse.json(
+        { error: `Not enough storage: ${formatFileSize(left)} of ${formatFileSize(ATTACHMENT_QUOTA)} left`, code: 'attachments/quota-exceeded' },
+        { status: 413 }
+      );
+    }
+
+    // Files of released uploads are no longer counted, so they go now
+    const bucket = adminStorage.bucket();
+    await Promise.all(usage.released.map(entry =>
+      bucket.file(entry.storagePath).delete({ ignoreNotFound: true })
+    ));
+
+    const contentType = file.type || 'application/octet-stream';
+    const downloadToken = randomUUID();
+    try {
+      await bucket.file(storagePath).save(Buffer.from(await file.arrayBuffer()), {
+        contentType,
+        metadata: { metadata: { firebaseStorageDownloadTokens: downloadToken } }
+      });
+
+      const attachment: NoteAttachment = {
+        name: file.name,
+        size: file.size,
+        contentType,
+        storagePath,
+        url: getDownloadUrl(bucket.name, storagePath, downloadToken),
+        uploadedAt: Date.now()
+      };
+
+      await adminDb.ref().update({
+        [`notes/${noteId}/attachments/${attachmentId}`]: attachment,
+        [`${uploadsPath}/${attachmentId}/completedAt`]: attachment.uploadedAt
+      });
+
+      return NextResponse.json({
+        success: true,
+        attachment: { ...attachment, id: attachmentId }
+      });
+    } catch (error) {
+      // Give the space back and don't leave a file behind that no note points to
+      await Promise.all([
+        bucket.file(storagePath).delete({ ignoreNotFound: true }),
+        adminDb.ref(`${uploadsPath}/${attachmentId}`).remove()
+      ]).catch((cleanupError) => {
+        console.error('Error cleaning up failed attachment upload:', cleanupError);
+      });
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error in attachments API:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to upload attachment',
+        code: 'unknown_error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { adminDb, adminStorage } from '@/lib/firebase-admin';
+import { ApiAuthError, apiErrorResponse, verifyCronRequest } from '@/lib/api-auth';
+import { buildPurgeUpdates, getTrashCutoff } from '@/lib/trash';
+import { getAttachmentPrefix } from '@/lib/attachments';
+import type { FolderRecord } from '@/lib/schema';
+
+interface ExpiredItems {
+  noteIds: string[];
+  folders: Array<FolderRecord & { id: string }>;
+}
+
+// Permanently delete notes and folders that have been in the trash longer than
+// the retention period. Meant to be called on a schedule with the cron secret.
+export async function GET(request: Request) {
+  try {
+    verifyCronRequest(request);
+
+    const cutoff = getTrashCutoff();
+    const [notesSnapshot, foldersSnapshot] = await Promise.all([
+      adminDb.ref('notes').orderByChild('deletedAt').startAt(1).endAt(cutoff).once('value'),
+      adminDb.ref('folders').orderByChild('deletedAt').startAt(1).endAt(cutoff).once('value')
+    ]);
+
+    // Group expired items by owner, since each owner's folder list needs updating
+    const expiredByUser = new Map<string, ExpiredItems>();
+    const getEntry = (userId: string) => {
+      if (!expiredByUser.has(userId)) {
+        expiredByUser.set(userId, { noteIds: [], folders: [] });
+      }
+      return expiredByUser.get(userId) as ExpiredItems;
+    };
+
+    // Stored files of purged notes, removed once their metadata is gone
+    const attachmentPrefixes: string[] = [];
+    notesSnapshot.forEach((child) => {
+      const note = child.val();
+      getEntry(note.userId).noteIds.push(child.key as string);
+      if (note.attachments) {
+        attachmentPrefixes.push(getAttachmentPrefix(note.userId, child.key as string));
+      }
+    });
+    foldersSnapshot.forEach((child) => {
+      const folder: FolderRecord = child.val();
+      getEntry(folder.userId).folders.push({ ...folder, id: child.key as string });
+    });
+
+    const updates: Record<string, unknown> = {};
+    for (const [userId, { noteIds, folders }] of expiredByUser) {
+      const userFoldersSnapshot = folders.length > 0
+        ? await adminDb.ref(`users/${userId}/folders`).once('value')
+        : null;
+      const userFolders = userFoldersSnapshot?.val();
+      const userFolderIds: string[] = Array.isArray(userFolders)
+        ? userFolders.filter(Boolean)
+        : Object.keys(userFolders || {});
+
+      Object.assign(updates, buildPurgeUpdates({ userId, noteIds, folders, userFolderIds }));
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await adminDb.ref().update(updates);
+    }
+
+    await Promise.all(
+      attachmentPrefixes.map(prefix => adminStorage.bucket().deleteFiles({ prefix }))
+    );
+
+    return NextResponse.json({
+      success: true,
+      cutoff,
+      purged: {
+        notes: notesSnapshot.numChildren(),
+        folders: foldersSnapshot.numChildren()
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return apiErrorResponse(error);
+    }
+
+    console.error('Error in purge-trash API:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to purge trash',
+        code: 'unknown_error'
+      },
+      { status: 500 }
+    );
+  }
+}
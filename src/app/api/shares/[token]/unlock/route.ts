@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import {
+  addUnlockFailure,
+  getShareAccessCookieName,
+  getShareAccessKey,
+  getUnlockClientKey,
+  isShareExpired,
+  isUnlockThrottled,
+  isValidShareToken,
+  verifySharePassword,
+  MAX_UNLOCK_FAILURES_PER_CLIENT,
+  MAX_UNLOCK_FAILURES_PER_SHARE,
+  NoteShare,
+  UnlockFailures
+} from '@/lib/shares';
+
+// Access to a password-protected share lasts a day, or until the share expires
+const ACCESS_COOKIE_MAX_AGE = 24 * 60 * 60;
+
+// The address the request came from. The hosting proxy appends the address it was
+// connected from to `x-forwarded-for`, so only the last entry is trusted; earlier
+// ones are whatever the client sent.
+const getClientAddress = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim() || 'unknown';
+
+// Check the password posted by the form on `/s/[token]` and remember a correct
+// one in a cookie scoped to that share's page
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const sharePath = `/s/${encodeURIComponent(token)}`;
+
+  try {
+    const formData = await request.formData();
+    const password = formData.get('password');
+
+    const shareSnapshot = isValidShareToken(token)
+      ? await adminDb.ref(`shares/${token}`).once('value')
+      : null;
+    const share: NoteShare | null = shareSnapshot?.val() || null;
+
+    if (!share || isShareExpired(share) || !share.passwordHash) {
+      return NextResponse.redirect(new URL(sharePath, request.url), 303);
+    }
+
+    // Failed attempts are counted per client address and for the share as a whole
+    const failurePaths = [
+      `shareUnlockFailures/${token}/clients/${getUnlockClientKey(getClientAddress(request))}`,
+      `shareUnlockFailures/${token}/share`
+    ];
+    const [clientFailures, shareFailures] = await Promise.all(
+      failurePaths.map(async (path): Promise<UnlockFailures | null> => (await adminDb.ref(path).once('value')).val())
+    );
+    if (
+      isUnlockThrottled(clientFailures, MAX_UNLOCK_FAILURES_PER_CLIENT) ||
+      isUnlockThrottled(shareFailures, MAX_UNLOCK_FAILURES_PER_SHARE)
+    ) {
+      return NextResponse.redirect(new URL(`${sharePath}?error=throttled`, request.url), 303);
+    }
+
+    const isValid = typeof password === 'string' && await verifySharePassword(password, share.passwordHash);
+    if (!isValid) {
+      await Promise.all(failurePaths.map(path =>
+        adminDb.ref(path).transaction((failures: UnlockFailures | null) => addUnlockFailure(failures))
+      ));
+      return NextResponse.redirect(new URL(`${sharePath}?error=password`, request.url), 303);
+    }
+
+    const maxAge = share.expiresAt
+      ? Math.min(ACCESS_COOKIE_MAX_AGE, Math.floor((share.expiresAt - Date.now()) / 1000))
+      : ACCESS_COOKIE_MAX_AGE;
+
+    const response = NextResponse.redirect(new URL(sharePath, request.url), 303);
+    response.cookies.set(getShareAccessCookieName(token), getShareAccessKey(token, share), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: sharePath,
+      maxAge
+    });
+    return response;
+  } catch (error) {
+    console.error('Error unlocking share:', error);
+    return NextResponse.redirect(new URL(`${sharePath}?error=unknown`, request.url), 303);
+  }
+}
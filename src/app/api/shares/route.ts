@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { withAuth } from '@/lib/api-auth';
+import { generateShareToken, hashSharePassword, NoteShare } from '@/lib/shares';
+import { MIN_SHARE_PASSWORD_LENGTH } from '@/lib/limits';
+
+// Create a public read-only link for one of the caller's notes. Shares are
+// created here rather than from the client so the token and password hash
+// never depend on client-side code.
+export const POST = withAuth(async (request, caller) => {
+  try {
+    const { noteId, expiresAt, password } = await request.json();
+
+    if (!noteId || typeof noteId !== 'string') {
+      return NextResponse.json(
+        { error: 'Note ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (expiresAt != null && (typeof expiresAt !== 'number' || expiresAt <= Date.now())) {
+      return NextResponse.json(
+        { error: 'Expiry must be a time in the future' },
+        { status: 400 }
+      );
+    }
+
+    if (password != null && (typeof password !== 'string' || password.length < MIN_SHARE_PASSWORD_LENGTH)) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_SHARE_PASSWORD_LENGTH} characters long` },
+        { status: 400 }
+      );
+    }
+
+    const noteSnapshot = await adminDb.ref(`notes/${noteId}`).once('value');
+    const note = noteSnapshot.val();
+
+    // Same response for missing and foreign notes, so note IDs can't be probed
+    if (!note || note.userId !== caller.uid || note.deletedAt) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    const token = generateShareToken();
+    const share: NoteShare = {
+      noteId,
+      userId: caller.uid,
+      noteTitle: note.title,
+      createdAt: Date.now(),
+      ...(expiresAt != null && { expiresAt }),
+      ...(password && { passwordHash: await hashSharePassword(password) })
+    };
+
+    await adminDb.ref(`shares/${token}`).set(share);
+
+    return NextResponse.json({
+      success: true,
+      token,
+      path: `/s/${token}`
+    });
+  } catch (error) {
+    console.error('Error in shares API:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to create share link',
+        code: 'unknown_error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+'use client';
+
+import { FiArchive, FiCopy, FiFolder, FiTag, FiTrash2, FiX } from 'react-icons/fi';
+import { Folder } from '../useFolders';
+import { getFolderAncestry } from '@/lib/folder-tree';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  folders: Folder[]; // Folders the selected notes can be moved to: the user's own
+  isBusy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onMove: (folderId: string) => void;
+  onTag: () => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const getFolderPath = (folders: Folder[], folderId: string) =>
+  getFolderAncestry(folders, folderId).map(folder => folder.name).join(' / ');
+
+const actionClassName =
+  'flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Actions for the notes selected in the grid, shown while any are selected
+export const BulkActionBar = ({
+  selectedCount,
+  visibleCount,
+  folders,
+  isBusy,
+  onSelectAll,
+  onClear,
+  onMove,
+  onTag,
+  onDuplicate,
+  onExport,
+  onDelete
+}: BulkActionBarProps) => {
+  const sortedFolders = [...folders].sort((a, b) =>
+    getFolderPath(folders, a.id).localeCompare(getFolderPath(folders, b.id))
+  );
+
+  return (
+    <div className="sticky top-0 z-10 mx-6 mt-4 flex flex-wrap items-center gap-2 rounded-lg border border-blue-100 bg-blue-50 px-4 py-2 shadow-sm">
+      <span className="text-sm font-medium text-blue-900">
+        {selectedCount} {selectedCount === 1 ? 'note' : 'notes'} selected
+      </span>
+      {selectedCount < visibleCount && (
+        <button onClick={onSelectAll} className="text-sm text-blue-700 hover:underline">
+          Select all {visibleCount}
+        </button>
+      )}
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1.5 text-sm text-gray-700">
+          <FiFolder className="h-4 w-4" />
+          <span className="sr-only">Move to folder</span>
+          <select
+            value=""
+            disabled={isBusy || folders.length === 0}
+            onChange={(e) => {
+              if (e.target.value) onMove(e.target.value);
+            }}
+            className="border border-gray-300 rounded-md px-2 py-1.5 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="">Move to…</option>
+            {sortedFolders.map(folder => (
+              <option key={folder.id} value={folder.id}>{getFolderPath(folders, folder.id)}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={onTag} disabled={isBusy} className={actionClassName} title="Add a tag to the selected notes">
+          <FiTag className="h-4 w-4" />
+          <span>Tag</span>
+        </button>
+        <button onClick={onDuplicate} disabled={isBusy} className={actionClassName} title="Duplicate the selected notes">
+          <FiCopy className="h-4 w-4" />
+          <span>Duplicate</span>
+        </button>
+        <button onClick={onExport} disabled={isBusy} className={actionClassName} title="Download the selected notes as Markdown files in a ZIP">
+          <FiArchive className="h-4 w-4" />
+          <span>Export</span>
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={isBusy}
+          className={`${actionClassName} text-red-600 hover:bg-red-50`}
+          title="Move the selected notes to the trash"
+        >
+          <FiTrash2 className="h-4 w-4" />
+          <span>Delete</span>
+        </button>
+        <button
+          onClick={onClear}
+          className="p-1.5 rounded-md text-gray-500 hover:bg-blue-100 hover:text-gray-700"
+          title="Clear selection"
+        >
+          <FiX className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -3,24 +3,33 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
-import { FiFolder, FiPlus, FiTrash2, FiChevronDown, FiChevronRight } from 'react-icons/fi';
+import { FiFolder, FiFolderPlus, FiPlus, FiTrash, FiTrash2, FiChevronDown, FiChevronRight, FiTag, FiEdit2, FiUsers, FiLogOut } from 'react-icons/fi';
 import { toast } from 'react-hot-toast';
+import type { TagCount } from '@/lib/tags';
+import { buildFolderTree, getFolderSlugPath, FolderTreeNode } from '@/lib/folder-tree';
+import type { FolderRole } from '@/lib/folder-members';
+import type { FolderRecord } from '@/lib/schema';
+import { MAX_FOLDER_NAME_LENGTH } from '@/lib/limits';
 
-export interface Folder {
+export interface Folder extends FolderRecord {
   id: string;
-  name: string;
-  userId: string;
-  createdAt: number;
-  noteIds?: string[];
-  updatedAt?: number;
+  role?: FolderRole;
 }
 
 interface FolderListProps {
   folders: Folder[];
   currentFolderId: string | null;
   onFolderSelect: (folderId: string | null, folderName?: string) => void;
-  onCreateFolder: (name: string) => void;
+  onCreateFolder: (name: string, parentId?: string | null) => void;
   onDeleteFolder: (folderId: string) => void;
+  onMoveFolder?: (folderId: string, parentId: string | null) => void;
+  tags?: TagCount[];
+  activeTag?: string | null;
+  onTagSelect?: (tag: string) => void;
+  onRenameTag?: (tag: string) => void;
+  sharedFolders?: Folder[];
+  onShareFolder?: (folder: Folder) => void;
+  onLeaveFolder?: (folder: Folder) => void;
 }
 
 export const FolderList = ({
@@ -29,6 +38,14 @@ export const FolderList = ({
   onFolderSelect,
   onCreateFolder,
   onDeleteFolder,
+  onMoveFolder,
+  tags = [],
+  activeTag = null,
+  onTagSelect,
+  onRenameTag,
+  sharedFolders = [],
+  onShareFolder,
+  onLeaveFolder,
 }: FolderListProps) => {
   const router = useRouter();
   const pathname = usePathname();
@@ -39,6 +56,10 @@ export const FolderList = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [parentForNewFolder, setParentForNewFolder] = useState<Folder | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [draggedFolderId, setDraggedFolderId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
   // Close the form when clicking outside
   useEffect(() => {
@@ -46,6 +67,7 @@ export const FolderList = ({
       if (isCreatingFolder && formRef.current && !formRef.current.contains(event.target as Node)) {
         setIsCreatingFolder(false);
         setNewFolderName('');
+        setParentForNewFolder(null);
       }
     };
 
@@ -72,10 +94,11 @@ export const FolderList = ({
       setNewFolderName('');
 
       // Create the folder and wait for it to complete
-      const newFolderId = await onCreateFolder(nameToCreate);
+      const newFolderId = await onCreateFolder(nameToCreate, parentForNewFolder?.id || null);
 
       // Close the form after successful creation
       setIsCreatingFolder(false);
+      setParentForNewFolder(null);
 
       // Log success
       console.log('Folder created successfully with ID:', newFolderId);
@@ -124,12 +147,14 @@ export const FolderList = ({
     console.log('=== End Debug ===');
   };
 
+  const isTrashActive = searchParams.get('view') === 'trash';
+
   const isActive = (folderId: string | null) => {
-    const currentFolderParam = searchParams.get('folder');
+    const currentFolderParam = searchParams.get('folder') || searchParams.get('shared');
     
     if (!folderId) {
       // Check if we're on the root notes page without any folder selected
-      return pathname === '/notes' && !currentFolderParam;
+      return pathname === '/notes' && !currentFolderParam && !isTrashActive;
     }
     
     // If no folder is selected in URL, check if this is the current folder
@@ -137,23 +162,171 @@ export const FolderList = ({
       return false;
     }
     
-    // Get the folder from the folders list
-    const folder = folders.find(f => f.id === folderId);
-    if (!folder) return false;
-    
-    // Create URL-friendly name for comparison (same as in page.tsx)
-    const folderUrlName = folder.name
-      .toLowerCase()
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-+|-+$/g, '');
-    
-    // Compare with the URL parameter
-    return currentFolderParam === folderUrlName;
+    // The current folder is resolved from its URL path in page.tsx
+    return currentFolderId === folderId;
+  };
+
+  // Folders arranged as a tree, newest first at every level
+  const folderTree = buildFolderTree(folders);
+
+  const toggleCollapsed = (folderId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
   };
 
-  // Sort folders by creation date (newest first)
-  const sortedFolders = [...folders].sort((a, b) => b.createdAt - a.createdAt);
+  const startCreatingFolder = (parent: Folder | null) => {
+    setParentForNewFolder(parent);
+    setIsCreatingFolder(true);
+    setNewFolderName('');
+
+    // Make sure the new subfolder will be visible
+    if (parent) {
+      setCollapsedIds(prev => {
+        const next = new Set(prev);
+        next.delete(parent.id);
+        return next;
+      });
+    }
+  };
+
+  // Drop a dragged folder onto another folder, or onto the header to move it to the top level
+  const handleDrop = (e: React.DragEvent, parentId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const folderId = draggedFolderId || e.dataTransfer.getData('text/plain');
+    setDraggedFolderId(null);
+    setDropTargetId(null);
+
+    if (folderId && folderId !== parentId && onMoveFolder) {
+      onMoveFolder(folderId, parentId);
+    }
+  };
+
+  const dragTargetProps = (targetId: string | null) => onMoveFolder ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedFolderId) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTargetId(targetId ?? 'root');
+    },
+    onDragLeave: () => setDropTargetId(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, targetId)
+  } : {};
+
+  const renderFolder = (folder: FolderTreeNode<Folder>) => {
+    const isActiveFolder = isActive(folder.id);
+    const hasChildren = folder.children.length > 0;
+    const isCollapsed = collapsedIds.has(folder.id);
+
+    return (
+      <div key={folder.id} role="treeitem" aria-expanded={hasChildren ? !isCollapsed : undefined}>
+        <div
+          onClick={(e) => handleFolderClick(folder.id, folder.name, e)}
+          className={`group flex items-center justify-between w-full pr-4 py-2 text-sm font-medium rounded-md transition-colors ${
+            isActiveFolder 
+              ? 'bg-blue-50 text-blue-700' 
+              : 'text-gray-700 hover:bg-gray-50'
+          } ${dropTargetId === folder.id ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+          style={{ cursor: 'pointer', paddingLeft: `${0.5 + folder.depth * 1}rem` }}
+          role="button"
+          tabIndex={0}
+          title={getFolderSlugPath(folders, folder.id)}
+          onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && handleFolderClick(folder.id, folder.name, undefined)}
+          draggable={Boolean(onMoveFolder)}
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.setData('text/plain', folder.id);
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedFolderId(folder.id);
+          }}
+          onDragEnd={() => {
+            setDraggedFolderId(null);
+            setDropTargetId(null);
+          }}
+          {...dragTargetProps(folder.id)}
+        >
+          <div className="flex-1 flex items-center min-w-0">
+            <button
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                toggleCollapsed(folder.id);
+              }}
+              className={`p-0.5 mr-1 text-gray-400 hover:text-gray-600 ${hasChildren ? '' : 'invisible'}`}
+              aria-label={isCollapsed ? `Expand ${folder.name}` : `Collapse ${folder.name}`}
+              tabIndex={hasChildren ? 0 : -1}
+            >
+              {isCollapsed ? <FiChevronRight size={14} /> : <FiChevronDown size={14} />}
+            </button>
+            <FiFolder className="mr-2 h-4 w-4 flex-shrink-0 text-gray-500" />
+            <span className="truncate">{folder.name}</span>
+            {folder.members && Object.keys(folder.members).length > 0 && (
+              <FiUsers className="ml-1.5 h-3 w-3 flex-shrink-0 text-gray-400" title="Shared" />
+            )}
+          </div>
+          <div className="flex items-center">
+            <span className="text-xs bg-gray-100 text-gray-600 rounded-full px-2 py-0.5 mr-1">
+              {folder.noteCount || 0}
+            </span>
+            {onShareFolder && (
+              <button
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  onShareFolder(folder);
+                }}
+                className="text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                aria-label={`Share folder ${folder.name}`}
+              >
+                <FiUsers size={14} />
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                startCreatingFolder(folder);
+              }}
+              className="text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+              aria-label={`New subfolder in ${folder.name}`}
+            >
+              <FiFolderPlus size={14} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                const message = hasChildren
+                  ? `Move folder "${folder.name}", its subfolders and all their notes to the trash?`
+                  : `Move folder "${folder.name}" and all its notes to the trash?`;
+                if (window.confirm(message)) {
+                  onDeleteFolder(folder.id);
+                }
+              }}
+              className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+              aria-label={`Delete folder ${folder.name}`}
+            >
+              <FiTrash2 size={14} />
+            </button>
+          </div>
+        </div>
+
+        {hasChildren && !isCollapsed && (
+          <div role="group">
+            {folder.children.map(renderFolder)}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="w-64 border-r border-gray-200 bg-white flex flex-col h-screen">
@@ -175,10 +348,16 @@ export const FolderList = ({
 
         {/* Folders Section */}
         <div className="flex flex-col flex-1 min-h-0">
-          <div className="px-4 py-2 border-b border-gray-100">
+          <div
+            className={`px-4 py-2 border-b border-gray-100 ${dropTargetId === 'root' ? 'bg-blue-50' : ''}`}
+            {...dragTargetProps(null)}
+          >
             <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
               Folders ({folders.length})
             </h2>
+            {draggedFolderId && (
+              <p className="text-xs text-blue-600 mt-1">Drop here to move to the top level</p>
+            )}
           </div>
           <div className="flex-1 overflow-y-auto py-1">
             {folders.length === 0 && (
@@ -186,48 +365,55 @@ export const FolderList = ({
             )}
 
             {folders.length > 0 && (
+              <div className="mb-2" role="tree" aria-label="Folders">
+                {folderTree.map(renderFolder)}
+              </div>
+            )}
+
+            {/* Folders other users shared with us */}
+            {sharedFolders.length > 0 && (
               <div className="mb-2">
-                {sortedFolders.map((folder) => {
-                  const isActiveFolder = isActive(folder.id);
-                  return (
-                    <div
-                      key={folder.id}
-                      onClick={(e) => handleFolderClick(folder.id, folder.name, e)}
-                      className={`group flex items-center justify-between w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                        isActiveFolder 
-                          ? 'bg-blue-50 text-blue-700' 
-                          : 'text-gray-700 hover:bg-gray-50'
-                      }`}
-                      style={{ cursor: 'pointer' }}
-                      role="button"
-                      tabIndex={0}
-                      onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && handleFolderClick(folder.id, folder.name, undefined)}
-                    >
-                      <div className="flex-1 flex items-center min-w-0">
-                        <FiFolder className="mr-3 h-4 w-4 flex-shrink-0 text-gray-500" />
-                        <span className="truncate">{folder.name}</span>
-                      </div>
-                      <div className="flex items-center">
-                        <span className="text-xs bg-gray-100 text-gray-600 rounded-full px-2 py-0.5 mr-2">
-                          {folder.noteIds?.length || 0}
-                        </span>
+                <h2 className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                  Shared with me ({sharedFolders.length})
+                </h2>
+                {sharedFolders.map((folder) => (
+                  <div
+                    key={folder.id}
+                    onClick={(e) => handleFolderClick(folder.id, folder.name, e)}
+                    className={`group flex items-center justify-between w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                      isActive(folder.id)
+                        ? 'bg-blue-50 text-blue-700'
+                        : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    style={{ cursor: 'pointer' }}
+                    role="button"
+                    tabIndex={0}
+                    onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && handleFolderClick(folder.id, folder.name, undefined)}
+                  >
+                    <div className="flex-1 flex items-center min-w-0">
+                      <FiUsers className="mr-2 h-4 w-4 flex-shrink-0 text-gray-500" />
+                      <span className="truncate">{folder.name}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <span className="text-xs bg-gray-100 text-gray-600 rounded-full px-2 py-0.5 mr-1">
+                        {folder.role === 'editor' ? 'Edit' : 'View'}
+                      </span>
+                      {onLeaveFolder && (
                         <button
                           onClick={(e) => {
                             e.preventDefault();
                             e.stopPropagation();
-                            if (window.confirm(`Delete folder "${folder.name}" and all its notes?`)) {
-                              onDeleteFolder(folder.id);
-                            }
+                            onLeaveFolder(folder);
                           }}
                           className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
-                          aria-label={`Delete folder ${folder.name}`}
+                          aria-label={`Leave folder ${folder.name}`}
                         >
-                          <FiTrash2 size={14} />
+                          <FiLogOut size={14} />
                         </button>
-                      </div>
+                      )}
                     </div>
-                  );
-                })}
+                  </div>
+                ))}
               </div>
             )}
 
@@ -238,12 +424,18 @@ export const FolderList = ({
                   onSubmit={handleCreateFolder}
                   className="flex flex-col space-y-2 bg-white p-3 rounded-lg border border-gray-200 shadow-sm"
                 >
+                  {parentForNewFolder && (
+                    <p className="text-xs text-gray-500 truncate">
+                      Inside &quot;{parentForNewFolder.name}&quot;
+                    </p>
+                  )}
                   <div className="flex space-x-2">
                     <input
                       type="text"
                       value={newFolderName}
                       onChange={(e) => setNewFolderName(e.target.value)}
-                      placeholder="New folder name"
+                      maxLength={MAX_FOLDER_NAME_LENGTH}
+                      placeholder={parentForNewFolder ? 'New subfolder name' : 'New folder name'}
                       className="flex-1 px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
                       autoFocus
                       disabled={isSubmitting}
@@ -255,6 +447,7 @@ export const FolderList = ({
                       onClick={() => {
                         setIsCreatingFolder(false);
                         setNewFolderName('');
+                        setParentForNewFolder(null);
                       }}
                       className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-md border border-gray-300 disabled:opacity-50"
                       disabled={isSubmitting}
@@ -273,10 +466,7 @@ export const FolderList = ({
                 </form>
               ) : (
                 <button
-                  onClick={() => {
-                    setIsCreatingFolder(true);
-                    setNewFolderName('');
-                  }}
+                  onClick={() => startCreatingFolder(null)}
                   className="w-full flex items-center justify-center px-4 py-2 border border-dashed border-gray-300 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-50 hover:border-gray-400 focus:outline-none"
                   aria-label="New folder"
                 >
@@ -287,6 +477,76 @@ export const FolderList = ({
             </div>
           </div>
         </div>
+
+        {/* Tags */}
+        {tags.length > 0 && (
+          <div className="flex flex-col max-h-56 border-t border-gray-200 shrink-0">
+            <div className="px-4 py-2 border-b border-gray-100">
+              <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                Tags ({tags.length})
+              </h2>
+            </div>
+            <div className="overflow-y-auto py-1">
+              {tags.map(({ name, count }) => {
+                const isActiveTag = activeTag === name;
+                return (
+                  <div
+                    key={name}
+                    onClick={() => onTagSelect?.(name)}
+                    className={`group flex items-center justify-between w-full px-4 py-1.5 text-sm rounded-md transition-colors ${
+                      isActiveTag
+                        ? 'bg-blue-50 text-blue-700 font-medium'
+                        : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    style={{ cursor: 'pointer' }}
+                    role="button"
+                    tabIndex={0}
+                    aria-pressed={isActiveTag}
+                    onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && onTagSelect?.(name)}
+                  >
+                    <div className="flex-1 flex items-center min-w-0">
+                      <FiTag className="mr-3 h-4 w-4 flex-shrink-0 text-gray-500" />
+                      <span className="truncate">{name}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <span className="text-xs bg-gray-100 text-gray-600 rounded-full px-2 py-0.5 mr-2">
+                        {count}
+                      </span>
+                      {onRenameTag && (
+                        <button
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            onRenameTag(name);
+                          }}
+                          className="text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                          aria-label={`Rename or merge tag ${name}`}
+                        >
+                          <FiEdit2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Trash */}
+        <div className="p-2 border-t border-gray-200 shrink-0">
+          <Link
+            href="/notes?view=trash"
+            className={`flex items-center px-4 py-3 text-sm rounded-md cursor-pointer transition-colors ${
+              isTrashActive
+                ? 'bg-blue-50 text-blue-700 font-medium'
+                : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <FiTrash className="mr-3 h-4 w-4" />
+            <span className="font-medium">Trash</span>
+          </Link>
+        </div>
       </div>
     </div>
   );
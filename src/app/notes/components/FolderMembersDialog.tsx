@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { FiUserPlus, FiUserX, FiUsers, FiX } from 'react-icons/fi';
+import { FOLDER_ROLES, FolderRole } from '@/lib/folder-members';
+import { useFolderMembers } from '../useFolderMembers';
+import { Folder } from '../useFolders';
+
+interface FolderMembersDialogProps {
+  folder: Folder;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<FolderRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit'
+};
+
+export const FolderMembersDialog = ({ folder, onClose }: FolderMembersDialogProps) => {
+  const { inviteMember, removeMember } = useFolderMembers();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<FolderRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const [pendingMemberId, setPendingMemberId] = useState<string | null>(null);
+
+  const members = Object.entries(folder.members || {})
+    .sort(([, a], [, b]) => a.addedAt - b.addedAt);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsInviting(true);
+    try {
+      await inviteMember(folder.id, email.trim(), role);
+      setEmail('');
+    } catch {
+      // Reported by the hook
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, memberEmail: string, newRole: FolderRole) => {
+    setPendingMemberId(memberId);
+    try {
+      await inviteMember(folder.id, memberEmail, newRole);
+    } catch {
+      // Reported by the hook
+    } finally {
+      setPendingMemberId(null);
+    }
+  };
+
+  const handleRemove = async (memberId: string, memberEmail: string) => {
+    if (!window.confirm(`Stop sharing "${folder.name}" with ${memberEmail}?`)) return;
+
+    setPendingMemberId(memberId);
+    try {
+      await removeMember(folder.id, memberId);
+    } catch {
+      // Reported by the hook
+    } finally {
+      setPendingMemberId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 truncate">Share &quot;{folder.name}&quot;</h3>
+            <p className="text-sm text-gray-500">
+              Members see the notes in this folder. Subfolders are not shared.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 p-1 rounded-full hover:bg-gray-100"
+            title="Close"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleInvite} className="px-6 py-4 flex gap-2 border-b border-gray-200">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email address"
+            required
+            className="flex-1 min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as FolderRole)}
+            className="border border-gray-300 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {FOLDER_ROLES.map(option => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isInviting}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiUserPlus className="mr-1" />
+            {isInviting ? 'Inviting...' : 'Invite'}
+          </button>
+        </form>
+
+        <div className="px-6 py-4 max-h-72 overflow-y-auto">
+          <h4 className="flex items-center text-sm font-medium text-gray-700 mb-2">
+            <FiUsers className="mr-2" />
+            Members ({members.length})
+          </h4>
+          {members.length === 0 ? (
+            <p className="text-sm text-gray-500">Only you can see this folder.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {members.map(([memberId, member]) => (
+                <li key={memberId} className="flex items-center justify-between py-2">
+                  <div className="min-w-0 text-sm">
+                    {member.displayName && (
+                      <p className="font-medium text-gray-900 truncate">{member.displayName}</p>
+                    )}
+                    <p className="text-gray-500 truncate">{member.email}</p>
+                  </div>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <select
+                      value={member.role}
+                      disabled={pendingMemberId === memberId}
+                      onChange={(e) => handleRoleChange(memberId, member.email, e.target.value as FolderRole)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {FOLDER_ROLES.map(option => (
+                        <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRemove(memberId, member.email)}
+                      disabled={pendingMemberId === memberId}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded-full hover:bg-gray-100 disabled:opacity-50"
+                      title="Remove member"
+                    >
+                      <FiUserX size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { FiAlertTriangle, FiFileText, FiFolder, FiUpload, FiX } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import { getFolderAncestry } from '@/lib/folder-tree';
+import { getImportFolderPath } from '@/lib/notes-import';
+import { useNotesImport, PreparedImport } from '../useNotesImport';
+import { Folder } from '../useFolders';
+
+interface ImportDialogProps {
+  folders: Folder[];
+  defaultFolderId?: string | null;
+  onClose: () => void;
+}
+
+const ACCEPTED_FILES = '.md,.markdown,.txt,.zip,.json';
+
+// Preview rows shown before the list is cut off
+const PREVIEW_LIMIT = 200;
+
+export const ImportDialog = ({ folders, defaultFolderId = null, onClose }: ImportDialogProps) => {
+  const { progress, prepareImport, runImport } = useNotesImport(folders);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [prepared, setPrepared] = useState<PreparedImport | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [destinationFolderId, setDestinationFolderId] = useState<string>(defaultFolderId || '');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const isImporting = progress !== null;
+  const plan = prepared?.plan;
+  const duplicateCount = prepared?.duplicateKeys.size || 0;
+  const notesToImport = plan
+    ? plan.notes.length - (skipDuplicates ? duplicateCount : 0)
+    : 0;
+
+  const folderPaths = useMemo(
+    () => plan ? plan.folders.map(folder => getImportFolderPath(plan, folder.key).join(' / ')) : [],
+    [plan]
+  );
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    try {
+      setPrepared(await prepareImport(files));
+    } catch (error) {
+      console.error('Error reading import files:', error);
+      toast.error('Failed to read the selected files');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!prepared) return;
+
+    try {
+      const result = await runImport(prepared, {
+        destinationFolderId: destinationFolderId || null,
+        skipDuplicates
+      });
+      toast.success(
+        `Imported ${result.notesCreated} ${result.notesCreated === 1 ? 'note' : 'notes'}` +
+        (result.foldersCreated > 0 ? ` and ${result.foldersCreated} ${result.foldersCreated === 1 ? 'folder' : 'folders'}` : '')
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error importing notes:', error);
+      toast.error(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Import notes</h3>
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="text-gray-400 hover:text-gray-500 p-1 rounded-full hover:bg-gray-100 disabled:opacity-50"
+            title="Close"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {!plan ? (
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                handleFiles(Array.from(e.dataTransfer.files));
+              }}
+              onClick={() => fileInputRef.current?.click()}
+              onKeyDown={(e) => e.key === 'Enter' && fileInputRef.current?.click()}
+              role="button"
+              tabIndex={0}
+              className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed px-6 py-12 text-center cursor-pointer transition-colors ${
+                isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              <FiUpload className="h-8 w-8 text-gray-400 mb-3" />
+              <p className="text-sm font-medium text-gray-700">
+                {isReading ? 'Reading files...' : 'Drop files here or click to choose'}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                Markdown (.md), text (.txt), ZIP archives with folders, or a JSON backup
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILES}
+                className="hidden"
+                onChange={(e) => {
+                  handleFiles(Array.from(e.target.files || []));
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="import-destination" className="block text-sm font-medium text-gray-700 mb-1">
+                  Import into
+                </label>
+                <select
+                  id="import-destination"
+                  value={destinationFolderId}
+                  onChange={(e) => setDestinationFolderId(e.target.value)}
+                  disabled={isImporting}
+                  className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Top level (loose notes go to &quot;Imported notes&quot;)</option>
+                  {folders.map(folder => (
+                    <option key={folder.id} value={folder.id}>
+                      {getFolderAncestry(folders, folder.id).map(f => f.name).join(' / ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {folderPaths.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">
+                    Folders ({folderPaths.length})
+                  </h4>
+                  <p className="text-xs text-gray-500 mb-1">
+                    Folders with the same name in the same place are merged.
+                  </p>
+                  <ul className="text-sm text-gray-600 max-h-32 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                    {folderPaths.slice(0, PREVIEW_LIMIT).map((path, index) => (
+                      <li key={plan.folders[index].key} className="flex items-center px-3 py-1.5">
+                        <FiFolder className="mr-2 shrink-0 text-gray-400" />
+                        <span className="truncate">{path}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-1">
+                  Notes ({plan.notes.length})
+                </h4>
+                {plan.notes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No notes found in the selected files.</p>
+                ) : (
+                  <ul className="text-sm max-h-60 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                    {plan.notes.slice(0, PREVIEW_LIMIT).map(note => {
+                      const isDuplicate = prepared.duplicateKeys.has(note.key);
+                      const folderPath = getImportFolderPath(plan, note.folderKey).join(' / ');
+                      return (
+                        <li
+                          key={note.key}
+                          className={`flex items-center justify-between px-3 py-1.5 ${isDuplicate && skipDuplicates ? 'opacity-50' : ''}`}
+                        >
+                          <div className="flex items-center min-w-0">
+                            <FiFileText className="mr-2 shrink-0 text-gray-400" />
+                            <span className="truncate text-gray-800" title={note.source}>{note.title}</span>
+                            {folderPath && <span className="ml-2 truncate text-xs text-gray-400">in {folderPath}</span>}
+                          </div>
+                          {isDuplicate && (
+                            <span className="ml-2 shrink-0 text-xs bg-amber-100 text-amber-800 rounded-full px-2 py-0.5">
+                              Duplicate title
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                    {plan.notes.length > PREVIEW_LIMIT && (
+                      <li className="px-3 py-1.5 text-gray-500">
+                        and {plan.notes.length - PREVIEW_LIMIT} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+
+              {duplicateCount > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    disabled={isImporting}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Skip {duplicateCount} {duplicateCount === 1 ? 'note' : 'notes'} with a title that already exists
+                </label>
+              )}
+
+              {plan.skipped.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  <p className="flex items-center font-medium mb-1">
+                    <FiAlertTriangle className="mr-2" />
+                    {plan.skipped.length} {plan.skipped.length === 1 ? 'file' : 'files'} will not be imported
+                  </p>
+                  <ul className="list-disc pl-6 max-h-24 overflow-y-auto">
+                    {plan.skipped.map(({ source, reason }) => (
+                      <li key={source}>{source}: {reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {progress && `Importing ${progress.done} of ${progress.total}...`}
+          </span>
+          <div className="flex space-x-2">
+            {plan && (
+              <button
+                type="button"
+                onClick={() => setPrepared(null)}
+                disabled={isImporting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Back
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!plan || notesToImport + (plan?.folders.length || 0) === 0 || isImporting}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : `Import ${notesToImport} ${notesToImport === 1 ? 'note' : 'notes'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+'use client';
+
+import { useMemo } from 'react';
+import { renderMarkdown } from '@/lib/markdown';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownPreviewProps {
+  content: string;
+  className?: string;
+}
+
+// Renders note Markdown; the HTML is sanitized in renderMarkdown before it is injected
+export const MarkdownPreview = ({ content, className = '' }: MarkdownPreviewProps) => {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  if (!content.trim()) {
+    return <p className={`text-gray-400 italic ${className}`}>Nothing to preview</p>;
+  }
+
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
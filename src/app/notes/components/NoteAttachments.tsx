@@ -0,0 +1,151 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FiDownload, FiFile, FiPaperclip, FiPlusSquare, FiTrash2, FiUpload } from 'react-icons/fi';
+import { NoteAttachmentWithId, formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { AttachmentUpload } from '../useNoteAttachments';
+
+interface NoteAttachmentsProps {
+  attachments: NoteAttachmentWithId[];
+  uploads: AttachmentUpload[];
+  canEdit: boolean; // Only the note's owner can add or remove attachments
+  onUpload: (files: File[]) => void;
+  onDelete: (attachment: NoteAttachmentWithId) => void;
+  onInsert?: (attachment: NoteAttachmentWithId) => void;
+}
+
+export const NoteAttachments = ({
+  attachments,
+  uploads,
+  canEdit,
+  onUpload,
+  onDelete,
+  onInsert
+}: NoteAttachmentsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  if (!canEdit && attachments.length === 0) return null;
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onUpload(files);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onUpload(files);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-4">
+      <h3 className="flex items-center text-sm font-medium text-gray-700 mb-2">
+        <FiPaperclip className="mr-1" />
+        Attachments {attachments.length > 0 && `(${attachments.length})`}
+      </h3>
+
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center rounded-md border border-gray-200 p-2 text-sm">
+              {isImageAttachment(attachment) ? (
+                <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                  <img
+                    src={attachment.url}
+                    alt={attachment.name}
+                    className="h-12 w-12 rounded object-cover bg-gray-100"
+                    loading="lazy"
+                  />
+                </a>
+              ) : (
+                <div className="h-12 w-12 shrink-0 rounded bg-gray-100 flex items-center justify-center text-gray-400">
+                  <FiFile size={20} />
+                </div>
+              )}
+              <div className="ml-2 min-w-0 flex-1">
+                <p className="truncate font-medium text-gray-800" title={attachment.name}>{attachment.name}</p>
+                <p className="text-xs text-gray-500">{formatFileSize(attachment.size)}</p>
+              </div>
+              <div className="flex items-center ml-1">
+                {canEdit && onInsert && (
+                  <button
+                    type="button"
+                    onClick={() => onInsert(attachment)}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 rounded-full hover:bg-gray-100"
+                    title="Insert into note"
+                  >
+                    <FiPlusSquare size={16} />
+                  </button>
+                )}
+                <a
+                  href={attachment.url}
+                  download={attachment.name}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="p-1.5 text-gray-400 hover:text-blue-600 rounded-full hover:bg-gray-100"
+                  title="Download"
+                >
+                  <FiDownload size={16} />
+                </a>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(attachment)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded-full hover:bg-gray-100"
+                    title="Remove attachment"
+                  >
+                    <FiTrash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploads.map(upload => (
+        <div key={upload.id} className="mb-2 text-sm text-gray-600">
+          <div className="flex justify-between">
+            <span className="truncate">{upload.name}</span>
+            <span>{upload.progress}%</span>
+          </div>
+          <div className="h-1.5 rounded bg-gray-200 overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${upload.progress}%` }} />
+          </div>
+        </div>
+      ))}
+
+      {canEdit && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          onKeyDown={(e) => e.key === 'Enter' && fileInputRef.current?.click()}
+          role="button"
+          tabIndex={0}
+          className={`flex items-center justify-center rounded-md border-2 border-dashed px-4 py-3 text-sm cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:border-gray-400'
+          }`}
+        >
+          <FiUpload className="mr-2" />
+          Drop files here or click to upload
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
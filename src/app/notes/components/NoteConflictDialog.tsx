@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo } from 'react';
+import { FiAlertTriangle } from 'react-icons/fi';
+import { diffLines } from '@/lib/line-diff';
+import { NoteWithId } from '../useNotes';
+
+interface NoteConflictDialogProps {
+  remoteNote: NoteWithId;
+  localTitle: string;
+  localContent: string;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).replace(',', '');
+
+export const NoteConflictDialog = ({
+  remoteNote,
+  localTitle,
+  localContent,
+  onKeepMine,
+  onUseTheirs,
+  onMerge,
+  onCancel
+}: NoteConflictDialogProps) => {
+  // Lines only on the other device show as removed, lines only in this editor as added
+  const diff = useMemo(
+    () => diffLines(`${remoteNote.title}\n\n${remoteNote.content}`, `${localTitle}\n\n${localContent}`),
+    [remoteNote, localTitle, localContent]
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="flex items-start px-6 py-4 border-b border-gray-200">
+          <FiAlertTriangle className="mt-1 mr-3 h-5 w-5 flex-shrink-0 text-amber-500" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">This note was changed elsewhere</h3>
+            <p className="text-sm text-gray-500">
+              Another device saved this note on {formatTime(remoteNote.updatedAt)} while you were editing.
+              Choose which version to keep, or merge them by hand.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          <div className="flex gap-4 mb-2 text-xs">
+            <span className="px-2 py-0.5 rounded bg-red-50 text-red-800">- Other device</span>
+            <span className="px-2 py-0.5 rounded bg-green-50 text-green-800">+ Your changes</span>
+          </div>
+          <pre className="text-xs font-mono leading-5">
+            {diff.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.type === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                      ? 'bg-red-50 text-red-800'
+                      : 'text-gray-700'
+                }
+              >
+                <span className="select-none inline-block w-4 text-gray-400">
+                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                </span>
+                {line.text || ' '}
+              </div>
+            ))}
+          </pre>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md border border-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onUseTheirs}
+            className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md border border-gray-300"
+          >
+            Use other version
+          </button>
+          <button
+            type="button"
+            onClick={onMerge}
+            className="px-3 py-2 text-sm text-blue-700 hover:bg-blue-50 rounded-md border border-blue-300"
+          >
+            Merge by hand
+          </button>
+          <button
+            type="button"
+            onClick={onKeepMine}
+            className="px-3 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+          >
+            Keep my version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,69 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { FiSave, FiTrash2, FiX, FiCopy } from 'react-icons/fi';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { FiSave, FiTrash2, FiX, FiCopy, FiClock, FiShare2 } from 'react-icons/fi';
 import { toast } from 'react-hot-toast';
-import { useNotes } from '../useNotes';
+import { useNotes, NoteConflictError } from '../useNotes';
 
 import { NoteWithId } from '../useNotes';
 import { Folder } from '../useFolders';
+import { NoteRevisionWithId } from '../useNoteRevisions';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import { TagInput } from './TagInput';
+import { useTags } from '../useTags';
+import { getFolderAncestry } from '@/lib/folder-tree';
+import { MarkdownPreview } from './MarkdownPreview';
+import { NoteConflictDialog } from './NoteConflictDialog';
+import { ShareDialog } from './ShareDialog';
+import { PresenceAvatars, PresenceBanner } from './PresenceIndicators';
+import { PresenceCursors } from './PresenceCursors';
+import { useNotePresence } from '../useNotePresence';
+import { NoteAttachments } from './NoteAttachments';
+import { useNoteAttachments } from '../useNoteAttachments';
+import { useAuth } from '@/context/AuthContext';
+import { NoteAttachmentWithId, getAttachmentMarkdown, getNoteAttachments } from '@/lib/attachments';
+import { useNoteDraft, NoteDraft } from '../useNoteDraft';
+import { mergeWithConflictMarkers } from '@/lib/line-diff';
+import { MAX_NOTE_TITLE_LENGTH } from '@/lib/limits';
+
+type EditorMode = 'write' | 'split' | 'preview';
+
+const EDITOR_MODES: { value: EditorMode; label: string }[] = [
+  { value: 'write', label: 'Write' },
+  { value: 'split', label: 'Split' },
+  { value: 'preview', label: 'Preview' }
+];
+
+export interface NoteSaveOptions {
+  expectedUpdatedAt?: number; // Version of the note the edits are based on
+}
+
+// The saved version the editor's changes are based on; text is null when unknown
+interface EditBase {
+  updatedAt: number | null;
+  title: string | null;
+  content: string | null;
+}
+
+const formatDraftTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).replace(',', '');
 
 interface NoteEditorProps {
   note?: NoteWithId | null;
-  onSave: (title: string, content: string, folderId: string) => Promise<void>;
+  onSave: (title: string, content: string, folderId: string, tags: string[], options?: NoteSaveOptions) => Promise<void>;
   onDelete?: () => void;
   onClose: () => void;
   folders: Folder[];
   folderId?: string | null;
+  readOnly?: boolean; // Viewing a note in a folder shared with view-only access
+  canShare?: boolean; // Only the owner can create share links
 }
 
 // Helper to generate a unique key for the editor to force remount
@@ -35,30 +84,77 @@ export const NoteEditor = ({
   onDelete,
   onClose,
   folders = [],
-  folderId = null
+  folderId = null,
+  readOnly = false,
+  canShare = true
 }: NoteEditorProps) => {
   const editorKey = useEditorKey(note?.id);
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [editorMode, setEditorMode] = useState<EditorMode>(readOnly ? 'preview' : 'write');
   const [selectedFolderId, setSelectedFolderId] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
-  const { moveNoteToFolder } = useNotes();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<NoteDraft | null>(null);
+  const [isDraftChecked, setIsDraftChecked] = useState(false);
+  const [conflictNote, setConflictNote] = useState<NoteWithId | null>(null);
+  const baseRef = useRef<EditBase>({ updatedAt: null, title: null, content: null });
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { moveNoteToFolder, updateNote } = useNotes();
+  const {
+    draft,
+    loading: draftLoading,
+    lastSavedAt,
+    scheduleSave,
+    flushDraft,
+    discardDraft
+  } = useNoteDraft(note?.id);
+  const { collaborators, setStatus: setPresenceStatus, setSelection: setPresenceSelection } = useNotePresence(note?.id);
+  const { user } = useAuth();
+  const { uploads, uploadFiles, deleteAttachment } = useNoteAttachments(note?.id);
+  const attachments = useMemo(() => note ? getNoteAttachments(note) : [], [note]);
+  // Attachments are stored in the owner's account, so only the owner manages them
+  const canEditAttachments = Boolean(note?.id && note.userId === user?.uid && !readOnly);
+  const { tags: knownTags } = useTags();
+  const tagSuggestions = useMemo(() => knownTags.map(tag => tag.name), [knownTags]);
 
   // Check if form is valid (title and content not empty)
   const isFormValid = useMemo(() => {
     return title.trim() !== '' && content.trim() !== '';
   }, [title, content]);
 
-  // Check if there are changes to save (including folder changes)
+  const isTagsChanged = useMemo(() => {
+    const noteTags = note?.tags || [];
+    return tags.length !== noteTags.length || tags.some(tag => !noteTags.includes(tag));
+  }, [note, tags]);
+
+  // Check if there are changes to save (including folder and tag changes)
   const hasChanges = useMemo(() => {
     if (!note) return isFormValid;
     return (
       (title.trim() !== note.title || 
        content.trim() !== note.content ||
+       isTagsChanged ||
        (selectedFolderId && selectedFolderId !== note.folderId))
     ) && isFormValid;
-  }, [note, title, content, selectedFolderId, isFormValid]);
+  }, [note, title, content, isTagsChanged, selectedFolderId, isFormValid]);
+
+  // Unsaved edits worth keeping as a draft
+  const isDirty = useMemo(() => {
+    if (!note?.id) return title.trim() !== '' || content.trim() !== '';
+    return title !== note.title ||
+      content !== note.content ||
+      isTagsChanged ||
+      Boolean(selectedFolderId && selectedFolderId !== note.folderId);
+  }, [note, title, content, isTagsChanged, selectedFolderId]);
+
+  // Others see us as editing while we have unsaved changes
+  useEffect(() => {
+    setPresenceStatus(isDirty && !readOnly ? 'editing' : 'viewing');
+  }, [isDirty, readOnly, setPresenceStatus]);
 
   // Initialize form when the component mounts or when note/folders change
   useEffect(() => {
@@ -72,6 +168,7 @@ export const NoteEditor = ({
       // console.log('Setting up new note form');
       setTitle('');
       setContent('');
+      setTags([]);
 
       // Set default folder: first use folderId from props, then first folder, or empty string
       const defaultFolderId = folderId || (folders.length > 0 ? folders[0].id : '');
@@ -82,6 +179,8 @@ export const NoteEditor = ({
       // Existing note: populate with note data
       setTitle(note.title || '');
       setContent(note.content || '');
+      setTags(note.tags || []);
+      baseRef.current = { updatedAt: note.updatedAt, title: note.title, content: note.content };
 
       // If the note has a folderId, select it (if the folder exists)
       if (note.folderId && folders.some(f => f.id === note.folderId)) {
@@ -96,13 +195,88 @@ export const NoteEditor = ({
     }
   }, [note, folders, folderId, isInitialized]);
 
+  // Offer to recover a draft left by an earlier session once the form is ready
+  useEffect(() => {
+    if (!isInitialized || draftLoading || isDraftChecked) return;
+
+    if (draft) {
+      const isDifferent = note?.id
+        ? draft.title !== note.title ||
+          draft.content !== note.content ||
+          (draft.tags || []).join() !== (note.tags || []).join()
+        : Boolean(draft.title || draft.content);
+
+      if (isDifferent) {
+        setPendingDraft(draft);
+      }
+    }
+    setIsDraftChecked(true);
+  }, [isInitialized, draftLoading, isDraftChecked, draft, note]);
+
+  // Autosave unsaved edits as a draft; drop the draft once nothing differs any more
+  useEffect(() => {
+    if (!isInitialized || !isDraftChecked || pendingDraft) return;
+
+    if (!isDirty) {
+      discardDraft().catch((error) => {
+        console.error('Error discarding draft:', error);
+      });
+      return;
+    }
+
+    scheduleSave({
+      title,
+      content,
+      tags,
+      folderId: selectedFolderId || null,
+      baseUpdatedAt: baseRef.current.updatedAt
+    });
+  }, [isInitialized, isDraftChecked, pendingDraft, isDirty, title, content, tags, selectedFolderId, scheduleSave, discardDraft]);
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+
+    setTitle(pendingDraft.title);
+    setContent(pendingDraft.content);
+    setTags(pendingDraft.tags || []);
+    if (pendingDraft.folderId && folders.some(f => f.id === pendingDraft.folderId)) {
+      setSelectedFolderId(pendingDraft.folderId);
+    }
+
+    // The draft may be based on an older version than the one loaded now
+    if (note?.id && pendingDraft.baseUpdatedAt !== note.updatedAt) {
+      baseRef.current = { updatedAt: pendingDraft.baseUpdatedAt, title: null, content: null };
+    }
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    setPendingDraft(null);
+    discardDraft().catch((error) => {
+      console.error('Error discarding draft:', error);
+    });
+  };
+
+  // Keep unsaved edits as a draft when the editor is closed without saving
+  const handleClose = () => {
+    if (isDirty && !pendingDraft) {
+      flushDraft()
+        .then(() => toast.success('Unsaved changes kept as a draft'))
+        .catch((error) => {
+          console.error('Error saving draft:', error);
+        });
+    }
+    onClose();
+  };
+
   // Handle folder selection change
   const handleFolderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedFolderId(e.target.value);
   };
 
-  // Handle saving a note
-  const handleSave = async () => {
+  // Handle saving a note. `expectedUpdatedAt` overrides the version the edits are
+  // based on, e.g. after choosing to keep this version in a conflict.
+  const handleSave = async (expectedUpdatedAt: number | null = baseRef.current.updatedAt) => {
     // Validate inputs
     const trimmedTitle = title.trim();
     const trimmedContent = content.trim();
@@ -126,48 +300,73 @@ export const NoteEditor = ({
     const isFolderChanged = note?.id && selectedFolderId !== note.folderId;
     const isContentChanged = note?.id && (
       trimmedTitle !== note.title || 
-      trimmedContent !== note.content
+      trimmedContent !== note.content ||
+      isTagsChanged
     );
 
     // Prevent multiple saves
     if (isSaving) return;
 
+    const saveOptions: NoteSaveOptions = note?.id && expectedUpdatedAt !== null
+      ? { expectedUpdatedAt }
+      : {};
+
     setIsSaving(true);
     try {
+      // Write any pending draft first so it can't land after the save and outlive it
+      await flushDraft().catch((error) => {
+        console.error('Error saving draft:', error);
+      });
+
       if (isFolderChanged && note?.id) {
+        const fromFolder = folders.find(f => f.id === note.folderId)?.name || 'previous folder';
+        const toFolder = folders.find(f => f.id === selectedFolderId)?.name || 'selected folder';
+
         // If only folder is being changed
         if (!isContentChanged) {
           await moveNoteToFolder(note.id, selectedFolderId);
-          const fromFolder = folders.find(f => f.id === note.folderId)?.name || 'previous folder';
-          const toFolder = folders.find(f => f.id === selectedFolderId)?.name || 'selected folder';
+          await discardDraft();
           toast.success(`Note moved from "${fromFolder}" to "${toFolder}"`);
           onClose();
           return;
         } else {
-          // If both folder and content are being changed
-          // First move the note to the new folder
-          await moveNoteToFolder(note.id, selectedFolderId);
-          const fromFolder = folders.find(f => f.id === note.folderId)?.name || 'previous folder';
-          const toFolder = folders.find(f => f.id === selectedFolderId)?.name || 'selected folder';
+          // If both folder and content are being changed, the update moves the note too
+          await onSave(trimmedTitle, trimmedContent, selectedFolderId, tags, saveOptions);
+          await discardDraft();
           toast.success(`Note moved from "${fromFolder}" to "${toFolder}"`);
-          
-          // Then save the updated content
-          await onSave(trimmedTitle, trimmedContent, selectedFolderId);
           onClose();
           return;
         }
       }
       
       // For all other cases (new note or just content change)
-      await onSave(trimmedTitle, trimmedContent, selectedFolderId);
+      await onSave(trimmedTitle, trimmedContent, selectedFolderId, tags, saveOptions);
+      await discardDraft();
       
       // Reset form state after successful save for new notes
       if (!note?.id) {
         setTitle('');
         setContent('');
+        setTags([]);
         setIsInitialized(false);
       }
     } catch (error) {
+      if (error instanceof NoteConflictError) {
+        const remote = error.remoteNote;
+        const base = baseRef.current;
+
+        // Only metadata changed elsewhere (e.g. the note was moved): save on top of it
+        if (remote.title === base.title && remote.content === base.content) {
+          baseRef.current = { ...base, updatedAt: remote.updatedAt };
+          setIsSaving(false);
+          await handleSave(remote.updatedAt);
+          return;
+        }
+
+        setConflictNote(remote);
+        return;
+      }
+
       console.error('Error saving note:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to save note';
       toast.error(errorMessage);
@@ -176,6 +375,38 @@ export const NoteEditor = ({
     }
   };
 
+  // Conflict resolution: overwrite the other device's version with this one
+  const handleKeepMine = () => {
+    if (!conflictNote) return;
+    baseRef.current = { updatedAt: conflictNote.updatedAt, title: conflictNote.title, content: conflictNote.content };
+    setConflictNote(null);
+    handleSave(conflictNote.updatedAt);
+  };
+
+  // Conflict resolution: drop the local edits in favour of the other device's version
+  const handleUseTheirs = () => {
+    if (!conflictNote) return;
+    setTitle(conflictNote.title);
+    setContent(conflictNote.content);
+    setTags(conflictNote.tags || []);
+    baseRef.current = { updatedAt: conflictNote.updatedAt, title: conflictNote.title, content: conflictNote.content };
+    setConflictNote(null);
+    discardDraft().catch((error) => {
+      console.error('Error discarding draft:', error);
+    });
+  };
+
+  // Conflict resolution: put both versions in the editor with conflict markers
+  const handleMergeByHand = () => {
+    if (!conflictNote) return;
+    setContent(mergeWithConflictMarkers(conflictNote.content, content));
+    setTags(Array.from(new Set([...(conflictNote.tags || []), ...tags])));
+    baseRef.current = { updatedAt: conflictNote.updatedAt, title: conflictNote.title, content: conflictNote.content };
+    setConflictNote(null);
+    setEditorMode('write');
+    toast('Resolve the marked sections, then save');
+  };
+
   // Handle copy button click
   const handleCopy = async () => {
     try {
@@ -194,6 +425,38 @@ export const NoteEditor = ({
     }
   };
 
+  // Insert Markdown for attachments at the cursor, or at the end when the textarea isn't shown
+  const insertAttachments = (items: NoteAttachmentWithId[], position?: number) => {
+    if (items.length === 0) return;
+    const markdown = items.map(getAttachmentMarkdown).join('\n');
+    setContent(current => {
+      const at = Math.min(position ?? textareaRef.current?.selectionStart ?? current.length, current.length);
+      const before = current.slice(0, at);
+      const separator = before && !before.endsWith('\n') ? '\n' : '';
+      return `${before}${separator}${markdown}\n${current.slice(at)}`;
+    });
+  };
+
+  // Files dropped onto the text are uploaded and linked where they were dropped
+  const handleContentDrop = async (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0 || !canEditAttachments) return;
+
+    e.preventDefault();
+    const position = e.currentTarget.selectionStart;
+    insertAttachments(await uploadFiles(files), position);
+  };
+
+  const handleDeleteAttachment = async (attachment: NoteAttachmentWithId) => {
+    if (!window.confirm(`Remove "${attachment.name}"? Links to it in the note will stop working.`)) return;
+
+    try {
+      await deleteAttachment(attachment);
+    } catch {
+      // Reported by the hook
+    }
+  };
+
   // Handle delete button click
   const handleDelete = async () => {
     if (!onDelete) return;
@@ -206,11 +469,31 @@ export const NoteEditor = ({
     }
   };
 
+  // Restore a revision; the restore is saved as a new revision of its own
+  const handleRestoreRevision = async (revision: NoteRevisionWithId) => {
+    if (!note?.id) return;
+
+    try {
+      await updateNote(note.id, {
+        title: revision.title,
+        content: revision.content
+      }, { restoredFrom: revision.id });
+
+      setTitle(revision.title);
+      setContent(revision.content);
+      baseRef.current = { ...baseRef.current, title: revision.title, content: revision.content };
+      setIsHistoryOpen(false);
+      toast.success('Revision restored');
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+    }
+  };
+
   // Handle click outside the modal
   const handleOverlayClick = (e: React.MouseEvent) => {
     // Only close if clicking directly on the overlay (not on the modal content)
     if (e.target === e.currentTarget) {
-      onClose();
+      handleClose();
     }
   };
 
@@ -226,17 +509,36 @@ export const NoteEditor = ({
         role="presentation"
       >
         <div
-          className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+          className={`bg-white rounded-lg shadow-xl w-full ${editorMode === 'split' && !isHistoryOpen ? 'max-w-6xl' : 'max-w-3xl'} max-h-[90vh] flex flex-col`}
           onClick={e => e.stopPropagation()}
         >
           {/* Header */}
           <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
             <h2 className="text-xl font-semibold">
-              {note?.id ? 'Edit Note' : 'New Note'}
+              {readOnly ? 'View Note' : note?.id ? 'Edit Note' : 'New Note'}
             </h2>
-            <div className="flex space-x-2">
+            <div className="flex items-center space-x-2">
+              <PresenceAvatars collaborators={collaborators} />
+              {note?.id && canShare && (
+                <button
+                  onClick={() => setIsShareOpen(true)}
+                  className="p-1 rounded-full text-gray-400 hover:text-gray-500 hover:bg-gray-100"
+                  title="Share"
+                >
+                  <FiShare2 size={20} />
+                </button>
+              )}
+              {note?.id && !readOnly && (
+                <button
+                  onClick={() => setIsHistoryOpen(open => !open)}
+                  className={`p-1 rounded-full hover:bg-gray-100 ${isHistoryOpen ? 'text-blue-600' : 'text-gray-400 hover:text-gray-500'}`}
+                  title={isHistoryOpen ? 'Back to editor' : 'Version history'}
+                >
+                  <FiClock size={20} />
+                </button>
+              )}
               <button
-                onClick={onClose}
+                onClick={handleClose}
                 className="text-gray-400 hover:text-gray-500 p-1 rounded-full hover:bg-gray-100"
                 title="Close"
               >
@@ -245,107 +547,221 @@ export const NoteEditor = ({
             </div>
           </div>
 
-          {/* Folder Selector */}
-          <div className="px-6 py-4 border-b border-gray-200">
-            <div className="relative">
-              <label htmlFor="folder-select" className="block text-sm font-medium text-gray-700 mb-1">
-                Folder
-              </label>
-              <select
-                id="folder-select"
-                value={selectedFolderId || (folders.length > 0 ? folders[0].id : '')}
-                onChange={handleFolderChange}
-                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-                disabled={folders.length === 0}
-              >
-                {folders.length === 0 ? (
-                  <option value="">No folders available</option>
-                ) : (
-                  folders.map((folder) => (
-                    <option key={`${folder.id}-${folder.name}`} value={folder.id}>
-                      {folder.name}
-                    </option>
-                  ))
+          {isHistoryOpen && note?.id ? (
+            <NoteHistoryPanel noteId={note.id} onRestore={handleRestoreRevision} />
+          ) : (
+            <>
+              {/* Folder Selector */}
+              <div className="px-6 py-4 border-b border-gray-200">
+                <div className="relative">
+                  <label htmlFor="folder-select" className="block text-sm font-medium text-gray-700 mb-1">
+                    Folder
+                  </label>
+                  <select
+                    id="folder-select"
+                    value={selectedFolderId || (folders.length > 0 ? folders[0].id : '')}
+                    onChange={handleFolderChange}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                    disabled={folders.length === 0 || readOnly}
+                  >
+                    {folders.length === 0 ? (
+                      <option value="">No folders available</option>
+                    ) : (
+                      folders.map((folder) => (
+                        <option key={`${folder.id}-${folder.name}`} value={folder.id}>
+                          {getFolderAncestry(folders, folder.id).map(f => f.name).join(' / ')}
+                        </option>
+                      ))
+                    )}
+                  </select>
+                  {folders.length === 0 && (
+                    <p className="mt-1 text-sm text-red-600">
+                      Please create a folder first
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Note Content */}
+              <div className="flex-1 overflow-y-auto p-6">
+                <PresenceBanner collaborators={collaborators} />
+                {pendingDraft && (
+                  <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                    <p>
+                      You have unsaved changes from {formatDraftTime(pendingDraft.savedAt)}.
+                      {note?.id && pendingDraft.baseUpdatedAt !== note.updatedAt && (
+                        <> The note has been saved elsewhere since, so you may need to merge when saving.</>
+                      )}
+                    </p>
+                    <div className="flex space-x-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={handleDiscardDraft}
+                        className="px-3 py-1 rounded-md border border-amber-300 hover:bg-amber-100"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleRestoreDraft}
+                        className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700"
+                      >
+                        Restore draft
+                      </button>
+                    </div>
+                  </div>
                 )}
-              </select>
-              {folders.length === 0 && (
-                <p className="mt-1 text-sm text-red-600">
-                  Please create a folder first
-                </p>
-              )}
-            </div>
-          </div>
 
-          {/* Note Content */}
-          <div className="flex-1 overflow-y-auto p-6">
-            <div className="mb-4">
-              <label htmlFor="note-title" className="block text-sm font-medium text-gray-700 mb-1">
-                Title
-              </label>
-              <input
-                type="text"
-                id="note-title"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="Note title"
-              />
-            </div>
+                <div className="mb-4">
+                  <label htmlFor="note-title" className="block text-sm font-medium text-gray-700 mb-1">
+                    Title
+                  </label>
+                  <input
+                    type="text"
+                    id="note-title"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={MAX_NOTE_TITLE_LENGTH}
+                    placeholder="Note title"
+                    readOnly={readOnly}
+                  />
+                </div>
 
-            <div className="mb-4">
-              <label htmlFor="note-content" className="block text-sm font-medium text-gray-700 mb-1">
-                Content
-              </label>
-              <textarea
-                id="note-content"
-                className="w-full h-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="Write your note here..."
-              />
-            </div>
-          </div>
+                <div className="mb-4">
+                  <label htmlFor="note-tags" className="block text-sm font-medium text-gray-700 mb-1">
+                    Tags
+                  </label>
+                  {readOnly ? (
+                    <p className="text-sm text-gray-700">{tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : 'No tags'}</p>
+                  ) : (
+                    <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+                  )}
+                </div>
 
-          {/* Footer */}
-          <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
-            <div className="flex space-x-2">
-              {note?.id && (
-                <button
-                  type="button"
-                  onClick={handleCopy}
-                  disabled={!title && !content}
-                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                  title="Copy note content"
-                >
-                  <FiCopy className="mr-2" />
-                  Copy
-                </button>
-              )}
-              <button
-                type="button"
-                onClick={handleSave}
-                disabled={
-                  !isFormValid ||
-                  isSaving ||
-                  !selectedFolderId ||
-                  (Boolean(note?.id) && !hasChanges)
-                }
-                className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white ${!isFormValid ||
-                  isSaving ||
-                  !selectedFolderId ||
-                  (Boolean(note?.id) && !hasChanges)
-                  ? 'bg-blue-300 cursor-not-allowed'
-                  : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
-                  }`}
-                title={note?.id && !hasChanges ? 'No changes to save' : undefined}
-              >
-                <FiSave className="mr-2" />
-                {isSaving ? 'Saving...' : note?.id ? 'Update' : 'Create'}
-              </button>
-            </div>
-          </div>
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor="note-content" className="block text-sm font-medium text-gray-700">
+                      Content <span className="font-normal text-gray-400">(Markdown)</span>
+                    </label>
+                    <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs" role="group" aria-label="Editor mode">
+                      {EDITOR_MODES.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setEditorMode(value)}
+                          className={`px-3 py-1 ${editorMode === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                          aria-pressed={editorMode === value}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className={editorMode === 'split' ? 'grid grid-cols-2 gap-4' : ''}>
+                    {editorMode !== 'preview' && (
+                      <div className="relative">
+                        <textarea
+                          id="note-content"
+                          ref={textareaRef}
+                          className="block w-full h-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-mono"
+                          value={content}
+                          onChange={(e) => setContent(e.target.value)}
+                          onSelect={(e) => setPresenceSelection(e.currentTarget.selectionStart, e.currentTarget.selectionEnd)}
+                          onBlur={() => setPresenceSelection(null, null)}
+                          onDrop={handleContentDrop}
+                          placeholder="Write your note here..."
+                          readOnly={readOnly}
+                        />
+                        <PresenceCursors textareaRef={textareaRef} collaborators={collaborators} content={content} />
+                      </div>
+                    )}
+                    {editorMode !== 'write' && (
+                      <div className="h-64 overflow-y-auto px-3 py-2 border border-gray-200 rounded-md bg-gray-50/50">
+                        <MarkdownPreview content={content} className="text-sm" />
+                      </div>
+                    )}
+                  </div>
+                  {note?.id && (
+                    <NoteAttachments
+                      attachments={attachments}
+                      uploads={uploads}
+                      canEdit={canEditAttachments}
+                      onUpload={(files) => uploadFiles(files)}
+                      onDelete={handleDeleteAttachment}
+                      onInsert={(attachment) => insertAttachments([attachment])}
+                    />
+                  )}
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                <span className="text-xs text-gray-400">
+                  {lastSavedAt && isDirty ? `Draft saved ${formatDraftTime(lastSavedAt)}` : ''}
+                </span>
+                <div className="flex space-x-2">
+                  {note?.id && (
+                    <button
+                      type="button"
+                      onClick={handleCopy}
+                      disabled={!title && !content}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Copy note content"
+                    >
+                      <FiCopy className="mr-2" />
+                      Copy
+                    </button>
+                  )}
+                  {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => handleSave()}
+                    disabled={
+                      !isFormValid ||
+                      isSaving ||
+                      !selectedFolderId ||
+                      (Boolean(note?.id) && !hasChanges)
+                    }
+                    className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white ${!isFormValid ||
+                      isSaving ||
+                      !selectedFolderId ||
+                      (Boolean(note?.id) && !hasChanges)
+                      ? 'bg-blue-300 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                      }`}
+                    title={note?.id && !hasChanges ? 'No changes to save' : undefined}
+                  >
+                    <FiSave className="mr-2" />
+                    {isSaving ? 'Saving...' : note?.id ? 'Update' : 'Create'}
+                  </button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </div>
+
+      {conflictNote && (
+        <NoteConflictDialog
+          remoteNote={conflictNote}
+          localTitle={title}
+          localContent={content}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onMerge={handleMergeByHand}
+          onCancel={() => setConflictNote(null)}
+        />
+      )}
+
+      {isShareOpen && note?.id && (
+        <ShareDialog
+          noteId={note.id}
+          noteTitle={note.title}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { FiRotateCcw } from 'react-icons/fi';
+import { diffLines } from '@/lib/line-diff';
+import { useNoteRevisions, NoteRevisionWithId } from '../useNoteRevisions';
+
+interface NoteHistoryPanelProps {
+  noteId: string;
+  onRestore: (revision: NoteRevisionWithId) => Promise<void>;
+}
+
+const formatRevisionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  }).replace(',', '');
+
+const toComparableText = (revision: NoteRevisionWithId) => `${revision.title}\n\n${revision.content}`;
+
+export const NoteHistoryPanel = ({ noteId, onRestore }: NoteHistoryPanelProps) => {
+  const { revisions, loading, error } = useNoteRevisions(noteId);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Default to comparing the latest revision with the one before it
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    if (!compareId || !revisions.some(r => r.id === compareId)) {
+      setCompareId(revisions[0].id);
+    }
+    if (!baseId || !revisions.some(r => r.id === baseId)) {
+      setBaseId(revisions[Math.min(1, revisions.length - 1)].id);
+    }
+  }, [revisions, baseId, compareId]);
+
+  const diff = useMemo(() => {
+    const base = revisions.find(r => r.id === baseId);
+    const compare = revisions.find(r => r.id === compareId);
+    if (!base || !compare) return [];
+    return diffLines(toComparableText(base), toComparableText(compare));
+  }, [revisions, baseId, compareId]);
+
+  const handleRestore = async (revision: NoteRevisionWithId) => {
+    if (restoringId) return;
+
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="p-6 text-sm text-red-600">{error}</div>;
+  }
+
+  if (revisions.length === 0) {
+    return <div className="p-6 text-sm text-gray-500">No revisions saved for this note yet.</div>;
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row min-h-0 flex-1">
+      {/* Revision list */}
+      <div className="md:w-72 border-b md:border-b-0 md:border-r border-gray-200 overflow-y-auto max-h-60 md:max-h-none">
+        <div className="grid grid-cols-[auto_auto_1fr] gap-x-2 px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-100">
+          <span title="Compare from">A</span>
+          <span title="Compare to">B</span>
+          <span>Revision</span>
+        </div>
+        <ul className="divide-y divide-gray-100">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="grid grid-cols-[auto_auto_1fr] gap-x-2 items-start px-4 py-3 text-sm">
+              <input
+                type="radio"
+                name="revision-base"
+                checked={baseId === revision.id}
+                onChange={() => setBaseId(revision.id)}
+                aria-label={`Compare from revision ${formatRevisionTime(revision.createdAt)}`}
+                className="mt-1"
+              />
+              <input
+                type="radio"
+                name="revision-compare"
+                checked={compareId === revision.id}
+                onChange={() => setCompareId(revision.id)}
+                aria-label={`Compare to revision ${formatRevisionTime(revision.createdAt)}`}
+                className="mt-1"
+              />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">{formatRevisionTime(revision.createdAt)}</p>
+                <p className="text-xs text-gray-500 truncate">{revision.title}</p>
+                {revision.restoredFrom && (
+                  <p className="text-xs text-blue-600">Restored from an earlier revision</p>
+                )}
+                {index === 0 ? (
+                  <span className="text-xs text-green-700">Current</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision)}
+                    disabled={Boolean(restoringId)}
+                    className="mt-1 inline-flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <FiRotateCcw className="mr-1" size={12} />
+                    {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Diff view */}
+      <div className="flex-1 overflow-auto p-4">
+        {baseId === compareId ? (
+          <p className="text-sm text-gray-500">Select two different revisions to compare.</p>
+        ) : (
+          <pre className="text-xs font-mono leading-5">
+            {diff.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.type === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                      ? 'bg-red-50 text-red-800'
+                      : 'text-gray-700'
+                }
+              >
+                <span className="select-none inline-block w-4 text-gray-400">
+                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                </span>
+                {line.text || ' '}
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
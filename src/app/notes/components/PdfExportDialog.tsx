@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FiDownload, FiEye, FiX } from 'react-icons/fi';
+import { buildFolderTree, FolderTreeNode, getFolderAncestry } from '@/lib/folder-tree';
+import { toSafeFileName } from '@/lib/markdown-export';
+import type { NotesPdfSection, PdfPageSize } from '@/lib/notes-pdf';
+import { useOwnNotes } from '../useOwnNotes';
+import { Folder } from '../useFolders';
+import { NoteWithId } from '../useNotes';
+
+// Everything the PDF is generated from, resolved from the choices in the dialog
+export interface PdfExportRequest {
+  title: string;
+  filename: string;
+  sections: NotesPdfSection[];
+  pageSize: PdfPageSize;
+  fontSize: number; // Body text size in pt
+  includeToc: boolean;
+}
+
+type ExportMode = 'selection' | 'folder' | 'note';
+
+interface PdfExportDialogProps {
+  folders: Folder[];
+  defaultFolderId?: string | null;
+  isGenerating: boolean;
+  onGenerate: (request: PdfExportRequest, preview: boolean) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZES: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'US Letter' },
+  { value: 'a5', label: 'A5' }
+];
+
+const FONT_SIZES = [10, 11, 12, 14];
+
+const flattenTree = (nodes: FolderTreeNode<Folder>[]): FolderTreeNode<Folder>[] =>
+  nodes.flatMap(node => [node, ...flattenTree(node.children)]);
+
+const getFolderPath = (folders: Folder[], folderId: string) =>
+  getFolderAncestry(folders, folderId).map(folder => folder.name).join(' / ');
+
+const toSection = (folders: Folder[], folder: Folder, notes: NoteWithId[]): NotesPdfSection => ({
+  id: folder.id,
+  name: getFolderPath(folders, folder.id),
+  notes: notes.map(note => ({ id: note.id, title: note.title || 'Untitled Note', content: note.content || '' }))
+});
+
+export const PdfExportDialog = ({
+  folders,
+  defaultFolderId = null,
+  isGenerating,
+  onGenerate,
+  onClose
+}: PdfExportDialogProps) => {
+  const { notes, loading } = useOwnNotes();
+  const [mode, setMode] = useState<ExportMode>(defaultFolderId ? 'folder' : 'selection');
+  const [folderId, setFolderId] = useState<string>(defaultFolderId || folders[0]?.id || '');
+  const [includeSubfolders, setIncludeSubfolders] = useState(true);
+  const [noteId, setNoteId] = useState('');
+  const [selectedFolderIds, setSelectedFolderIds] = useState<Set<string>>(new Set());
+  const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [fontSize, setFontSize] = useState(12);
+  const [includeToc, setIncludeToc] = useState(true);
+  const [isInitialized, setIsInitialized] = useState(false);
+
+  // Folders in the order the sidebar shows them, parents before children
+  const orderedFolders = useMemo(() => flattenTree(buildFolderTree(folders)), [folders]);
+
+  const notesByFolder = useMemo(() => {
+    const map = new Map<string, NoteWithId[]>();
+    [...notes]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(note => {
+        if (!note.folderId) return;
+        map.set(note.folderId, [...(map.get(note.folderId) || []), note]);
+      });
+    return map;
+  }, [notes]);
+
+  // Everything starts out selected once the notes are in
+  useEffect(() => {
+    if (loading || isInitialized) return;
+    setSelectedFolderIds(new Set(folders.map(folder => folder.id)));
+    setSelectedNoteIds(new Set(notes.map(note => note.id)));
+    setNoteId((notes.find(note => note.folderId === defaultFolderId) || notes[0])?.id || '');
+    setIsInitialized(true);
+  }, [loading, isInitialized, folders, notes, defaultFolderId]);
+
+  const request = useMemo((): PdfExportRequest | null => {
+    const settings = { pageSize, fontSize, includeToc: mode !== 'note' && includeToc };
+
+    if (mode === 'note') {
+      const note = notes.find(candidate => candidate.id === noteId);
+      const folder = folders.find(candidate => candidate.id === note?.folderId);
+      if (!note || !folder) return null;
+      const title = note.title || 'Untitled Note';
+      return { ...settings, title, filename: `${toSafeFileName(title, 'note')}.pdf`, sections: [toSection(folders, folder, [note])] };
+    }
+
+    if (mode === 'folder') {
+      const folder = folders.find(candidate => candidate.id === folderId);
+      if (!folder) return null;
+      const subtree = orderedFolders.filter(candidate =>
+        candidate.id === folder.id ||
+        (includeSubfolders && getFolderAncestry(folders, candidate.id).some(ancestor => ancestor.id === folder.id))
+      );
+      return {
+        ...settings,
+        title: folder.name,
+        filename: `${toSafeFileName(folder.name, 'folder')}.pdf`,
+        sections: subtree.map(candidate => toSection(folders, candidate, notesByFolder.get(candidate.id) || []))
+      };
+    }
+
+    const sections = orderedFolders
+      .filter(folder =>
+        selectedFolderIds.has(folder.id) ||
+        (notesByFolder.get(folder.id) || []).some(note => selectedNoteIds.has(note.id))
+      )
+      .map(folder => toSection(folders, folder, (notesByFolder.get(folder.id) || []).filter(note => selectedNoteIds.has(note.id))));
+    return sections.length > 0
+      ? { ...settings, title: 'Notes Export', filename: 'notes-export.pdf', sections }
+      : null;
+  }, [mode, noteId, folderId, includeSubfolders, selectedFolderIds, selectedNoteIds, pageSize, fontSize, includeToc, notes, folders, orderedFolders, notesByFolder]);
+
+  const noteCount = request ? request.sections.reduce((total, section) => total + section.notes.length, 0) : 0;
+
+  const toggleFolder = (folder: Folder) => {
+    const checked = !selectedFolderIds.has(folder.id);
+    const folderNoteIds = (notesByFolder.get(folder.id) || []).map(note => note.id);
+
+    setSelectedFolderIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(folder.id); else next.delete(folder.id);
+      return next;
+    });
+    setSelectedNoteIds(current => {
+      const next = new Set(current);
+      folderNoteIds.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const toggleNote = (id: string) => {
+    setSelectedNoteIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const selectAll = (selected: boolean) => {
+    setSelectedFolderIds(new Set(selected ? folders.map(folder => folder.id) : []));
+    setSelectedNoteIds(new Set(selected ? notes.map(note => note.id) : []));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Export to PDF</h3>
+          <button
+            onClick={onClose}
+            disabled={isGenerating}
+            className="text-gray-400 hover:text-gray-500 p-1 rounded-full hover:bg-gray-100 disabled:opacity-50"
+            title="Close"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">What to export</legend>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+              {([
+                ['selection', 'Selected folders and notes'],
+                ['folder', 'One folder'],
+                ['note', 'One note']
+              ] as [ExportMode, string][]).map(([value, label]) => (
+                <label key={value} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="pdf-export-mode"
+                    value={value}
+                    checked={mode === value}
+                    onChange={() => setMode(value)}
+                    className="h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading notes...</p>
+          ) : mode === 'selection' ? (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-700">Folders and notes</span>
+                <div className="space-x-3 text-xs">
+                  <button type="button" onClick={() => selectAll(true)} className="text-blue-600 hover:underline">Select all</button>
+                  <button type="button" onClick={() => selectAll(false)} className="text-blue-600 hover:underline">Select none</button>
+                </div>
+              </div>
+              <ul className="text-sm max-h-72 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                {orderedFolders.map(folder => (
+                  <li key={folder.id}>
+                    <label className="flex items-center gap-2 py-1.5 pr-3 font-medium text-gray-800" style={{ paddingLeft: 12 + folder.depth * 16 }}>
+                      <input
+                        type="checkbox"
+                        checked={selectedFolderIds.has(folder.id)}
+                        onChange={() => toggleFolder(folder)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="truncate">{folder.name}</span>
+                    </label>
+                    {(notesByFolder.get(folder.id) || []).map(note => (
+                      <label key={note.id} className="flex items-center gap-2 py-1 pr-3 text-gray-600" style={{ paddingLeft: 36 + folder.depth * 16 }}>
+                        <input
+                          type="checkbox"
+                          checked={selectedNoteIds.has(note.id)}
+                          onChange={() => toggleNote(note.id)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="truncate">{note.title || 'Untitled Note'}</span>
+                      </label>
+                    ))}
+                  </li>
+                ))}
+                {orderedFolders.length === 0 && (
+                  <li className="px-3 py-1.5 text-gray-500">You don&apos;t have any folders yet.</li>
+                )}
+              </ul>
+            </div>
+          ) : mode === 'folder' ? (
+            <div className="space-y-2">
+              <label htmlFor="pdf-export-folder" className="block text-sm font-medium text-gray-700">Folder</label>
+              <select
+                id="pdf-export-folder"
+                value={folderId}
+                onChange={(e) => setFolderId(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {orderedFolders.map(folder => (
+                  <option key={folder.id} value={folder.id}>{getFolderPath(folders, folder.id)}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeSubfolders}
+                  onChange={(e) => setIncludeSubfolders(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Include subfolders
+              </label>
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="pdf-export-note" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <select
+                id="pdf-export-note"
+                value={noteId}
+                onChange={(e) => setNoteId(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {orderedFolders.map(folder => (notesByFolder.get(folder.id) || []).length > 0 && (
+                  <optgroup key={folder.id} label={getFolderPath(folders, folder.id)}>
+                    {(notesByFolder.get(folder.id) || []).map(note => (
+                      <option key={note.id} value={note.id}>{note.title || 'Untitled Note'}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="pdf-export-page-size" className="block text-sm font-medium text-gray-700 mb-1">Page size</label>
+              <select
+                id="pdf-export-page-size"
+                value={pageSize}
+                onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {PAGE_SIZES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pdf-export-font-size" className="block text-sm font-medium text-gray-700 mb-1">Text size</label>
+              <select
+                id="pdf-export-font-size"
+                value={fontSize}
+                onChange={(e) => setFontSize(Number(e.target.value))}
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {FONT_SIZES.map(size => (
+                  <option key={size} value={size}>{size} pt</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {mode !== 'note' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeToc}
+                onChange={(e) => setIncludeToc(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Table of contents with page numbers and links
+            </label>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            {request && `${request.sections.length} ${request.sections.length === 1 ? 'folder' : 'folders'}, ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`}
+          </span>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => request && onGenerate(request, true)}
+              disabled={!request || isGenerating}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FiEye />
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={() => request && onGenerate(request, false)}
+              disabled={!request || isGenerating}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FiDownload />
+              {isGenerating ? 'Generating...' : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
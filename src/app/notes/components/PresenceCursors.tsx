@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState, RefObject } from 'react';
+import { getCaretCoordinates, CaretCoordinates } from '@/lib/textarea-caret';
+import { NotePresenceWithId } from '../useNotePresence';
+import { getPresenceColor, getPresenceName } from './PresenceIndicators';
+
+interface PresenceCursorsProps {
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+  collaborators: NotePresenceWithId[];
+  content: string; // Re-measure when the text changes
+}
+
+interface CursorLayout {
+  presence: NotePresenceWithId;
+  caret: CaretCoordinates;
+  highlights: { top: number; left: number; width: number; height: number }[];
+}
+
+// Rectangles covering a selection, one per visual line it spans
+const getSelectionRects = (textarea: HTMLTextAreaElement, start: CaretCoordinates, end: CaretCoordinates) => {
+  if (start.top === end.top) {
+    return [{ top: start.top, left: start.left, width: end.left - start.left, height: start.height }];
+  }
+
+  const style = window.getComputedStyle(textarea);
+  const lineLeft = textarea.clientLeft + parseFloat(style.paddingLeft);
+  const lineRight = textarea.clientLeft + textarea.clientWidth - parseFloat(style.paddingRight);
+  const middleTop = start.top + start.height;
+
+  return [
+    { top: start.top, left: start.left, width: lineRight - start.left, height: start.height },
+    ...(end.top > middleTop
+      ? [{ top: middleTop, left: lineLeft, width: lineRight - lineLeft, height: end.top - middleTop }]
+      : []),
+    { top: end.top, left: lineLeft, width: end.left - lineLeft, height: end.height }
+  ];
+};
+
+// Draws collaborators' cursors and selections over the note textarea. Positions
+// are their offsets into the text as they see it, so they can drift slightly
+// until both sides have the same content.
+export const PresenceCursors = ({ textareaRef, collaborators, content }: PresenceCursorsProps) => {
+  const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const measure = () => {
+      setLayouts(
+        collaborators
+          .filter(presence => presence.selectionEnd !== null)
+          .map(presence => {
+            const end = presence.selectionEnd as number;
+            const start = presence.selectionStart ?? end;
+            const caret = getCaretCoordinates(textarea, end);
+            const highlights = start === end
+              ? []
+              : getSelectionRects(
+                  textarea,
+                  getCaretCoordinates(textarea, Math.min(start, end)),
+                  getCaretCoordinates(textarea, Math.max(start, end))
+                );
+            return { presence, caret, highlights };
+          })
+      );
+    };
+
+    const handleScroll = () => setScroll({ top: textarea.scrollTop, left: textarea.scrollLeft });
+
+    measure();
+    handleScroll();
+    textarea.addEventListener('scroll', handleScroll);
+    window.addEventListener('resize', measure);
+    return () => {
+      textarea.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', measure);
+    };
+  }, [textareaRef, collaborators, content]);
+
+  const textarea = textareaRef.current;
+  if (!textarea || layouts.length === 0) return null;
+
+  return (
+    <div
+      className="absolute inset-0 overflow-hidden pointer-events-none"
+      style={{ width: textarea.offsetWidth, height: textarea.offsetHeight }}
+      aria-hidden="true"
+    >
+      <div style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+        {layouts.map(({ presence, caret, highlights }) => {
+          const color = getPresenceColor(presence.userId);
+          return (
+            <div key={presence.sessionId}>
+              {highlights.map((rect, index) => (
+                <div
+                  key={index}
+                  className="absolute opacity-20"
+                  style={{ ...rect, backgroundColor: color }}
+                />
+              ))}
+              <div
+                className="absolute w-0.5"
+                style={{ top: caret.top, left: caret.left, height: caret.height, backgroundColor: color }}
+              >
+                <span
+                  className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+                  style={{ backgroundColor: color }}
+                >
+                  {getPresenceName(presence)}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
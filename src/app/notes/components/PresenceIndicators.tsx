@@ -0,0 +1,87 @@
+'use client';
+
+import { FiEdit3 } from 'react-icons/fi';
+import { NotePresenceWithId } from '../useNotePresence';
+
+// Colors for collaborators' avatar rings and cursors, picked from their user ID
+const PRESENCE_COLORS = ['#2563eb', '#db2777', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#dc2626', '#4f46e5'];
+
+export const getPresenceColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+export const getPresenceName = (presence: NotePresenceWithId) =>
+  presence.displayName || presence.email || 'Someone';
+
+const PresenceAvatar = ({ presence }: { presence: NotePresenceWithId }) => {
+  const name = getPresenceName(presence);
+  const color = getPresenceColor(presence.userId);
+  const label = `${name} is ${presence.status}`;
+
+  return (
+    <div
+      className="relative h-8 w-8 rounded-full ring-2 ring-white"
+      style={{ boxShadow: `0 0 0 2px ${color}` }}
+      title={label}
+    >
+      {presence.photoURL ? (
+        <img
+          src={presence.photoURL}
+          alt={label}
+          className="h-full w-full rounded-full object-cover"
+          referrerPolicy="no-referrer"
+        />
+      ) : (
+        <div
+          className="h-full w-full rounded-full flex items-center justify-center text-white text-sm font-medium"
+          style={{ backgroundColor: color }}
+          aria-label={label}
+        >
+          {name[0].toUpperCase()}
+        </div>
+      )}
+      {presence.status === 'editing' && (
+        <span className="absolute -bottom-1 -right-1 h-4 w-4 rounded-full bg-white flex items-center justify-center">
+          <FiEdit3 size={10} style={{ color }} />
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Avatars of everyone else who has the note open
+export const PresenceAvatars = ({ collaborators }: { collaborators: NotePresenceWithId[] }) => {
+  if (collaborators.length === 0) return null;
+
+  return (
+    <div className="flex items-center -space-x-2 mr-2" aria-label="People viewing this note">
+      {collaborators.map(presence => (
+        <PresenceAvatar key={presence.userId} presence={presence} />
+      ))}
+    </div>
+  );
+};
+
+// Warns that someone else is changing the note, since the last save wins
+export const PresenceBanner = ({ collaborators }: { collaborators: NotePresenceWithId[] }) => {
+  const editors = collaborators.filter(presence => presence.status === 'editing');
+  if (editors.length === 0) return null;
+
+  const names = editors.map(getPresenceName);
+  const who = names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+  return (
+    <div className="mb-4 flex items-center rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800" role="status">
+      <FiEdit3 className="mr-2 shrink-0" />
+      <p>
+        {who} {editors.length === 1 ? 'is' : 'are'} editing this note. Saving may overwrite their changes.
+      </p>
+    </div>
+  );
+};
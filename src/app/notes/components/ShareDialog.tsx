@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { FiCopy, FiLink, FiLock, FiTrash2, FiX } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import { useShares } from '../useShares';
+import { MIN_SHARE_PASSWORD_LENGTH } from '@/lib/limits';
+
+interface ShareDialogProps {
+  noteId: string;
+  noteTitle: string;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Never' },
+  { value: DAY_MS, label: 'In 1 day' },
+  { value: 7 * DAY_MS, label: 'In 7 days' },
+  { value: 30 * DAY_MS, label: 'In 30 days' }
+];
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).replace(',', '');
+
+export const ShareDialog = ({ noteId, noteTitle, onClose }: ShareDialogProps) => {
+  const { shares, loading, createShare, revokeShare, getShareUrl } = useShares(noteId);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [password, setPassword] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const expiry = EXPIRY_OPTIONS[expiryIndex].value;
+
+    setIsCreating(true);
+    try {
+      const token = await createShare(noteId, {
+        expiresAt: expiry ? Date.now() + expiry : null,
+        password: password.trim() || undefined
+      });
+      setPassword('');
+      await copyLink(token);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access.')) return;
+    await revokeShare(token).catch(() => {});
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]" role="dialog" aria-modal="true">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">Share note</h3>
+            <p className="text-sm text-gray-500 truncate">
+              Anyone with the link can read &quot;{noteTitle}&quot;, but not edit it.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 p-1 rounded-full hover:bg-gray-100"
+            title="Close"
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className="px-6 py-4 space-y-3 border-b border-gray-200">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Expires
+              <select
+                value={expiryIndex}
+                onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {EXPIRY_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Password (optional)
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                minLength={MIN_SHARE_PASSWORD_LENGTH}
+                placeholder={`At least ${MIN_SHARE_PASSWORD_LENGTH} characters`}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiLink className="mr-2" />
+            {isCreating ? 'Creating...' : 'Create link'}
+          </button>
+        </form>
+
+        <div className="px-6 py-4 max-h-64 overflow-y-auto">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Active links</h4>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500">This note hasn&apos;t been shared yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {shares.map(share => (
+                <li key={share.token} className="flex items-center justify-between py-2">
+                  <div className="min-w-0 text-sm">
+                    <p className="font-mono text-gray-800 truncate">/s/{share.token.slice(0, 10)}…</p>
+                    <p className="text-xs text-gray-500 flex items-center">
+                      {share.passwordHash && <FiLock className="mr-1" title="Password protected" />}
+                      Created {formatTime(share.createdAt)}
+                      {share.expiresAt
+                        ? ` · ${share.expiresAt <= Date.now() ? 'Expired' : 'Expires'} ${formatTime(share.expiresAt)}`
+                        : ''}
+                    </p>
+                  </div>
+                  <div className="flex space-x-1 ml-2">
+                    <button
+                      onClick={() => copyLink(share.token)}
+                      className="p-1.5 text-gray-400 hover:text-blue-600 rounded-full hover:bg-gray-100"
+                      title="Copy link"
+                    >
+                      <FiCopy size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(share.token)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded-full hover:bg-gray-100"
+                      title="Revoke link"
+                    >
+                      <FiTrash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
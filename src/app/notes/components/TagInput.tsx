@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import { FiX } from 'react-icons/fi';
+import { MAX_TAGS_PER_NOTE, normalizeTag } from '@/lib/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export const TagInput = ({ tags, onChange, suggestions }: TagInputProps) => {
+  const [inputValue, setInputValue] = useState('');
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Existing tags that start with (or contain) what has been typed so far
+  const matches = useMemo(() => {
+    const search = normalizeTag(inputValue);
+    const available = suggestions.filter(tag => !tags.includes(tag));
+    if (!search) return available.slice(0, MAX_SUGGESTIONS);
+
+    const prefixMatches = available.filter(tag => tag.startsWith(search));
+    const otherMatches = available.filter(tag => !tag.startsWith(search) && tag.includes(search));
+    return [...prefixMatches, ...otherMatches].slice(0, MAX_SUGGESTIONS);
+  }, [inputValue, suggestions, tags]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag) && tags.length < MAX_TAGS_PER_NOTE) {
+      onChange([...tags, tag]);
+    }
+    setInputValue('');
+    setHighlightedIndex(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showSuggestions = isFocused && matches.length > 0;
+
+    if (e.key === 'ArrowDown' && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      // Only take over Tab when there is something to complete
+      if (e.key === 'Tab' && !inputValue.trim()) return;
+      e.preventDefault();
+      const highlighted = showSuggestions && inputValue.trim() ? matches[highlightedIndex] : undefined;
+      addTag(highlighted || inputValue);
+    } else if (e.key === 'Backspace' && !inputValue && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className="flex flex-wrap items-center gap-1.5 w-full px-2 py-1.5 border border-gray-300 rounded-md shadow-sm focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-100"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeTag(tag);
+              }}
+              className="ml-1 text-blue-400 hover:text-blue-700"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <FiX size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          id="note-tags"
+          type="text"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setHighlightedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue.trim()) addTag(inputValue);
+          }}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[8rem] py-0.5 text-sm border-0 focus:outline-none focus:ring-0"
+          role="combobox"
+          aria-expanded={isFocused && matches.length > 0}
+          aria-controls="note-tags-suggestions"
+        />
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul
+          id="note-tags-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm"
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              onMouseDown={(e) => {
+                // Keep focus on the input so onBlur doesn't add the partial text
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`px-3 py-1.5 cursor-pointer ${index === highlightedIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { FiFolder, FiFileText, FiRotateCcw, FiTrash2 } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import { useTrash } from '../useTrash';
+import { TRASH_RETENTION_DAYS, getPurgeDate } from '@/lib/trash';
+
+const formatDate = (timestamp: number | Date) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).replace(',', '');
+
+export const TrashView = () => {
+  const {
+    trashedNotes,
+    trashedFolders,
+    loading,
+    error,
+    restoreNote,
+    restoreFolder,
+    purgeNote,
+    purgeFolder,
+    emptyTrash
+  } = useTrash();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  // Run a trash action for one item, reporting failures as toasts
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    if (pendingId) return;
+
+    setPendingId(id);
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Something went wrong';
+      toast.error(errorMessage);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm('Permanently delete everything in the trash? This cannot be undone.')) {
+      runAction('all', emptyTrash);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        <p className="text-gray-600 text-lg font-medium">Loading trash...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-6 text-red-600">{error}</div>;
+  }
+
+  const isEmpty = trashedNotes.length === 0 && trashedFolders.length === 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Items in the trash are deleted permanently after {TRASH_RETENTION_DAYS} days.
+        </p>
+        {!isEmpty && (
+          <button
+            onClick={handleEmptyTrash}
+            disabled={Boolean(pendingId)}
+            className="flex items-center gap-2 text-red-600 border border-red-200 px-4 py-2 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+          >
+            <FiTrash2 className="h-4 w-4" />
+            <span>Empty Trash</span>
+          </button>
+        )}
+      </div>
+
+      {isEmpty ? (
+        <div className="text-center py-16 text-gray-500">Trash is empty</div>
+      ) : (
+        <ul className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+          {trashedFolders.map((folder) => (
+            <li key={folder.id} className="flex items-center justify-between px-5 py-4">
+              <div className="flex items-center min-w-0">
+                <FiFolder className="mr-3 h-5 w-5 flex-shrink-0 text-gray-500" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{folder.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Deleted {formatDate(folder.deletedAt || 0)} · purged on {formatDate(getPurgeDate(folder.deletedAt || 0))}
+                  </p>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => runAction(folder.id, () => restoreFolder(folder.id))}
+                  disabled={Boolean(pendingId)}
+                  className="text-gray-500 hover:text-blue-600 hover:bg-gray-100 p-1.5 rounded-md disabled:opacity-50"
+                  title="Restore folder and its notes"
+                >
+                  <FiRotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Permanently delete folder "${folder.name}" and the subfolders and notes trashed with it?`)) {
+                      runAction(folder.id, () => purgeFolder(folder.id));
+                    }
+                  }}
+                  disabled={Boolean(pendingId)}
+                  className="text-gray-500 hover:text-red-600 hover:bg-gray-100 p-1.5 rounded-md disabled:opacity-50"
+                  title="Delete permanently"
+                >
+                  <FiTrash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+
+          {trashedNotes.map((note) => (
+            <li key={note.id} className="flex items-center justify-between px-5 py-4">
+              <div className="flex items-center min-w-0">
+                <FiFileText className="mr-3 h-5 w-5 flex-shrink-0 text-gray-500" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{note.title || 'Untitled Note'}</p>
+                  <p className="text-xs text-gray-500">
+                    {note.deletedFolderName ? `From "${note.deletedFolderName}" · ` : ''}
+                    Deleted {formatDate(note.deletedAt || 0)} · purged on {formatDate(getPurgeDate(note.deletedAt || 0))}
+                  </p>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => runAction(note.id, () => restoreNote(note.id))}
+                  disabled={Boolean(pendingId)}
+                  className="text-gray-500 hover:text-blue-600 hover:bg-gray-100 p-1.5 rounded-md disabled:opacity-50"
+                  title="Restore note"
+                >
+                  <FiRotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Permanently delete "${note.title || 'Untitled Note'}"?`)) {
+                      runAction(note.id, () => purgeNote(note.id));
+                    }
+                  }}
+                  disabled={Boolean(pendingId)}
+                  className="text-gray-500 hover:text-red-600 hover:bg-gray-100 p-1.5 rounded-md disabled:opacity-50"
+                  title="Delete permanently"
+                >
+                  <FiTrash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+
+export default function FolderPage() {
+  const router = useRouter();
+  const params = useParams();
+
+  // Nested folders arrive as one segment per level, e.g. /notes/folder/work/clients/acme
+  const segments = ([] as string[]).concat(params.folderName || []);
+  const folderPath = segments.map(segment => decodeURIComponent(segment)).join('/');
+
+  useEffect(() => {
+    // Client-side redirect to the main notes page with the folder path as a query parameter
+    if (folderPath) {
+      router.push(`/notes?folder=${folderPath.split('/').map(encodeURIComponent).join('/')}`);
+    }
+  }, [folderPath, router]);
+
+  return null; // or a loading spinner if you prefer
+}
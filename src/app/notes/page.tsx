@@ -3,38 +3,54 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useRouter, useSearchParams, usePathname } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
-import { NoteWithId } from './useNotes';
+import { BulkNoteChange, NoteWithId } from './useNotes';
 import { Folder } from './useFolders';
-import { FiPlus, FiSearch, FiFolder, FiChevronDown, FiChevronRight, FiMenu, FiX, FiDownload, FiEye } from 'react-icons/fi';
+import { FiPlus, FiSearch, FiFolder, FiChevronDown, FiChevronRight, FiMenu, FiX, FiDownload, FiEye, FiArchive, FiUpload } from 'react-icons/fi';
 import { useFolders } from './useFolders';
 import { useNotes } from './useNotes';
+import { useTags } from './useTags';
+import { useNoteSearch } from './useNoteSearch';
+import { useFolderMembers } from './useFolderMembers';
+import { useNotesExport } from './useNotesExport';
 import { FiTrash2, FiEdit } from 'react-icons/fi';
-import { NoteEditor } from './components/NoteEditor';
+import { NoteEditor, NoteSaveOptions } from './components/NoteEditor';
 import { FolderList } from './components/FolderList';
+import { FolderMembersDialog } from './components/FolderMembersDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { PdfExportDialog, PdfExportRequest } from './components/PdfExportDialog';
+import { TrashView } from './components/TrashView';
+import { BulkActionBar } from './components/BulkActionBar';
+import { MarkdownPreview } from './components/MarkdownPreview';
 import { toast } from 'react-hot-toast';
-import { jsPDF } from 'jspdf';
+import {
+  slugifyFolderName,
+  getFolderAncestry,
+  getFolderSlugPath,
+  findFolderBySlugPath,
+  getDescendantFolderIds
+} from '@/lib/folder-tree';
+import { splitHighlights, getSearchSnippet } from '@/lib/search';
 
-// Highlight matching text in content
-const HighlightText = ({ text, searchQuery }: { text: string; searchQuery: string }) => {
-  if (!searchQuery.trim()) return <>{text}</>;
+// Highlight the parts of a text matched by the search query. Matching is plain
+// string comparison, so characters like `(` in the query are safe.
+const HighlightText = ({ text, terms, phrases }: { text: string; terms: string[]; phrases: string[] }) => (
+  <>
+    {splitHighlights(text, terms, phrases).map((segment, i) =>
+      segment.isMatch ? (
+        <mark key={i} className="bg-yellow-200">
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+);
 
-  const regex = new RegExp(`(${searchQuery})`, 'gi');
-  const parts = text.split(regex);
+// How long the undo button stays up after a bulk change
+const BULK_UNDO_WINDOW_MS = 8000;
 
-  return (
-    <>
-      {parts.map((part, i) =>
-        regex.test(part) ? (
-          <mark key={i} className="bg-yellow-200">
-            {part}
-          </mark>
-        ) : (
-          part
-        )
-      )}
-    </>
-  );
-};
+const pluralizeNotes = (count: number) => `${count} ${count === 1 ? 'note' : 'notes'}`;
 
 // No need for explicit params interface as we're using client-side routing
 interface NotesPageProps {
@@ -59,6 +75,11 @@ export default function NotesPage() {
 
   // Get folder name from URL query parameter
   const folderNameFromUrl = searchParams.get('folder');
+  // Folders shared with us aren't part of our folder tree, so they're addressed by ID
+  const sharedFolderIdFromUrl = searchParams.get('shared');
+  const isTrashView = searchParams.get('view') === 'trash';
+  const activeTag = searchParams.get('tag');
+  const includeSubfolders = searchParams.get('subtree') === '1';
 
   // Use refs to store the latest values
   const foldersRef = useRef<Array<{ id: string; name: string }>>([]);
@@ -67,23 +88,26 @@ export default function NotesPage() {
   // Get folders first
   const {
     folders,
+    sharedFolders,
     loading: foldersLoading,
     createFolder: createFolderOriginal,
     deleteFolder: deleteFolderOriginal,
+    moveFolder,
   } = useFolders();
 
+  const { leaveFolder } = useFolderMembers();
+
   // Handle folder creation with redirection
-  const createFolder = useCallback(async (name: string) => {
+  const createFolder = useCallback(async (name: string, parentId: string | null = null) => {
     try {
       // Create the folder and get its ID
-      const folderId = await createFolderOriginal(name);
+      const folderId = await createFolderOriginal(name, parentId);
 
-      // Convert the provided name to URL-friendly format (don't wait for folders list to update)
-      const folderUrlName = name
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, '-')
-        .replace(/-+/g, '-')
-        .replace(/^-+|-+$/g, '');
+      // Build the new folder's URL path from its parent (don't wait for folders list to update)
+      const folderUrlName = [
+        ...(parentId ? [getFolderSlugPath(folders, parentId)] : []),
+        slugifyFolderName(name)
+      ].join('/');
 
       // Update URL to include the new folder
       const newSearchParams = new URLSearchParams(searchParams.toString());
@@ -95,13 +119,14 @@ export default function NotesPage() {
       console.error('Error creating folder:', error);
       throw error;
     }
-  }, [createFolderOriginal, router, searchParams]);
+  }, [createFolderOriginal, folders, router, searchParams]);
 
   // Handle folder deletion with URL update
   const handleDeleteFolder = useCallback(async (folderId: string) => {
     try {
-      // Check if this is the current folder
-      const isCurrentFolder = currentFolderIdRef.current === folderId;
+      // Check if this is the current folder or one of its subfolders
+      const isCurrentFolder = currentFolderIdRef.current === folderId ||
+        getDescendantFolderIds(folders, folderId).includes(currentFolderIdRef.current || '');
 
       // Delete the folder
       await deleteFolderOriginal(folderId);
@@ -116,24 +141,35 @@ export default function NotesPage() {
       console.error('Error deleting folder:', error);
       throw error;
     }
-  }, [deleteFolderOriginal, router, searchParams]);
+  }, [deleteFolderOriginal, folders, router, searchParams]);
+
+  // Move a folder subtree, keeping the URL in sync when the current folder moves
+  const handleMoveFolder = useCallback(async (folderId: string, parentId: string | null) => {
+    try {
+      const currentFolderId = currentFolderIdRef.current;
+      await moveFolder(folderId, parentId);
+
+      if (currentFolderId && (currentFolderId === folderId || getDescendantFolderIds(folders, folderId).includes(currentFolderId))) {
+        const movedFolders = folders.map(f => f.id === folderId ? { ...f, parentId } : f);
+        const newSearchParams = new URLSearchParams(searchParams.toString());
+        newSearchParams.set('folder', getFolderSlugPath(movedFolders, currentFolderId));
+        router.replace(`/notes?${newSearchParams.toString()}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to move folder';
+      toast.error(errorMessage);
+    }
+  }, [moveFolder, folders, router, searchParams]);
 
   // Update current folder ID when folderNameFromUrl or folders change
   useEffect(() => {
     if (folderNameFromUrl && folders) {
-      const folder = folders.find(f => {
-        const folderUrlName = f.name
-          .toLowerCase()
-          .replace(/[^a-z0-9-]/g, '-')
-          .replace(/-+/g, '-')
-          .replace(/^-+|-+$/g, '');
-        return folderUrlName === folderNameFromUrl;
-      });
+      const folder = findFolderBySlugPath(folders, folderNameFromUrl);
       currentFolderIdRef.current = folder?.id || null;
     } else {
-      currentFolderIdRef.current = null;
+      currentFolderIdRef.current = sharedFolderIdFromUrl;
     }
-  }, [folderNameFromUrl, folders]);
+  }, [folderNameFromUrl, sharedFolderIdFromUrl, folders]);
 
   // Update folders ref when folders change
   useEffect(() => {
@@ -152,45 +188,57 @@ export default function NotesPage() {
     [searchParams]
   );
 
-  // Get the current folder from URL
+  // Get the current folder from its URL path, e.g. `work/clients/acme`
+  // or, for a folder shared with us, from its ID
   const currentFolder = useMemo(() => {
+    if (sharedFolderIdFromUrl) {
+      return sharedFolders.find(folder => folder.id === sharedFolderIdFromUrl) || null;
+    }
     if (!folderNameFromUrl) return null;
+    return findFolderBySlugPath(folders, folderNameFromUrl);
+  }, [folders, sharedFolders, folderNameFromUrl, sharedFolderIdFromUrl]);
 
-    // Find folder by matching URL-friendly name
-    const foundFolder = folders.find(folder => {
-      const folderUrlName = folder.name
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, '-')
-        .replace(/-+/g, '-')
-        .replace(/^-+|-+$/g, '');
-
-      return folderUrlName === folderNameFromUrl;
-    });
-
-    return foundFolder || null;
-  }, [folders, folderNameFromUrl]);
+  // Viewers of a shared folder can read its notes but not add or change them
+  const isReadOnlyFolder = currentFolder?.role === 'viewer';
 
   // Update the URL if we have a current folder but no folder in URL
   useEffect(() => {
-    if (currentFolder && !folderNameFromUrl) {
-      const folderUrlName = currentFolder.name
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, '-')
-        .replace(/-+/g, '-')
-        .replace(/^-+|-+$/g, '');
-
-      router.replace(`/notes?folder=${folderUrlName}`);
+    if (currentFolder && !folderNameFromUrl && !sharedFolderIdFromUrl) {
+      router.replace(`/notes?folder=${getFolderSlugPath(folders, currentFolder.id)}`);
     }
-  }, [currentFolder, folderNameFromUrl, router]);
+  }, [currentFolder, folders, folderNameFromUrl, sharedFolderIdFromUrl, router]);
+
+  // Breadcrumb trail from the top-level folder down to the current one
+  const folderBreadcrumbs = useMemo(
+    () => {
+      if (!currentFolder) return [];
+      return currentFolder.role ? [currentFolder] : getFolderAncestry(folders, currentFolder.id);
+    },
+    [folders, currentFolder]
+  );
+
+  // The current folder plus, when listing the whole subtree, every folder nested in it
+  const visibleFolderIds = useMemo(() => {
+    if (!currentFolder) return null;
+    return includeSubfolders
+      ? [currentFolder.id, ...getDescendantFolderIds(folders, currentFolder.id)]
+      : [currentFolder.id];
+  }, [folders, currentFolder, includeSubfolders]);
 
   // State for UI
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'longest' | 'shortest'>('newest');
+  const [sortBy, setSortBy] = useState<'relevance' | 'newest' | 'oldest' | 'longest' | 'shortest'>(
+    searchQuery ? 'relevance' : 'newest'
+  );
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
   const [noteToDelete, setNoteToDelete] = useState<{ id: string, title: string } | null>(null);
   const [pdfPreviewUrl, setPdfPreviewUrl] = useState<string | null>(null);
   const [isPdfLoading, setIsPdfLoading] = useState(false);
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+  const [pdfFilename, setPdfFilename] = useState('notes-export.pdf');
+  const { isExporting, exportMarkdownZip } = useNotesExport();
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Get notes for the current folder
   const {
@@ -199,26 +247,42 @@ export default function NotesPage() {
     createNote,
     updateNote,
     deleteNote,
+    moveNotes,
+    trashNotes,
+    duplicateNotes,
+    tagNotes,
+    undoBulkChange,
     currentNote,
     setCurrentNote
-  } = useNotes(currentFolder?.id || null);
+  } = useNotes(includeSubfolders ? null : currentFolder?.id || null);
+
+  const { tags, renameTag } = useTags();
+
+  const { results: searchResults, query: parsedSearchQuery } = useNoteSearch(notes, folders, searchQuery);
+
+  // Rank search results by relevance while searching, and go back to the
+  // default order once the search is cleared
+  const hasSearchQuery = Boolean(searchQuery.trim());
+  useEffect(() => {
+    setSortBy(previous => {
+      if (hasSearchQuery) return 'relevance';
+      return previous === 'relevance' ? 'newest' : previous;
+    });
+  }, [hasSearchQuery]);
 
-  // Filter notes based on search query and current folder
+  // Filter notes based on search query, current folder and selected tag
   const filteredNotes = useMemo(() => {
-    let result = [...notes];
+    // Search results come ranked, best match first
+    let result = searchResults ? [...searchResults] : [...notes];
 
-    // Filter by folder if a folder is selected
-    if (currentFolder) {
-      result = result.filter(note => note.folderId === currentFolder.id);
+    // Filter by folder (or folder subtree) if a folder is selected
+    if (visibleFolderIds) {
+      result = result.filter(note => note.folderId && visibleFolderIds.includes(note.folderId));
     }
 
-    // Filter by search query if provided
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(note =>
-        note.title.toLowerCase().includes(query) ||
-        note.content.toLowerCase().includes(query)
-      );
+    // Filter by tag if one is selected
+    if (activeTag) {
+      result = result.filter(note => note.tags?.includes(activeTag));
     }
 
     // Sort notes based on the selected option
@@ -234,7 +298,67 @@ export default function NotesPage() {
       default:
         return result;
     }
-  }, [notes, currentFolder, searchQuery, sortBy]);
+  }, [notes, searchResults, visibleFolderIds, activeTag, sortBy]);
+
+  // Notes in the order the grid shows them, which shift-click ranges follow
+  const displayedNotes = useMemo(() => [...filteredNotes].sort((a, b) => {
+    switch (sortBy) {
+      case 'newest':
+        return b.createdAt - a.createdAt;
+      case 'oldest':
+        return a.createdAt - b.createdAt;
+      case 'longest':
+        return (b.contentLength || 0) - (a.contentLength || 0);
+      case 'shortest':
+        return (a.contentLength || 0) - (b.contentLength || 0);
+      default:
+        return 0;
+    }
+  }), [filteredNotes, sortBy]);
+
+  // Toggle listing the notes of every subfolder of the current folder
+  const handleToggleSubfolders = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (includeSubfolders) {
+      params.delete('subtree');
+    } else {
+      params.set('subtree', '1');
+    }
+    router.replace(`/notes?${params.toString()}`);
+  };
+
+  // Toggle the tag filter, keeping the folder and search params
+  const handleTagSelect = (tag: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (activeTag === tag) {
+      params.delete('tag');
+    } else {
+      params.set('tag', tag);
+    }
+    params.delete('view');
+
+    const queryString = params.toString();
+    router.push(queryString ? `/notes?${queryString}` : '/notes', { scroll: false });
+  };
+
+  // Rename a tag on every note; renaming onto an existing tag merges them
+  const handleRenameTag = async (tag: string) => {
+    const newName = window.prompt(`Rename tag "${tag}" (use an existing tag name to merge):`, tag);
+    if (newName === null || newName.trim() === tag) return;
+
+    try {
+      await renameTag(tag, newName);
+      if (activeTag === tag) {
+        const params = new URLSearchParams(searchParams.toString());
+        params.delete('tag');
+        router.replace(`/notes?${params.toString()}`);
+      }
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to rename tag';
+      toast.error(errorMessage);
+    }
+  };
 
   // Handle folder selection
   const handleFolderSelect = async (folderId: string | null, folderName?: string) => {
@@ -244,15 +368,15 @@ export default function NotesPage() {
 
     // Don't do anything if we're already on this folder
     const currentFolder = searchParams.get('folder');
-    const urlFriendlyName = folderName
-      ? folderName
-        .toLowerCase()
-        .replace(/[^a-z0-9-]/g, '-')
-        .replace(/-+/g, '-')
-        .replace(/^-+|-+$/g, '')
-      : '';
-
-    if ((!folderId && !currentFolder) || (folderId && currentFolder === urlFriendlyName)) {
+    const currentSharedFolder = searchParams.get('shared');
+    const isSharedFolder = !!folderId && sharedFolders.some(folder => folder.id === folderId);
+    const urlFriendlyName = folderId && !isSharedFolder ? getFolderSlugPath(folders, folderId) : '';
+
+    if (
+      (!folderId && !currentFolder && !currentSharedFolder) ||
+      (folderId && !isSharedFolder && currentFolder === urlFriendlyName) ||
+      (isSharedFolder && currentSharedFolder === folderId)
+    ) {
       console.log('Already on this folder, skipping navigation');
       return;
     }
@@ -261,8 +385,10 @@ export default function NotesPage() {
     setIsEditorOpen(false);
 
     try {
-      if (folderId && folderName) {
-        // Create URL-friendly folder name
+      if (isSharedFolder) {
+        await router.push(`/notes?shared=${folderId}`, { scroll: false });
+      } else if (folderId && folderName) {
+        // Create URL-friendly folder path
         const newUrl = `/notes?folder=${urlFriendlyName}`;
         console.log('3. Generated URL:', newUrl);
 
@@ -316,7 +442,7 @@ export default function NotesPage() {
 
   // Handle note deletion
   const handleDeleteNote = async (noteId: string) => {
-    if (window.confirm('Are you sure you want to delete this note?')) {
+    if (window.confirm('Move this note to the trash?')) {
       try {
         await deleteNote(noteId);
         // toast.success('Note deleted');
@@ -327,6 +453,134 @@ export default function NotesPage() {
     }
   };
 
+  // Notes picked for bulk actions. Only those still in view are acted on.
+  const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const lastSelectedNoteIdRef = useRef<string | null>(null);
+
+  const selectedNotes = useMemo(
+    () => displayedNotes.filter(note => selectedNoteIds.has(note.id)),
+    [displayedNotes, selectedNoteIds]
+  );
+
+  // Start over when the view changes
+  useEffect(() => {
+    setSelectedNoteIds(new Set());
+    lastSelectedNoteIdRef.current = null;
+  }, [currentFolder?.id, activeTag, searchQuery, includeSubfolders, isTrashView]);
+
+  // Toggle a note; with shift held, give every note between it and the last one
+  // toggled the same state
+  const handleToggleNoteSelection = (noteId: string, isRange: boolean) => {
+    const noteIds = displayedNotes.map(note => note.id);
+    const anchorIndex = lastSelectedNoteIdRef.current ? noteIds.indexOf(lastSelectedNoteIdRef.current) : -1;
+    const index = noteIds.indexOf(noteId);
+    const rangeIds = isRange && anchorIndex !== -1
+      ? noteIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : [noteId];
+
+    setSelectedNoteIds((previous) => {
+      const next = new Set(previous);
+      const select = !previous.has(noteId);
+      rangeIds.forEach(id => (select ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    lastSelectedNoteIdRef.current = noteId;
+  };
+
+  const handleSelectAllNotes = () => {
+    setSelectedNoteIds(new Set(displayedNotes.map(note => note.id)));
+  };
+
+  const handleClearSelection = () => {
+    setSelectedNoteIds(new Set());
+    lastSelectedNoteIdRef.current = null;
+  };
+
+  const handleUndoBulkChange = async (change: BulkNoteChange) => {
+    const toastId = toast.loading('Undoing...');
+    try {
+      const changedIds = await undoBulkChange(change);
+      if (changedIds.length === 0) {
+        toast.success('Undone', { id: toastId });
+      } else if (changedIds.length < change.noteIds.length) {
+        toast.success(`Undone, except for ${pluralizeNotes(changedIds.length)} changed since`, { id: toastId });
+      } else {
+        toast.error('Nothing undone: the notes changed since', { id: toastId });
+      }
+    } catch (error) {
+      console.error('Error undoing bulk change:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to undo';
+      toast.error(errorMessage, { id: toastId });
+    }
+  };
+
+  // Run a bulk change on the selected notes: a progress toast while it is written,
+  // then the outcome with a short window to undo it
+  const runBulkChange = async (
+    progress: string,
+    describe: (count: number) => string,
+    change: (noteIds: string[]) => Promise<BulkNoteChange>
+  ) => {
+    if (isBulkBusy || selectedNotes.length === 0) return;
+
+    setIsBulkBusy(true);
+    const toastId = toast.loading(progress);
+    try {
+      const result = await change(selectedNotes.map(note => note.id));
+      const skippedMessage = result.skipped > 0 ? ` (${result.skipped} skipped)` : '';
+
+      if (result.noteIds.length === 0) {
+        toast(`No notes changed${skippedMessage}`, { id: toastId });
+      } else {
+        toast((t) => (
+          <span className="flex items-center gap-3">
+            <span>{describe(result.noteIds.length)}{skippedMessage}</span>
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                handleUndoBulkChange(result);
+              }}
+              className="text-sm font-medium text-blue-600 hover:underline"
+            >
+              Undo
+            </button>
+          </span>
+        ), { id: toastId, duration: BULK_UNDO_WINDOW_MS });
+      }
+      handleClearSelection();
+    } catch (error) {
+      console.error('Error changing notes:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change notes';
+      toast.error(errorMessage, { id: toastId });
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  const handleBulkMove = (folderId: string) => {
+    const folderName = folders.find(folder => folder.id === folderId)?.name || 'folder';
+    runBulkChange(`Moving ${pluralizeNotes(selectedNotes.length)}...`, count => `Moved ${pluralizeNotes(count)} to ${folderName}`, noteIds => moveNotes(noteIds, folderId));
+  };
+
+  const handleBulkTag = () => {
+    const tag = window.prompt(`Add a tag to ${pluralizeNotes(selectedNotes.length)}:`);
+    if (!tag?.trim()) return;
+    runBulkChange(`Tagging ${pluralizeNotes(selectedNotes.length)}...`, count => `Tagged ${pluralizeNotes(count)}`, noteIds => tagNotes(noteIds, tag));
+  };
+
+  const handleBulkDuplicate = () => {
+    runBulkChange(`Duplicating ${pluralizeNotes(selectedNotes.length)}...`, count => `Created ${count} ${count === 1 ? 'copy' : 'copies'}`, duplicateNotes);
+  };
+
+  const handleBulkDelete = () => {
+    runBulkChange(`Moving ${pluralizeNotes(selectedNotes.length)} to the trash...`, count => `Moved ${pluralizeNotes(count)} to the trash`, trashNotes);
+  };
+
+  const handleBulkExport = () => {
+    exportMarkdownZip(selectedNotes.map(note => note.id));
+  };
+
   // Close PDF preview
   const closePdfPreview = () => {
     if (pdfPreviewUrl) {
@@ -335,217 +589,40 @@ export default function NotesPage() {
     }
   };
 
-  // Define FolderEntry interface at the top level
-  interface FolderEntry {
-    id: string;
-    name: string;
-    notes: Array<{
-      id: string;
-      title?: string;
-      content?: string;
-      folderId?: string;
-      updatedAt?: any;
-    }>;
-  }
-
-  // Generate PDF with structured table of contents and notes
-  const generatePdf = async (preview = false) => {
-    // Initialize all variables at the start of the function
-    let pdfBlob: Blob | null = null;
-    const filename = 'notes-export.pdf';
-    let doc: any = null;
-    
-    // Set loading state
+  // Generate a PDF of the folders and notes picked in the export dialog
+  const generatePdf = async (request: PdfExportRequest, preview = false) => {
     setIsPdfLoading(true);
-    
+
     try {
-      // Initialize PDF document
-      const { jsPDF } = await import('jspdf');
-      doc = new jsPDF('p', 'mm', 'a4');
-      
-      // Define layout constants
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      const margin = 20;
-      const baseLineHeight = 7;
-      const sectionSpacing = 10;
-      let yPos = 60; // Start content below the header
-      
-      // Create a map of folders with their notes
-      const notesByFolder: Record<string, Array<{
-        id: string;
-        title?: string;
-        content?: string;
-        folderId?: string;
-        updatedAt?: any;
-      }>> = {};
-      
-      // Initialize with existing folders
-      folders.forEach((folder: { id: string }) => {
-        notesByFolder[folder.id] = [];
-      });
-      
-      // Add notes to their respective folders
-      filteredNotes.forEach((note: { folderId?: string; id: string; title?: string; content?: string; updatedAt?: any }) => {
-        if (note.folderId && !notesByFolder[note.folderId]) {
-          // If folder doesn't exist in our folders list, skip it
-          return;
-        }
-        const folderId = note.folderId || 'Uncategorized';
-        if (!notesByFolder[folderId]) {
-          notesByFolder[folderId] = [];
-        }
-        notesByFolder[folderId].push({
-          id: note.id,
-          title: note.title,
-          content: note.content,
-          folderId: note.folderId,
-          updatedAt: note.updatedAt
-        });
-      });
-      
-      // Get all folder entries that exist in our folders list
-      const folderEntries: FolderEntry[] = folders.map((folder: any) => ({
-        id: folder.id,
-        name: folder.name,
-        notes: notesByFolder[folder.id] || []
-      }));
-      
-      // Add header with title, user email, and timestamp
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(22);
-      doc.text('NOTES EXPORT', 105, 20, { align: 'center' });
-      
-      // Add user email
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(12);
-      doc.text(`User: ${user?.email || 'Unknown'}`, 20, 35);
-      
-      // Add formatted date and time (dd/mm/yyyy, hh:mm:ss AM/PM)
-      const now = new Date();
-      const formattedDate = now.toLocaleDateString('en-GB');
-      const formattedTime = now.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: true
-      });
-      doc.text(`Generated on: ${formattedDate}, ${formattedTime}`, 20, 42);
-      
-      // Add a line separator
-      doc.setDrawColor(200, 200, 200);
-      doc.line(20, 48, 190, 48);
-      
-      // Add TOC entries for all folders
-      folderEntries.forEach((folder: any, folderIndex: number) => {
-        const folderAnchorId = `folder_${folderIndex}`;
-        
-        // Add folder to TOC with number - bold and larger
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(12);
-        doc.text(`${folderIndex + 1}. ${folder.name}`, 20, yPos);
-        yPos += 7;
-        
-        // Add notes under folder in TOC - normal weight and smaller
-        doc.setFont('helvetica', 'normal');
-        folder.notes.forEach((note: { title?: string }, index: number) => {
-          const noteTitle = note.title || 'Untitled Note';
-          const noteText = `  ${String.fromCharCode(97 + index)}) ${noteTitle}`;
-          doc.text(noteText, 30, yPos);
-          yPos += 5;
-          
-          // Add new page if needed
-          if (yPos > 260) {
-            doc.addPage();
-            doc.text('Table of Contents (continued)', 105, 20, { align: 'center' });
-            yPos = 30;
-          }
-        });
-        
-        yPos += 5;
-      });
-      
-      // Add detailed notes on a new page
-      doc.addPage();
-      
-      // Reset yPos for the new page
-      yPos = 20;
-      
-      // Indentation settings (in mm)
-      const folderIndent = 20;    // Folder indentation from left
-      const noteIndent = 30;      // Note title indentation from left
-      const contentIndent = 40;   // Content indentation from left
-      const contentWidth = 160;   // Content width
-      
-      // Process each folder's notes in detail
-      folderEntries.forEach((folder: any, folderIndex: number) => {
-        // Add folder header with number - largest and bold
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(16);
-        doc.text(`${folderIndex + 1}. ${folder.name}`, folderIndent, yPos);
-        yPos += 10;
-        
-        // Add notes under folder or message if no notes
-        if (folder.notes.length === 0) {
-          doc.setFont('helvetica', 'italic');
-          doc.setFontSize(12);
-          doc.text('No notes exist for this folder', noteIndent, yPos);
-          yPos += 8;
-        } else {
-          folder.notes.forEach((note: { title?: string; content?: string }, index: number) => {
-            const noteTitle = note.title || 'Untitled Note';
-            
-            // Add note title - indented from folder
-            doc.setFont('helvetica', 'bold');
-            doc.setFontSize(14);
-            doc.text(`${String.fromCharCode(97 + index)}) ${noteTitle}`, noteIndent, yPos);
-            yPos += 7;
-            
-            // Add note content
-            if (note.content) {
-              doc.setFont('helvetica', 'normal');
-              doc.setFontSize(12);
-              const splitText = doc.splitTextToSize(note.content, contentWidth);
-              
-              // Add the note content line by line
-              for (let i = 0; i < splitText.length; i++) {
-                // Only add new page if we're at the bottom and there's more content
-                if (yPos > 260) { // 260mm gives us a small bottom margin
-                  doc.addPage();
-                  yPos = 20; // Reset Y position for new page
-                }
-                doc.text(splitText[i], contentIndent, yPos);
-                yPos += 6; // Line height
-              }
-            }
-            
-            yPos += 10; // Add space between notes
-            
-            // Add new page if we're too close to the bottom
-            if (yPos > 270) {
-              doc.addPage();
-              yPos = 20;
-            }
-          });
-        }
-        
-        yPos += 10; // Add extra space between folders
+      // jsPDF is only loaded once someone exports
+      const { generateNotesPdf } = await import('@/lib/notes-pdf');
+      const pdfBlob = generateNotesPdf({
+        title: request.title,
+        author: user?.email || null,
+        generatedAt: new Date(),
+        sections: request.sections,
+        pageSize: request.pageSize,
+        fontSize: request.fontSize,
+        includeToc: request.includeToc
       });
-      
-      // Generate the PDF as a blob
-      const generatedPdfBlob = doc.output('blob');
-      pdfBlob = generatedPdfBlob; // Assign to outer scope variable
-      
+      const pdfUrl = URL.createObjectURL(pdfBlob);
+
       if (preview) {
         // For preview, set the URL for the modal
-        const pdfUrl = URL.createObjectURL(generatedPdfBlob);
         setPdfPreviewUrl(pdfUrl);
+        setPdfFilename(request.filename);
       } else {
-        // For download, save the file
-        doc.save('notes-export.pdf');
+        const link = document.createElement('a');
+        link.href = pdfUrl;
+        link.download = request.filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(pdfUrl);
         toast.success('PDF exported successfully!');
       }
-    } catch (error: any) {
+      setIsPdfExportOpen(false);
+    } catch (error) {
       console.error('Error generating PDF:', error);
       toast.error('Failed to generate PDF');
     } finally {
@@ -561,7 +638,7 @@ export default function NotesPage() {
       // Create a link element
       const link = document.createElement('a');
       link.href = pdfPreviewUrl;
-      link.download = 'notes-export.pdf';
+      link.download = pdfFilename;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -574,7 +651,13 @@ export default function NotesPage() {
   };
 
   // Handle saving a note
-  const handleSaveNote = async (title: string, content: string, folderId: string | undefined = undefined) => {
+  const handleSaveNote = async (
+    title: string,
+    content: string,
+    folderId: string | undefined = undefined,
+    tags: string[] = [],
+    { expectedUpdatedAt }: NoteSaveOptions = {}
+  ) => {
     try {
       if (selectedNoteId) {
         // Update existing note
@@ -582,12 +665,13 @@ export default function NotesPage() {
           title, 
           content, 
           folderId, // Pass undefined if not provided, which will be handled by the hook
+          tags,
           updatedAt: Date.now(),
           contentLength: content.length
-        });
+        }, { expectedUpdatedAt });
       } else {
         // Create new note - pass folderId as is (can be undefined)
-        await createNote(title, content, folderId);
+        await createNote(title, content, folderId, tags);
       }
       
       // Close the editor and reset state
@@ -597,9 +681,9 @@ export default function NotesPage() {
       
       toast.success(selectedNoteId ? 'Note updated successfully!' : 'Note created successfully!');
     } catch (error) {
+      // The editor reports the failure, keeps the draft and resolves conflicts
       console.error('Error saving note:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to save note';
-      toast.error(errorMessage);
+      throw error;
     }
   };
 
@@ -617,6 +701,37 @@ export default function NotesPage() {
     [selectedNoteId, currentNote, notes]
   );
 
+  // Notes owned by someone else are read-only unless their folder was shared with us as an editor
+  const isReadOnlyNote = useCallback((note: NoteWithId | null) => {
+    if (!note?.id || note.userId === user?.uid) return false;
+    return sharedFolders.find(folder => folder.id === note.folderId)?.role !== 'editor';
+  }, [sharedFolders, user?.uid]);
+
+  // Folders the editor can file notes into: our own plus those shared with us as an editor
+  const editableFolders = useMemo(
+    () => [...folders, ...sharedFolders.filter(folder => folder.role === 'editor')],
+    [folders, sharedFolders]
+  );
+
+  const [sharingFolderId, setSharingFolderId] = useState<string | null>(null);
+  const sharingFolder = sharingFolderId ? folders.find(folder => folder.id === sharingFolderId) || null : null;
+
+  const handleLeaveFolder = async (folder: Folder) => {
+    if (!window.confirm(`Leave "${folder.name}"? You will no longer see its notes.`)) return;
+
+    try {
+      await leaveFolder(folder.id);
+      if (currentFolder?.id === folder.id) {
+        router.push('/notes');
+      }
+    } catch {
+      // Reported by the hook
+    }
+  };
+
+  const editingNote = selectedNoteId ? selectedNote : currentNote;
+  const isEditingReadOnly = isReadOnlyNote(editingNote);
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -626,66 +741,176 @@ export default function NotesPage() {
         onFolderSelect={handleFolderSelect}
         onCreateFolder={createFolder}
         onDeleteFolder={handleDeleteFolder}
+        onMoveFolder={handleMoveFolder}
+        tags={tags}
+        activeTag={activeTag}
+        onTagSelect={handleTagSelect}
+        onRenameTag={handleRenameTag}
+        sharedFolders={sharedFolders}
+        onShareFolder={(folder) => setSharingFolderId(folder.id)}
+        onLeaveFolder={handleLeaveFolder}
       />
 
+      {isPdfExportOpen && (
+        <PdfExportDialog
+          folders={folders}
+          defaultFolderId={currentFolder && !currentFolder.role ? currentFolder.id : null}
+          isGenerating={isPdfLoading}
+          onGenerate={generatePdf}
+          onClose={() => setIsPdfExportOpen(false)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          folders={folders}
+          defaultFolderId={currentFolder && !currentFolder.role ? currentFolder.id : null}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {sharingFolder && (
+        <FolderMembersDialog
+          folder={sharingFolder}
+          onClose={() => setSharingFolderId(null)}
+        />
+      )}
+
       {/* Main content */}
       <div className="flex-1 flex flex-col overflow-hidden">
         {/* Header */}
         <header className="bg-white border-b border-gray-200">
           <div className="flex flex-col sm:flex-row sm:items-center justify-between px-6 py-5 border-b border-gray-100 bg-white/95 backdrop-blur-sm sticky top-0 z-10">
             <div className="flex items-center">
-              <h1 className="text-2xl font-bold text-gray-900">
-                {currentFolder ? currentFolder.name : 'All Notes'}
-              </h1>
-            </div>
-            <div className="flex items-center space-x-4">
-              {/* Sorting Dropdown */}
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as any)}
-                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="newest">Newest First</option>
-                <option value="oldest">Oldest First</option>
-                <option value="longest">Longest First</option>
-                <option value="shortest">Shortest First</option>
-              </select>
-
-              {/* Download PDF Button */}
-              <button
-                onClick={() => generatePdf(true)}
-                disabled={isPdfLoading}
-                className={`flex items-center gap-2 text-white bg-blue-600 border border-blue-600 px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 ${isPdfLoading ? 'opacity-70 cursor-not-allowed' : ''}`}
-                title="Export to PDF"
-              >
-                {isPdfLoading ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white"></div>
-                    <span>Generating...</span>
-                  </>
-                ) : (
-                  <>
-                    <FiDownload className="h-4 w-4" />
-                    <span>Export to PDF</span>
-                  </>
+              <div>
+                {!isTrashView && folderBreadcrumbs.length > 1 && (
+                  <nav aria-label="Breadcrumb" className="flex items-center flex-wrap text-sm text-gray-500 mb-1">
+                    <button onClick={() => handleFolderSelect(null)} className="hover:text-blue-600">
+                      All Notes
+                    </button>
+                    {folderBreadcrumbs.slice(0, -1).map((folder) => (
+                      <span key={folder.id} className="flex items-center">
+                        <FiChevronRight className="mx-1 h-3 w-3" />
+                        <button onClick={() => handleFolderSelect(folder.id, folder.name)} className="hover:text-blue-600">
+                          {folder.name}
+                        </button>
+                      </span>
+                    ))}
+                  </nav>
                 )}
-              </button>
-
-              {/* New Note Button */}
-              <button
-                onClick={handleNewNote}
-                className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <FiPlus className="h-4 w-4" />
-                <span>New Note</span>
-              </button>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {isTrashView ? 'Trash' : currentFolder ? currentFolder.name : 'All Notes'}
+                </h1>
+              </div>
+              {!isTrashView && activeTag && (
+                <button
+                  onClick={() => handleTagSelect(activeTag)}
+                  className="ml-3 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-100 hover:bg-blue-100"
+                  title="Clear tag filter"
+                >
+                  #{activeTag}
+                  <FiX className="ml-1" size={12} />
+                </button>
+              )}
             </div>
+            {!isTrashView && (
+              <div className="flex items-center space-x-4">
+                {/* Subtree toggle */}
+                {currentFolder && getDescendantFolderIds(folders, currentFolder.id).length > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={includeSubfolders}
+                      onChange={handleToggleSubfolders}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    All notes in this subtree
+                  </label>
+                )}
+
+                {/* Sorting Dropdown */}
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {hasSearchQuery && <option value="relevance">Best Match</option>}
+                  <option value="newest">Newest First</option>
+                  <option value="oldest">Oldest First</option>
+                  <option value="longest">Longest First</option>
+                  <option value="shortest">Shortest First</option>
+                </select>
+
+                {/* Download PDF Button */}
+                <button
+                  onClick={() => setIsPdfExportOpen(true)}
+                  disabled={isPdfLoading}
+                  className={`flex items-center gap-2 text-white bg-blue-600 border border-blue-600 px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 ${isPdfLoading ? 'opacity-70 cursor-not-allowed' : ''}`}
+                  title="Export to PDF"
+                >
+                  {isPdfLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white"></div>
+                      <span>Generating...</span>
+                    </>
+                  ) : (
+                    <>
+                      <FiDownload className="h-4 w-4" />
+                      <span>Export to PDF</span>
+                    </>
+                  )}
+                </button>
+
+                {/* Markdown ZIP Export Button */}
+                <button
+                  onClick={() => exportMarkdownZip()}
+                  disabled={isExporting}
+                  className={`flex items-center gap-2 text-blue-600 bg-white border border-blue-600 px-4 py-2 rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 ${isExporting ? 'opacity-70 cursor-not-allowed' : ''}`}
+                  title="Download all notes as Markdown files in a ZIP, organized by folder"
+                >
+                  {isExporting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-600"></div>
+                      <span>Exporting...</span>
+                    </>
+                  ) : (
+                    <>
+                      <FiArchive className="h-4 w-4" />
+                      <span>Export Markdown</span>
+                    </>
+                  )}
+                </button>
+
+                {/* Import Button */}
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center gap-2 text-blue-600 bg-white border border-blue-600 px-4 py-2 rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Import notes from Markdown, text, ZIP or JSON backup files"
+                >
+                  <FiUpload className="h-4 w-4" />
+                  <span>Import</span>
+                </button>
+
+                {/* New Note Button */}
+                {!isReadOnlyFolder && (
+                  <button
+                    onClick={handleNewNote}
+                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <FiPlus className="h-4 w-4" />
+                    <span>New Note</span>
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </header>
 
         {/* Notes grid */}
         <main className="flex-1 overflow-y-auto">
-          {notesLoading || foldersLoading ? (
+          {isTrashView ? (
+            <TrashView />
+          ) : notesLoading || foldersLoading ? (
             <div className="flex flex-col items-center justify-center h-full space-y-4">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
               <p className="text-gray-600 text-lg font-medium">Loading your notes...</p>
@@ -702,18 +927,24 @@ export default function NotesPage() {
                       {searchQuery ? 'No matching notes found' : 'No notes yet'}
                     </p>
                   </div>
-                  <p className="text-gray-500 mb-6">
-                    {currentFolder
-                      ? 'Get started by creating a new note in this folder.'
-                      : 'Create your first note to get started.'}
-                  </p>
-                  <button
-                    onClick={handleNewNote}
-                    className="inline-flex items-center px-5 py-2.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 shadow-sm transition-all duration-200 transform hover:-translate-y-0.5"
-                  >
-                    <FiPlus className="mr-2 h-4 w-4" />
-                    Create Note
-                  </button>
+                  {isReadOnlyFolder ? (
+                    <p className="text-gray-500 mb-6">This folder was shared with you as view only.</p>
+                  ) : (
+                    <>
+                      <p className="text-gray-500 mb-6">
+                        {currentFolder
+                          ? 'Get started by creating a new note in this folder.'
+                          : 'Create your first note to get started.'}
+                      </p>
+                      <button
+                        onClick={handleNewNote}
+                        className="inline-flex items-center px-5 py-2.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 shadow-sm transition-all duration-200 transform hover:-translate-y-0.5"
+                      >
+                        <FiPlus className="mr-2 h-4 w-4" />
+                        Create Note
+                      </button>
+                    </>
+                  )}
                 </div>
               ) : (
                 <>
@@ -724,22 +955,35 @@ export default function NotesPage() {
                       </p>
                     </div>
                   )}
+                  {selectedNotes.length > 0 ? (
+                    <BulkActionBar
+                      selectedCount={selectedNotes.length}
+                      visibleCount={displayedNotes.length}
+                      folders={folders}
+                      isBusy={isBulkBusy || isExporting}
+                      onSelectAll={handleSelectAllNotes}
+                      onClear={handleClearSelection}
+                      onMove={handleBulkMove}
+                      onTag={handleBulkTag}
+                      onDuplicate={handleBulkDuplicate}
+                      onExport={handleBulkExport}
+                      onDelete={handleBulkDelete}
+                    />
+                  ) : (
+                    <div className="px-6 pt-4">
+                      <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={false}
+                          onChange={handleSelectAllNotes}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Select all
+                      </label>
+                    </div>
+                  )}
                   <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 p-6">
-                    {filteredNotes
-                      .sort((a, b) => {
-                        switch (sortBy) {
-                          case 'newest':
-                            return b.createdAt - a.createdAt;
-                          case 'oldest':
-                            return a.createdAt - b.createdAt;
-                          case 'longest':
-                            return b.contentLength - a.contentLength;
-                          case 'shortest':
-                            return a.contentLength - b.contentLength;
-                          default:
-                            return 0;
-                        }
-                      })
+                    {displayedNotes
                       .map((note: any) => {
                         // Find the folder name for this note
                         const folder = note.folderId
@@ -749,7 +993,9 @@ export default function NotesPage() {
                         return (
                           <div
                             key={note.id}
-                            className="group bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-all duration-200 flex flex-col h-full transform hover:-translate-y-0.5 hover:border-gray-200"
+                            className={`group bg-white rounded-xl shadow-sm border overflow-hidden hover:shadow-md transition-all duration-200 flex flex-col h-full transform hover:-translate-y-0.5 ${
+                              selectedNoteIds.has(note.id) ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-100 hover:border-gray-200'
+                            }`}
                           >
                             <div
                               className="p-5 flex-1 cursor-pointer transition-colors duration-200 hover:bg-gray-50/50 relative"
@@ -767,17 +1013,68 @@ export default function NotesPage() {
                               {/* Note title and content */}
                               <div className="pr-12">
                                 <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2 leading-snug group-hover:text-blue-600 transition-colors">
-                                  <HighlightText text={note.title} searchQuery={searchQuery} />
+                                  {hasSearchQuery ? (
+                                    <HighlightText
+                                      text={note.title}
+                                      terms={parsedSearchQuery.terms}
+                                      phrases={parsedSearchQuery.phrases}
+                                    />
+                                  ) : note.title}
                                 </h3>
                               </div>
-                              <div className="text-gray-600 text-sm line-clamp-6 whitespace-pre-wrap break-words prose prose-sm max-w-none">
-                                <HighlightText text={note.content} searchQuery={searchQuery} />
-                              </div>
+                              {hasSearchQuery ? (
+                                <div className="text-gray-600 text-sm line-clamp-6 whitespace-pre-wrap break-words prose prose-sm max-w-none">
+                                  <HighlightText
+                                    text={getSearchSnippet(note.content, parsedSearchQuery.terms, parsedSearchQuery.phrases)}
+                                    terms={parsedSearchQuery.terms}
+                                    phrases={parsedSearchQuery.phrases}
+                                  />
+                                </div>
+                              ) : note.content && (
+                                <div className="relative text-gray-600 text-sm max-h-40 overflow-hidden break-words">
+                                  <MarkdownPreview content={note.content} />
+                                  <div className="absolute inset-x-0 bottom-0 h-6 bg-gradient-to-t from-white to-transparent pointer-events-none" />
+                                </div>
+                              )}
+
+                              {/* Tags */}
+                              {note.tags?.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5 mt-3">
+                                  {note.tags.map((tag: string) => (
+                                    <button
+                                      key={tag}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleTagSelect(tag);
+                                      }}
+                                      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
+                                        activeTag === tag
+                                          ? 'bg-blue-600 text-white border-blue-600'
+                                          : 'bg-gray-50 text-gray-600 border-gray-200 hover:bg-gray-100'
+                                      }`}
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
                             </div>
 
                             {/* Note footer with actions and timestamp */}
                             <div className="border-t border-gray-100 px-5 py-3 flex items-center justify-between bg-gray-50/50">
-                              <span className="text-xs text-gray-500 font-medium">
+                              <input
+                                type="checkbox"
+                                checked={selectedNoteIds.has(note.id)}
+                                readOnly
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleToggleNoteSelection(note.id, e.shiftKey);
+                                }}
+                                className="mr-3 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                aria-label={`Select ${note.title || 'note'}`}
+                                title="Select (shift-click to select a range)"
+                              />
+                              <span className="flex-1 text-xs text-gray-500 font-medium">
                                 Last updated {new Date(note.updatedAt).toLocaleString('en-GB', {
                                   day: '2-digit',
                                   month: '2-digit',
@@ -794,20 +1091,24 @@ export default function NotesPage() {
                                     handleSelectNote(note.id);
                                   }}
                                   className="text-gray-400 hover:bg-gray-200 p-1.5 rounded-md transition-colors duration-200"
-                                  title="Edit note"
+                                  title={isReadOnlyNote(note) ? 'View note' : 'Edit note'}
                                 >
-                                  <FiEdit size={16} className="text-gray-500 hover:text-blue-600" />
-                                </button>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleDeleteNote(note.id);
-                                  }}
-                                  className="text-gray-400 hover:bg-gray-200 p-1.5 rounded-md transition-colors duration-200"
-                                  title="Delete note"
-                                >
-                                  <FiTrash2 size={16} className="text-gray-500 hover:text-red-600" />
+                                  {isReadOnlyNote(note)
+                                    ? <FiEye size={16} className="text-gray-500 hover:text-blue-600" />
+                                    : <FiEdit size={16} className="text-gray-500 hover:text-blue-600" />}
                                 </button>
+                                {!isReadOnlyNote(note) && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleDeleteNote(note.id);
+                                    }}
+                                    className="text-gray-400 hover:bg-gray-200 p-1.5 rounded-md transition-colors duration-200"
+                                    title="Delete note"
+                                  >
+                                    <FiTrash2 size={16} className="text-gray-500 hover:text-red-600" />
+                                  </button>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -825,16 +1126,18 @@ export default function NotesPage() {
       {isEditorOpen && (
         <NoteEditor
           key={`note-editor-${selectedNoteId || 'new'}`}
-          note={selectedNoteId ? selectedNote : currentNote}
+          note={editingNote}
           onSave={handleSaveNote}
-          onDelete={selectedNoteId ? () => handleDeleteNote(selectedNoteId) : undefined}
+          onDelete={selectedNoteId && !isEditingReadOnly ? () => handleDeleteNote(selectedNoteId) : undefined}
           onClose={() => {
             setIsEditorOpen(false);
             setSelectedNoteId(null);
             setCurrentNote(null);
           }}
-          folders={folders}
+          folders={editableFolders}
           folderId={currentFolder?.id || null}
+          readOnly={isEditingReadOnly}
+          canShare={!editingNote?.id || editingNote.userId === user?.uid}
         />
       )}
       {/* PDF Preview Modal - Google Drive Style */}
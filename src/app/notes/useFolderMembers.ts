@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { auth } from '@/lib/firebase/config';
+import { toast } from 'react-hot-toast';
+import type { FolderRole } from '@/lib/folder-members';
+
+interface UseFolderMembersReturn {
+  inviteMember: (folderId: string, email: string, role: FolderRole) => Promise<void>;
+  removeMember: (folderId: string, memberId: string) => Promise<void>;
+  leaveFolder: (folderId: string) => Promise<void>;
+}
+
+// Calls the folder members API with the signed-in user's ID token
+const callMembersApi = async (path: string, init: RequestInit) => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${idToken}`
+    }
+  });
+
+  const responseData = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(responseData.error || 'Request failed');
+  }
+  return responseData;
+};
+
+// Membership changes go through the API; the folder listeners in useFolders pick them up
+export const useFolderMembers = (): UseFolderMembersReturn => {
+  const inviteMember = useCallback(async (folderId: string, email: string, role: FolderRole) => {
+    try {
+      await callMembersApi(`/api/folders/${folderId}/members`, {
+        method: 'POST',
+        body: JSON.stringify({ email, role })
+      });
+      // The API doesn't say whether the address has an account
+      toast.success(`Shared with ${email} if they have an account`);
+    } catch (error) {
+      console.error('Error inviting folder member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to share folder');
+      throw error;
+    }
+  }, []);
+
+  const removeMember = useCallback(async (folderId: string, memberId: string) => {
+    try {
+      await callMembersApi(`/api/folders/${folderId}/members/${memberId}`, { method: 'DELETE' });
+      toast.success('Member removed');
+    } catch (error) {
+      console.error('Error removing folder member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member');
+      throw error;
+    }
+  }, []);
+
+  const leaveFolder = useCallback(async (folderId: string) => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) throw new Error('User not authenticated');
+
+    try {
+      await callMembersApi(`/api/folders/${folderId}/members/${currentUser.uid}`, { method: 'DELETE' });
+      toast.success('You left the folder');
+    } catch (error) {
+      console.error('Error leaving folder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to leave folder');
+      throw error;
+    }
+  }, []);
+
+  return {
+    inviteMember,
+    removeMember,
+    leaveFolder
+  };
+};
@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import { get, getDatabase, ref } from 'firebase/database';
+import { useFolders } from './useFolders';
+import { EMULATOR_ACCOUNTS } from '@/test/emulators';
+import { renderSignedIn, signOutEverywhere } from '@/test/render-with-auth';
+
+// useFolders against the Auth and Database emulators, signed in as the seeded user
+
+const { user, admin } = EMULATOR_ACCOUNTS;
+
+const readFolder = async (folderId: string) => (await get(ref(getDatabase(), `folders/${folderId}`))).val();
+
+// Folder names are unique per parent, and the emulators keep data between tests
+const uniqueName = (name: string) => `${name} ${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+afterEach(async () => {
+  await signOutEverywhere();
+});
+
+describe('useFolders', () => {
+  it('creates folders and lists them from the database', async () => {
+    const { result } = await renderSignedIn(user, () => useFolders());
+    const name = uniqueName('Projects');
+
+    let folderId = '';
+    await act(async () => {
+      folderId = await result.current.hook.createFolder(name);
+    });
+
+    await waitFor(() => expect(result.current.hook.folders.map(folder => folder.id)).toContain(folderId));
+    expect(await readFolder(folderId)).toMatchObject({ name, userId: user.uid, noteCount: 0 });
+  });
+
+  it('refuses a second folder with the same name in the same place', async () => {
+    const { result } = await renderSignedIn(user, () => useFolders());
+    const name = uniqueName('Duplicate');
+
+    await act(async () => {
+      await result.current.hook.createFolder(name);
+    });
+    await expect(act(() => result.current.hook.createFolder(name))).rejects.toThrow('already exists');
+  });
+
+  it('moves folders between parents', async () => {
+    const { result } = await renderSignedIn(user, () => useFolders());
+
+    let parentId = '';
+    let childId = '';
+    await act(async () => {
+      parentId = await result.current.hook.createFolder(uniqueName('Parent'));
+      childId = await result.current.hook.createFolder(uniqueName('Child'));
+    });
+
+    await act(() => result.current.hook.moveFolder(childId, parentId));
+    expect((await readFolder(childId)).parentId).toBe(parentId);
+    await waitFor(() => expect(result.current.hook.folders.find(folder => folder.id === childId)?.parentId).toBe(parentId));
+
+    // Not into itself or one of its own subfolders
+    await expect(act(() => result.current.hook.moveFolder(parentId, childId))).rejects.toThrow();
+
+    await act(() => result.current.hook.moveFolder(childId, null));
+    expect((await readFolder(childId)).parentId).toBeUndefined();
+  });
+
+  it('moves a deleted folder and its subfolders to the trash', async () => {
+    const { result } = await renderSignedIn(user, () => useFolders());
+
+    let parentId = '';
+    let childId = '';
+    await act(async () => {
+      parentId = await result.current.hook.createFolder(uniqueName('Old'));
+      childId = await result.current.hook.createFolder(uniqueName('Older'), parentId);
+    });
+    await waitFor(() => expect(result.current.hook.folders.map(folder => folder.id)).toContain(childId));
+
+    await act(() => result.current.hook.deleteFolder(parentId));
+
+    await waitFor(() => {
+      const ids = result.current.hook.folders.map(folder => folder.id);
+      expect(ids).not.toContain(parentId);
+      expect(ids).not.toContain(childId);
+    });
+    expect((await readFolder(parentId)).deletedAt).toEqual(expect.any(Number));
+    expect((await readFolder(childId)).deletedAt).toEqual(expect.any(Number));
+  });
+
+  it('lists only the signed-in user\'s own folders', async () => {
+    const asUser = await renderSignedIn(user, () => useFolders());
+    let folderId = '';
+    await act(async () => {
+      folderId = await asUser.result.current.hook.createFolder(uniqueName('Private'));
+    });
+    asUser.unmount();
+    await signOutEverywhere();
+
+    const asAdmin = await renderSignedIn(admin, () => useFolders());
+    await waitFor(() => expect(asAdmin.result.current.hook.loading).toBe(false));
+    expect(asAdmin.result.current.hook.folders.map(folder => folder.id)).not.toContain(folderId);
+    expect(asAdmin.result.current.hook.folders.every(folder => folder.userId === admin.uid)).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import { useState, useCallback, useMemo } from 'react';
+import {
+  ref,
+  get,
+  remove,
+  query,
+  orderByChild,
+  equalTo,
+  getDatabase
+} from 'firebase/database';
+import {
+  getStorage,
+  ref as storageRef,
+  deleteObject,
+  listAll,
+  FirebaseStorage
+} from 'firebase/storage';
+import { useAuth } from '@/context/AuthContext';
+import { auth } from '@/lib/firebase/config';
+import { toast } from 'react-hot-toast';
+import {
+  NoteAttachmentWithId,
+  ATTACHMENT_QUOTA,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  getAttachmentPrefix,
+  getAttachmentsSize
+} from '@/lib/attachments';
+
+export interface AttachmentUpload {
+  id: string;
+  name: string;
+  progress: number; // 0-100
+}
+
+interface UseNoteAttachmentsReturn {
+  uploads: AttachmentUpload[];
+  uploadFiles: (files: File[]) => Promise<NoteAttachmentWithId[]>;
+  deleteAttachment: (attachment: NoteAttachmentWithId) => Promise<void>;
+}
+
+const isObjectNotFound = (error: unknown) =>
+  (error as { code?: string }).code === 'storage/object-not-found';
+
+// Remove the stored files of notes that were deleted permanently. Their metadata
+// goes with the note, so this only cleans up Storage.
+export const deleteAttachmentFiles = async (storage: FirebaseStorage, userId: string, noteIds: string[]) => {
+  await Promise.all(noteIds.map(async (noteId) => {
+    const { items } = await listAll(storageRef(storage, getAttachmentPrefix(userId, noteId)));
+    await Promise.all(items.map(item => deleteObject(item).catch((error) => {
+      if (!isObjectNotFound(error)) throw error;
+    })));
+  }));
+};
+
+// Send a file to the upload API, which stores it and adds it to the note,
+// reporting progress as it goes
+const postAttachment = (noteId: string, file: File, idToken: string, onProgress: (progress: number) => void) =>
+  new Promise<NoteAttachmentWithId>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', `/api/notes/${noteId}/attachments`);
+    request.setRequestHeader('Authorization', `Bearer ${idToken}`);
+    request.responseType = 'json';
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    request.onload = () => {
+      const responseData = request.response || {};
+      if (request.status >= 200 && request.status < 300) {
+        resolve(responseData.attachment);
+      } else {
+        reject(new Error(responseData.error || 'Upload failed'));
+      }
+    };
+    request.onerror = () => reject(new Error('Network error'));
+
+    const body = new FormData();
+    body.append('file', file);
+    request.send(body);
+  });
+
+// Uploads and removes a note's attachments. Only the note's owner can do either,
+// since the files are stored under and counted against the owner's account.
+export const useNoteAttachments = (noteId?: string | null): UseNoteAttachmentsReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const storage = useMemo(() => getStorage(), []);
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+
+  // Bytes the user's attachments take up across all their notes
+  const getStorageUsed = useCallback(async (userId: string) => {
+    const notesSnapshot = await get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(userId)));
+    let used = 0;
+    notesSnapshot.forEach((child) => {
+      used += getAttachmentsSize(child.val());
+    });
+    return used;
+  }, [db]);
+
+  const setUploadProgress = useCallback((id: string, progress: number) => {
+    setUploads(current => current.map(upload => upload.id === id ? { ...upload, progress } : upload));
+  }, []);
+
+  const uploadFile = useCallback(async (file: File): Promise<NoteAttachmentWithId> => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) throw new Error('User not authenticated');
+
+    const id = crypto.randomUUID();
+    setUploads(current => [...current, { id, name: file.name, progress: 0 }]);
+    try {
+      const idToken = await currentUser.getIdToken();
+      return await postAttachment(noteId as string, file, idToken, progress => setUploadProgress(id, progress));
+    } finally {
+      setUploads(current => current.filter(upload => upload.id !== id));
+    }
+  }, [noteId, setUploadProgress]);
+
+  const uploadFiles = useCallback(async (files: File[]) => {
+    if (!user || !noteId) {
+      toast.error('Save the note before adding attachments');
+      return [];
+    }
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast.error(`${tooLarge.map(file => file.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`);
+      return [];
+    }
+
+    try {
+      // Checked before uploading anything, so a batch is either accepted or refused as a
+      // whole. The upload API enforces the quota for each file all the same.
+      const used = await getStorageUsed(user.uid);
+      const incoming = files.reduce((total, file) => total + file.size, 0);
+      if (used + incoming > ATTACHMENT_QUOTA) {
+        toast.error(
+          `Not enough storage: ${formatFileSize(ATTACHMENT_QUOTA - Math.min(used, ATTACHMENT_QUOTA))} of ${formatFileSize(ATTACHMENT_QUOTA)} left`
+        );
+        return [];
+      }
+
+      const attachments = await Promise.all(files.map(uploadFile));
+      toast.success(files.length === 1 ? `Attached ${files[0].name}` : `Attached ${files.length} files`);
+      return attachments;
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error instanceof Error ? `Failed to upload: ${error.message}` : 'Failed to upload attachment');
+      return [];
+    }
+  }, [user, noteId, getStorageUsed, uploadFile]);
+
+  const deleteAttachment = useCallback(async (attachment: NoteAttachmentWithId) => {
+    if (!user || !noteId) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      await remove(ref(db, `notes/${noteId}/attachments/${attachment.id}`));
+      await deleteObject(storageRef(storage, attachment.storagePath)).catch((error) => {
+        if (!isObjectNotFound(error)) throw error;
+      });
+      toast.success(`Removed ${attachment.name}`);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error('Failed to remove attachment');
+      throw error;
+    }
+  }, [db, storage, user, noteId]);
+
+  return {
+    uploads,
+    uploadFiles,
+    deleteAttachment
+  };
+};
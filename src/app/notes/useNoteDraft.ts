@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ref, get, set, remove, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+
+export interface NoteDraft {
+  title: string;
+  content: string;
+  tags?: string[];
+  folderId: string | null;
+  baseUpdatedAt: number | null; // `updatedAt` of the note the draft was started from; null for new notes
+  savedAt: number;
+}
+
+export type NoteDraftValues = Omit<NoteDraft, 'savedAt'>;
+
+// Delay after the last keystroke before a draft is written
+export const DRAFT_AUTOSAVE_DELAY = Number(process.env.NEXT_PUBLIC_DRAFT_AUTOSAVE_DELAY) || 1000;
+
+// Drafts of notes that haven't been created yet share one slot per user
+const NEW_NOTE_DRAFT_KEY = '_new';
+
+interface UseNoteDraftReturn {
+  draft: NoteDraft | null; // Draft found when the editor opened
+  loading: boolean;
+  lastSavedAt: number | null;
+  scheduleSave: (values: NoteDraftValues) => void;
+  flushDraft: () => Promise<void>;
+  discardDraft: () => Promise<void>;
+}
+
+export const useNoteDraft = (noteId?: string | null): UseNoteDraftReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const [draft, setDraft] = useState<NoteDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<NoteDraftValues | null>(null);
+  const hasStoredDraftRef = useRef(false);
+
+  const draftPath = user ? `drafts/${user.uid}/${noteId || NEW_NOTE_DRAFT_KEY}` : null;
+
+  // Load any draft left behind by an earlier session
+  useEffect(() => {
+    if (!draftPath) {
+      setDraft(null);
+      setLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setLoading(true);
+
+    get(ref(db, draftPath))
+      .then((snapshot) => {
+        if (!isMounted) return;
+        hasStoredDraftRef.current = snapshot.exists();
+        setDraft(snapshot.exists() ? snapshot.val() as NoteDraft : null);
+      })
+      .catch((error) => {
+        console.error('Error loading draft:', error);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [db, draftPath]);
+
+  const writeDraft = useCallback(async (values: NoteDraftValues) => {
+    if (!draftPath) return;
+
+    // Marked before the write so a discard issued meanwhile still removes it
+    hasStoredDraftRef.current = true;
+    const savedAt = Date.now();
+    await set(ref(db, draftPath), {
+      ...values,
+      tags: values.tags || [],
+      savedAt
+    });
+    setLastSavedAt(savedAt);
+  }, [db, draftPath]);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  // Debounced write: only the last values within DRAFT_AUTOSAVE_DELAY are saved
+  const scheduleSave = useCallback((values: NoteDraftValues) => {
+    pendingRef.current = values;
+    clearTimer();
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      if (pending) {
+        writeDraft(pending).catch((error) => {
+          console.error('Error saving draft:', error);
+        });
+      }
+    }, DRAFT_AUTOSAVE_DELAY);
+  }, [writeDraft]);
+
+  // Write a pending draft right away, e.g. when the editor is closing
+  const flushDraft = useCallback(async () => {
+    clearTimer();
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) {
+      await writeDraft(pending);
+    }
+  }, [writeDraft]);
+
+  const discardDraft = useCallback(async () => {
+    clearTimer();
+    pendingRef.current = null;
+    setDraft(null);
+    setLastSavedAt(null);
+
+    if (!draftPath || !hasStoredDraftRef.current) return;
+    hasStoredDraftRef.current = false;
+    await remove(ref(db, draftPath));
+  }, [db, draftPath]);
+
+  // Keep edits made just before the editor unmounts
+  const flushDraftRef = useRef(flushDraft);
+  useEffect(() => {
+    flushDraftRef.current = flushDraft;
+  }, [flushDraft]);
+
+  useEffect(() => () => {
+    flushDraftRef.current().catch((error) => {
+      console.error('Error saving draft:', error);
+    });
+  }, []);
+
+  return {
+    draft,
+    loading,
+    lastSavedAt,
+    scheduleSave,
+    flushDraft,
+    discardDraft
+  };
+};
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ref,
+  push,
+  set,
+  update,
+  remove,
+  onValue,
+  onDisconnect,
+  serverTimestamp,
+  getDatabase
+} from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+
+export type PresenceStatus = 'viewing' | 'editing';
+
+export interface NotePresence {
+  userId: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+  status: PresenceStatus;
+  selectionStart: number | null;
+  selectionEnd: number | null;
+  lastActive: number;
+}
+
+export interface NotePresenceWithId extends NotePresence {
+  sessionId: string;
+}
+
+// Delay between sending cursor/selection moves while typing or selecting
+const SELECTION_THROTTLE_MS = 250;
+
+interface UseNotePresenceReturn {
+  collaborators: NotePresenceWithId[]; // Other people with the note open, first to arrive first
+  setStatus: (status: PresenceStatus) => void;
+  setSelection: (selectionStart: number | null, selectionEnd: number | null) => void;
+}
+
+// Tracks who has a note open. Every open editor is a session at
+// `presence/{noteId}/{sessionId}`; the server removes it through `onDisconnect`
+// when the tab closes or loses its connection, and it's re-added on reconnect.
+export const useNotePresence = (noteId?: string | null): UseNotePresenceReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const [sessions, setSessions] = useState<NotePresenceWithId[]>([]);
+  const sessionPathRef = useRef<string | null>(null);
+  const localRef = useRef<Pick<NotePresence, 'status' | 'selectionStart' | 'selectionEnd'>>({
+    status: 'viewing',
+    selectionStart: null,
+    selectionEnd: null
+  });
+  const selectionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isAnnouncedRef = useRef(false); // Whether the session entry was written since connecting
+
+  const uid = user?.uid;
+  const displayName = user?.displayName || null;
+  const email = user?.email || null;
+  const photoURL = user?.photoURL || null;
+
+  const writeLocalPresence = useCallback(() => {
+    // Until the session is announced in full, an update would leave a partial entry;
+    // the announce sends the latest local state anyway
+    const sessionPath = sessionPathRef.current;
+    if (!sessionPath || !isAnnouncedRef.current) return;
+
+    update(ref(db, sessionPath), {
+      ...localRef.current,
+      lastActive: serverTimestamp()
+    }).catch((error) => {
+      console.error('Error updating note presence:', error);
+    });
+  }, [db]);
+
+  // Announce this session while connected, and let the server clean it up on disconnect
+  useEffect(() => {
+    if (!noteId || !uid) return;
+
+    const sessionRef = push(ref(db, `presence/${noteId}`));
+    sessionPathRef.current = `presence/${noteId}/${sessionRef.key}`;
+
+    const unsubscribeConnected = onValue(ref(db, '.info/connected'), async (snapshot) => {
+      // The server removed the entry when the connection dropped
+      isAnnouncedRef.current = false;
+      if (snapshot.val() !== true) return;
+
+      try {
+        // Cleanup is registered first, so a connection lost in between leaves nothing behind
+        await onDisconnect(sessionRef).remove();
+        const announced = localRef.current;
+        await set(sessionRef, {
+          userId: uid,
+          displayName,
+          email,
+          photoURL,
+          ...announced,
+          lastActive: serverTimestamp()
+        });
+        if (sessionPathRef.current !== `presence/${noteId}/${sessionRef.key}`) return;
+
+        isAnnouncedRef.current = true;
+        // Send what changed while the announce was on its way
+        if (localRef.current !== announced) writeLocalPresence();
+      } catch (error) {
+        console.error('Error announcing note presence:', error);
+      }
+    });
+
+    return () => {
+      unsubscribeConnected();
+      sessionPathRef.current = null;
+      isAnnouncedRef.current = false;
+      if (selectionTimerRef.current) {
+        clearTimeout(selectionTimerRef.current);
+        selectionTimerRef.current = null;
+      }
+      onDisconnect(sessionRef).cancel().catch(() => {});
+      remove(sessionRef).catch((error) => {
+        console.error('Error clearing note presence:', error);
+      });
+    };
+  }, [db, noteId, uid, displayName, email, photoURL, writeLocalPresence]);
+
+  // Everyone else who has the note open
+  useEffect(() => {
+    if (!noteId || !uid) {
+      setSessions([]);
+      return;
+    }
+
+    const unsubscribe = onValue(ref(db, `presence/${noteId}`), (snapshot) => {
+      const data = (snapshot.val() || {}) as Record<string, NotePresence>;
+      const others = Object.entries(data)
+        .filter(([, presence]) => presence.userId !== uid)
+        .map(([sessionId, presence]) => ({ ...presence, sessionId }))
+        .sort((a, b) => a.lastActive - b.lastActive);
+      setSessions(others);
+    }, (error) => {
+      console.error('Error loading note presence:', error);
+      setSessions([]);
+    });
+
+    return () => unsubscribe();
+  }, [db, noteId, uid]);
+
+  const setStatus = useCallback((status: PresenceStatus) => {
+    if (localRef.current.status === status) return;
+    localRef.current = { ...localRef.current, status };
+    writeLocalPresence();
+  }, [writeLocalPresence]);
+
+  const setSelection = useCallback((selectionStart: number | null, selectionEnd: number | null) => {
+    const local = localRef.current;
+    if (local.selectionStart === selectionStart && local.selectionEnd === selectionEnd) return;
+    localRef.current = { ...local, selectionStart, selectionEnd };
+
+    if (selectionTimerRef.current) return;
+    selectionTimerRef.current = setTimeout(() => {
+      selectionTimerRef.current = null;
+      writeLocalPresence();
+    }, SELECTION_THROTTLE_MS);
+  }, [writeLocalPresence]);
+
+  // One entry per person: their most recently active session, shown as editing
+  // if any of their sessions is
+  const collaborators = useMemo(() => {
+    const byUser = new Map<string, NotePresenceWithId>();
+    for (const session of sessions) {
+      const existing = byUser.get(session.userId);
+      const isEditing = session.status === 'editing' || existing?.status === 'editing';
+      byUser.set(session.userId, { ...session, status: isEditing ? 'editing' : 'viewing' });
+    }
+    return Array.from(byUser.values());
+  }, [sessions]);
+
+  return {
+    collaborators,
+    setStatus,
+    setSelection
+  };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import {
+  ref,
+  onValue,
+  query,
+  orderByChild,
+  getDatabase
+} from 'firebase/database';
+import type { RevisionRecord } from '@/lib/schema';
+
+// Stored at `noteRevisions/{noteId}/{revisionId}`; `restoredFrom` is the revision
+// this one was restored from
+export type NoteRevision = RevisionRecord;
+
+export interface NoteRevisionWithId extends NoteRevision {
+  id: string;
+}
+
+export const useNoteRevisions = (noteId?: string | null) => {
+  const db = getDatabase();
+  const [revisions, setRevisions] = useState<NoteRevisionWithId[]>([]);
+  const [loading, setLoading] = useState<boolean>(Boolean(noteId));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!noteId) {
+      setRevisions([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const revisionsRef = query(ref(db, `noteRevisions/${noteId}`), orderByChild('createdAt'));
+    const unsubscribe = onValue(revisionsRef, (snapshot) => {
+      const items: NoteRevisionWithId[] = [];
+      snapshot.forEach((child) => {
+        items.push({ ...child.val(), id: child.key as string });
+      });
+
+      // Newest first
+      setRevisions(items.reverse());
+      setLoading(false);
+    }, (error) => {
+      console.error('Error in revisions listener:', error);
+      setError('Failed to load note history');
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [db, noteId]);
+
+  return { revisions, loading, error };
+};
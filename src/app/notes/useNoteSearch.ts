@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import {
+  buildSearchIndex,
+  parseSearchQuery,
+  searchNotes,
+  isEmptySearchQuery,
+  ParsedSearchQuery
+} from '@/lib/search';
+import { getFolderSlugPath } from '@/lib/folder-tree';
+import { NoteWithId } from './useNotes';
+import { Folder } from './useFolders';
+
+interface UseNoteSearchReturn {
+  results: NoteWithId[] | null; // Matching notes, best match first; null without a query
+  query: ParsedSearchQuery;
+}
+
+export const useNoteSearch = (
+  notes: NoteWithId[],
+  folders: Folder[],
+  searchText: string
+): UseNoteSearchReturn => {
+  // Rebuilt only when the notes change, not on every keystroke
+  const index = useMemo(() => buildSearchIndex(notes), [notes]);
+
+  const folderPaths = useMemo(() => {
+    const paths: Record<string, { name: string; path: string }> = {};
+    folders.forEach((folder) => {
+      paths[folder.id] = { name: folder.name, path: getFolderSlugPath(folders, folder.id) };
+    });
+    return paths;
+  }, [folders]);
+
+  const query = useMemo(() => parseSearchQuery(searchText), [searchText]);
+
+  return useMemo(() => {
+    if (isEmptySearchQuery(query)) {
+      return { results: null, query };
+    }
+
+    const matches = searchNotes(index, query, { folderPaths });
+    const notesById = new Map(notes.map(note => [note.id, note]));
+
+    return {
+      results: matches
+        .map(match => notesById.get(match.noteId))
+        .filter((note): note is NoteWithId => Boolean(note)),
+      query
+    };
+  }, [index, query, folderPaths, notes]);
+};
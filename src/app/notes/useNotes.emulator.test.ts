@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import { get, getDatabase, ref } from 'firebase/database';
+import { NoteConflictError, useNotes } from './useNotes';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import { MAX_NOTE_CONTENT_LENGTH } from '@/lib/limits';
+import { EMULATOR_ACCOUNTS } from '@/test/emulators';
+import { renderSignedIn, signIn, signOutEverywhere } from '@/test/render-with-auth';
+import { updateAsServer } from '@/test/seed-emulators';
+
+// useNotes against the Auth and Database emulators, signed in as the seeded user
+
+const { user, admin } = EMULATOR_ACCOUNTS;
+
+const read = async (path: string) => (await get(ref(getDatabase(), path))).val();
+
+let folderId = '';
+let otherFolderId = '';
+
+// Every test gets folders of its own; the emulators keep data between tests
+beforeEach(async () => {
+  await signIn(user);
+  const { folders } = createRepositories(createFirebaseBackend(getDatabase()));
+  const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  folderId = await folders.create(user.uid, `Notes ${suffix}`);
+  otherFolderId = await folders.create(user.uid, `More notes ${suffix}`);
+});
+
+afterEach(async () => {
+  await signOutEverywhere();
+});
+
+const createNote = async (notes: ReturnType<typeof useNotes>, title: string, content = '') => {
+  let noteId: string | null = null;
+  await act(async () => {
+    noteId = await notes.createNote(title, content, folderId, ['Work']);
+  });
+  return noteId as unknown as string;
+};
+
+describe('useNotes', () => {
+  it('creates a note in a folder and lists it from the database', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const noteId = await createNote(result.current.hook, 'Plans', 'Ship it.');
+
+    await waitFor(() => expect(result.current.hook.notes.map(note => note.id)).toContain(noteId));
+    expect(await read(`notes/${noteId}`)).toMatchObject({
+      title: 'Plans',
+      content: 'Ship it.',
+      userId: user.uid,
+      folderId,
+      tags: ['work'],
+      contentLength: 8
+    });
+    expect(await read(`folders/${folderId}/noteCount`)).toBe(1);
+    expect(Object.keys(await read(`noteRevisions/${noteId}`))).toHaveLength(1);
+  });
+
+  it('saves changes with a revision, and reports a save based on an old version as a conflict', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const noteId = await createNote(result.current.hook, 'Plans', 'Ship it.');
+    const { updatedAt } = await read(`notes/${noteId}`);
+
+    await act(() => result.current.hook.updateNote(noteId, { content: 'Shipped.' }, { expectedUpdatedAt: updatedAt }));
+    await waitFor(() => expect(result.current.hook.notes.find(note => note.id === noteId)?.content).toBe('Shipped.'));
+    expect(Object.keys(await read(`noteRevisions/${noteId}`))).toHaveLength(2);
+
+    // Still based on the first version, which the save above replaced
+    await expect(act(() => result.current.hook.updateNote(noteId, { content: 'Not shipped.' }, {
+      expectedUpdatedAt: updatedAt
+    }))).rejects.toBeInstanceOf(NoteConflictError);
+    expect((await read(`notes/${noteId}`)).content).toBe('Shipped.');
+  });
+
+  it('rejects content over the size limit before writing', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const noteId = await createNote(result.current.hook, 'Plans');
+
+    await expect(act(() => result.current.hook.updateNote(noteId, { content: 'a'.repeat(MAX_NOTE_CONTENT_LENGTH + 1) }))).rejects.toThrow();
+    expect((await read(`notes/${noteId}`)).content).toBe('');
+  });
+
+  it('moves notes between folders, keeping the counters in step', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const noteId = await createNote(result.current.hook, 'Plans');
+
+    await act(() => result.current.hook.moveNoteToFolder(noteId, otherFolderId));
+    expect((await read(`notes/${noteId}`)).folderId).toBe(otherFolderId);
+    expect(await read(`folders/${folderId}/noteCount`)).toBe(0);
+    expect(await read(`folders/${otherFolderId}/noteCount`)).toBe(1);
+    await waitFor(() => expect(result.current.hook.notes.map(note => note.id)).not.toContain(noteId));
+  });
+
+  it('moves deleted notes to the trash', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const noteId = await createNote(result.current.hook, 'Plans');
+    await waitFor(() => expect(result.current.hook.notes.map(note => note.id)).toContain(noteId));
+
+    await act(() => result.current.hook.deleteNote(noteId));
+
+    await waitFor(() => expect(result.current.hook.notes.map(note => note.id)).not.toContain(noteId));
+    const stored = await read(`notes/${noteId}`);
+    expect(stored.deletedAt).toEqual(expect.any(Number));
+    expect(stored.deletedFolderName).toMatch(/^Notes /);
+    expect(await read(`folders/${folderId}/noteCount`)).toBe(0);
+  });
+
+  it('changes several notes at once and undoes the change', async () => {
+    const { result } = await renderSignedIn(user, () => useNotes(folderId));
+    const first = await createNote(result.current.hook, 'First');
+    const second = await createNote(result.current.hook, 'Second');
+
+    let change: Awaited<ReturnType<ReturnType<typeof useNotes>['moveNotes']>> | null = null;
+    await act(async () => {
+      change = await result.current.hook.moveNotes([first, second], otherFolderId);
+    });
+    expect(await read(`folders/${otherFolderId}/noteCount`)).toBe(2);
+
+    await act(() => result.current.hook.undoBulkChange(change as unknown as NonNullable<typeof change>));
+    expect((await read(`notes/${first}`)).folderId).toBe(folderId);
+    expect(await read(`folders/${folderId}/noteCount`)).toBe(2);
+    expect(await read(`folders/${otherFolderId}/noteCount`)).toBe(0);
+  });
+
+  it('keeps other users\' notes out of the list', async () => {
+    const asUser = await renderSignedIn(user, () => useNotes('all'));
+    const noteId = await createNote(asUser.result.current.hook, 'Private');
+    asUser.unmount();
+    await signOutEverywhere();
+
+    const asAdmin = await renderSignedIn(admin, () => useNotes('all'));
+    await waitFor(() => expect(asAdmin.result.current.hook.loading).toBe(false));
+    expect(asAdmin.result.current.hook.notes.map(note => note.id)).not.toContain(noteId);
+  });
+
+  it('lists notes from folders shared with the user in the All Notes view', async () => {
+    const now = Date.now();
+    await signIn(admin);
+    const { folders, notes } = createRepositories(createFirebaseBackend(getDatabase()));
+    const sharedFolderId = await folders.create(admin.uid, `Shared ${now}`);
+    const sharedNoteId = notes.newId();
+    await notes.create(admin.uid, sharedNoteId, { title: 'Shared plans', content: '', createdAt: now, updatedAt: now }, sharedFolderId);
+    // As the members API shares folders
+    await updateAsServer({
+      [`folders/${sharedFolderId}/members/${user.uid}`]: { role: 'viewer', email: user.email, addedAt: now },
+      [`users/${user.uid}/sharedFolders/${sharedFolderId}`]: true
+    });
+    await signOutEverywhere();
+
+    try {
+      const { result } = await renderSignedIn(user, () => useNotes('all'));
+      const ownNoteId = await createNote(result.current.hook, 'Own plans');
+
+      await waitFor(() => expect(result.current.hook.notes.map(note => note.id)).toEqual(
+        expect.arrayContaining([ownNoteId, sharedNoteId])
+      ));
+    } finally {
+      await updateAsServer({ [`users/${user.uid}/sharedFolders/${sharedFolderId}`]: null });
+    }
+  });
+});
@@ -1,44 +1,72 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   ref,
   onValue,
-  get,
-  update,
-  push,
-  remove,
   getDatabase,
   query,
   orderByChild,
   equalTo,
   DataSnapshot,
-  set,
   Unsubscribe
 } from 'firebase/database';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'react-hot-toast';
-
-export interface Note {
-  title: string;
-  content: string;
-  createdAt: number;
-  updatedAt: number;
-  userId: string;
-  contentLength: number;
-}
+import { normalizeTags } from '@/lib/tags';
+import { MAX_NOTE_CONTENT_LENGTH, MAX_NOTE_TITLE_LENGTH } from '@/lib/limits';
+import type { NoteRecord } from '@/lib/schema';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import { BulkNoteChange, NoteChanges, NoteConflictError, UpdateNoteOptions } from '@/lib/notes-repository';
+import {
+  readCache,
+  writeCache,
+  getQueuedWrites,
+  enqueueWrite,
+  replaceQueuedWrite,
+  removeQueuedWrite,
+  subscribeToQueue
+} from '@/lib/offline-store';
+import {
+  OfflineNoteChanges,
+  PendingNoteOperation,
+  PendingNoteWrite,
+  applyPendingNoteWrites,
+  isRetryableWriteError,
+  planQueuedNoteWrite
+} from '@/lib/offline-notes';
+import type { Folder } from './useFolders';
+
+// A note as stored at `notes/{id}`; the fields are defined in `@/lib/schema`
+export type Note = NoteRecord;
 
 export interface NoteWithId extends Note {
   id: string;
-  folderId?: string; // Optional folder ID to associate note with a folder
 }
 
+export { NoteConflictError };
+export type { BulkNoteChange, UpdateNoteOptions };
+
+// Reported here rather than as a permission error from the database rules
+const checkContentLength = (content: string) => {
+  if (content.length > MAX_NOTE_CONTENT_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_NOTE_CONTENT_LENGTH.toLocaleString('en-GB')} characters long`);
+  }
+};
+
 interface UseNotesReturn {
   notes: NoteWithId[];
   loading: boolean;
   error: string | null;
-  createNote: (title: string, content: string, folderId?: string | null) => Promise<string | null>;
-  updateNote: (id: string, updates: Partial<Omit<Note, 'userId' | 'createdAt'> & { folderId?: string }>) => Promise<void>;
+  createNote: (title: string, content: string, folderId?: string | null, tags?: string[]) => Promise<string | null>;
+  updateNote: (id: string, updates: NoteChanges, options?: UpdateNoteOptions) => Promise<void>;
   deleteNote: (id: string) => Promise<void>;
   moveNoteToFolder: (noteId: string, targetFolderId: string | null) => Promise<void>;
+  moveNotes: (noteIds: string[], targetFolderId: string | null) => Promise<BulkNoteChange>;
+  trashNotes: (noteIds: string[]) => Promise<BulkNoteChange>;
+  duplicateNotes: (noteIds: string[]) => Promise<BulkNoteChange>;
+  tagNotes: (noteIds: string[], tag: string) => Promise<BulkNoteChange>;
+  // Returns the IDs of notes left as they are because they changed since
+  undoBulkChange: (change: BulkNoteChange) => Promise<string[]>;
   currentNote: NoteWithId | null;
   setCurrentNote: (note: NoteWithId | null) => void;
 }
@@ -49,8 +77,18 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
   const [currentNote, setCurrentNote] = useState<NoteWithId | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  // Notes in folders other users shared with us, by folder ID
+  const [sharedNotes, setSharedNotes] = useState<Record<string, NoteWithId[]>>({});
   const db = getDatabase();
+  const { notes: notesRepository } = useMemo(() => createRepositories(createFirebaseBackend(db)), [db]);
   const unsubscribeRef = useRef<Unsubscribe | null>(null);
+  // Changes made while offline, waiting to be written
+  const [pendingWrites, setPendingWrites] = useState<PendingNoteWrite[]>([]);
+  // Unknown (null) until `.info/connected` first reports, and treated as online until
+  // then: the database keeps writes made before it connects and sends them once it does
+  const isOnlineRef = useRef<boolean | null>(null);
+  const visibleNotesRef = useRef<NoteWithId[]>([]);
+  const replayRef = useRef<() => Promise<void>>(async () => {});
 
   // Cleanup function for real-time listeners
   useEffect(() => {
@@ -87,7 +125,7 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
     }
 
     let isMounted = true;
-    let folderUnsubscribe: (() => void) | null = null;
+    let hasServerData = false;
 
     const setupListeners = async () => {
       if (!isMounted) return;
@@ -95,6 +133,20 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
       setLoading(true);
       setError(null);
 
+      // Show the notes from the last visit until the database answers, which
+      // offline it never does
+      readCache<NoteWithId[]>(`notes/${user.uid}`)
+        .then((cachedNotes) => {
+          if (!cachedNotes || !isMounted || hasServerData) return;
+          setNotes(folderId && folderId !== 'all'
+            ? cachedNotes.filter(note => note.folderId === folderId)
+            : cachedNotes);
+          setLoading(false);
+        })
+        .catch((error) => {
+          console.error('Error reading cached notes:', error);
+        });
+
       // Set up notes listener
       const notesRef = query(
         ref(db, 'notes'),
@@ -104,8 +156,10 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
 
       const handleNotesUpdate = async (snapshot: DataSnapshot) => {
         if (!isMounted) return;
+        hasServerData = true;
         
         if (!snapshot.exists()) {
+          writeCache(`notes/${user.uid}`, []).catch(() => {});
           setNotes([]);
           setLoading(false);
           return;
@@ -119,7 +173,7 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
           const noteData = childSnapshot.val();
           const noteId = childSnapshot.key as string;
           
-          if (noteData.userId === user.uid && !seenIds.has(noteId)) {
+          if (noteData.userId === user.uid && !noteData.deletedAt && !seenIds.has(noteId)) {
             seenIds.add(noteId);
             notesData.push({
               ...noteData,
@@ -129,48 +183,15 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
           return false;
         });
 
-        // If we're viewing a specific folder, set up folder listener
-        if (folderId && folderId !== 'all') {
-          const folderRef = ref(db, `folders/${folderId}`);
-          
-          // Unsubscribe from previous folder listener if it exists
-          if (folderUnsubscribe) {
-            folderUnsubscribe();
-            folderUnsubscribe = null;
-          }
-          
-          // Set up folder listener
-          folderUnsubscribe = onValue(folderRef, async (folderSnapshot) => {
-            if (!isMounted) return;
-            
-            if (!folderSnapshot.exists() || folderSnapshot.val().userId !== user.uid) {
-              setNotes([]);
-              setLoading(false);
-              return;
-            }
-            
-            const folderData = folderSnapshot.val();
-            if (Array.isArray(folderData?.noteIds)) {
-              const filteredNotes = notesData.filter(note => 
-                folderData.noteIds.includes(note.id)
-              );
-              setNotes(filteredNotes);
-            } else {
-              setNotes([]);
-            }
-            setLoading(false);
-          }, (error) => {
-            console.error('Error in folder listener:', error);
-            if (isMounted) {
-              setError('Failed to load folder data');
-              setLoading(false);
-            }
-          });
-        } else {
-          // If no folder is selected, show all notes
-          setNotes(notesData);
-          setLoading(false);
-        }
+        writeCache(`notes/${user.uid}`, notesData).catch((error) => {
+          console.error('Error caching notes:', error);
+        });
+
+        // A folder's notes are the ones that name it as their folder
+        setNotes(folderId && folderId !== 'all'
+          ? notesData.filter(note => note.folderId === folderId)
+          : notesData);
+        setLoading(false);
       };
 
       // Set up the notes listener
@@ -185,9 +206,6 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
       // Cleanup function
       return () => {
         notesUnsubscribe();
-        if (folderUnsubscribe) {
-          folderUnsubscribe();
-        }
       };
     };
 
@@ -207,8 +225,77 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
     };
   }, [user, folderId, db]);
 
+  // Notes in shared folders belong to the folder owner, so the userId query above
+  // misses them; listen to each shared folder's notes by folderId instead
+  useEffect(() => {
+    if (!user) {
+      setSharedNotes({});
+      return;
+    }
+
+    const folderListeners = new Map<string, Unsubscribe>();
+    const dropSharedFolder = (sharedFolderId: string) => {
+      setSharedNotes((prev) => {
+        const next = { ...prev };
+        delete next[sharedFolderId];
+        return next;
+      });
+    };
+
+    const unsubscribeSharedFolders = onValue(ref(db, `users/${user.uid}/sharedFolders`), (snapshot) => {
+      const sharedFolderIds = Object.keys(snapshot.val() || {});
+
+      folderListeners.forEach((unsubscribe, sharedFolderId) => {
+        if (!sharedFolderIds.includes(sharedFolderId)) {
+          unsubscribe();
+          folderListeners.delete(sharedFolderId);
+          dropSharedFolder(sharedFolderId);
+        }
+      });
+
+      sharedFolderIds.forEach((sharedFolderId) => {
+        if (folderListeners.has(sharedFolderId)) return;
+
+        const folderNotesRef = query(ref(db, 'notes'), orderByChild('folderId'), equalTo(sharedFolderId));
+        const unsubscribe = onValue(folderNotesRef, (notesSnapshot) => {
+          const folderNotes: NoteWithId[] = [];
+          notesSnapshot.forEach((child) => {
+            if (!child.val().deletedAt) {
+              folderNotes.push({ ...child.val(), id: child.key as string });
+            }
+          });
+          setSharedNotes(prev => ({ ...prev, [sharedFolderId]: folderNotes }));
+        }, () => {
+          // Access was revoked
+          dropSharedFolder(sharedFolderId);
+        });
+
+        folderListeners.set(sharedFolderId, unsubscribe);
+      });
+    }, (error) => {
+      console.error('Error loading shared folders:', error);
+    });
+
+    return () => {
+      unsubscribeSharedFolders();
+      folderListeners.forEach(unsubscribe => unsubscribe());
+      setSharedNotes({});
+    };
+  }, [user, db]);
+
+  // Record a change made while offline, folding it into what's already queued
+  const queueNoteWrite = useCallback(async (operation: PendingNoteOperation) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const queue = await getQueuedWrites<PendingNoteOperation>(user.uid);
+    const plan = planQueuedNoteWrite(queue, operation);
+    await Promise.all(plan.remove.map(removeQueuedWrite));
+    if (plan.replace) await replaceQueuedWrite(plan.replace);
+    if (plan.add) await enqueueWrite(user.uid, plan.add);
+  }, [user]);
+
   const createNote = useCallback(
-    async (title: string, content: string, folderId?: string | null): Promise<string | null> => {
+    async (title: string, content: string, folderId?: string | null, tags: string[] = []): Promise<string | null> => {
       if (!user) {
         toast.error('User not authenticated.');
         throw new Error('User not authenticated');
@@ -220,49 +307,34 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
 
       try {
         const now = Date.now();
-        const notesRef = ref(db, 'notes');
-        const newNoteRef = push(notesRef);
-        const noteId = newNoteRef.key;
-        
-        if (!noteId) {
-          throw new Error('Failed to generate note ID');
-        }
+        const noteId = notesRepository.newId();
 
-        // Create the note data with folderId
-        const newNote: Note & { folderId?: string } = {
-          title: title.trim() || 'Untitled Note',
+        const fields = {
+          title: title.trim().slice(0, MAX_NOTE_TITLE_LENGTH) || 'Untitled Note',
           content: content.trim(),
           createdAt: now,
           updatedAt: now,
-          userId: user.uid,
-          contentLength: content.trim().length,
-          folderId: folderId || undefined
+          tags: normalizeTags(tags)
         };
-
-        // Save the note to the database
-        await set(newNoteRef, newNote);
-
-        // If folder is specified, add the note to the folder
-        if (folderId) {
-          const folderRef = ref(db, `folders/${folderId}`);
-          const folderSnapshot = await get(folderRef);
-          
-          if (folderSnapshot.exists() && folderSnapshot.val().userId === user.uid) {
-            const folderData = folderSnapshot.val();
-            const noteIds = Array.isArray(folderData.noteIds) 
-              ? [...folderData.noteIds] 
-              : [];
-            
-            if (!noteIds.includes(noteId)) {
-              noteIds.push(noteId);
-              await update(folderRef, { 
-                noteIds,
-                updatedAt: now
-              });
-            }
+        checkContentLength(fields.content);
+
+        if (isOnlineRef.current === false) {
+          // Offline there's no way to check someone else's folder, so only our own are allowed
+          const cachedFolders = await readCache<Folder[]>(`folders/${user.uid}`);
+          const folder = cachedFolders?.find(candidate => candidate.id === folderId);
+          if (!folder || folder.userId !== user.uid) {
+            throw new Error('Notes can only be created in your own folders while offline');
           }
+
+          await queueNoteWrite({
+            type: 'create',
+            note: { ...fields, id: noteId, userId: user.uid, contentLength: fields.content.length, folderId }
+          });
+          return noteId;
         }
 
+        await notesRepository.create(user.uid, noteId, fields, folderId);
+
         // Don't update local state here - let the real-time listener handle it
         return noteId;
       } catch (e: any) {
@@ -271,11 +343,15 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
         throw e; // Re-throw to let the caller handle the error
       }
     },
-    [user, db]
+    [user, notesRepository, queueNoteWrite]
   );
 
   const updateNote = useCallback(
-    async (noteId: string, newValues: Partial<Omit<Note, 'userId' | 'createdAt'> & { folderId?: string }>) => {
+    async (
+      noteId: string,
+      newValues: NoteChanges,
+      options: UpdateNoteOptions = {}
+    ) => {
       if (!user) {
         toast.error('User not authenticated.');
         throw new Error('User not authenticated');
@@ -283,97 +359,48 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
 
       try {
         const now = Date.now();
-        const noteRef = ref(db, `notes/${noteId}`);
-        const noteSnapshot = await get(noteRef);
-
-        if (!noteSnapshot.exists() || noteSnapshot.val().userId !== user.uid) {
-          toast.error('Note not found or unauthorized.');
-          throw new Error('Note not found or unauthorized');
-        }
-
-        // Extract folderId from newValues if it exists
-        const { folderId, ...noteUpdates } = newValues;
-        
-        // Prepare the update payload
-        const noteUpdatePayload: Partial<Note> = { 
-          ...noteUpdates,
-          updatedAt: now 
-        };
-        
         if (newValues.content !== undefined) {
-          noteUpdatePayload.contentLength = newValues.content.length;
+          checkContentLength(newValues.content);
         }
 
-        // If folderId is being updated, we need to handle folder associations
-        if ('folderId' in newValues) {
-          // Get the current note data to check the previous folderId
-          const currentNote = noteSnapshot.val();
-          const previousFolderId = currentNote.folderId;
-          
-          // Only proceed if the folderId is actually changing
-          if (folderId !== previousFolderId) {
-            // Initialize updates object
-            const updates: Record<string, any> = {};
-            
-            // Remove from old folder if it exists
-            if (previousFolderId) {
-              const oldFolderRef = ref(db, `folders/${previousFolderId}`);
-              const oldFolderSnapshot = await get(oldFolderRef);
-              
-              if (oldFolderSnapshot.exists()) {
-                const oldFolderData = oldFolderSnapshot.val();
-                if (Array.isArray(oldFolderData.noteIds)) {
-                  const updatedNoteIds = oldFolderData.noteIds.filter((id: string) => id !== noteId);
-                  updates[`folders/${previousFolderId}/noteIds`] = updatedNoteIds;
-                  updates[`folders/${previousFolderId}/updatedAt`] = now;
-                }
-              }
-            }
-            
-            // Add to new folder if provided
-            if (folderId) {
-              const newFolderRef = ref(db, `folders/${folderId}`);
-              const newFolderSnapshot = await get(newFolderRef);
-              
-              if (!newFolderSnapshot.exists() || newFolderSnapshot.val().userId !== user.uid) {
-                throw new Error('Selected folder does not exist or you do not have permission');
-              }
-              
-              const newFolderData = newFolderSnapshot.val();
-              const currentNoteIds = Array.isArray(newFolderData.noteIds) 
-                ? [...newFolderData.noteIds] 
-                : [];
-                
-              if (!currentNoteIds.includes(noteId)) {
-                currentNoteIds.push(noteId);
-                updates[`folders/${folderId}/noteIds`] = currentNoteIds;
-                updates[`folders/${folderId}/updatedAt`] = now;
-              }
-            }
-            
-            // Update the note's folderId
-            updates[`notes/${noteId}/folderId`] = folderId || null;
-            updates[`notes/${noteId}/updatedAt`] = now;
-            
-            // Execute all updates atomically
-            await update(ref(db), updates);
-          } else {
-            // If folderId isn't changing, just update the note
-            await update(noteRef, noteUpdatePayload);
+        if (isOnlineRef.current === false) {
+          // Conflicts are checked against the version last seen from the server
+          const serverNote = visibleNotesRef.current.find(note => note.id === noteId);
+          const queuedCreate = (await getQueuedWrites<PendingNoteOperation>(user.uid))
+            .map(write => write.operation)
+            .find(operation => operation.type === 'create' && operation.note.id === noteId);
+          const currentFolderId = serverNote?.folderId
+            ?? (queuedCreate?.type === 'create' ? queuedCreate.note.folderId : undefined);
+          if (newValues.folderId && newValues.folderId !== currentFolderId) {
+            throw new Error('Notes can\'t be moved to another folder while offline');
           }
-        } else {
-          // If folderId isn't being updated, just update the note
-          await update(noteRef, noteUpdatePayload);
+
+          const changes: OfflineNoteChanges = {};
+          if (newValues.title !== undefined) changes.title = newValues.title;
+          if (newValues.content !== undefined) changes.content = newValues.content;
+          if (newValues.tags !== undefined) changes.tags = normalizeTags(newValues.tags);
+
+          await queueNoteWrite({
+            type: 'update',
+            noteId,
+            changes,
+            updatedAt: now,
+            baseUpdatedAt: serverNote?.updatedAt
+          });
+          return;
         }
-        
-        // toast.success('Note updated!');
+
+        await notesRepository.update(user.uid, noteId, newValues, options, now);
       } catch (e: any) {
+        // Conflicts are resolved by the caller, not reported as failures
+        if (e instanceof NoteConflictError) throw e;
+
         console.error('Error updating note:', e);
         toast.error(`Failed to update note: ${e.message}`);
         throw e;
       }
     },
-    [user, db]
+    [user, notesRepository, queueNoteWrite]
   );
 
   const deleteNote = useCallback(
@@ -384,56 +411,25 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
       }
 
       try {
-        const noteRef = ref(db, `notes/${noteId}`);
-        const noteSnapshot = await get(noteRef);
-
-        if (!noteSnapshot.exists() || noteSnapshot.val().userId !== user.uid) {
-          toast.error('Note not found or unauthorized.');
-          throw new Error('Note not found or unauthorized');
-        }
-
-        // Get the note data before deleting
-        const noteData = noteSnapshot.val();
-        
-        // Find all folders that might contain this note
-        const foldersRef = ref(db, 'folders');
-        const foldersSnapshot = await get(foldersRef);
-        
-        const updates: Record<string, any> = {};
-        
-        // If the note is in any folders, remove it from them
-        if (foldersSnapshot.exists()) {
-          foldersSnapshot.forEach((folderSnapshot) => {
-            const folderData = folderSnapshot.val();
-            if (folderData.userId === user.uid && Array.isArray(folderData.noteIds)) {
-              const updatedNoteIds = folderData.noteIds.filter((id: string) => id !== noteId);
-              if (updatedNoteIds.length !== folderData.noteIds.length) {
-                updates[`folders/${folderSnapshot.key}/noteIds`] = updatedNoteIds;
-                updates[`folders/${folderSnapshot.key}/updatedAt`] = Date.now();
-              }
-            }
-          });
+        if (isOnlineRef.current !== false) {
+          await notesRepository.trash(user.uid, noteId, Date.now());
+        } else {
+          await queueNoteWrite({ type: 'delete', noteId, deletedAt: Date.now() });
         }
         
-        // Add the note deletion to the updates
-        updates[`notes/${noteId}`] = null;
-        
-        // Execute all updates atomically
-        await update(ref(db), updates);
-        
         // Update local state if the deleted note is the current note
         if (currentNote?.id === noteId) {
           setCurrentNote(null);
         }
         
-        toast.success('Note deleted!');
+        toast.success('Note moved to trash');
       } catch (e: any) {
         console.error('Error deleting note:', e);
         toast.error(`Failed to delete note: ${e.message}`);
         throw e;
       }
     },
-    [user, db, currentNote]
+    [user, currentNote, notesRepository, queueNoteWrite]
   );
 
   const moveNoteToFolder = useCallback(
@@ -444,79 +440,13 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
       }
 
       try {
-        const now = Date.now();
-        const updates: Record<string, any> = {};
-        
-        // Get the current note to find its current folder
-        const noteRef = ref(db, `notes/${noteId}`);
-        const noteSnapshot = await get(noteRef);
-        
-        if (!noteSnapshot.exists() || noteSnapshot.val().userId !== user.uid) {
-          toast.error('Note not found or unauthorized.');
-          throw new Error('Note not found or unauthorized');
-        }
-        
-        const currentFolderId = noteSnapshot.val().folderId;
-        
-        // If moving to a specific folder
-        if (targetFolderId) {
-          // Get target folder in parallel with other operations
-          const [targetFolderSnapshot] = await Promise.all([
-            get(ref(db, `folders/${targetFolderId}`)),
-            // Get current folder data if it exists
-            currentFolderId ? get(ref(db, `folders/${currentFolderId}`)) : Promise.resolve(null)
-          ]);
-
-          if (!targetFolderSnapshot.exists() || targetFolderSnapshot.val().userId !== user.uid) {
-            throw new Error('Target folder not found or unauthorized');
-          }
-          
-          // Add note to target folder
-          const targetFolderData = targetFolderSnapshot.val();
-          const targetNoteIds = Array.isArray(targetFolderData.noteIds) 
-            ? [...targetFolderData.noteIds] 
-            : [];
-
-          if (!targetNoteIds.includes(noteId)) {
-            updates[`folders/${targetFolderId}/noteIds`] = [...targetNoteIds, noteId];
-            updates[`folders/${targetFolderId}/updatedAt`] = now;
-          }
-        }
-        
-        // Remove from current folder if it's different from target
-        if (currentFolderId && currentFolderId !== targetFolderId) {
-          const currentFolderRef = ref(db, `folders/${currentFolderId}`);
-          const currentFolderSnapshot = await get(currentFolderRef);
-          
-          if (currentFolderSnapshot.exists()) {
-            const currentFolderData = currentFolderSnapshot.val();
-            if (Array.isArray(currentFolderData.noteIds)) {
-              const updatedNoteIds = currentFolderData.noteIds.filter((id: string) => id !== noteId);
-              updates[`folders/${currentFolderId}/noteIds`] = updatedNoteIds;
-              updates[`folders/${currentFolderId}/updatedAt`] = now;
-            }
-          }
-        }
-        
-        // Only update folderId if it's actually changing
-        if (currentFolderId !== targetFolderId) {
-          updates[`notes/${noteId}/folderId`] = targetFolderId;
-          updates[`notes/${noteId}/updatedAt`] = now;
+        if (isOnlineRef.current === false) {
+          throw new Error('Notes can\'t be moved to another folder while offline');
         }
 
-        // Execute all updates in a single transaction if there are any changes
-        if (Object.keys(updates).length > 0) {
-          await update(ref(db), updates);
-        }
-        
+        const updatedNote = await notesRepository.move(user.uid, noteId, targetFolderId);
+
         // Update local state immediately
-        const updatedNote = { 
-          ...noteSnapshot.val(), 
-          id: noteId,
-          folderId: targetFolderId || undefined,
-          updatedAt: now 
-        };
-        
         setNotes(prevNotes => 
           prevNotes.map(note => note.id === noteId ? updatedNote : note)
         );
@@ -530,9 +460,169 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
         throw e;
       }
     },
-    [user, db, folderId]
+    [user, notesRepository, currentNote]
+  );
+
+  // Bulk changes are written in one update, so they aren't queued while offline.
+  // Errors are left to the caller, which reports progress for the whole selection.
+  const runBulkChange = useCallback(
+    async <T>(run: (uid: string) => Promise<T>) => {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+      if (isOnlineRef.current === false) {
+        throw new Error('Several notes can\'t be changed at once while offline');
+      }
+      return run(user.uid);
+    },
+    [user]
+  );
+
+  const moveNotes = useCallback(
+    (noteIds: string[], targetFolderId: string | null) =>
+      runBulkChange(uid => notesRepository.moveMany(uid, noteIds, targetFolderId)),
+    [runBulkChange, notesRepository]
+  );
+
+  const trashNotes = useCallback(
+    async (noteIds: string[]) => {
+      const change = await runBulkChange(uid => notesRepository.trashMany(uid, noteIds));
+      if (currentNote && change.noteIds.includes(currentNote.id)) {
+        setCurrentNote(null);
+      }
+      return change;
+    },
+    [runBulkChange, notesRepository, currentNote]
+  );
+
+  const duplicateNotes = useCallback(
+    (noteIds: string[]) => runBulkChange(uid => notesRepository.duplicateMany(uid, noteIds)),
+    [runBulkChange, notesRepository]
+  );
+
+  const tagNotes = useCallback(
+    (noteIds: string[], tag: string) => runBulkChange(uid => notesRepository.tagMany(uid, noteIds, tag)),
+    [runBulkChange, notesRepository]
+  );
+
+  const undoBulkChange = useCallback(
+    (change: BulkNoteChange) => runBulkChange(() => notesRepository.undoBulkChange(change)),
+    [runBulkChange, notesRepository]
   );
 
+  // Write the changes made while offline, oldest first. Each one leaves the queue
+  // once written. If the connection drops again, it and everything after it stay
+  // queued for the next time; one that can never be written is dropped and reported.
+  const replayQueuedWrites = useCallback(async () => {
+    if (!user) return;
+
+    const writes = await getQueuedWrites<PendingNoteOperation>(user.uid);
+    let synced = 0;
+    let conflicts = 0;
+    let discarded = 0;
+
+    for (const write of writes) {
+      const { operation } = write;
+      try {
+        switch (operation.type) {
+          case 'create':
+            await notesRepository.create(user.uid, operation.note.id, operation.note, operation.note.folderId as string);
+            break;
+          case 'update':
+            try {
+              await notesRepository.update(user.uid, operation.noteId, operation.changes, {
+                expectedUpdatedAt: operation.baseUpdatedAt
+              });
+            } catch (error) {
+              if (!(error instanceof NoteConflictError)) throw error;
+
+              // Changed on another device in the meantime: keep both versions
+              const { remoteNote } = error;
+              if (!remoteNote.folderId) throw error;
+              await notesRepository.create(user.uid, notesRepository.newId(), {
+                title: `${operation.changes.title ?? remoteNote.title} (offline copy)`,
+                content: operation.changes.content ?? remoteNote.content,
+                tags: operation.changes.tags ?? remoteNote.tags,
+                createdAt: operation.updatedAt,
+                updatedAt: operation.updatedAt
+              }, remoteNote.folderId);
+              conflicts++;
+            }
+            break;
+          case 'delete':
+            await notesRepository.trash(user.uid, operation.noteId, operation.deletedAt);
+            break;
+        }
+        synced++;
+      } catch (error) {
+        if (isOnlineRef.current === false || isRetryableWriteError(error)) {
+          console.warn('Offline change not synced yet, will retry:', error);
+          break;
+        }
+        console.error('Error replaying offline change:', error);
+        discarded++;
+      }
+      await removeQueuedWrite(write.id as number);
+    }
+
+    if (discarded > 0) {
+      toast.error(`${discarded} offline ${discarded === 1 ? 'change' : 'changes'} could not be saved and ${discarded === 1 ? 'was' : 'were'} discarded. The note may have been deleted or is no longer shared with you.`);
+    }
+    if (conflicts > 0) {
+      toast(`${conflicts} ${conflicts === 1 ? 'note was' : 'notes were'} changed elsewhere while you were offline. Your version was saved as a copy.`);
+    } else if (synced > 0) {
+      toast.success('Offline changes synced');
+    }
+  }, [user, notesRepository]);
+
+  useEffect(() => {
+    replayRef.current = async () => {
+      // Only one tab replays the queue at a time
+      if (typeof navigator !== 'undefined' && navigator.locks) {
+        await navigator.locks.request('notes-offline-queue', replayQueuedWrites);
+      } else {
+        await replayQueuedWrites();
+      }
+    };
+  }, [replayQueuedWrites]);
+
+  // Keep the queued changes in view and replay them whenever the connection comes back
+  useEffect(() => {
+    if (!user) {
+      setPendingWrites([]);
+      return;
+    }
+
+    let isMounted = true;
+    const loadQueue = () => {
+      getQueuedWrites<PendingNoteOperation>(user.uid)
+        .then((writes) => {
+          if (isMounted) setPendingWrites(writes);
+        })
+        .catch((error) => {
+          console.error('Error reading offline changes:', error);
+        });
+    };
+
+    loadQueue();
+    const unsubscribeQueue = subscribeToQueue(loadQueue);
+    const unsubscribeConnected = onValue(ref(db, '.info/connected'), (snapshot) => {
+      isOnlineRef.current = snapshot.val() === true;
+      if (isOnlineRef.current) {
+        replayRef.current().catch((error) => {
+          console.error('Error syncing offline changes:', error);
+        });
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      isOnlineRef.current = null;
+      unsubscribeQueue();
+      unsubscribeConnected();
+    };
+  }, [user, db]);
+
   // Update current note when notes or folderId changes
   useEffect(() => {
     if (notes.length > 0 && !currentNote) {
@@ -540,14 +630,40 @@ export const useNotes = (folderId?: string | null): UseNotesReturn => {
     }
   }, [notes, currentNote]);
 
+  // Own notes plus those from shared folders, limited to the selected folder
+  const visibleNotes = useMemo(() => {
+    const folderSharedNotes = folderId && folderId !== 'all'
+      ? sharedNotes[folderId] || []
+      : Object.values(sharedNotes).flat();
+    if (folderSharedNotes.length === 0) return notes;
+
+    const ownNoteIds = new Set(notes.map(note => note.id));
+    return [...notes, ...folderSharedNotes.filter(note => !ownNoteIds.has(note.id))];
+  }, [notes, sharedNotes, folderId]);
+
+  useEffect(() => {
+    visibleNotesRef.current = visibleNotes;
+  }, [visibleNotes]);
+
+  // Changes that are still queued are shown as if they were already saved
+  const notesWithPendingWrites = useMemo(
+    () => applyPendingNoteWrites(visibleNotes, pendingWrites, folderId !== 'all' ? folderId : null),
+    [visibleNotes, pendingWrites, folderId]
+  );
+
   return {
-    notes: sortNotes(notes, 'updatedAt'),
+    notes: sortNotes(notesWithPendingWrites, 'updatedAt'),
     loading,
     error,
     createNote,
     updateNote,
     deleteNote,
     moveNoteToFolder,
+    moveNotes,
+    trashNotes,
+    duplicateNotes,
+    tagNotes,
+    undoBulkChange,
     currentNote,
     setCurrentNote,
   };
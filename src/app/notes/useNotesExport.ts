@@ -0,0 +1,92 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ref, get, query, orderByChild, equalTo, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'react-hot-toast';
+import { buildMarkdownExport, ExportFolder, ExportNote } from '@/lib/markdown-export';
+import type { NoteRecord } from '@/lib/schema';
+
+interface UseNotesExportReturn {
+  isExporting: boolean;
+  exportMarkdownZip: (noteIds?: string[]) => Promise<void>;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const toExportNote = (id: string, note: Partial<NoteRecord>): ExportNote => ({
+  id,
+  title: note.title || '',
+  content: note.content || '',
+  createdAt: note.createdAt || 0,
+  updatedAt: note.updatedAt || note.createdAt || 0,
+  folderId: note.folderId || null,
+  tags: note.tags || []
+});
+
+// Exports all of the user's own notes and folders, outside the trash, as a ZIP of
+// Markdown files. Reads them fresh rather than using the notes on screen, which
+// are limited to the current folder. Given note IDs, only those notes are
+// exported, including ones from folders shared with the user.
+export const useNotesExport = (): UseNotesExportReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportMarkdownZip = useCallback(async (noteIds?: string[]) => {
+    if (!user) {
+      toast.error('User not authenticated.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const [noteEntries, foldersSnapshot] = await Promise.all([
+        noteIds
+          ? Promise.all(noteIds.map(async (noteId) => [noteId, (await get(ref(db, `notes/${noteId}`))).val()] as const))
+          : get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(user.uid)))
+            .then(snapshot => Object.entries(snapshot.val() || {}) as Array<[string, NoteRecord]>),
+        get(query(ref(db, 'folders'), orderByChild('userId'), equalTo(user.uid)))
+      ]);
+
+      const folders: ExportFolder[] = [];
+      foldersSnapshot.forEach((child) => {
+        const folder = child.val();
+        if (!folder.deletedAt) {
+          folders.push({
+            id: child.key as string,
+            name: folder.name,
+            parentId: folder.parentId || null,
+            createdAt: folder.createdAt || 0
+          });
+        }
+      });
+
+      const notes = noteEntries
+        .filter(([, note]) => note && !note.deletedAt)
+        .map(([noteId, note]) => toExportNote(noteId, note));
+
+      const zip = buildMarkdownExport(notes, folders, { exportedBy: user.email || null });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(new Blob([zip], { type: 'application/zip' }), `notes-export-${date}.zip`);
+      toast.success(`Exported ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}`);
+    } catch (error) {
+      console.error('Error exporting notes:', error);
+      toast.error('Failed to export notes');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [db, user]);
+
+  return {
+    isExporting,
+    exportMarkdownZip
+  };
+};
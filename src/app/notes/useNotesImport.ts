@@ -0,0 +1,165 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ref, get, query, orderByChild, equalTo, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { normalizeTags } from '@/lib/tags';
+import { MAX_FOLDER_NAME_LENGTH, MAX_NOTE_TITLE_LENGTH } from '@/lib/limits';
+import { ImportPlan, buildImportPlan, findDuplicateNotes } from '@/lib/notes-import';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import type { FolderRecordWithId } from '@/lib/folders-repository';
+import type { NoteRecordWithId } from '@/lib/notes-repository';
+import { Folder } from './useFolders';
+
+// Notes written per multi-path update, so a large import doesn't become one huge write
+const NOTES_PER_BATCH = 100;
+
+// Where notes that aren't in any imported folder go when no destination is picked
+const DEFAULT_IMPORT_FOLDER_NAME = 'Imported notes';
+
+export interface PreparedImport {
+  plan: ImportPlan;
+  duplicateKeys: Set<string>; // Notes whose title is already taken
+}
+
+export interface ImportOptions {
+  destinationFolderId: string | null; // Imported folders are created inside it; null for the top level
+  skipDuplicates: boolean;
+}
+
+export interface ImportResult {
+  foldersCreated: number;
+  notesCreated: number;
+  duplicatesSkipped: number;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+interface UseNotesImportReturn {
+  progress: ImportProgress | null; // Set while an import is being written
+  prepareImport: (files: File[]) => Promise<PreparedImport>;
+  runImport: (prepared: PreparedImport, options: ImportOptions) => Promise<ImportResult>;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Bulk-creates folders and notes from an import plan. Imported folders are merged
+// into existing folders with the same name and parent, like `createFolder` would
+// refuse to create a duplicate sibling.
+export const useNotesImport = (folders: Folder[]): UseNotesImportReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const { notes: notesRepository, folders: foldersRepository } = useMemo(
+    () => createRepositories(createFirebaseBackend(db)),
+    [db]
+  );
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const prepareImport = useCallback(async (files: File[]): Promise<PreparedImport> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const sources = await Promise.all(files.map(async file => ({
+      name: file.name,
+      data: new Uint8Array(await file.arrayBuffer())
+    })));
+    const plan = buildImportPlan(sources);
+
+    const notesSnapshot = await get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(user.uid)));
+    const existingTitles: string[] = [];
+    notesSnapshot.forEach((child) => {
+      if (!child.val().deletedAt) existingTitles.push(child.val().title || '');
+    });
+
+    return { plan, duplicateKeys: findDuplicateNotes(plan, existingTitles) };
+  }, [db, user]);
+
+  const runImport = useCallback(async (
+    { plan, duplicateKeys }: PreparedImport,
+    { destinationFolderId, skipDuplicates }: ImportOptions
+  ): Promise<ImportResult> => {
+    if (!user) throw new Error('User not authenticated');
+    if (destinationFolderId && !folders.some(folder => folder.id === destinationFolderId)) {
+      throw new Error('Destination folder not found');
+    }
+
+    const notes = plan.notes.filter(note => !skipDuplicates || !duplicateKeys.has(note.key));
+    const now = Date.now();
+    setProgress({ done: 0, total: notes.length });
+
+    try {
+      // 1. Map every imported folder to an existing or new folder
+      const newFolders: FolderRecordWithId[] = [];
+      const knownFolders: Array<Pick<Folder, 'id' | 'name' | 'parentId'>> = [...folders];
+      const folderIdByKey = new Map<string, string>();
+
+      const resolveFolder = (name: string, parentId: string | null) => {
+        const existing = knownFolders.find(folder => (folder.parentId || null) === parentId && sameName(folder.name, name));
+        if (existing) return existing.id;
+
+        const folderId = foldersRepository.newId();
+        newFolders.push({
+          id: folderId,
+          name: name.trim().slice(0, MAX_FOLDER_NAME_LENGTH) || 'Untitled folder',
+          userId: user.uid,
+          createdAt: now,
+          updatedAt: now,
+          noteCount: 0,
+          ...(parentId ? { parentId } : {})
+        });
+        knownFolders.push({ id: folderId, name, parentId });
+        return folderId;
+      };
+
+      // Empty folders are kept too, so an exported folder tree comes back whole
+      plan.folders.forEach(folder => {
+        const parentId = folder.parentKey ? folderIdByKey.get(folder.parentKey) || null : destinationFolderId;
+        folderIdByKey.set(folder.key, resolveFolder(folder.name, parentId));
+      });
+
+      const looseFolderId = notes.some(note => !note.folderKey)
+        ? destinationFolderId || resolveFolder(DEFAULT_IMPORT_FOLDER_NAME, null)
+        : null;
+
+      await foldersRepository.createMany(user.uid, newFolders);
+
+      // 2. Write the notes in batches, each with its first revision and folder counts
+      for (let start = 0; start < notes.length; start += NOTES_PER_BATCH) {
+        const batch = notes.slice(start, start + NOTES_PER_BATCH).map((note): NoteRecordWithId => {
+          const createdAt = note.createdAt || now;
+          const tags = normalizeTags(note.tags);
+
+          return {
+            id: notesRepository.newId(),
+            title: note.title.trim().slice(0, MAX_NOTE_TITLE_LENGTH) || 'Untitled Note',
+            content: note.content,
+            createdAt,
+            updatedAt: note.updatedAt || createdAt,
+            userId: user.uid,
+            contentLength: note.content.length,
+            folderId: (note.folderKey ? folderIdByKey.get(note.folderKey) : looseFolderId) as string,
+            ...(tags.length > 0 ? { tags } : {})
+          };
+        });
+
+        await notesRepository.createMany(user.uid, batch, now);
+        setProgress({ done: Math.min(start + batch.length, notes.length), total: notes.length });
+      }
+
+      return {
+        foldersCreated: newFolders.length,
+        notesCreated: notes.length,
+        duplicatesSkipped: plan.notes.length - notes.length
+      };
+    } finally {
+      setProgress(null);
+    }
+  }, [user, folders, notesRepository, foldersRepository]);
+
+  return {
+    progress,
+    prepareImport,
+    runImport
+  };
+};
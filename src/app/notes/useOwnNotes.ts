@@ -0,0 +1,52 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ref, get, query, orderByChild, equalTo, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { NoteWithId } from './useNotes';
+
+interface UseOwnNotesReturn {
+  notes: NoteWithId[];
+  loading: boolean;
+}
+
+// One-off read of all of the user's own notes outside the trash. The notes from
+// `useNotes` are limited to the folder on screen, which isn't enough for exports
+// that let you pick from every folder.
+export const useOwnNotes = (): UseOwnNotesReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const [notes, setNotes] = useState<NoteWithId[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setNotes([]);
+      setLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setLoading(true);
+
+    get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(user.uid)))
+      .then((snapshot) => {
+        if (!isMounted) return;
+        const loaded: NoteWithId[] = [];
+        snapshot.forEach((child) => {
+          if (!child.val().deletedAt) loaded.push({ ...child.val(), id: child.key as string });
+        });
+        setNotes(loaded);
+      })
+      .catch((error) => {
+        console.error('Error loading notes:', error);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [db, user]);
+
+  return { notes, loading };
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ref, onValue, remove, getDatabase, query, orderByChild, equalTo } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { auth } from '@/lib/firebase/config';
+import { toast } from 'react-hot-toast';
+import type { NoteShareWithToken } from '@/lib/shares';
+
+export type { NoteShareWithToken } from '@/lib/shares';
+
+export interface CreateShareOptions {
+  expiresAt?: number | null;
+  password?: string;
+}
+
+interface UseSharesReturn {
+  shares: NoteShareWithToken[];
+  loading: boolean;
+  createShare: (noteId: string, options?: CreateShareOptions) => Promise<string>;
+  revokeShare: (token: string) => Promise<void>;
+  getShareUrl: (token: string) => string;
+}
+
+// Share links of the current user, optionally only those for one note
+export const useShares = (noteId?: string | null): UseSharesReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const [allShares, setAllShares] = useState<NoteShareWithToken[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setAllShares([]);
+      setLoading(false);
+      return;
+    }
+
+    const sharesRef = query(ref(db, 'shares'), orderByChild('userId'), equalTo(user.uid));
+    const unsubscribe = onValue(sharesRef, (snapshot) => {
+      const items: NoteShareWithToken[] = [];
+      snapshot.forEach((child) => {
+        items.push({ ...child.val(), token: child.key as string });
+      });
+      items.sort((a, b) => b.createdAt - a.createdAt);
+      setAllShares(items);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error loading shares:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [db, user]);
+
+  const shares = useMemo(
+    () => noteId ? allShares.filter(share => share.noteId === noteId) : allShares,
+    [allShares, noteId]
+  );
+
+  // Shares are created by the API route, which generates the token and hashes the password
+  const createShare = useCallback(async (shareNoteId: string, options: CreateShareOptions = {}) => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) throw new Error('User not authenticated');
+
+    try {
+      const idToken = await currentUser.getIdToken();
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`
+        },
+        body: JSON.stringify({
+          noteId: shareNoteId,
+          expiresAt: options.expiresAt ?? null,
+          password: options.password || null
+        })
+      });
+
+      const responseData = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(responseData.error || 'Failed to create share link');
+      }
+
+      return responseData.token as string;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw error;
+    }
+  }, []);
+
+  const revokeShare = useCallback(async (token: string) => {
+    try {
+      await remove(ref(db, `shares/${token}`));
+      toast.success('Share link revoked');
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke share link');
+      throw error;
+    }
+  }, [db]);
+
+  const getShareUrl = useCallback(
+    (token: string) => `${window.location.origin}/s/${token}`,
+    []
+  );
+
+  return {
+    shares,
+    loading,
+    createShare,
+    revokeShare,
+    getShareUrl
+  };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  ref,
+  onValue,
+  getDatabase,
+  query,
+  orderByChild,
+  equalTo
+} from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'react-hot-toast';
+import { countTags, TagCount } from '@/lib/tags';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import { NoteWithId } from './useNotes';
+
+interface UseTagsReturn {
+  tags: TagCount[];
+  loading: boolean;
+  renameTag: (from: string, to: string) => Promise<number>;
+  mergeTags: (sources: string[], target: string) => Promise<number>;
+}
+
+export const useTags = (): UseTagsReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const { notes: notesRepository } = useMemo(() => createRepositories(createFirebaseBackend(db)), [db]);
+  const [notes, setNotes] = useState<NoteWithId[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setNotes([]);
+      setLoading(false);
+      return;
+    }
+
+    const notesRef = query(ref(db, 'notes'), orderByChild('userId'), equalTo(user.uid));
+    const unsubscribe = onValue(notesRef, (snapshot) => {
+      const items: NoteWithId[] = [];
+      snapshot.forEach((child) => {
+        const noteData = child.val();
+        if (!noteData.deletedAt) {
+          items.push({ ...noteData, id: child.key as string });
+        }
+      });
+      setNotes(items);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error in tags listener:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [db, user]);
+
+  const tags = useMemo(() => countTags(notes), [notes]);
+
+  // Replace every source tag with the target on all affected notes in one update.
+  // Renaming onto an existing tag merges the two.
+  const mergeTags = useCallback(async (sources: string[], target: string): Promise<number> => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      const affected = await notesRepository.mergeTags(user.uid, sources, target);
+      if (affected > 0) {
+        toast.success(`Updated tags on ${affected} note(s)`);
+      }
+      return affected;
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      throw error;
+    }
+  }, [user, notesRepository]);
+
+  const renameTag = useCallback(
+    (from: string, to: string) => mergeTags([from], to),
+    [mergeTags]
+  );
+
+  return {
+    tags,
+    loading,
+    renameTag,
+    mergeTags
+  };
+};
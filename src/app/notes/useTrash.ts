@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  ref,
+  onValue,
+  getDatabase,
+  query,
+  orderByChild,
+  equalTo
+} from 'firebase/database';
+import { getStorage } from 'firebase/storage';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'react-hot-toast';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import { NoteWithId } from './useNotes';
+import { Folder } from './useFolders';
+import { deleteAttachmentFiles } from './useNoteAttachments';
+
+interface UseTrashReturn {
+  trashedNotes: NoteWithId[];
+  trashedFolders: Folder[];
+  loading: boolean;
+  error: string | null;
+  restoreNote: (noteId: string) => Promise<void>;
+  restoreFolder: (folderId: string) => Promise<void>;
+  purgeNote: (noteId: string) => Promise<void>;
+  purgeFolder: (folderId: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+}
+
+export const useTrash = (): UseTrashReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const { notes: notesRepository, folders: foldersRepository } = useMemo(
+    () => createRepositories(createFirebaseBackend(db)),
+    [db]
+  );
+  const [notes, setNotes] = useState<NoteWithId[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [notesLoading, setNotesLoading] = useState(true);
+  const [foldersLoading, setFoldersLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Listen to all of the user's notes and folders, trashed or not
+  useEffect(() => {
+    if (!user) {
+      setNotes([]);
+      setFolders([]);
+      setNotesLoading(false);
+      setFoldersLoading(false);
+      return;
+    }
+
+    const unsubscribeNotes = onValue(
+      query(ref(db, 'notes'), orderByChild('userId'), equalTo(user.uid)),
+      (snapshot) => {
+        const items: NoteWithId[] = [];
+        snapshot.forEach((child) => {
+          items.push({ ...child.val(), id: child.key as string });
+        });
+        setNotes(items);
+        setNotesLoading(false);
+      },
+      (error) => {
+        console.error('Error in trash notes listener:', error);
+        setError('Failed to load trash');
+        setNotesLoading(false);
+      }
+    );
+
+    const unsubscribeFolders = onValue(
+      query(ref(db, 'folders'), orderByChild('userId'), equalTo(user.uid)),
+      (snapshot) => {
+        const items: Folder[] = [];
+        snapshot.forEach((child) => {
+          items.push({ ...child.val(), id: child.key as string });
+        });
+        setFolders(items);
+        setFoldersLoading(false);
+      },
+      (error) => {
+        console.error('Error in trash folders listener:', error);
+        setError('Failed to load trash');
+        setFoldersLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribeNotes();
+      unsubscribeFolders();
+    };
+  }, [db, user]);
+
+  const trashedNotes = useMemo(
+    () => notes.filter(note => note.deletedAt).sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0)),
+    [notes]
+  );
+
+  const trashedFolders = useMemo(
+    () => folders.filter(folder => folder.deletedAt).sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0)),
+    [folders]
+  );
+
+  const restoreNote = useCallback(async (noteId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      const note = trashedNotes.find(n => n.id === noteId);
+      await notesRepository.restore(user.uid, noteId);
+      toast.success(`"${note?.title || 'Note'}" restored`);
+    } catch (error) {
+      console.error('Error restoring note:', error);
+      throw error;
+    }
+  }, [user, trashedNotes, notesRepository]);
+
+  const restoreFolder = useCallback(async (folderId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      const { name, noteCount } = await foldersRepository.restore(user.uid, folderId);
+      toast.success(`"${name}" restored with ${noteCount} note(s)`);
+    } catch (error) {
+      console.error('Error restoring folder:', error);
+      throw error;
+    }
+  }, [user, foldersRepository]);
+
+  // Stored files outlive their note's metadata, so remove them once the notes are gone
+  const deletePurgedAttachments = useCallback((noteIds: string[]) => {
+    if (!user) return;
+
+    const withAttachments = trashedNotes
+      .filter(note => noteIds.includes(note.id) && note.attachments)
+      .map(note => note.id);
+    if (withAttachments.length === 0) return;
+
+    deleteAttachmentFiles(getStorage(), user.uid, withAttachments).catch((error) => {
+      console.error('Error deleting attachment files:', error);
+    });
+  }, [user, trashedNotes]);
+
+  const purgeNote = useCallback(async (noteId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      deletePurgedAttachments(await notesRepository.purge(user.uid, [noteId]));
+      toast.success('Note deleted permanently');
+    } catch (error) {
+      console.error('Error purging note:', error);
+      throw error;
+    }
+  }, [user, notesRepository, deletePurgedAttachments]);
+
+  const purgeFolder = useCallback(async (folderId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      const { name, noteIds } = await foldersRepository.purge(user.uid, folderId);
+      deletePurgedAttachments(noteIds);
+      toast.success(`"${name}" deleted permanently`);
+    } catch (error) {
+      console.error('Error purging folder:', error);
+      throw error;
+    }
+  }, [user, foldersRepository, deletePurgedAttachments]);
+
+  const emptyTrash = useCallback(async () => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      deletePurgedAttachments(await notesRepository.emptyTrash(user.uid));
+      toast.success('Trash emptied');
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      throw error;
+    }
+  }, [user, notesRepository, deletePurgedAttachments]);
+
+  return {
+    trashedNotes,
+    trashedFolders,
+    loading: notesLoading || foldersLoading,
+    error,
+    restoreNote,
+    restoreFolder,
+    purgeNote,
+    purgeFolder,
+    emptyTrash
+  };
+};
@@ -16,13 +16,21 @@ import {
   FiHardDrive,
   FiFileText,
   FiDatabase,
-  FiMessageSquare
+  FiMessageSquare,
+  FiLink,
+  FiCopy,
+  FiExternalLink,
+  FiDownload,
+  FiUpload
 } from 'react-icons/fi';
 import { toast } from 'react-hot-toast';
-import { getFirestore } from 'firebase/firestore';
 import { getStorage, ref, getMetadata } from 'firebase/storage';
-import { getDatabase, ref as dbRef, get, child } from 'firebase/database';
+import { getDatabase, ref as dbRef, get, child, query, orderByChild, equalTo } from 'firebase/database';
 import { auth } from '@/lib/firebase/config';
+import { useShares } from '@/app/notes/useShares';
+import { ATTACHMENT_QUOTA, formatFileSize, getAttachmentsSize } from '@/lib/attachments';
+import { NotesBackup } from '@/lib/notes-backup';
+import { useAccountBackup, RestoreMode } from '@/hooks/useAccountBackup';
 
 // Get Database and Storage instances
 const db = getDatabase();
@@ -34,12 +42,13 @@ export default function ProfilePage() {
 
   // Define the type for active tab
   // Define the tab types as a union of string literals
-  type TabType = 'details' | 'messages' | 'password' | 'delete';
+  type TabType = 'details' | 'messages' | 'shares' | 'data' | 'password' | 'delete';
 
   // State for active tab and insights data
   const [activeTab, setActiveTab] = useState<TabType>('details');
   const [noteCount, setNoteCount] = useState(0);
   const [storageUsage, setStorageUsage] = useState('0 MB');
+  const [attachmentsSize, setAttachmentsSize] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [storageLoading, setStorageLoading] = useState(false);
@@ -55,6 +64,67 @@ export default function ProfilePage() {
     }
   }, [activeTab, user?.messages]);
 
+  // Public share links created from the note editor
+  const { shares, loading: sharesLoading, revokeShare, getShareUrl } = useShares();
+
+  const handleCopyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRevokeShare = async (token: string) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access.')) return;
+    await revokeShare(token).catch(() => {});
+  };
+
+  // Account backup and restore
+  const { isDownloading, progress: restoreProgress, downloadBackup, readBackup, restoreBackup } = useAccountBackup();
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: NotesBackup } | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+
+  const handleDownloadBackup = async () => {
+    try {
+      await downloadBackup();
+      toast.success('Your data has been downloaded');
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      toast.error('Failed to download your data');
+    }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+    try {
+      setPendingRestore({ fileName: file.name, backup: await readBackup(file) });
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      toast.error(error instanceof Error ? `Invalid backup: ${error.message}` : 'Invalid backup file');
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    if (!pendingRestore) return;
+    if (restoreMode === 'replace' && !window.confirm(
+      'Replace all of your folders and notes, including the trash and share links, with this backup? Notes with attachments are moved to the trash. This cannot be undone.'
+    )) return;
+
+    try {
+      const result = await restoreBackup(pendingRestore.backup, restoreMode);
+      toast.success(
+        `Restored ${result.notesCreated} ${result.notesCreated === 1 ? 'note' : 'notes'}` +
+        ` and ${result.foldersCreated} ${result.foldersCreated === 1 ? 'folder' : 'folders'}`
+      );
+      setPendingRestore(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(error instanceof Error ? `Restore failed: ${error.message}` : 'Restore failed');
+    }
+  };
+
   // Password update state
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -261,53 +331,22 @@ export default function ProfilePage() {
       }
 
       try {
-        // 1. Get all notes from the notes node
-        const notesRef = dbRef(db, 'notes');
-        const notesSnapshot = await get(notesRef);
+        // 1. Get the user's notes
+        const notesSnapshot = await get(query(dbRef(db, 'notes'), orderByChild('userId'), equalTo(user.uid)));
 
         // Initialize allNotes as an empty object by default
         const allNotes = notesSnapshot.exists() ? notesSnapshot.val() : {};
-        const noteIds = Object.keys(allNotes);
 
-        // 2. Get user's folders to calculate total notes
-        const userFoldersRef = dbRef(db, `users/${user.uid}/folders`);
-        const userFoldersSnapshot = await get(userFoldersRef);
-
-        // Initialize total notes count
+        // 2. Folders keep a count of their notes, so one query gives the total
+        const foldersSnapshot = await get(query(dbRef(db, 'folders'), orderByChild('userId'), equalTo(user.uid)));
         let totalNotes = 0;
 
-        // Process folders if they exist
-        if (userFoldersSnapshot.exists()) {
-          // Get the array of folder IDs directly from the snapshot
-          const folderIds: string[] = userFoldersSnapshot.val() || [];
-
-          if (folderIds.length > 0) {
-            // Get all folders data to access their noteIds
-            const folderPromises = folderIds.map((folderId: string) => {
-              const folderRef = dbRef(db, `folders/${folderId}`);
-              return get(folderRef);
-            });
-
-            const folderSnapshots = await Promise.all(folderPromises);
-
-            // Process each folder to count notes
-            folderSnapshots.forEach((snapshot, index) => {
-              if (snapshot.exists()) {
-                const folderData = snapshot.val();
-
-                // Check if noteIds exists and is an array
-                const hasNoteIds = folderData.hasOwnProperty('noteIds');
-                const isNoteIdsArray = Array.isArray(folderData.noteIds);
-                const noteCount = isNoteIdsArray ? folderData.noteIds.length : 0;
-
-                // Add this folder's note count to the total
-                if (isNoteIdsArray) {
-                  totalNotes += noteCount;
-                }
-              }
-            });
+        foldersSnapshot.forEach((folder) => {
+          const folderData = folder.val();
+          if (!folderData.deletedAt && typeof folderData.noteCount === 'number') {
+            totalNotes += folderData.noteCount;
           }
-        }
+        });
 
         // Set the total note count
         setNoteCount(totalNotes);
@@ -320,6 +359,7 @@ export default function ProfilePage() {
 
         // 3. Calculate total size of all notes
         let totalSize = 0;
+        let totalAttachmentsSize = 0;
 
         // Process all notes to calculate total size
         for (const noteId in allNotes) {
@@ -338,30 +378,14 @@ export default function ProfilePage() {
           }
 
           // Calculate attachments size if any
-          if (note.attachments) {
-            Object.entries(note.attachments).forEach(([_, attachment]: [string, any]) => {
-              if (attachment.size) {
-                const attachmentSize = Number(attachment.size) || 0;
-                noteSize += attachmentSize;
-              }
-            });
-          }
+          const noteAttachmentsSize = getAttachmentsSize(note);
+          noteSize += noteAttachmentsSize;
+          totalAttachmentsSize += noteAttachmentsSize;
           totalSize += noteSize;
         }
 
-        // Format the storage size for display
-        const formatStorageSize = (bytes: number) => {
-          if (bytes === 0) return '0 Bytes';
-          const k = 1024;
-          const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-          const i = Math.min(
-            Math.floor(Math.log(bytes) / Math.log(k)),
-            sizes.length - 1
-          );
-          return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
-        };
-
-        setStorageUsage(formatStorageSize(totalSize));
+        setStorageUsage(formatFileSize(totalSize));
+        setAttachmentsSize(totalAttachmentsSize);
       } catch (err) {
         console.error('Error calculating storage:', err);
         setError('Failed to calculate storage usage');
@@ -428,6 +452,26 @@ export default function ProfilePage() {
                   <FiMessageSquare className="mr-3 h-5 w-5" />
                   Messages
                 </button>
+                <button
+                  onClick={() => setActiveTab('shares')}
+                  className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-md ${activeTab === 'shares'
+                    ? 'bg-blue-50 text-blue-700 border-l-4 border-blue-500'
+                    : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                    }`}
+                >
+                  <FiLink className="mr-3 h-5 w-5" />
+                  Shared Links
+                </button>
+                <button
+                  onClick={() => setActiveTab('data')}
+                  className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-md ${activeTab === 'data'
+                    ? 'bg-blue-50 text-blue-700 border-l-4 border-blue-500'
+                    : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                    }`}
+                >
+                  <FiDownload className="mr-3 h-5 w-5" />
+                  Your Data
+                </button>
                 <button
                   onClick={() => setActiveTab('password')}
                   className={`w-full flex items-center px-4 py-3 text-sm font-medium rounded-md ${activeTab === 'password'
@@ -606,6 +650,9 @@ export default function ProfilePage() {
                                       {storageUsage}
                                     </div>
                                   </dd>
+                                  <dd className="mt-1 text-xs text-gray-500">
+                                    Attachments: {formatFileSize(attachmentsSize)} of {formatFileSize(ATTACHMENT_QUOTA)}
+                                  </dd>
                                 </dl>
                               </div>
                             </div>
@@ -617,6 +664,218 @@ export default function ProfilePage() {
                 </div>
               )}
 
+              {/* Shared Links Section */}
+              {activeTab === 'shares' && (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">Shared Links</h3>
+                    <p className="mt-1 text-sm text-gray-500">Read-only links to your notes. Revoke a link to stop sharing it.</p>
+                  </div>
+
+                  <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+                    {sharesLoading ? (
+                      <div className="px-4 py-5 sm:p-6 text-center text-gray-500">Loading...</div>
+                    ) : shares.length ? (
+                      <ul className="divide-y divide-gray-200">
+                        {shares.map((share) => {
+                          const isExpired = Boolean(share.expiresAt && share.expiresAt <= Date.now());
+                          return (
+                            <li key={share.token} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                              <div className="min-w-0">
+                                <p className={`text-sm font-medium truncate ${isExpired ? 'text-gray-400' : 'text-gray-900'}`}>
+                                  {share.noteTitle}
+                                </p>
+                                <p className="text-xs text-gray-500 flex items-center">
+                                  {share.passwordHash && <FiLock className="mr-1" title="Password protected" />}
+                                  Created {new Date(share.createdAt).toLocaleString('en-GB', {
+                                    day: '2-digit',
+                                    month: '2-digit',
+                                    year: 'numeric',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                    hour12: false
+                                  }).replace(',', '')}
+                                  {share.expiresAt && ` · ${isExpired ? 'Expired' : 'Expires'} ${new Date(share.expiresAt).toLocaleString('en-GB', {
+                                    day: '2-digit',
+                                    month: '2-digit',
+                                    year: 'numeric',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                    hour12: false
+                                  }).replace(',', '')}`}
+                                </p>
+                              </div>
+                              <div className="flex items-center space-x-2 ml-4">
+                                <a
+                                  href={`/s/${share.token}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-gray-400 hover:text-blue-600"
+                                  title="Open link"
+                                >
+                                  <FiExternalLink size={16} />
+                                </a>
+                                <button
+                                  onClick={() => handleCopyShareLink(share.token)}
+                                  className="text-gray-400 hover:text-blue-600"
+                                  title="Copy link"
+                                >
+                                  <FiCopy size={16} />
+                                </button>
+                                <button
+                                  onClick={() => handleRevokeShare(share.token)}
+                                  className="text-red-500 hover:text-red-700"
+                                  title="Revoke link"
+                                >
+                                  <FiTrash2 size={16} />
+                                </button>
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    ) : (
+                      <div className="px-4 py-5 sm:p-6 text-center text-gray-500">
+                        You haven&apos;t shared any notes yet.
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Backup and Restore Section */}
+              {activeTab === 'data' && (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-lg font-medium leading-6 text-gray-900">Your Data</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Download everything stored in your account, or restore it from an earlier download.
+                    </p>
+                  </div>
+
+                  <div className="bg-white shadow sm:rounded-lg">
+                    <div className="px-4 py-5 sm:p-6">
+                      <h4 className="text-base font-medium text-gray-900">Download my data</h4>
+                      <p className="mt-1 text-sm text-gray-500">
+                        A JSON file with your profile, folders, notes (including the trash) and messages.
+                        Attachment files are not included.
+                      </p>
+                      <button
+                        type="button"
+                        onClick={handleDownloadBackup}
+                        disabled={isDownloading}
+                        className="mt-4 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <FiDownload className="mr-2" />
+                        {isDownloading ? 'Preparing...' : 'Download my data'}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-white shadow sm:rounded-lg">
+                    <div className="px-4 py-5 sm:p-6">
+                      <h4 className="text-base font-medium text-gray-900">Restore from a backup</h4>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Restored folders and notes get new IDs. Your name, email and password stay as they are.
+                      </p>
+
+                      {!pendingRestore ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => restoreInputRef.current?.click()}
+                            className="mt-4 inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            <FiUpload className="mr-2" />
+                            Choose backup file
+                          </button>
+                          <input
+                            ref={restoreInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) handleRestoreFile(file);
+                              e.target.value = '';
+                            }}
+                          />
+                        </>
+                      ) : (
+                        <div className="mt-4 space-y-4">
+                          <div className="rounded-md bg-gray-50 px-4 py-3 text-sm text-gray-700">
+                            <p className="font-medium truncate">{pendingRestore.fileName}</p>
+                            <p className="text-gray-500">
+                              {pendingRestore.backup.exportedAt && `Created ${new Date(pendingRestore.backup.exportedAt).toLocaleString('en-GB', {
+                                day: '2-digit',
+                                month: '2-digit',
+                                year: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit',
+                                hour12: false
+                              }).replace(',', '')} · `}
+                              {pendingRestore.backup.folders.length} folders · {pendingRestore.backup.notes.length} notes · {pendingRestore.backup.messages.length} messages
+                            </p>
+                          </div>
+
+                          <fieldset className="space-y-2" disabled={restoreProgress !== null}>
+                            <label className="flex items-start gap-2 text-sm text-gray-700">
+                              <input
+                                type="radio"
+                                name="restore-mode"
+                                value="merge"
+                                checked={restoreMode === 'merge'}
+                                onChange={() => setRestoreMode('merge')}
+                                className="mt-0.5 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              <span>
+                                <span className="font-medium">Merge</span> — add the backup to your account. Folders with the same name are combined.
+                              </span>
+                            </label>
+                            <label className="flex items-start gap-2 text-sm text-gray-700">
+                              <input
+                                type="radio"
+                                name="restore-mode"
+                                value="replace"
+                                checked={restoreMode === 'replace'}
+                                onChange={() => setRestoreMode('replace')}
+                                className="mt-0.5 h-4 w-4 border-gray-300 text-red-600 focus:ring-red-500"
+                              />
+                              <span>
+                                <span className="font-medium">Replace</span> — delete your current folders, notes and share links. Notes with attachments go to the trash.
+                              </span>
+                            </label>
+                          </fieldset>
+
+                          <div className="flex items-center space-x-2">
+                            <button
+                              type="button"
+                              onClick={handleRestoreBackup}
+                              disabled={restoreProgress !== null}
+                              className={`px-4 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+                                restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                              }`}
+                            >
+                              {restoreProgress
+                                ? `Restoring ${restoreProgress.done} of ${restoreProgress.total}...`
+                                : 'Restore'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setPendingRestore(null)}
+                              disabled={restoreProgress !== null}
+                              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Change Password Section */}
               {activeTab === 'password' && (
                 <div className="space-y-6">
@@ -0,0 +1,136 @@
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { FiLock, FiClock } from 'react-icons/fi';
+import { adminDb } from '@/lib/firebase-admin';
+import { renderSharedMarkdown } from '@/lib/markdown-server';
+import {
+  getShareAccessCookieName,
+  getShareAccessKey,
+  isShareExpired,
+  isValidShareToken,
+  NoteShare
+} from '@/lib/shares';
+import 'highlight.js/styles/github.css';
+
+// Shares can be revoked or expire at any time, so never serve a cached page
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Shared note',
+  // Share links are private to whoever received them
+  robots: { index: false, follow: false }
+};
+
+interface SharedNotePageProps {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ error?: string }>;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).replace(',', '');
+
+const loadShare = async (token: string) => {
+  if (!isValidShareToken(token)) return null;
+
+  const shareSnapshot = await adminDb.ref(`shares/${token}`).once('value');
+  const share: NoteShare | null = shareSnapshot.val();
+  if (!share) return null;
+
+  const noteSnapshot = await adminDb.ref(`notes/${share.noteId}`).once('value');
+  const note = noteSnapshot.val();
+
+  // Notes in the trash or owned by someone else are never shown
+  if (!note || note.deletedAt || note.userId !== share.userId) return null;
+
+  return { share, note };
+};
+
+const Unavailable = ({ message }: { message: string }) => (
+  <div className="max-w-xl mx-auto px-4 py-24 text-center">
+    <h1 className="text-2xl font-semibold text-gray-900 mb-2">Note unavailable</h1>
+    <p className="text-gray-500">{message}</p>
+  </div>
+);
+
+export default async function SharedNotePage({ params, searchParams }: SharedNotePageProps) {
+  const { token } = await params;
+  const { error } = await searchParams;
+  const result = await loadShare(token);
+
+  if (!result) {
+    return <Unavailable message="This link doesn't exist or has been revoked." />;
+  }
+
+  const { share, note } = result;
+
+  if (isShareExpired(share)) {
+    return <Unavailable message="This link has expired." />;
+  }
+
+  if (share.passwordHash) {
+    const cookieStore = await cookies();
+    const accessKey = cookieStore.get(getShareAccessCookieName(token))?.value;
+
+    if (accessKey !== getShareAccessKey(token, share)) {
+      return (
+        <div className="max-w-sm mx-auto px-4 py-24">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center mb-4">
+              <FiLock className="h-5 w-5 text-gray-500 mr-2" />
+              <h1 className="text-lg font-semibold text-gray-900">This note is password protected</h1>
+            </div>
+            <form method="post" action={`/api/shares/${encodeURIComponent(token)}/unlock`} className="space-y-4">
+              <input
+                type="password"
+                name="password"
+                required
+                autoFocus
+                placeholder="Password"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {error && (
+                <p className="text-sm text-red-600">
+                  {error === 'password'
+                    ? 'Incorrect password'
+                    : error === 'throttled'
+                      ? 'Too many incorrect passwords. Please try again later.'
+                      : 'Something went wrong, please try again'}
+                </p>
+              )}
+              <button
+                type="submit"
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                View note
+              </button>
+            </form>
+          </div>
+        </div>
+      );
+    }
+  }
+
+  return (
+    <article className="max-w-3xl mx-auto px-4 py-10">
+      <header className="mb-6 border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold text-gray-900 break-words">{note.title}</h1>
+        <p className="mt-2 flex items-center text-sm text-gray-500">
+          <FiClock className="h-4 w-4 mr-1" />
+          Last updated {formatDate(note.updatedAt)}
+          {share.expiresAt && <> · Link expires {formatDate(share.expiresAt)}</>}
+        </p>
+      </header>
+      <div
+        className="markdown-body text-gray-800"
+        dangerouslySetInnerHTML={{ __html: renderSharedMarkdown(note.content || '') }}
+      />
+    </article>
+  );
+}
@@ -5,8 +5,9 @@ import Link from 'next/link';
 import { useAuth } from '@/context/AuthContext';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import toast from 'react-hot-toast';
-import { FiLogOut, FiUser, FiMenu, FiLoader, FiSearch, FiX } from 'react-icons/fi';
+import { FiLogOut, FiUser, FiMenu, FiLoader, FiSearch, FiX, FiWifiOff, FiRefreshCw } from 'react-icons/fi';
 import { UserRole } from '@/context/AuthContext';
+import { useConnectionStatus } from '@/hooks/useConnectionStatus';
 
 // Debounce utility function
 const debounce = <F extends (...args: any[]) => any>(func: F, wait: number) => {
@@ -81,6 +82,40 @@ function ProfilePhoto({ user, isOpen, onClick }: { user: any, isOpen: boolean, o
   );
 }
 
+// Shows when the app is offline or still writing changes made while it was
+function ConnectionIndicator() {
+  const { isOnline, pendingCount } = useConnectionStatus();
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const pendingLabel = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}`;
+
+  return (
+    <div
+      role="status"
+      className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium whitespace-nowrap ${isOnline
+        ? 'bg-blue-50 text-blue-700'
+        : 'bg-amber-50 text-amber-700'
+        }`}
+      title={isOnline
+        ? `Saving ${pendingLabel} made while offline`
+        : 'Changes are saved on this device and synced when you\'re back online'}
+    >
+      {isOnline ? (
+        <>
+          <FiRefreshCw className="mr-1 h-3.5 w-3.5 animate-spin" />
+          Syncing…
+        </>
+      ) : (
+        <>
+          <FiWifiOff className="mr-1 h-3.5 w-3.5" />
+          Offline{pendingCount > 0 && ` · ${pendingCount} pending`}
+        </>
+      )}
+    </div>
+  );
+}
+
 export default function Navbar() {
   // Hooks must be called at the top level
   const { user, logout, loading: authLoading } = useAuth();
@@ -147,8 +182,8 @@ export default function Navbar() {
     searchInputRef.current?.blur();
   };
 
-  // Don't show navbar on auth pages
-  if (!pathname || pathname === '/' || pathname === '/signup' || pathname === '/login') {
+  // Don't show navbar on auth pages or public shared notes
+  if (!pathname || pathname === '/' || pathname === '/signup' || pathname === '/login' || pathname.startsWith('/s/')) {
     return null;
   }
 
@@ -240,6 +275,7 @@ export default function Navbar() {
                       ref={searchInputRef}
                       type="text"
                       placeholder="Search notes..."
+                      title='Search titles and content. Use "exact phrase", -exclude, folder:name, tag:name, before:2024-01-31 or after:2024-01-01'
                       value={searchQuery}
                       onChange={handleSearchChange}
                       onFocus={() => setIsSearchFocused(true)}
@@ -290,6 +326,8 @@ export default function Navbar() {
               </Link>
             )}
 
+            <ConnectionIndicator />
+
             {/* User email and actions */}
             <div className="flex items-center space-x-4 ml-4">
               <div className="text-sm text-gray-700">
@@ -338,7 +376,8 @@ export default function Navbar() {
           </div>
 
           {/* Mobile menu button */}
-          <div className="sm:hidden flex items-center">
+          <div className="sm:hidden flex items-center space-x-2">
+            <ConnectionIndicator />
             <button
               type="button"
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
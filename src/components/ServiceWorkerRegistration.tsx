@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js so the app opens without a connection. Left out in
+// development, where a cached shell would hide code changes.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { get, getDatabase, ref } from 'firebase/database';
+import { useAuth } from './AuthContext';
+import { EMULATOR_ACCOUNTS } from '@/test/emulators';
+import { AuthWrapper, renderSignedIn, signOutEverywhere } from '@/test/render-with-auth';
+
+// AuthContext against the Auth and Database emulators, with the seeded accounts
+
+const { user, admin, rootAdmin } = EMULATOR_ACCOUNTS;
+
+const readUser = async (uid: string) => (await get(ref(getDatabase(), `users/${uid}`))).val();
+
+afterEach(async () => {
+  await signOutEverywhere();
+});
+
+describe('AuthContext', () => {
+  it('signs in with email and password and loads the role from the database', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthWrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.user).toBeNull();
+
+    const before = Date.now();
+    await act(() => result.current.login(user.email, user.password));
+
+    expect(result.current.user).toMatchObject({ uid: user.uid, email: user.email, role: 'user' });
+    expect((await readUser(user.uid)).lastLogin).toBeGreaterThanOrEqual(before);
+  });
+
+  it('rejects a wrong password', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthWrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await expect(act(() => result.current.login(user.email, 'wrong-password'))).rejects.toThrow();
+    expect(result.current.user).toBeNull();
+  });
+
+  it('signs up a new account as a regular user with a welcome message', async () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthWrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    const email = `new-${Date.now()}@example.com`;
+    await act(() => result.current.signup(email, 'new-password'));
+    await waitFor(() => expect(result.current.user?.email).toBe(email));
+
+    const stored = await readUser(result.current.user?.uid as string);
+    expect(stored).toMatchObject({ email, role: 'user' });
+    expect(stored.messages).toHaveLength(1);
+  });
+
+  it('loads each seeded role', async () => {
+    for (const account of [user, admin, rootAdmin]) {
+      const { result, unmount } = await renderSignedIn(account, () => null);
+      expect(result.current.auth.user?.role).toBe(account.role);
+      unmount();
+      await signOutEverywhere();
+    }
+  });
+
+  it('lists every account for admins and root admins only', async () => {
+    const seededIds = [user.uid, admin.uid, rootAdmin.uid];
+
+    for (const account of [admin, rootAdmin]) {
+      const { result, unmount } = await renderSignedIn(account, () => null);
+      const users = await result.current.auth.getAllUsers();
+      expect(users.map(listed => listed.uid)).toEqual(expect.arrayContaining(seededIds));
+      unmount();
+      await signOutEverywhere();
+    }
+
+    const { result } = await renderSignedIn(user, () => null);
+    await expect(result.current.auth.getAllUsers()).rejects.toThrow('Insufficient permissions');
+  });
+
+  it('lets root admins change roles, but not admins', async () => {
+    const asAdmin = await renderSignedIn(admin, () => null);
+    await expect(act(() => asAdmin.result.current.auth.updateUserRole(user.uid, 'admin'))).rejects.toThrow();
+    expect((await readUser(user.uid)).role).toBe('user');
+    asAdmin.unmount();
+    await signOutEverywhere();
+
+    const asRoot = await renderSignedIn(rootAdmin, () => null);
+    await act(() => asRoot.result.current.auth.updateUserRole(user.uid, 'admin'));
+    expect((await readUser(user.uid)).role).toBe('admin');
+
+    // Back to the seeded role for the other tests
+    await act(() => asRoot.result.current.auth.updateUserRole(user.uid, 'user'));
+    expect((await readUser(user.uid)).role).toBe('user');
+  });
+
+  it('signs out', async () => {
+    const { result } = await renderSignedIn(user, () => null);
+
+    await act(() => result.current.auth.logout());
+    await waitFor(() => expect(result.current.auth.user).toBeNull());
+  });
+});
@@ -20,9 +20,15 @@ import {
 } from 'firebase/auth';
 import { auth } from '@/lib/firebase/config';
 import toast from 'react-hot-toast';
-import { getDatabase, ref, set, get, update, remove, query, orderByChild, equalTo } from 'firebase/database';
+import { getDatabase, ref, set, get, update, query, orderByChild, equalTo } from 'firebase/database';
+import { getStorage } from 'firebase/storage';
+import { deleteAttachmentFiles } from '@/app/notes/useNoteAttachments';
+import { readCache, writeCache, clearOfflineData } from '@/lib/offline-store';
+import type { UserRecord, UserRole } from '@/lib/schema';
+import { createUsersRepository, DeleteUserReport } from '@/lib/users-repository';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
 
-export type UserRole = 'user' | 'admin' | 'root_admin';
+export type { UserRole };
 
 export interface UserMessage {
   id: string;
@@ -32,9 +38,10 @@ export interface UserMessage {
   read: boolean;
 }
 
+// The signed-in Firebase user, with their record from `users/{uid}` (see `UserRecord`)
 export interface AppUser extends Omit<User, 'displayName' | 'photoURL'> {
-  role?: UserRole;
-  createdAt?: number;
+  role?: UserRecord['role'];
+  createdAt?: UserRecord['createdAt'];
   lastLogin?: number | null;      // Current login time
   previousLogin?: number | null; // Previous login time
   displayName?: string | null;
@@ -80,6 +87,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AppUser | null>(null);
   const [loading, setLoading] = useState(true);
   const db = getDatabase();
+  const users = createUsersRepository(createFirebaseBackend(db));
   const router = useRouter();
   const isMounted = useRef(false);
 
@@ -156,6 +164,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             };
 
             setUser(appUser);
+
+            // Kept so the app can still open when the database can't be reached
+            const { role, createdAt, displayName, photoURL, notes, messages, email } = appUser;
+            writeCache(`users/${firebaseUser.uid}`, {
+              role, createdAt, lastLogin, previousLogin: appUser.previousLogin, displayName, photoURL, notes, messages, email
+            }).catch((cacheError) => {
+              console.error('Error caching user data:', cacheError);
+            });
           } else {
             // If no user data exists, create it with default values
             const now = Date.now();
@@ -181,8 +197,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           }
         } catch (error) {
           console.error('Error loading user data:', error);
-          // Set user as null if there's an error
-          setUser(null);
+          // Offline, fall back to the profile from the last visit; otherwise sign-in fails
+          const cachedUserData = await readCache<Partial<AppUser>>(`users/${firebaseUser.uid}`).catch(() => null);
+          setUser(cachedUserData ? { ...firebaseUser, ...cachedUserData } : null);
         }
       } else {
         // User is signed out
@@ -655,9 +672,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const logout = async () => {
     try {
+      const userId = auth.currentUser?.uid;
+
       // Sign out from Firebase
       await signOut(auth);
 
+      // Forget the cached notes, but keep changes that are still waiting to be synced
+      if (userId) {
+        await clearOfflineData(userId, { includeQueue: false }).catch((error) => {
+          console.error('Error clearing offline data:', error);
+        });
+      }
+
       // Clear local storage
       localStorage.removeItem('user');
 
@@ -674,23 +700,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const updateUserRole = async (userId: string, role: UserRole): Promise<void> => {
     try {
       if (!user) throw new Error('Not authenticated');
-      if (user.uid === userId) throw new Error('Cannot change your own role');
-
-      const userRef = ref(db, `users/${userId}`);
-      const snapshot = await get(userRef);
-
-      if (!snapshot.exists()) {
-        throw new Error('User not found');
-      }
-
-      const userData = snapshot.val();
-
-      // Only root_admin can change roles to/from root_admin
-      if (user.role !== 'root_admin' && (role === 'root_admin' || userData.role === 'root_admin')) {
-        throw new Error('Insufficient permissions');
-      }
 
-      await update(userRef, { role });
+      await users.setRole({ uid: user.uid, role: user.role || 'user' }, userId, role);
       toast.success('User role updated successfully');
     } catch (error: any) {
       console.error('Error updating user role:', error);
@@ -706,115 +717,35 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       const currentUser = auth.currentUser;
       if (!currentUser) throw new Error('Not authenticated');
 
-      // Check if current user is root_admin
-      const currentUserRef = ref(db, `users/${currentUser.uid}`);
-      const currentUserSnapshot = await get(currentUserRef);
-
-      if (!currentUserSnapshot.exists()) {
-        throw new Error('Your account data was not found');
-      }
-
-      const currentUserData = currentUserSnapshot.val();
-      const currentUserRole = currentUserData?.role;
-
-      if (currentUserRole !== 'root_admin') {
-        throw new Error('Only root admin can delete users');
-      }
-
-      // Check if user exists
-      const userRef = ref(db, `users/${userId}`);
-      const userSnapshot = await get(userRef);
-
-      if (!userSnapshot.exists()) {
-        throw new Error('User not found');
-      }
-
-      const userData = userSnapshot.val();
-
-      // Don't allow deleting other root_admins or self
-      if (userData.role === 'root_admin') {
-        throw new Error('Cannot delete another root admin');
-      }
-
-      if (userId === currentUser.uid) {
-        throw new Error('Cannot delete your own account');
-      }
-
-      // 1. Get all folders owned by the user
-      const userFoldersRef = ref(db, `users/${userId}/folders`);
-      const userFoldersSnapshot = await get(userFoldersRef);
-      const folderIds = userFoldersSnapshot.exists()
-        ? (Array.isArray(userFoldersSnapshot.val())
-          ? [...userFoldersSnapshot.val()]
-          : Object.keys(userFoldersSnapshot.val() || {}))
-        : [];
-
-      // 2. For each folder, get its notes and delete them
-      const folderPromises = folderIds.map(async (folderId: string) => {
-        const folderRef = ref(db, `folders/${folderId}`);
-        const folderSnapshot = await get(folderRef);
-
-        if (folderSnapshot.exists()) {
-          const folderData = folderSnapshot.val();
-          // Delete all notes in this folder
-          if (folderData.noteIds && Array.isArray(folderData.noteIds)) {
-            const noteDeletions = folderData.noteIds.map((noteId: string) =>
-              remove(ref(db, `notes/${noteId}`))
-            );
-            await Promise.all(noteDeletions);
-          }
-          // Delete the folder
-          await remove(folderRef);
-        }
+      // Only root admins, and never themselves or another root admin
+      const role = await users.getRole(currentUser.uid);
+      await users.checkCanDelete({ uid: currentUser.uid, role }, userId);
+
+      // The API route removes folders, notes, the user node and the Auth record
+      const idToken = await currentUser.getIdToken();
+      const response = await fetch('/api/delete-user', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`
+        },
+        body: JSON.stringify({ userId })
       });
 
-      // 3. Delete all user's folders and their data
-      await Promise.all(folderPromises);
-
-      // 4. Delete any remaining standalone notes
-      const userNotesRef = query(
-        ref(db, 'notes'),
-        orderByChild('userId'),
-        equalTo(userId)
-      );
+      const responseData = await response.json().catch(() => ({}));
 
-      const notesSnapshot = await get(userNotesRef);
-      if (notesSnapshot.exists()) {
-        const noteDeletions = Object.keys(notesSnapshot.val()).map(noteId =>
-          remove(ref(db, `notes/${noteId}`))
-        );
-        await Promise.all(noteDeletions);
+      if (!response.ok) {
+        console.error('API Error Response:', responseData);
+        throw new Error(responseData.error || 'Failed to delete user');
       }
 
-      // 5. Finally, delete the user's data
-      await remove(userRef);
-
-      try {
-        // 3. Finally, delete from Firebase Auth
-        const idToken = await currentUser.getIdToken();
-        const response = await fetch('/api/delete-user', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${idToken}`
-          },
-          body: JSON.stringify({ userId })
-        });
-
-        const responseData = await response.json().catch(() => ({}));
-
-        if (!response.ok) {
-          console.error('API Error Response:', responseData);
-          throw new Error(responseData.error || 'Failed to delete user from authentication service');
-        }
-
-        // User deletion successful
-        toast.success('User and all associated notes deleted successfully', { id: toastId });
-      } catch (error) {
-        console.error('Error deleting user from Auth:', error);
-        // We still consider this a success since we've cleaned up the user's data and notes
-        toast.success('User data and notes deleted, but there was an issue with the authentication service', { id: toastId });
-      }
+      const report: DeleteUserReport | undefined = responseData.report;
+      const noteCount = report?.noteIds.length ?? 0;
+      const folderCount = report?.folderIds.length ?? 0;
+      toast.success(
+        `User deleted along with ${noteCount} note(s) in ${folderCount} folder(s)`,
+        { id: toastId }
+      );
 
     } catch (error: unknown) {
       console.error('Error deleting user:', error);
@@ -830,35 +761,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       const currentUser = auth.currentUser;
       if (!currentUser) throw new Error('Not authenticated');
 
-      // Get current user's role from the database
-      const currentUserRef = ref(db, `users/${currentUser.uid}`);
-      const currentUserSnapshot = await get(currentUserRef);
-
-      if (!currentUserSnapshot.exists()) {
-        throw new Error('User data not found');
-      }
-
-      const currentUserData = currentUserSnapshot.val();
-      const currentUserRole = currentUserData?.role || 'user';
-
-      if (currentUserRole !== 'admin' && currentUserRole !== 'root_admin') {
-        throw new Error('Insufficient permissions');
-      }
-
-      // Get all users
-      const usersRef = ref(db, 'users');
-      const snapshot = await get(usersRef);
-
-      if (!snapshot.exists()) {
-        return [];
-      }
-
-      const users = snapshot.val();
-      return Object.entries(users).map(([uid, userData]) => ({
-        uid,
-        ...(userData as object),
-        lastLogin: (userData as any)?.lastLogin || null,
-        previousLogin: (userData as any)?.previousLogin || null
+      // The role is read from the database rather than trusted from local state
+      const role = await users.getRole(currentUser.uid);
+      const allUsers = await users.list({ uid: currentUser.uid, role });
+      return allUsers.map((userData) => ({
+        ...userData,
+        lastLogin: userData.lastLogin || null,
+        previousLogin: userData.previousLogin || null
       }));
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -940,7 +849,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       const notes = userData.notes || [];
 
       // Get all folders for the user
-      const foldersRef = ref(db, 'folders');
+      const foldersRef = query(ref(db, 'folders'), orderByChild('userId'), equalTo(userId));
       const foldersSnapshot = await get(foldersRef);
       const userFolders: Record<string, any> = {};
 
@@ -956,24 +865,46 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       // Prepare updates for batch operation
       const updates: Record<string, any> = {};
 
-      // 1. Delete all user's folders and their notes
+      // 1. Delete all user's folders
       Object.keys(userFolders).forEach(folderId => {
-        // Delete the folder
         updates[`folders/${folderId}`] = null;
+      });
 
-        // Delete all notes in this folder
-        const folderNotes = userFolders[folderId].noteIds || [];
-        folderNotes.forEach((noteId: string) => {
-          updates[`notes/${noteId}`] = null;
-        });
+      // 2. Delete all user's notes, including those in the trash
+      const userNotesSnapshot = await get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(userId)));
+      const notesWithAttachments: string[] = [];
+      userNotesSnapshot.forEach((note) => {
+        updates[`notes/${note.key}`] = null;
+        updates[`noteRevisions/${note.key}`] = null;
+        if (note.val().attachments) {
+          notesWithAttachments.push(note.key as string);
+        }
+      });
+
+      // 3. Leave folders other users shared with us
+      Object.keys(userData.sharedFolders || {}).forEach((folderId) => {
+        updates[`folders/${folderId}/members/${userId}`] = null;
       });
 
-      // 2. Delete user data
+      // 4. Delete user data, unsaved drafts and share links
       updates[`users/${userId}`] = null;
+      updates[`drafts/${userId}`] = null;
+      const userSharesSnapshot = await get(query(ref(db, 'shares'), orderByChild('userId'), equalTo(userId)));
+      userSharesSnapshot.forEach((share) => {
+        updates[`shares/${share.key}`] = null;
+      });
 
       // Perform all deletions in a single transaction
       await update(ref(db), updates);
 
+      // Remove attachment files while we're still signed in to the account that owns them
+      await deleteAttachmentFiles(getStorage(), userId, notesWithAttachments);
+
+      // Nothing that was cached or queued on this device should outlive the account
+      await clearOfflineData(userId).catch((error) => {
+        console.error('Error clearing offline data:', error);
+      });
+
       // Finally, delete the auth account
       await deleteAuthUser(currentUser);
 
@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import { ref, get, query, orderByChild, equalTo, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { normalizeTags } from '@/lib/tags';
+import { MAX_FOLDER_NAME_LENGTH, MAX_NOTE_TITLE_LENGTH } from '@/lib/limits';
+import { BackupFolder, NotesBackup, createAccountBackup, parseNotesBackup } from '@/lib/notes-backup';
+import { createRepositories } from '@/lib/repositories';
+import { createFirebaseBackend } from '@/lib/firebase-backend';
+import type { CreatedFolders, FolderRecordWithId } from '@/lib/folders-repository';
+import type { BulkNoteChange, NoteRecordWithId } from '@/lib/notes-repository';
+import type { FolderRecord, NoteRecord } from '@/lib/schema';
+
+// Notes written per multi-path update, so a large restore doesn't become one huge write
+const NOTES_PER_BATCH = 100;
+
+// Where notes whose folder isn't in the backup go, as when restoring from the trash
+const RESTORED_FOLDER_NAME = 'Restored Notes';
+
+// Same cap as the inbox in AuthContext
+const MAX_MESSAGES = 100;
+
+// 'merge' adds the backup to what's there; 'replace' deletes the account's folders,
+// notes, share links and drafts once the backup is written. Notes with attachments
+// are moved to the trash instead, since a backup has no files. The profile itself is
+// never overwritten.
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  foldersCreated: number;
+  notesCreated: number;
+  messagesRestored: number;
+}
+
+export interface RestoreProgress {
+  done: number;
+  total: number;
+}
+
+interface UseAccountBackupReturn {
+  isDownloading: boolean;
+  progress: RestoreProgress | null; // Set while a restore is being written
+  downloadBackup: () => Promise<void>;
+  readBackup: (file: File) => Promise<NotesBackup>;
+  restoreBackup: (backup: NotesBackup, mode: RestoreMode) => Promise<RestoreResult>;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Parents before children; a parent that's missing or part of a cycle is dropped
+const sortFoldersByDepth = (folders: BackupFolder[]) => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const sorted: Array<BackupFolder & { parentId: string | null }> = [];
+  const added = new Set<string>();
+
+  const add = (folder: BackupFolder, seen: Set<string>) => {
+    if (added.has(folder.id) || seen.has(folder.id)) return;
+    seen.add(folder.id);
+
+    const parent = folder.parentId ? byId.get(folder.parentId) : undefined;
+    if (parent) add(parent, seen);
+
+    added.add(folder.id);
+    sorted.push({ ...folder, parentId: parent && added.has(parent.id) && parent.id !== folder.id ? parent.id : null });
+  };
+  folders.forEach(folder => add(folder, new Set()));
+
+  return sorted;
+};
+
+// Downloads the whole account as a versioned JSON backup and restores one. Every
+// folder and note gets a new push ID on restore; the backup's IDs are only used to
+// put notes back into their folders and folders back under their parents.
+export const useAccountBackup = (): UseAccountBackupReturn => {
+  const { user } = useAuth();
+  const db = useMemo(() => getDatabase(), []);
+  const repositories = useMemo(() => createRepositories(createFirebaseBackend(db)), [db]);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+
+  const fetchAccount = useCallback(async (userId: string) => {
+    const [userSnapshot, foldersSnapshot, notesSnapshot] = await Promise.all([
+      get(ref(db, `users/${userId}`)),
+      get(query(ref(db, 'folders'), orderByChild('userId'), equalTo(userId))),
+      get(query(ref(db, 'notes'), orderByChild('userId'), equalTo(userId)))
+    ]);
+    return {
+      user: userSnapshot.val(),
+      folders: foldersSnapshot.val(),
+      notes: notesSnapshot.val()
+    };
+  }, [db]);
+
+  const downloadBackup = useCallback(async () => {
+    if (!user) throw new Error('User not authenticated');
+
+    setIsDownloading(true);
+    try {
+      const backup = createAccountBackup(await fetchAccount(user.uid));
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(
+        new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+        `notes-backup-${date}.json`
+      );
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [user, fetchAccount]);
+
+  const readBackup = useCallback(async (file: File) => {
+    // Throws a SyntaxError or BackupFormatError naming the problem
+    return parseNotesBackup(JSON.parse(await file.text()));
+  }, []);
+
+  const restoreBackup = useCallback(async (backup: NotesBackup, mode: RestoreMode): Promise<RestoreResult> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const { notes, folders, users } = repositories;
+    const userId = user.uid;
+    const now = Date.now();
+    setProgress({ done: 0, total: backup.notes.length });
+
+    try {
+      const current = await fetchAccount(userId);
+      const currentFolders = Object.entries((current.folders || {}) as Record<string, FolderRecord>);
+      const currentNotes = Object.entries((current.notes || {}) as Record<string, NoteRecord>);
+
+      // 1. Build every record before anything is written. `parseNotesBackup` already
+      //    rejected what the database would, and names, titles and tags are cut to size.
+      //    Each backup folder maps to a new folder, or in merge mode to an existing
+      //    folder outside the trash with the same name and parent.
+      const knownFolders = mode === 'merge'
+        ? currentFolders
+          .filter(([, folder]) => !folder.deletedAt)
+          .map(([id, folder]) => ({ id, name: folder.name || '', parentId: folder.parentId || null }))
+        : [];
+      const folderIdMap = new Map<string, string>();
+      const newFolders: FolderRecordWithId[] = [];
+
+      const resolveFolder = (folder: Omit<BackupFolder, 'id'>) => {
+        const parentId = folder.parentId ? folderIdMap.get(folder.parentId) || null : null;
+        const existing = !folder.deletedAt && knownFolders.find(
+          known => known.parentId === parentId && sameName(known.name, folder.name)
+        );
+        if (existing) return existing.id;
+
+        const folderId = folders.newId();
+        newFolders.push({
+          id: folderId,
+          name: folder.name.trim().slice(0, MAX_FOLDER_NAME_LENGTH) || 'Untitled folder',
+          userId,
+          createdAt: folder.createdAt,
+          updatedAt: folder.updatedAt,
+          noteCount: 0,
+          ...(parentId ? { parentId } : {}),
+          ...(folder.deletedAt ? { deletedAt: folder.deletedAt } : {})
+        });
+        if (!folder.deletedAt) {
+          knownFolders.push({ id: folderId, name: folder.name, parentId });
+        }
+        return folderId;
+      };
+
+      sortFoldersByDepth(backup.folders).forEach(folder => {
+        folderIdMap.set(folder.id, resolveFolder(folder));
+      });
+
+      // Notes outside the trash always belong to a folder
+      const looseFolderId = backup.notes.some(note => !note.deletedAt && !(note.folderId && folderIdMap.has(note.folderId)))
+        ? resolveFolder({ name: RESTORED_FOLDER_NAME, parentId: null, createdAt: now, updatedAt: now })
+        : null;
+
+      const newNotes = backup.notes.map((note): NoteRecordWithId => {
+        const folderId = (note.folderId && folderIdMap.get(note.folderId)) || (note.deletedAt ? null : looseFolderId);
+        const tags = normalizeTags(note.tags);
+
+        return {
+          id: notes.newId(),
+          title: note.title.trim().slice(0, MAX_NOTE_TITLE_LENGTH) || 'Untitled Note',
+          content: note.content,
+          createdAt: note.createdAt,
+          updatedAt: note.updatedAt,
+          userId,
+          contentLength: note.content.length,
+          ...(folderId ? { folderId } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(note.deletedAt ? { deletedAt: note.deletedAt } : {}),
+          ...(note.deletedAt && note.deletedFolderName ? { deletedFolderName: note.deletedFolderName.slice(0, MAX_FOLDER_NAME_LENGTH) } : {})
+        };
+      });
+
+      // Messages: merge mode keeps the inbox and adds messages it doesn't have yet
+      const previousMessages = Array.isArray(current.user?.messages) ? current.user.messages : [];
+      const currentMessages = mode === 'merge' ? previousMessages : [];
+      const knownMessageIds = new Set(currentMessages.map((message: { id: string }) => message.id));
+      const restoredMessages = backup.messages.filter(message => !knownMessageIds.has(message.id));
+      const messages = [...currentMessages, ...restoredMessages]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, MAX_MESSAGES);
+
+      // 2. Write the backup next to what's there, and only then remove what it replaces.
+      //    If a write is rejected, whatever was written is taken out again, so the
+      //    account is left as it was.
+      let createdFolders: CreatedFolders | null = null;
+      const noteChanges: BulkNoteChange[] = [];
+      let messagesWritten = false;
+      try {
+        createdFolders = await folders.createMany(userId, newFolders);
+
+        // Notes in batches, each with its first revision and folder counts
+        for (let start = 0; start < newNotes.length; start += NOTES_PER_BATCH) {
+          noteChanges.push(await notes.createMany(userId, newNotes.slice(start, start + NOTES_PER_BATCH), now));
+          setProgress({ done: Math.min(start + NOTES_PER_BATCH, newNotes.length), total: newNotes.length });
+        }
+
+        await users.setMessages(userId, messages);
+        messagesWritten = true;
+
+        // In replace mode, remove everything the backup takes the place of
+        if (mode === 'replace') {
+          await notes.removeReplaced(userId, {
+            noteIds: currentNotes.map(([noteId]) => noteId),
+            folderIds: currentFolders.map(([folderId]) => folderId)
+          }, now);
+        }
+      } catch (error) {
+        // Notes first, so their folders' counters go back down before new folders are removed
+        try {
+          if (messagesWritten) await users.setMessages(userId, previousMessages);
+          for (const change of noteChanges) await notes.undoBulkChange(change);
+          if (createdFolders) await folders.removeCreated(createdFolders);
+        } catch (rollbackError) {
+          console.error('Error removing a partly restored backup:', rollbackError);
+        }
+        throw error;
+      }
+
+      return {
+        foldersCreated: newFolders.length,
+        notesCreated: backup.notes.length,
+        messagesRestored: restoredMessages.length
+      };
+    } finally {
+      setProgress(null);
+    }
+  }, [user, repositories, fetchAccount]);
+
+  return {
+    isDownloading,
+    progress,
+    downloadBackup,
+    readBackup,
+    restoreBackup
+  };
+};
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ref, onValue, getDatabase } from 'firebase/database';
+import { useAuth } from '@/context/AuthContext';
+import { getQueuedWrites, subscribeToQueue } from '@/lib/offline-store';
+
+// The database reports "disconnected" briefly while it connects, so only show
+// the app as offline once that has lasted a moment
+const OFFLINE_GRACE_MS = 2000;
+
+export interface ConnectionStatus {
+  isOnline: boolean;
+  pendingCount: number; // Changes made offline that haven't been written yet
+}
+
+export function useConnectionStatus(): ConnectionStatus {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => {
+    let offlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = onValue(ref(getDatabase(), '.info/connected'), (snapshot) => {
+      if (offlineTimer) clearTimeout(offlineTimer);
+
+      if (snapshot.val() === true) {
+        setIsOnline(true);
+      } else {
+        offlineTimer = setTimeout(() => setIsOnline(false), OFFLINE_GRACE_MS);
+      }
+    });
+
+    return () => {
+      if (offlineTimer) clearTimeout(offlineTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setPendingCount(0);
+      return;
+    }
+
+    let isMounted = true;
+    const loadCount = () => {
+      getQueuedWrites(user.uid)
+        .then((writes) => {
+          if (isMounted) setPendingCount(writes.length);
+        })
+        .catch((error) => {
+          console.error('Error reading offline changes:', error);
+        });
+    };
+
+    loadCount();
+    const unsubscribe = subscribeToQueue(loadCount);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [user]);
+
+  return { isOnline, pendingCount };
+}
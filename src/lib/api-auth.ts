@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { adminAuth, adminRepositories } from '@/lib/firebase-admin';
+import type { UserRole } from '@/lib/schema';
+
+export interface ApiCaller {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+}
+
+interface WithAuthOptions {
+  // Roles allowed to call the route; any signed-in user when omitted
+  roles?: UserRole[];
+}
+
+type RouteContext<P extends object> = { params: Promise<P> };
+
+type AuthenticatedHandler<P extends object> = (
+  request: Request,
+  caller: ApiCaller,
+  context: RouteContext<P>
+) => Promise<Response>;
+
+// Error carrying the HTTP status and code returned to the client
+export class ApiAuthError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = 'ApiAuthError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const apiErrorResponse = (error: ApiAuthError) =>
+  NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+
+// Resolve the caller from the `Authorization: Bearer <idToken>` header
+export const verifyCaller = async (request: Request): Promise<ApiCaller> => {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    throw new ApiAuthError('Missing or malformed Authorization header', 401, 'auth/missing-token');
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await adminAuth.verifyIdToken(match[1].trim(), true);
+  } catch {
+    throw new ApiAuthError('Invalid or expired ID token', 401, 'auth/invalid-token');
+  }
+
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email || null,
+    role: await adminRepositories.users.getRole(decodedToken.uid)
+  };
+};
+
+// Wrap a route handler so it only runs for verified callers with an allowed role
+export const withAuth = <P extends object = object>(
+  handler: AuthenticatedHandler<P>,
+  { roles }: WithAuthOptions = {}
+) => {
+  return async (request: Request, context: RouteContext<P>): Promise<Response> => {
+    try {
+      const caller = await verifyCaller(request);
+
+      if (roles && !roles.includes(caller.role)) {
+        throw new ApiAuthError('Insufficient permissions', 403, 'auth/insufficient-role');
+      }
+
+      return await handler(request, caller, context);
+    } catch (error) {
+      if (error instanceof ApiAuthError) {
+        return apiErrorResponse(error);
+      }
+      throw error;
+    }
+  };
+};
+
+// Check the `Authorization: Bearer <CRON_SECRET>` header sent by the scheduler
+export const verifyCronRequest = (request: Request): void => {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+
+  if (!secret) {
+    throw new ApiAuthError('CRON_SECRET is not configured', 500, 'cron/not-configured');
+  }
+
+  if (header !== `Bearer ${secret}`) {
+    throw new ApiAuthError('Invalid cron secret', 401, 'cron/invalid-secret');
+  }
+};
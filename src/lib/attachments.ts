@@ -0,0 +1,105 @@
+// Files attached to notes. The file itself lives in Firebase Storage under the
+// note owner's prefix and the metadata is kept on the note at `notes/{id}/attachments`,
+// so attachments count against the owner's storage quota. Files are uploaded through
+// `/api/notes/{id}/attachments`, which keeps track of each user's usage.
+
+import type { AttachmentRecord } from './schema';
+
+// Stored at `notes/{id}/attachments/{attachmentId}`; `size` is in bytes
+export type NoteAttachment = AttachmentRecord;
+
+export interface NoteAttachmentWithId extends NoteAttachment {
+  id: string;
+}
+
+// Largest single file, and the total a user's attachments may take up; both enforced by the upload API
+export const MAX_ATTACHMENT_SIZE = (Number(process.env.NEXT_PUBLIC_MAX_ATTACHMENT_SIZE_MB) || 10) * 1024 * 1024;
+export const ATTACHMENT_QUOTA = (Number(process.env.NEXT_PUBLIC_ATTACHMENT_QUOTA_MB) || 100) * 1024 * 1024;
+
+// Stored at `attachmentUploads/{uid}/{attachmentId}`, written only by the server: every
+// file stored for the user, counted against their quota until the server releases it
+export interface AttachmentUploadEntry {
+  noteId: string;
+  storagePath: string;
+  size: number;
+  startedAt: number;
+  completedAt?: number; // Set once the file is stored and attached to its note
+}
+
+// Uploads that haven't finished by then are taken to have failed
+export const ATTACHMENT_UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface AttachmentUsage {
+  used: number;
+  entries: Record<string, AttachmentUploadEntry>; // Entries still counted
+  released: AttachmentUploadEntry[]; // Entries no longer counted, whose files can be deleted
+}
+
+// Bytes a user's attachments take up. `attached` maps the IDs of the attachments found
+// on the user's notes when they were read at `readAt` to their sizes. Uploads that
+// finished before then but whose attachment is gone, and uploads that never finished,
+// are released. Attachments from before uploads were recorded count with their own size.
+export const getAttachmentUsage = (
+  uploads: Record<string, AttachmentUploadEntry> | null,
+  attached: Record<string, number>,
+  readAt: number,
+  now: number = Date.now()
+): AttachmentUsage => {
+  const entries: Record<string, AttachmentUploadEntry> = {};
+  const released: AttachmentUploadEntry[] = [];
+
+  Object.entries(uploads || {}).forEach(([attachmentId, entry]) => {
+    const isCounted = entry.completedAt
+      ? attachmentId in attached || entry.completedAt >= readAt
+      : now - entry.startedAt < ATTACHMENT_UPLOAD_TIMEOUT_MS;
+    if (isCounted) {
+      entries[attachmentId] = entry;
+    } else {
+      released.push(entry);
+    }
+  });
+
+  const used = Object.values(entries).reduce((total, entry) => total + entry.size, 0) +
+    Object.entries(attached)
+      .filter(([attachmentId]) => !(attachmentId in entries))
+      .reduce((total, [, size]) => total + size, 0);
+
+  return { used, entries, released };
+};
+
+// Every attachment of a note shares this Storage prefix, so they can be removed together
+export const getAttachmentPrefix = (userId: string, noteId: string) =>
+  `attachments/${userId}/${noteId}/`;
+
+export const getAttachmentPath = (userId: string, noteId: string, attachmentId: string, fileName: string) =>
+  `${getAttachmentPrefix(userId, noteId)}${attachmentId}-${fileName.replace(/[/\\#?[\]*]/g, '_')}`;
+
+export const isImageAttachment = (attachment: Pick<NoteAttachment, 'contentType'>) =>
+  attachment.contentType.startsWith('image/');
+
+export const getNoteAttachments = (note: { attachments?: Record<string, NoteAttachment> }): NoteAttachmentWithId[] =>
+  Object.entries(note.attachments || {})
+    .map(([id, attachment]) => ({ ...attachment, id }))
+    .sort((a, b) => a.uploadedAt - b.uploadedAt);
+
+export const getAttachmentsSize = (note: { attachments?: Record<string, Partial<NoteAttachment>> }) =>
+  Object.values(note.attachments || {}).reduce((total, attachment) => total + (Number(attachment.size) || 0), 0);
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  );
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+// Markdown that embeds an image attachment or links to any other file
+export const getAttachmentMarkdown = (attachment: NoteAttachment) => {
+  const label = attachment.name.replace(/[[\]]/g, '');
+  return isImageAttachment(attachment)
+    ? `![${label}](${attachment.url})`
+    : `[${label}](${attachment.url})`;
+};
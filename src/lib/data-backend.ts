@@ -0,0 +1,132 @@
+// The storage the repositories (`./notes-repository`, `./folders-repository`,
+// `./users-repository`) work through: a tree of values addressed by slash-separated
+// paths, written with multi-path updates like the Realtime Database.
+// `./firebase-backend` and `./firebase-admin-backend` connect it to the client and
+// admin SDKs; `createMemoryBackend` keeps everything in memory.
+
+export type DataUpdates = Record<string, unknown>;
+
+export interface DataBackend {
+  get<T>(path: string): Promise<T | null>;
+  // Whether `path` holds anything, reading at most one child
+  hasChildren(path: string): Promise<boolean>;
+  // Children of `path` whose `child` equals `value`, by key
+  queryByChild<T>(path: string, child: string, value: string): Promise<Record<string, T>>;
+  // Writes every path at once; `null` removes a value
+  update(updates: DataUpdates): Promise<void>;
+  // A new, chronologically ordered key for a child of `path`
+  newKey(path: string): string;
+  // Value for `update` that adds `delta` to the number stored at the path
+  increment(delta: number): unknown;
+  // Replace the value at `path` with `apply(current)` atomically, retrying if it changes
+  // in between; returning `undefined` aborts. `apply` may first be called with `null`
+  // before the stored value is known.
+  transaction<T>(path: string, apply: (current: T | null) => T | null | undefined): Promise<TransactionOutcome<T>>;
+}
+
+export interface TransactionOutcome<T> {
+  committed: boolean;
+  value: T | null; // Stored value afterwards
+}
+
+type Tree = Record<string, unknown>;
+
+interface Increment {
+  memoryIncrement: number;
+}
+
+const isIncrement = (value: unknown): value is Increment =>
+  typeof value === 'object' && value !== null && 'memoryIncrement' in value;
+
+const toSegments = (path: string) => path.split('/').filter(Boolean);
+
+// Stored copy of a value: nulls dropped and empty objects left out, as the database does
+const toStored = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object') return value;
+  if (Array.isArray(value)) {
+    const items = value.map(toStored).filter(item => item !== null);
+    return items.length > 0 ? items : null;
+  }
+
+  const entries = Object.entries(value as Tree)
+    .map(([key, child]) => [key, toStored(child)] as const)
+    .filter(([, child]) => child !== null);
+  return entries.length > 0 ? Object.fromEntries(entries) : null;
+};
+
+// Backend that keeps the data in memory, for tests and scripts. `data` is the whole tree.
+export const createMemoryBackend = (initialData: Tree = {}): DataBackend & { data: Tree } => {
+  const data = (toStored(initialData) as Tree | null) || {};
+  let keyCount = 0;
+
+  const read = (path: string): unknown =>
+    toSegments(path).reduce<unknown>(
+      (node, segment) => (node && typeof node === 'object' ? (node as Tree)[segment] ?? null : null),
+      data
+    );
+
+  const write = (path: string, value: unknown) => {
+    const segments = toSegments(path);
+    const parents: Tree[] = [data];
+    for (const segment of segments.slice(0, -1)) {
+      const parent = parents[parents.length - 1];
+      if (!parent[segment] || typeof parent[segment] !== 'object') {
+        parent[segment] = {};
+      }
+      parents.push(parent[segment] as Tree);
+    }
+
+    const last = segments[segments.length - 1];
+    const stored = toStored(value);
+    if (stored === null) {
+      delete parents[parents.length - 1][last];
+    } else {
+      parents[parents.length - 1][last] = stored;
+    }
+
+    // Remove parents left empty
+    for (let index = parents.length - 1; index > 0; index--) {
+      if (Object.keys(parents[index]).length > 0) break;
+      delete parents[index - 1][segments[index - 1]];
+    }
+  };
+
+  const copy = <T>(value: unknown): T | null =>
+    value === null ? null : structuredClone(value) as T;
+
+  return {
+    data,
+    get: async <T>(path: string) => copy<T>(read(path)),
+    hasChildren: async (path: string) => read(path) !== null,
+    queryByChild: async <T>(path: string, child: string, value: string) => {
+      const children = (read(path) as Record<string, Tree> | null) || {};
+      const matches: Record<string, T> = {};
+      Object.entries(children).forEach(([key, node]) => {
+        if (node[child] === value) {
+          matches[key] = structuredClone(node) as T;
+        }
+      });
+      return matches;
+    },
+    update: async (updates: DataUpdates) => {
+      Object.entries(updates).forEach(([path, value]) => {
+        if (isIncrement(value)) {
+          const current = read(path);
+          write(path, (typeof current === 'number' ? current : 0) + value.memoryIncrement);
+        } else {
+          write(path, value);
+        }
+      });
+    },
+    transaction: async <T>(path: string, apply: (current: T | null) => T | null | undefined) => {
+      const next = apply(copy<T>(read(path)));
+      if (next !== undefined) {
+        write(path, next);
+      }
+      return { committed: next !== undefined, value: copy<T>(read(path)) };
+    },
+    newKey: () => `-mem${String(++keyCount).padStart(8, '0')}`,
+    increment: (delta: number): Increment => ({ memoryIncrement: delta })
+  };
+};
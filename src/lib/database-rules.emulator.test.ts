@@ -0,0 +1,257 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { MAX_FOLDER_NAME_LENGTH, MAX_NOTE_CONTENT_LENGTH, MAX_NOTE_TITLE_LENGTH } from './limits';
+import { MAX_TAGS_PER_NOTE, MAX_TAG_LENGTH } from './tags';
+import {
+  TEST_USERS,
+  createRulesEnvironment,
+  databaseAs,
+  seedDatabase,
+  seedTestUsers
+} from '@/test/rules-environment';
+import { folderRecord, noteRecord } from '@/test/records';
+
+// Who may read and write profiles, notes and folders, run against the generated rules in the
+// Realtime Database emulator
+
+const { owner, other } = TEST_USERS;
+
+const folder = folderRecord({ id: 'folder-1', userId: owner.uid, noteCount: 1 });
+
+const note = noteRecord({ userId: owner.uid, folderId: 'folder-1' });
+
+const OTHERS = ['other', 'admin', 'rootAdmin'] as const;
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearDatabase();
+  await seedTestUsers(env);
+  await seedDatabase(env, {
+    'folders/folder-1': folder,
+    'notes/note-1': note
+  });
+});
+
+describe('users', () => {
+  const profile = (overrides: Record<string, unknown> = {}) => ({
+    email: 'new@example.com',
+    displayName: 'New',
+    createdAt: 1,
+    lastLogin: 1,
+    ...overrides
+  });
+
+  it('lets users change their own profile but not their role', async () => {
+    const db = databaseAs(env, 'owner');
+    await assertSucceeds(db.ref(`users/${owner.uid}`).update({ lastLogin: 2, messages: [] }));
+    await assertSucceeds(db.ref(`users/${owner.uid}`).update({ role: 'user', lastLogin: 3 }));
+
+    for (const role of ['admin', 'root_admin']) {
+      await assertFails(db.ref(`users/${owner.uid}/role`).set(role));
+      await assertFails(db.ref(`users/${owner.uid}`).update({ role }));
+      await assertFails(db.ref().update({ [`users/${owner.uid}/role`]: role }));
+      await assertFails(db.ref(`users/${owner.uid}`).set(profile({ role })));
+    }
+  });
+
+  it('keeps admins from making themselves root admins', async () => {
+    const db = databaseAs(env, 'admin');
+    await assertFails(db.ref(`users/${TEST_USERS.admin.uid}/role`).set('root_admin'));
+    await assertFails(db.ref(`users/${TEST_USERS.admin.uid}`).update({ role: 'root_admin' }));
+    await assertFails(db.ref(`users/${owner.uid}/role`).set('admin'));
+  });
+
+  it('lets root admins change other users\' roles, but never to root admin', async () => {
+    const db = databaseAs(env, 'rootAdmin');
+    await assertSucceeds(db.ref(`users/${owner.uid}/role`).set('admin'));
+    await assertSucceeds(db.ref(`users/${owner.uid}/role`).set('user'));
+    await assertFails(db.ref(`users/${owner.uid}/role`).set('root_admin'));
+    await assertFails(db.ref(`users/${owner.uid}`).set(profile({ role: 'user' })));
+  });
+
+  it('creates new profiles as regular users only', async () => {
+    await seedDatabase(env, { [`users/${other.uid}`]: null });
+    const db = databaseAs(env, 'other');
+    await assertFails(db.ref(`users/${other.uid}`).set(profile({ role: 'admin' })));
+    await assertFails(db.ref(`users/${other.uid}`).set(profile({ role: 'root_admin' })));
+    await assertSucceeds(db.ref(`users/${other.uid}`).set(profile({ role: 'user' })));
+  });
+
+  it('lets users delete their own profile only', async () => {
+    await assertFails(databaseAs(env, 'other').ref(`users/${owner.uid}`).remove());
+    await assertSucceeds(databaseAs(env, 'owner').ref(`users/${owner.uid}`).remove());
+  });
+});
+
+describe('folders', () => {
+  it('lets the owner read, change and delete their folder', async () => {
+    const db = databaseAs(env, 'owner');
+    await assertSucceeds(db.ref('folders/folder-1').once('value'));
+    await assertSucceeds(db.ref('folders').orderByChild('userId').equalTo(owner.uid).once('value'));
+    await assertSucceeds(db.ref('folders/folder-1/name').set('Projects'));
+    await assertSucceeds(db.ref('folders/folder-1').remove());
+  });
+
+  it('lets admins and root admins read folders but not change them', async () => {
+    for (const account of ['admin', 'rootAdmin'] as const) {
+      const db = databaseAs(env, account);
+      await assertSucceeds(db.ref('folders/folder-1').once('value'));
+      await assertSucceeds(db.ref('folders').once('value'));
+      await assertFails(db.ref('folders/folder-1/name').set('Mine now'));
+      await assertFails(db.ref('folders/folder-1').remove());
+    }
+  });
+
+  it('keeps other users out', async () => {
+    const db = databaseAs(env, 'other');
+    await assertFails(db.ref('folders/folder-1').once('value'));
+    await assertFails(db.ref('folders').orderByChild('userId').equalTo(owner.uid).once('value'));
+    await assertFails(db.ref('folders').once('value'));
+    await assertFails(db.ref('folders/folder-1/name').set('Mine now'));
+    await assertFails(db.ref('folders/folder-1').remove());
+  });
+
+  it('keeps signed-out visitors out', async () => {
+    const db = databaseAs(env, null);
+    await assertFails(db.ref('folders/folder-1').once('value'));
+    await assertFails(db.ref('folders/folder-2').set({ ...folder, id: 'folder-2' }));
+  });
+
+  it('only creates folders for the signed-in user', async () => {
+    await assertSucceeds(databaseAs(env, 'other').ref('folders/folder-2').set(
+      { ...folder, id: 'folder-2', userId: other.uid }
+    ));
+    await assertFails(databaseAs(env, 'other').ref('folders/folder-3').set({ ...folder, id: 'folder-3' }));
+    await assertFails(databaseAs(env, 'rootAdmin').ref('folders/folder-3').set({ ...folder, id: 'folder-3' }));
+  });
+
+  it('limits folder names to their maximum length', async () => {
+    const db = databaseAs(env, 'owner');
+    await assertSucceeds(db.ref('folders/folder-1/name').set('a'.repeat(MAX_FOLDER_NAME_LENGTH)));
+    await assertFails(db.ref('folders/folder-1/name').set('a'.repeat(MAX_FOLDER_NAME_LENGTH + 1)));
+    await assertFails(db.ref('folders/folder-1/name').set(''));
+  });
+
+  it('lets members read a shared folder, and editors keep its counter current', async () => {
+    await seedDatabase(env, {
+      'folders/folder-1/members': {
+        [other.uid]: { role: 'viewer', email: 'other@example.com', addedAt: 1 }
+      }
+    });
+    const db = databaseAs(env, 'other');
+    await assertSucceeds(db.ref('folders/folder-1').once('value'));
+    await assertFails(db.ref('folders/folder-1/noteCount').set(2));
+
+    await seedDatabase(env, { [`folders/folder-1/members/${other.uid}/role`]: 'editor' });
+    await assertSucceeds(db.ref('folders/folder-1/noteCount').set(2));
+    await assertFails(db.ref('folders/folder-1/name').set('Renamed by an editor'));
+
+    // Members can leave, but not remove anyone else
+    await assertFails(db.ref(`folders/folder-1/members/${TEST_USERS.admin.uid}`).remove());
+    await assertSucceeds(db.ref(`folders/folder-1/members/${other.uid}`).remove());
+  });
+});
+
+describe('notes', () => {
+  it('lets the owner read, change and delete their note', async () => {
+    const db = databaseAs(env, 'owner');
+    await assertSucceeds(db.ref('notes/note-1').once('value'));
+    await assertSucceeds(db.ref('notes').orderByChild('userId').equalTo(owner.uid).once('value'));
+    await assertSucceeds(db.ref('notes').orderByChild('folderId').equalTo('folder-1').once('value'));
+    await assertSucceeds(db.ref('notes/note-1/content').set('Shipped.'));
+    await assertSucceeds(db.ref('notes/note-2').set(note));
+    await assertSucceeds(db.ref('notes/note-1').remove());
+  });
+
+  it('lets admins and root admins read notes but not change them', async () => {
+    for (const account of ['admin', 'rootAdmin'] as const) {
+      const db = databaseAs(env, account);
+      await assertSucceeds(db.ref('notes/note-1').once('value'));
+      await assertSucceeds(db.ref('notes').once('value'));
+      await assertFails(db.ref('notes/note-1/content').set('Edited by an admin'));
+      await assertFails(db.ref('notes/note-1').remove());
+    }
+  });
+
+  it('keeps other users out', async () => {
+    const db = databaseAs(env, 'other');
+    await assertFails(db.ref('notes/note-1').once('value'));
+    await assertFails(db.ref('notes').orderByChild('userId').equalTo(owner.uid).once('value'));
+    await assertFails(db.ref('notes').orderByChild('folderId').equalTo('folder-1').once('value'));
+    await assertFails(db.ref('notes/note-1/content').set('Edited by someone else'));
+    await assertFails(db.ref('notes/note-1').remove());
+  });
+
+  it('keeps signed-out visitors out', async () => {
+    const db = databaseAs(env, null);
+    await assertFails(db.ref('notes/note-1').once('value'));
+    await assertFails(db.ref('notes/note-2').set(note));
+  });
+
+  it('never lets a note be written for someone else or change hands', async () => {
+    for (const account of OTHERS) {
+      await assertFails(databaseAs(env, account).ref('notes/note-2').set(note));
+    }
+    await assertFails(databaseAs(env, 'owner').ref('notes/note-1/userId').set(other.uid));
+  });
+
+  it('lets editors of a shared folder write its notes, which stay the owner\'s', async () => {
+    await seedDatabase(env, {
+      'folders/folder-1/members': {
+        [other.uid]: { role: 'viewer', email: 'other@example.com', addedAt: 1 }
+      }
+    });
+    const db = databaseAs(env, 'other');
+    await assertSucceeds(db.ref('notes/note-1').once('value'));
+    await assertFails(db.ref('notes/note-1/content').set('Edited by a viewer'));
+
+    await seedDatabase(env, { [`folders/folder-1/members/${other.uid}/role`]: 'editor' });
+    await assertSucceeds(db.ref('notes/note-1/content').set('Edited by an editor'));
+    await assertSucceeds(db.ref('notes/note-2').set(note));
+    await assertFails(db.ref('notes/note-3').set({ ...note, userId: other.uid }));
+  });
+
+  describe('size limits', () => {
+    it('limits titles', async () => {
+      const db = databaseAs(env, 'owner');
+      await assertSucceeds(db.ref('notes/note-1/title').set('a'.repeat(MAX_NOTE_TITLE_LENGTH)));
+      await assertFails(db.ref('notes/note-1/title').set('a'.repeat(MAX_NOTE_TITLE_LENGTH + 1)));
+      await assertFails(db.ref('notes/note-1/title').set(''));
+    });
+
+    it('limits content', async () => {
+      const db = databaseAs(env, 'owner');
+      await assertSucceeds(db.ref('notes/note-1/content').set('a'.repeat(MAX_NOTE_CONTENT_LENGTH)));
+      await assertFails(db.ref('notes/note-1/content').set('a'.repeat(MAX_NOTE_CONTENT_LENGTH + 1)));
+    });
+
+    it('limits tags', async () => {
+      const db = databaseAs(env, 'owner');
+      const tags = Array.from({ length: MAX_TAGS_PER_NOTE }, (_, index) => `tag-${index}`);
+      await assertSucceeds(db.ref('notes/note-1/tags').set(tags));
+      await assertFails(db.ref('notes/note-1/tags').set([...tags, 'one-too-many']));
+      await assertSucceeds(db.ref('notes/note-1/tags').set(['a'.repeat(MAX_TAG_LENGTH)]));
+      await assertFails(db.ref('notes/note-1/tags').set(['a'.repeat(MAX_TAG_LENGTH + 1)]));
+    });
+
+    it('checks the limits for editors of shared folders too', async () => {
+      await seedDatabase(env, {
+        'folders/folder-1/members': {
+          [other.uid]: { role: 'editor', email: 'other@example.com', addedAt: 1 }
+        }
+      });
+      const db = databaseAs(env, 'other');
+      await assertFails(db.ref('notes/note-1/content').set('a'.repeat(MAX_NOTE_CONTENT_LENGTH + 1)));
+      await assertFails(db.ref('notes/note-1/title').set('a'.repeat(MAX_NOTE_TITLE_LENGTH + 1)));
+    });
+  });
+});
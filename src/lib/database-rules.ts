@@ -0,0 +1,252 @@
+// Realtime Database security rules, generated into `database.rules.json` by
+// `npm run rules:build` (`npm run rules:check` fails when the file is out of date).
+// Who may read and write each path is declared here; what may be written comes
+// from the record schemas in `./schema`, which the app's types share.
+
+import {
+  Field,
+  draftSchema,
+  folderSchema,
+  noteSchema,
+  presenceSchema,
+  revisionSchema,
+  userSchema
+} from './schema';
+
+export interface RulesNode {
+  [key: string]: string | boolean | string[] | RulesNode;
+}
+
+const all = (...conditions: string[]) => conditions.join(' && ');
+
+const any = (...conditions: string[]) => conditions.join(' || ');
+
+// `.validate` rules for a schema field and everything under it
+export const validationRules = (definition: Field): RulesNode => {
+  const withExtra = (conditions: string[]) =>
+    all(...conditions, ...(definition.validate ? [definition.validate] : []));
+
+  switch (definition.kind) {
+    case 'string': {
+      const conditions = ['newData.isString()'];
+      if (definition.minLength) {
+        conditions.push(definition.minLength === 1
+          ? 'newData.val().length > 0'
+          : `newData.val().length >= ${definition.minLength}`);
+      }
+      if (definition.maxLength !== undefined) {
+        conditions.push(`newData.val().length <= ${definition.maxLength}`);
+      }
+      return { '.validate': withExtra(conditions) };
+    }
+    case 'enum':
+      return { '.validate': withExtra([any(...definition.values.map((value) => `newData.val() === '${value}'`))]) };
+    case 'number': {
+      const conditions = ['newData.isNumber()'];
+      if (definition.min !== undefined) {
+        conditions.push(`newData.val() >= ${definition.min}`);
+      }
+      return { '.validate': withExtra(conditions) };
+    }
+    case 'list': {
+      const conditions = ['newData.hasChildren()'];
+      if (definition.maxItems !== undefined) {
+        conditions.push(`newData.numChildren() <= ${definition.maxItems}`);
+      }
+      return { '.validate': withExtra(conditions), $index: validationRules(definition.item) };
+    }
+    case 'map':
+      return { '.validate': withExtra(['newData.hasChildren()']), [definition.key]: validationRules(definition.item) };
+    case 'record': {
+      const required = Object.entries(definition.fields)
+        .filter(([, child]) => !child.optional)
+        .map(([name]) => `'${name}'`);
+      const conditions = required.length > 0 ? [`newData.hasChildren([${required.join(', ')}])`] : [];
+      const node: RulesNode = {};
+      if (conditions.length > 0 || definition.validate) {
+        node['.validate'] = withExtra(conditions);
+      }
+      Object.entries(definition.fields).forEach(([name, child]) => {
+        node[name] = validationRules(child);
+      });
+      if (!definition.open) {
+        node.$other = { '.validate': false };
+      }
+      return node;
+    }
+  }
+};
+
+// Combine access rules with validation rules for the same path. A path with both
+// has to pass both `.validate` conditions.
+export const mergeRules = (access: RulesNode, validation: RulesNode): RulesNode => {
+  const merged: RulesNode = { ...access };
+  Object.entries(validation).forEach(([key, value]) => {
+    const existing = merged[key];
+    if (existing === undefined) {
+      merged[key] = value;
+    } else if (key === '.validate' && typeof existing === 'string' && typeof value === 'string') {
+      merged[key] = all(value, existing);
+    } else if (isRulesNode(existing) && isRulesNode(value)) {
+      merged[key] = mergeRules(existing, value);
+    } else {
+      throw new Error(`Conflicting database rules for "${key}"`);
+    }
+  });
+  return merged;
+};
+
+const isRulesNode = (value: RulesNode[string]): value is RulesNode =>
+  typeof value === 'object' && !Array.isArray(value);
+
+const signedIn = (condition: string) => all('auth != null', condition);
+
+const userRole = "root.child('users').child(auth.uid).child('role').val()";
+const isRootAdmin = `${userRole} === 'root_admin'`;
+const isAdmin = any(`${userRole} === 'admin'`, isRootAdmin);
+
+const folderAt = (folderId: string) => `root.child('folders').child(${folderId})`;
+const isMemberOf = (folderId: string) => `${folderAt(folderId)}.child('members').child(auth.uid).exists()`;
+const isEditorOf = (folderId: string) => `${folderAt(folderId)}.child('members').child(auth.uid).child('role').val() === 'editor'`;
+
+// A note, as stored or as being written, whose owner or folder members may see it
+const canSeeNote = (note: string) => any(
+  `${note}.child('userId').val() === auth.uid`,
+  `(${all(`${note}.child('folderId').exists()`, isMemberOf(`${note}.child('folderId').val()`))})`
+);
+const canEditNote = (note: string) => any(
+  `${note}.child('userId').val() === auth.uid`,
+  `(${all(`${note}.child('folderId').exists()`, isEditorOf(`${note}.child('folderId').val()`))})`
+);
+
+const storedNote = "root.child('notes').child($noteId)";
+const writtenNote = "newData.parent().parent().child('notes').child($noteId)";
+
+export const buildDatabaseRules = (): { rules: RulesNode } => ({
+  rules: {
+    '.read': false,
+    '.write': false,
+    users: {
+      '.read': signedIn(`(${isAdmin})`),
+      $uid: mergeRules({
+        '.read': signedIn(`(${any('auth.uid === $uid', isAdmin)})`),
+        // The whole profile is written only when it is created at sign-up, and removed
+        // when the account is deleted. Neither may change the stored role, which new
+        // profiles start out with as 'user'; other fields have their own rules below.
+        '.write': signedIn(all('auth.uid === $uid', `(${any(
+          '!newData.exists()',
+          "newData.child('role').val() === data.child('role').val()",
+          `(${all("!data.child('role').exists()", "newData.child('role').val() === 'user'")})`
+        )})`)),
+        // Only root admins change roles, and never to root admin
+        role: {
+          '.write': signedIn(all(isRootAdmin, "(newData.val() === 'user' || newData.val() === 'admin')"))
+        },
+        // Owners take their folders off members' lists when deleting them for good
+        sharedFolders: {
+          $folderId: {
+            '.write': signedIn(all('!newData.exists()', `${folderAt('$folderId')}.child('userId').val() === auth.uid`))
+          }
+        },
+        $other: {
+          '.write': signedIn(`(${any('auth.uid === $uid', `(${all(isRootAdmin, "$other !== 'role'", 'auth.uid !== $uid')})`)})`)
+        }
+      }, validationRules(userSchema))
+    },
+    folders: {
+      '.read': signedIn(`(${any("(query.orderByChild === 'userId' && query.equalTo === auth.uid)", isAdmin)})`),
+      '.indexOn': ['userId', 'updatedAt', 'deletedAt'],
+      $folderId: mergeRules({
+        '.read': signedIn(`(${any(
+          "data.child('userId').val() === auth.uid",
+          "data.child('members').child(auth.uid).exists()",
+          isAdmin
+        )})`),
+        '.write': signedIn("(!data.exists() || data.child('userId').val() === auth.uid)"),
+        // Editors of a shared folder keep its counter and timestamp current as they change its notes
+        noteCount: {
+          '.write': signedIn(isEditorOf('$folderId'))
+        },
+        updatedAt: {
+          '.write': signedIn(isEditorOf('$folderId'))
+        },
+        // Members can leave a folder
+        members: {
+          $memberId: {
+            '.write': signedIn('auth.uid === $memberId && !newData.exists()')
+          }
+        }
+      }, validationRules(folderSchema))
+    },
+    notes: {
+      '.read': signedIn(`(${any(
+        isAdmin,
+        "(query.orderByChild === 'userId' && query.equalTo === auth.uid)",
+        `(${all(
+          "query.orderByChild === 'folderId'",
+          'query.equalTo != null',
+          `(${any(`${folderAt('query.equalTo')}.child('userId').val() === auth.uid`, isMemberOf('query.equalTo'))})`
+        )})`
+      )})`),
+      '.indexOn': ['userId', 'updatedAt', 'folderId', 'deletedAt'],
+      $noteId: mergeRules({
+        '.read': signedIn(`(${any(canSeeNote('data'), isAdmin)})`),
+        '.write': signedIn(`(${any('!data.exists()', canEditNote('data'))})`),
+        // Notes in a shared folder belong to the folder's owner, whoever writes them
+        '.validate': `(${any(
+          "newData.child('userId').val() === auth.uid",
+          `(${all(
+            "newData.child('folderId').exists()",
+            `${folderAt("newData.child('folderId').val()")}.child('userId').val() === newData.child('userId').val()`,
+            isEditorOf("newData.child('folderId').val()")
+          )})`
+        )})`
+      }, validationRules(noteSchema))
+    },
+    drafts: {
+      $uid: {
+        '.read': signedIn('auth.uid === $uid'),
+        '.write': signedIn('auth.uid === $uid'),
+        $draftId: validationRules(draftSchema)
+      }
+    },
+    presence: {
+      $noteId: {
+        '.read': signedIn(`(${canSeeNote(storedNote)})`),
+        $sessionId: mergeRules({
+          // A session is written by its own user, who must be able to see the note
+          '.write': signedIn(`(${any(
+            "data.child('userId').val() === auth.uid",
+            `(${all('!data.exists()', `(${any(
+              '!newData.exists()',
+              `(${all("newData.child('userId').val() === auth.uid", `(${canSeeNote(storedNote)})`)})`
+            )})`)})`
+          )})`)
+        }, validationRules(presenceSchema))
+      }
+    },
+    shares: {
+      '.read': signedIn("query.orderByChild === 'userId' && query.equalTo === auth.uid"),
+      '.indexOn': ['userId'],
+      // Links are created by the server; their owner can only revoke them
+      $token: {
+        '.read': signedIn("data.child('userId').val() === auth.uid"),
+        '.write': signedIn("data.child('userId').val() === auth.uid && !newData.exists()")
+      }
+    },
+    noteRevisions: {
+      $noteId: {
+        '.read': signedIn(`(${canSeeNote(storedNote)})`),
+        // Revisions are written alongside the note, so the note may not exist yet;
+        // they can be removed once the note is gone
+        '.write': signedIn(`(${any(
+          canEditNote(storedNote),
+          canEditNote(writtenNote),
+          `(${all('!newData.exists()', `!${storedNote}.exists()`)})`
+        )})`),
+        '.indexOn': ['createdAt'],
+        $revisionId: validationRules(revisionSchema)
+      }
+    }
+  }
+});
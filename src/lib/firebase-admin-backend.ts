@@ -0,0 +1,29 @@
+import { Database, ServerValue } from 'firebase-admin/database';
+import type { DataBackend } from './data-backend';
+
+// `DataBackend` on the admin SDK, for API routes and scripts. The admin SDK skips
+// the database rules, so the repositories' own checks are all that applies.
+export const createAdminBackend = (db: Database): DataBackend => ({
+  get: async <T>(path: string) => {
+    const snapshot = await db.ref(path).once('value');
+    return snapshot.exists() ? snapshot.val() as T : null;
+  },
+  hasChildren: async (path: string) => (await db.ref(path).limitToFirst(1).once('value')).exists(),
+  queryByChild: async <T>(path: string, child: string, value: string) => {
+    const snapshot = await db.ref(path).orderByChild(child).equalTo(value).once('value');
+    return (snapshot.val() || {}) as Record<string, T>;
+  },
+  update: (updates) => db.ref().update(updates),
+  transaction: async <T>(path: string, apply: (current: T | null) => T | null | undefined) => {
+    const { committed, snapshot } = await db.ref(path).transaction(apply);
+    return { committed, value: snapshot.exists() ? snapshot.val() as T : null };
+  },
+  newKey: (path: string) => {
+    const key = db.ref(path).push().key;
+    if (!key) {
+      throw new Error(`Failed to generate an ID under ${path}`);
+    }
+    return key;
+  },
+  increment: (delta: number) => ServerValue.increment(delta)
+});
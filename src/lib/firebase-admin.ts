@@ -1,5 +1,9 @@
 import { getApps, initializeApp, getApp, cert, App, AppOptions } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
+import { getDatabase } from 'firebase-admin/database';
+import { getStorage } from 'firebase-admin/storage';
+import { createAdminBackend } from './firebase-admin-backend';
+import { createRepositories } from './repositories';
 
 const getFirebaseAdminConfig = (): AppOptions => {
   const firebaseAdminKey = process.env.FIREBASE_ADMIN_KEY;
@@ -22,6 +26,7 @@ const getFirebaseAdminConfig = (): AppOptions => {
         privateKey: serviceAccount.private_key.replace(/\\n/g, '\n'),
       }),
       databaseURL: `https://${serviceAccount.project_id}.firebaseio.com`,
+      storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
     };
   } catch (error) {
     console.error('Error parsing Firebase Admin config:', error);
@@ -39,3 +44,8 @@ if (!getApps().length) {
 
 export { adminApp };
 export const adminAuth = getAuth(adminApp);
+export const adminDb = getDatabase(adminApp);
+export const adminStorage = getStorage(adminApp);
+
+// The same data access as the app, without the database rules
+export const adminRepositories = createRepositories(createAdminBackend(adminDb));
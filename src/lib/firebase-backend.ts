@@ -0,0 +1,41 @@
+import {
+  Database,
+  ref,
+  get,
+  update,
+  push,
+  query,
+  orderByChild,
+  equalTo,
+  limitToFirst,
+  increment,
+  runTransaction
+} from 'firebase/database';
+import type { DataBackend } from './data-backend';
+
+// `DataBackend` on the client SDK, so reads and writes go through the signed-in
+// user's database rules
+export const createFirebaseBackend = (db: Database): DataBackend => ({
+  get: async <T>(path: string) => {
+    const snapshot = await get(ref(db, path));
+    return snapshot.exists() ? snapshot.val() as T : null;
+  },
+  hasChildren: async (path: string) => (await get(query(ref(db, path), limitToFirst(1)))).exists(),
+  queryByChild: async <T>(path: string, child: string, value: string) => {
+    const snapshot = await get(query(ref(db, path), orderByChild(child), equalTo(value)));
+    return (snapshot.val() || {}) as Record<string, T>;
+  },
+  update: (updates) => update(ref(db), updates),
+  transaction: async <T>(path: string, apply: (current: T | null) => T | null | undefined) => {
+    const { committed, snapshot } = await runTransaction(ref(db, path), apply);
+    return { committed, value: snapshot.exists() ? snapshot.val() as T : null };
+  },
+  newKey: (path: string) => {
+    const key = push(ref(db, path)).key;
+    if (!key) {
+      throw new Error(`Failed to generate an ID under ${path}`);
+    }
+    return key;
+  },
+  increment: (delta: number) => increment(delta)
+});
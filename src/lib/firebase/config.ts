@@ -1,6 +1,7 @@
 import { initializeApp, getApps, getApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import dotenv from 'dotenv';
 dotenv.config();
 
@@ -16,8 +17,18 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase
-const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
+const isFirstInit = !getApps().length;
+const app = isFirstInit ? initializeApp(firebaseConfig) : getApp();
 const auth = getAuth(app);
-const db = getFirestore(app);
 
-export { app, auth, db };
+// Point the app at the local emulators (`firebase emulators:start`, ports in
+// firebase.json) instead of the production project. Only once: the SDK refuses to
+// switch after the first request, e.g. when this module is reloaded in development.
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+if (emulatorHost && isFirstInit) {
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  connectDatabaseEmulator(getDatabase(app), emulatorHost, 9000);
+  connectStorageEmulator(getStorage(app), emulatorHost, 9199);
+}
+
+export { app, auth };
@@ -0,0 +1,32 @@
+// Shared folders: the owner (`Folder.userId`) invites other users as members.
+// Membership is stored on the folder at `folders/{id}/members/{uid}` and mirrored
+// at `users/{uid}/sharedFolders/{id}` so members can find the folders shared with them.
+// Notes in a shared folder keep the folder owner as their `userId`.
+
+import { FOLDER_ROLES, FolderMemberRecord } from './schema';
+
+export type FolderMember = FolderMemberRecord;
+
+export type FolderRole = FolderMember['role'];
+
+export { FOLDER_ROLES };
+
+interface FolderWithMembers {
+  userId: string;
+  members?: Record<string, FolderMember>;
+}
+
+export const isFolderRole = (value: unknown): value is FolderRole =>
+  FOLDER_ROLES.includes(value as FolderRole);
+
+// The user's access to a folder: its owner, a member role, or none
+export const getFolderAccess = (folder: FolderWithMembers | null | undefined, uid: string | null | undefined) => {
+  if (!folder || !uid) return null;
+  if (folder.userId === uid) return 'owner';
+  return folder.members?.[uid]?.role || null;
+};
+
+export const canEditFolderNotes = (folder: FolderWithMembers | null | undefined, uid: string | null | undefined) => {
+  const access = getFolderAccess(folder, uid);
+  return access === 'owner' || access === 'editor';
+};
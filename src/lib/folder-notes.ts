@@ -0,0 +1,84 @@
+// Which notes a folder holds is decided by the notes themselves: each note's
+// `folderId`, looked up through the `notes` index on that field. Folders only keep
+// `noteCount`, the number of notes in them outside the trash, moved with
+// `increment()` in the same multi-path update as the notes.
+//
+// Folders used to list their notes in a `noteIds` array. The migration below
+// turns those lists into counters; it also repairs counters that drifted.
+
+interface StoredFolder {
+  noteIds?: unknown;
+  noteCount?: unknown;
+}
+
+interface StoredNote {
+  folderId?: string | null;
+  deletedAt?: number;
+}
+
+export interface FolderNoteMigration {
+  updates: Record<string, unknown>;
+  foldersUpdated: number;
+  notesLinked: number; // Notes only found through a folder's `noteIds`, given a `folderId`
+}
+
+// Normalize a stored `noteIds` value, which may be an array or an object
+const toIdList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value);
+  }
+  return [];
+};
+
+// Notes in a folder, as its counter should read
+export const countFolderNotes = (notes: StoredNote[]) => {
+  const counts: Record<string, number> = {};
+  notes.forEach((note) => {
+    if (note.folderId && !note.deletedAt) {
+      counts[note.folderId] = (counts[note.folderId] || 0) + 1;
+    }
+  });
+  return counts;
+};
+
+// Multi-path update entries that drop every folder's `noteIds` and set its `noteCount`.
+// A note's own `folderId` wins when it disagrees with the list it appears in.
+export const buildFolderNoteMigration = (
+  folders: Record<string, StoredFolder>,
+  notes: Record<string, StoredNote>
+): FolderNoteMigration => {
+  const updates: Record<string, unknown> = {};
+  const linkedNotes: Record<string, StoredNote> = { ...notes };
+  let notesLinked = 0;
+
+  Object.entries(folders).forEach(([folderId, folder]) => {
+    toIdList(folder.noteIds).forEach((noteId) => {
+      const note = linkedNotes[noteId];
+      if (note && !note.folderId) {
+        linkedNotes[noteId] = { ...note, folderId };
+        updates[`notes/${noteId}/folderId`] = folderId;
+        notesLinked++;
+      }
+    });
+  });
+
+  const counts = countFolderNotes(Object.values(linkedNotes));
+  let foldersUpdated = 0;
+
+  Object.entries(folders).forEach(([folderId, folder]) => {
+    const noteCount = counts[folderId] || 0;
+    const hasNoteIds = folder.noteIds !== undefined && folder.noteIds !== null;
+    if (!hasNoteIds && folder.noteCount === noteCount) return;
+
+    updates[`folders/${folderId}/noteCount`] = noteCount;
+    if (hasNoteIds) {
+      updates[`folders/${folderId}/noteIds`] = null;
+    }
+    foldersUpdated++;
+  });
+
+  return { updates, foldersUpdated, notesLinked };
+};
@@ -0,0 +1,114 @@
+// Minimal shape needed to arrange folders into a tree
+interface TreeFolder {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  createdAt: number;
+}
+
+export type FolderTreeNode<T extends TreeFolder> = T & {
+  children: FolderTreeNode<T>[];
+  depth: number;
+};
+
+// Convert a folder name to its URL-friendly form
+export const slugifyFolderName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Parent of a folder, treating a missing or unknown parent as the root
+const getParentId = <T extends TreeFolder>(folder: T, folderIds: Set<string>) =>
+  folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : null;
+
+// Arrange folders into a tree, newest first at every level.
+// Folders whose parent is missing (e.g. trashed) are shown at the root.
+export const buildFolderTree = <T extends TreeFolder>(folders: T[]): FolderTreeNode<T>[] => {
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const childrenByParent = new Map<string | null, T[]>();
+
+  folders.forEach((folder) => {
+    const parentId = getParentId(folder, folderIds);
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), folder]);
+  });
+
+  const visited = new Set<string>();
+  const buildLevel = (parentId: string | null, depth: number): FolderTreeNode<T>[] =>
+    (childrenByParent.get(parentId) || [])
+      .filter(folder => !visited.has(folder.id))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((folder) => {
+        visited.add(folder.id);
+        return { ...folder, depth, children: buildLevel(folder.id, depth + 1) };
+      });
+
+  return buildLevel(null, 0);
+};
+
+// Folders from the root down to (and including) the given folder
+export const getFolderAncestry = <T extends TreeFolder>(folders: T[], folderId: string): T[] => {
+  const folderMap = new Map(folders.map(folder => [folder.id, folder]));
+  const path: T[] = [];
+  let current = folderMap.get(folderId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? folderMap.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+// URL path of a folder, e.g. `work/clients/acme`
+export const getFolderSlugPath = <T extends TreeFolder>(folders: T[], folderId: string) =>
+  getFolderAncestry(folders, folderId)
+    .map(folder => slugifyFolderName(folder.name))
+    .join('/');
+
+// Resolve a URL path like `work/clients/acme` to a folder.
+// A single segment that isn't a root folder falls back to matching any folder
+// by name so links from before folders could be nested keep working.
+export const findFolderBySlugPath = <T extends TreeFolder>(folders: T[], slugPath: string): T | null => {
+  const segments = slugPath.split('/').filter(Boolean);
+  if (segments.length === 0) return null;
+
+  const folderIds = new Set(folders.map(folder => folder.id));
+  let parentId: string | null = null;
+  let match: T | undefined;
+
+  for (const segment of segments) {
+    match = folders.find(folder =>
+      getParentId(folder, folderIds) === parentId && slugifyFolderName(folder.name) === segment
+    );
+    if (!match) break;
+    parentId = match.id;
+  }
+
+  if (match) return match;
+
+  if (segments.length === 1) {
+    return folders.find(folder => slugifyFolderName(folder.name) === segments[0]) || null;
+  }
+
+  return null;
+};
+
+// IDs of every folder nested below the given folder
+export const getDescendantFolderIds = <T extends TreeFolder>(folders: T[], folderId: string): string[] => {
+  const descendants: string[] = [];
+  const queue = [folderId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    folders.forEach((folder) => {
+      if (folder.parentId === parentId && folder.id !== folderId && !descendants.includes(folder.id)) {
+        descendants.push(folder.id);
+        queue.push(folder.id);
+      }
+    });
+  }
+
+  return descendants;
+};
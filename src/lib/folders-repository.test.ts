@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './data-backend';
+import { createFoldersRepository } from './folders-repository';
+import { folderRecord, noteRecord } from '@/test/records';
+
+// Work with Home > Projects > Archive, a trashed Old folder with a subfolder, and
+// a folder of someone else's
+const setup = () => {
+  const backend = createMemoryBackend({
+    users: {
+      'user-1': { folders: ['home', 'projects', 'archive', 'old', 'old-child'] },
+      'user-2': { sharedFolders: { old: true } }
+    },
+    folders: {
+      home: folderRecord({ name: 'Home', noteCount: 1 }),
+      projects: folderRecord({ name: 'Projects', parentId: 'home', noteCount: 1 }),
+      archive: folderRecord({ name: 'Archive', parentId: 'projects' }),
+      old: folderRecord({ name: 'Old', deletedAt: 50, members: { 'user-2': { role: 'viewer', email: 'user-2@example.com', addedAt: 1 } } }),
+      'old-child': folderRecord({ name: 'Old child', parentId: 'old', deletedAt: 50 }),
+      theirs: folderRecord({ name: 'Theirs', userId: 'user-2' })
+    },
+    notes: {
+      'home-note': noteRecord({ folderId: 'home' }),
+      'project-note': noteRecord({ folderId: 'projects' }),
+      'old-note': noteRecord({ folderId: 'old', deletedAt: 50, deletedFolderName: 'Old' }),
+      'old-child-note': noteRecord({ folderId: 'old-child', deletedAt: 50, deletedFolderName: 'Old child' }),
+      // Trashed on its own before the folder was
+      'earlier-note': noteRecord({ folderId: 'old', deletedAt: 20, deletedFolderName: 'Old' })
+    },
+    noteRevisions: {
+      'old-note': { r1: { title: 'Note', content: '', createdAt: 1, userId: 'user-1' } }
+    }
+  });
+  return { backend, folders: createFoldersRepository(backend) };
+};
+
+describe('createFoldersRepository', () => {
+  it('creates folders and adds them to the user\'s list', async () => {
+    const { backend, folders } = setup();
+
+    const folderId = await folders.create('user-1', '  Ideas ', 'home', 100);
+
+    expect(backend.data.folders).toHaveProperty(folderId, {
+      id: folderId,
+      name: 'Ideas',
+      userId: 'user-1',
+      createdAt: 100,
+      updatedAt: 100,
+      noteCount: 0,
+      parentId: 'home'
+    });
+    expect(await backend.get('users/user-1/folders')).toEqual([
+      'home', 'projects', 'archive', 'old', 'old-child', folderId
+    ]);
+  });
+
+  it('only refuses names taken by a sibling outside the trash', async () => {
+    const { folders } = setup();
+
+    await expect(folders.create('user-1', 'projects', 'home')).rejects.toThrow('already exists');
+    await expect(folders.create('user-1', 'Projects')).resolves.toEqual(expect.any(String));
+    await expect(folders.create('user-1', 'Old')).resolves.toEqual(expect.any(String));
+    await expect(folders.create('user-1', ' ')).rejects.toThrow('cannot be empty');
+    await expect(folders.create('user-1', 'Ideas', 'theirs')).rejects.toThrow('Parent folder not found');
+  });
+
+  it('moves folders, but not into their own subfolders', async () => {
+    const { backend, folders } = setup();
+
+    await expect(folders.move('user-1', 'home', 'archive')).rejects.toThrow('into itself');
+    await expect(folders.move('user-1', 'archive', 'projects')).resolves.toBeNull();
+
+    await folders.move('user-1', 'archive', null, 100);
+    expect(await backend.get('folders/archive')).toMatchObject({ updatedAt: 100 });
+    expect(await backend.get('folders/archive/parentId')).toBeNull();
+  });
+
+  it('moves a folder to the trash with its subfolders and their notes', async () => {
+    const { backend, folders } = setup();
+
+    expect(await folders.trash('user-1', 'home', 100)).toEqual({
+      name: 'Home',
+      subfolderIds: ['projects', 'archive'],
+      noteCount: 2
+    });
+    for (const folderId of ['home', 'projects', 'archive']) {
+      expect(await backend.get(`folders/${folderId}`)).toMatchObject({ deletedAt: 100, noteCount: 0 });
+    }
+    expect(await backend.get('notes/project-note')).toMatchObject({ deletedAt: 100, deletedFolderName: 'Projects' });
+    await expect(folders.trash('user-2', 'home')).rejects.toThrow('Unauthorized');
+  });
+
+  it('restores a folder with what was trashed together with it', async () => {
+    const { backend, folders } = setup();
+
+    expect(await folders.restore('user-1', 'old', 100)).toEqual({ name: 'Old', noteCount: 2 });
+
+    expect(await backend.get('folders/old')).toMatchObject({ noteCount: 1, updatedAt: 100 });
+    expect(await backend.get('folders/old/deletedAt')).toBeNull();
+    expect(await backend.get('folders/old-child')).toMatchObject({ noteCount: 1 });
+    expect(await backend.get('notes/old-child-note/deletedAt')).toBeNull();
+    expect(await backend.get('notes/earlier-note/deletedAt')).toBe(20);
+  });
+
+  it('restores a folder at the top level when its parent is gone', async () => {
+    const { backend, folders } = setup();
+    await folders.trash('user-1', 'archive', 100);
+    await folders.trash('user-1', 'home', 200);
+
+    await folders.restore('user-1', 'archive');
+
+    expect(await backend.get('folders/archive/parentId')).toBeNull();
+    expect(await backend.get('folders/home/deletedAt')).toBe(200);
+  });
+
+  it('refuses to restore a folder over an active one with the same name', async () => {
+    const { folders } = setup();
+    await folders.create('user-1', 'old');
+
+    await expect(folders.restore('user-1', 'old')).rejects.toThrow('already exists');
+    await expect(folders.restore('user-1', 'home')).rejects.toThrow('not found in trash');
+  });
+
+  it('purges a trashed folder with what was trashed together with it', async () => {
+    const { backend, folders } = setup();
+
+    expect(await folders.purge('user-1', 'old')).toEqual({ name: 'Old', noteIds: ['old-note', 'old-child-note'] });
+
+    expect(await backend.get('folders/old')).toBeNull();
+    expect(await backend.get('folders/old-child')).toBeNull();
+    expect(await backend.get('notes/old-note')).toBeNull();
+    expect(await backend.get('noteRevisions/old-note')).toBeNull();
+    expect(await backend.get('notes/earlier-note')).not.toBeNull();
+    expect(await backend.get('users/user-2/sharedFolders')).toBeNull();
+    expect(await backend.get('users/user-1/folders')).toEqual(['home', 'projects', 'archive']);
+  });
+
+  it('creates several folders at once and removes them again', async () => {
+    const { backend, folders } = setup();
+    const created = await folders.createMany('user-1', [
+      { ...folderRecord({ name: 'One' }), id: 'one' },
+      { ...folderRecord({ name: 'Two', parentId: 'one' }), id: 'two' }
+    ]);
+
+    expect(await backend.get('folders/two/parentId')).toBe('one');
+    expect(await backend.get<string[]>('users/user-1/folders')).toContain('two');
+
+    await folders.removeCreated(created);
+    expect(await backend.get('folders/one')).toBeNull();
+    expect(await backend.get('users/user-1/folders')).toEqual(['home', 'projects', 'archive', 'old', 'old-child']);
+  });
+
+  it('moves note counters by the given amounts', async () => {
+    const { backend, folders } = setup();
+
+    await backend.update(folders.noteCountUpdates({ home: -1, projects: 2, archive: 0 }, 100));
+
+    expect(await backend.get('folders/home')).toMatchObject({ noteCount: 0, updatedAt: 100 });
+    expect(await backend.get('folders/projects')).toMatchObject({ noteCount: 3, updatedAt: 100 });
+    expect(await backend.get('folders/archive/updatedAt')).toBe(1);
+  });
+});
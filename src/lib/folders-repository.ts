@@ -0,0 +1,330 @@
+import type { DataBackend, DataUpdates } from './data-backend';
+import type { FolderRecord } from './schema';
+import { canEditFolderNotes } from './folder-members';
+import { getDescendantFolderIds } from './folder-tree';
+import { MAX_FOLDER_NAME_LENGTH } from './limits';
+import { buildPurgeUpdates } from './trash';
+
+export type FolderRecordWithId = FolderRecord & { id: string };
+
+export interface TrashedFolder {
+  name: string;
+  subfolderIds: string[];
+  noteCount: number; // Notes that went to the trash with the folders
+}
+
+export interface RestoredFolder {
+  name: string;
+  noteCount: number; // Notes that came back with the folders
+}
+
+export interface PurgedFolder {
+  name: string;
+  noteIds: string[]; // Notes deleted with the folders
+}
+
+// Folders written together, and the update that removes them again
+export interface CreatedFolders {
+  folderIds: string[];
+  undo: DataUpdates;
+}
+
+// Multi-path update entries that move folders' note counters, e.g. `{ [fromId]: -1, [toId]: 1 }`.
+// Goes in the same update as the note changes, so counters can't fall out of step.
+export const buildNoteCountUpdates = (
+  backend: Pick<DataBackend, 'increment'>,
+  changes: Record<string, number>,
+  now: number = Date.now()
+): DataUpdates => {
+  const updates: DataUpdates = {};
+  Object.entries(changes).forEach(([folderId, delta]) => {
+    if (!folderId || delta === 0) return;
+    updates[`folders/${folderId}/noteCount`] = backend.increment(delta);
+    updates[`folders/${folderId}/updatedAt`] = now;
+  });
+  return updates;
+};
+
+const hasSiblingNamed = (folders: FolderRecordWithId[], parentId: string | null, name: string, exceptId?: string) =>
+  folders.some(folder =>
+    folder.id !== exceptId &&
+    (folder.parentId || null) === parentId &&
+    folder.name.toLowerCase() === name.toLowerCase()
+  );
+
+export const createFoldersRepository = (backend: DataBackend) => {
+  const get = (folderId: string) => backend.get<FolderRecord>(`folders/${folderId}`);
+
+  // All of the user's own folders, including the ones in the trash
+  const listAll = async (uid: string): Promise<FolderRecordWithId[]> => {
+    const folders = await backend.queryByChild<FolderRecord>('folders', 'userId', uid);
+    return Object.entries(folders).map(([id, folder]) => ({ ...folder, id }));
+  };
+
+  // The user's own folders outside the trash
+  const listOwned = async (uid: string) => (await listAll(uid)).filter(folder => !folder.deletedAt);
+
+  // The user node also lists the IDs of the user's folders
+  const listIds = async (uid: string): Promise<string[]> => {
+    const listedFolders = await backend.get<string[] | Record<string, unknown>>(`users/${uid}/folders`);
+    return Array.isArray(listedFolders) ? listedFolders.filter(Boolean) : Object.keys(listedFolders || {});
+  };
+
+  // Multi-path update entries that write new folders and add them to the user's list
+  const buildCreateUpdates = async (uid: string, folders: FolderRecordWithId[]): Promise<DataUpdates> => {
+    const updates: DataUpdates = {};
+    folders.forEach((folder) => {
+      updates[`folders/${folder.id}`] = folder;
+    });
+    updates[`users/${uid}/folders`] = [...await listIds(uid), ...folders.map(folder => folder.id)];
+    return updates;
+  };
+
+  // Multi-path update entries that permanently remove trashed folders and notes, along
+  // with the user's list entries and members' entries for the folders
+  const buildPurgeFolderUpdates = async (
+    uid: string,
+    folders: Array<Pick<FolderRecordWithId, 'id' | 'members'>>,
+    noteIds: string[]
+  ): Promise<DataUpdates> => buildPurgeUpdates({
+    userId: uid,
+    noteIds,
+    folders,
+    userFolderIds: folders.length > 0 ? await listIds(uid) : []
+  });
+
+  // A trashed folder with the subfolders and notes trashed together with it, which
+  // share its deletedAt timestamp
+  const getTrashedTogether = async (uid: string, folderId: string) => {
+    const folders = await listAll(uid);
+    const folder = folders.find(candidate => candidate.id === folderId && candidate.deletedAt);
+    if (!folder) {
+      throw new Error('Folder not found in trash');
+    }
+
+    const descendantIds = getDescendantFolderIds(folders, folderId);
+    const trashedFolders = [
+      folder,
+      ...folders.filter(candidate => descendantIds.includes(candidate.id) && candidate.deletedAt === folder.deletedAt)
+    ];
+
+    const folderNotes = await Promise.all(trashedFolders.map(candidate =>
+      backend.queryByChild<{ deletedAt?: number }>('notes', 'folderId', candidate.id)
+    ));
+    const trashedNotes = trashedFolders.flatMap((candidate, index) =>
+      Object.entries(folderNotes[index])
+        .filter(([, note]) => note.deletedAt === folder.deletedAt)
+        .map(([noteId]) => ({ id: noteId, folderId: candidate.id }))
+    );
+
+    return { folder, folders, trashedFolders, trashedNotes };
+  };
+
+  // Whether a folder still exists, so its counter can be moved
+  const exists = async (folderId: string) => (await backend.get(`folders/${folderId}/userId`)) !== null;
+
+  // A folder the user may add notes to: one of their own, or one shared with them as
+  // editor, outside the trash
+  const getForNewNotes = async (folderId: string, uid: string) => {
+    const folder = await get(folderId);
+    if (!folder || folder.deletedAt || !canEditFolderNotes(folder, uid)) {
+      throw new Error('Selected folder does not exist or you do not have permission');
+    }
+    return folder;
+  };
+
+  const create = async (uid: string, name: string, parentId: string | null = null, now: number = Date.now()) => {
+    const folderName = name.trim();
+    if (!folderName) {
+      throw new Error('Folder name cannot be empty');
+    }
+    if (folderName.length > MAX_FOLDER_NAME_LENGTH) {
+      throw new Error(`Folder names can be at most ${MAX_FOLDER_NAME_LENGTH} characters`);
+    }
+
+    const folders = await listOwned(uid);
+    if (parentId && !folders.some(folder => folder.id === parentId)) {
+      throw new Error('Parent folder not found');
+    }
+
+    // Folder names only need to be unique among siblings
+    if (hasSiblingNamed(folders, parentId, folderName)) {
+      throw new Error('A folder with this name already exists');
+    }
+
+    const folderId = backend.newKey('folders');
+    const folder: FolderRecordWithId = {
+      id: folderId,
+      name: folderName,
+      userId: uid,
+      createdAt: now,
+      updatedAt: now,
+      noteCount: 0,
+      ...(parentId ? { parentId } : {})
+    };
+
+    await backend.update(await buildCreateUpdates(uid, [folder]));
+
+    return folderId;
+  };
+
+  // Write several new folders of the user's at once, for imports and restored backups.
+  // Names and parents are taken as given.
+  const createMany = async (uid: string, folders: FolderRecordWithId[]): Promise<CreatedFolders> => {
+    const folderIds = folders.map(folder => folder.id);
+    if (folders.length === 0) return { folderIds, undo: {} };
+
+    const listedFolderIds = await listIds(uid);
+    await backend.update(await buildCreateUpdates(uid, folders));
+
+    const undo: DataUpdates = { [`users/${uid}/folders`]: listedFolderIds };
+    folderIds.forEach((folderId) => {
+      undo[`folders/${folderId}`] = null;
+    });
+    return { folderIds, undo };
+  };
+
+  // Remove folders written by `createMany`
+  const removeCreated = (created: CreatedFolders) =>
+    created.folderIds.length > 0 ? backend.update(created.undo) : Promise.resolve();
+
+  // Move a folder, its subfolders and all their notes to the trash with the same
+  // timestamp, so restoring the folder brings back exactly what was trashed with it
+  const trash = async (uid: string, folderId: string, now: number = Date.now()): Promise<TrashedFolder> => {
+    const folder = await get(folderId);
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+    if (folder.userId !== uid) {
+      throw new Error('Unauthorized to delete this folder');
+    }
+
+    const folders = await listOwned(uid);
+    const subfolderIds = getDescendantFolderIds(folders, folderId);
+    const foldersToTrash = [
+      { id: folderId, name: folder.name },
+      ...folders.filter(candidate => subfolderIds.includes(candidate.id))
+    ];
+
+    // The notes in each folder, through the folderId index
+    const folderNotes = await Promise.all(foldersToTrash.map(candidate =>
+      backend.queryByChild<{ deletedAt?: number }>('notes', 'folderId', candidate.id)
+    ));
+
+    const updates: DataUpdates = {};
+    let noteCount = 0;
+
+    foldersToTrash.forEach((candidate, index) => {
+      updates[`folders/${candidate.id}/deletedAt`] = now;
+      updates[`folders/${candidate.id}/noteCount`] = 0;
+      updates[`folders/${candidate.id}/updatedAt`] = now;
+
+      Object.entries(folderNotes[index]).forEach(([noteId, note]) => {
+        if (note.deletedAt) return;
+        updates[`notes/${noteId}/deletedAt`] = now;
+        updates[`notes/${noteId}/deletedFolderName`] = candidate.name || null;
+        noteCount++;
+      });
+    });
+
+    await backend.update(updates);
+
+    return { name: folder.name, subfolderIds, noteCount };
+  };
+
+  // Move a folder (with everything nested in it) under another folder, or to the
+  // top level. Returns the folder and its new parent, or null when nothing changed.
+  const move = async (uid: string, folderId: string, parentId: string | null, now: number = Date.now()) => {
+    const folders = await listOwned(uid);
+    const folder = folders.find(candidate => candidate.id === folderId);
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+
+    if ((folder.parentId || null) === parentId) return null;
+
+    if (parentId === folderId || (parentId && getDescendantFolderIds(folders, folderId).includes(parentId))) {
+      throw new Error('A folder cannot be moved into itself or one of its subfolders');
+    }
+
+    const parent = parentId ? folders.find(candidate => candidate.id === parentId) : null;
+    if (parentId && !parent) {
+      throw new Error('Target folder not found');
+    }
+
+    if (hasSiblingNamed(folders, parentId, folder.name, folderId)) {
+      throw new Error('A folder with this name already exists in the destination');
+    }
+
+    await backend.update({
+      [`folders/${folderId}/parentId`]: parentId,
+      [`folders/${folderId}/updatedAt`]: now
+    });
+
+    return { folder, parent: parent || null };
+  };
+
+  // Bring a folder back from the trash with the subfolders and notes trashed together
+  // with it, at the top level if its parent folder isn't active any more
+  const restore = async (uid: string, folderId: string, now: number = Date.now()): Promise<RestoredFolder> => {
+    const { folder, folders, trashedFolders, trashedNotes } = await getTrashedTogether(uid, folderId);
+
+    const parentId = folder.parentId && folders.some(candidate => candidate.id === folder.parentId && !candidate.deletedAt)
+      ? folder.parentId
+      : null;
+    if (hasSiblingNamed(folders.filter(candidate => !candidate.deletedAt), parentId, folder.name)) {
+      throw new Error('A folder with this name already exists');
+    }
+
+    const updates: DataUpdates = {
+      [`folders/${folderId}/parentId`]: parentId
+    };
+    trashedFolders.forEach((candidate) => {
+      updates[`folders/${candidate.id}/deletedAt`] = null;
+      updates[`folders/${candidate.id}/updatedAt`] = now;
+      Object.assign(updates, buildNoteCountUpdates(backend, {
+        [candidate.id]: trashedNotes.filter(note => note.folderId === candidate.id).length
+      }, now));
+    });
+    trashedNotes.forEach((note) => {
+      updates[`notes/${note.id}/deletedAt`] = null;
+      updates[`notes/${note.id}/deletedFolderName`] = null;
+    });
+
+    await backend.update(updates);
+
+    return { name: folder.name, noteCount: trashedNotes.length };
+  };
+
+  // Permanently delete a trashed folder with the subfolders and notes trashed together with it
+  const purge = async (uid: string, folderId: string): Promise<PurgedFolder> => {
+    const { folder, trashedFolders, trashedNotes } = await getTrashedTogether(uid, folderId);
+    const noteIds = trashedNotes.map(note => note.id);
+
+    await backend.update(await buildPurgeFolderUpdates(uid, trashedFolders, noteIds));
+
+    return { name: folder.name, noteIds };
+  };
+
+  return {
+    newId: () => backend.newKey('folders'),
+    get,
+    listAll,
+    listOwned,
+    listIds,
+    exists,
+    getForNewNotes,
+    create,
+    createMany,
+    removeCreated,
+    trash,
+    move,
+    restore,
+    purge,
+    buildCreateUpdates,
+    buildPurgeUpdates: buildPurgeFolderUpdates,
+    noteCountUpdates: (changes: Record<string, number>, now?: number) => buildNoteCountUpdates(backend, changes, now)
+  };
+};
+
+export type FoldersRepository = ReturnType<typeof createFoldersRepository>;
@@ -0,0 +1,12 @@
+// Size limits on notes and folders. The record schemas in `./schema` use them, so
+// the generated database rules reject anything larger.
+
+export const MAX_NOTE_TITLE_LENGTH = 200;
+
+export const MAX_NOTE_CONTENT_LENGTH = 1000000;
+
+export const MAX_FOLDER_NAME_LENGTH = 100;
+
+// Shortest password a share link can be protected with. Share pages are public,
+// so the password is all that stands between them and anyone with the link.
+export const MIN_SHARE_PASSWORD_LENGTH = 10;
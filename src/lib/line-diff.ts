@@ -0,0 +1,89 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+// Line-level diff based on the longest common subsequence of both texts
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i][j] holds the LCS length of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLineNumber: i + 1, newLineNumber: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i], oldLineNumber: i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLineNumber: j + 1 });
+      j++;
+    }
+  }
+
+  while (i < rows) {
+    result.push({ type: 'removed', text: oldLines[i], oldLineNumber: i + 1 });
+    i++;
+  }
+
+  while (j < cols) {
+    result.push({ type: 'added', text: newLines[j], newLineNumber: j + 1 });
+    j++;
+  }
+
+  return result;
+};
+
+// Combine two versions of a text, keeping shared lines once and wrapping each
+// differing block in conflict markers so both sides can be edited by hand
+export const mergeWithConflictMarkers = (
+  theirs: string,
+  mine: string,
+  labels: { theirs: string; mine: string } = { theirs: 'Other device', mine: 'Your changes' }
+): string => {
+  const output: string[] = [];
+  let theirBlock: string[] = [];
+  let myBlock: string[] = [];
+
+  const flushConflict = () => {
+    if (theirBlock.length === 0 && myBlock.length === 0) return;
+    output.push(`<<<<<<< ${labels.theirs}`, ...theirBlock, '=======', ...myBlock, `>>>>>>> ${labels.mine}`);
+    theirBlock = [];
+    myBlock = [];
+  };
+
+  diffLines(theirs, mine).forEach((line) => {
+    if (line.type === 'unchanged') {
+      flushConflict();
+      output.push(line.text);
+    } else if (line.type === 'removed') {
+      theirBlock.push(line.text);
+    } else {
+      myBlock.push(line.text);
+    }
+  });
+  flushConflict();
+
+  return output.join('\n');
+};
@@ -0,0 +1,191 @@
+import { zipSync, strToU8 } from 'fflate';
+import { getFolderAncestry } from './folder-tree';
+
+// Exports notes as a ZIP of Markdown files. Each note becomes `<folder path>/<title>.md`
+// with YAML front matter, and `manifest.json` at the root lists every folder and note
+// with the file it was written to.
+
+export const EXPORT_FORMAT_VERSION = 1;
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+export interface ExportFolder {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  createdAt: number;
+}
+
+export interface ExportNote {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  folderId?: string | null;
+  tags?: string[];
+}
+
+export interface ExportManifest {
+  version: number;
+  exportedAt: string;
+  exportedBy: string | null;
+  folders: {
+    id: string;
+    name: string;
+    parentId: string | null;
+    path: string;
+  }[];
+  notes: {
+    id: string;
+    title: string;
+    path: string;
+    folderId: string | null;
+    createdAt: string;
+    updatedAt: string;
+    tags: string[];
+  }[];
+}
+
+// Characters that aren't allowed in file names on common file systems
+const UNSAFE_FILE_NAME = /[<>:"/\\|?*]/g;
+const MAX_FILE_NAME_LENGTH = 100;
+
+export const toSafeFileName = (name: string, fallback: string) => {
+  const safe = Array.from(name, char => char.charCodeAt(0) < 32 ? ' ' : char)
+    .join('')
+    .replace(UNSAFE_FILE_NAME, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+|\.+$/g, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+  return safe || fallback;
+};
+
+// Appends " (2)", " (3)", ... until the name is unused in its directory
+const claimUniqueName = (taken: Set<string>, base: string, extension = '') => {
+  let candidate = `${base}${extension}`;
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) {
+    candidate = `${base} (${i})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// JSON strings are valid double-quoted YAML scalars
+const toYamlString = (value: string) => JSON.stringify(value);
+
+export const buildFrontMatter = (note: ExportNote, folderPath: string | null) => {
+  const lines = [
+    '---',
+    `id: ${toYamlString(note.id)}`,
+    `title: ${toYamlString(note.title)}`,
+    `createdAt: ${toYamlString(new Date(note.createdAt).toISOString())}`,
+    `updatedAt: ${toYamlString(new Date(note.updatedAt).toISOString())}`,
+    `folder: ${folderPath === null ? 'null' : toYamlString(folderPath)}`
+  ];
+
+  const tags = note.tags || [];
+  if (tags.length === 0) {
+    lines.push('tags: []');
+  } else {
+    lines.push('tags:', ...tags.map(tag => `  - ${toYamlString(tag)}`));
+  }
+
+  lines.push('---');
+  return lines.join('\n');
+};
+
+// Directory of every folder, built from its ancestors' names. Sibling folders
+// whose names clash on disk get a numbered suffix.
+const buildFolderPaths = (folders: ExportFolder[]) => {
+  const paths = new Map<string, string>();
+  // The manifest's name is reserved so nothing can overwrite it
+  const takenByDirectory = new Map<string, Set<string>>([['', new Set([MANIFEST_FILE_NAME])]]);
+
+  const getPath = (folder: ExportFolder): string => {
+    const existing = paths.get(folder.id);
+    if (existing !== undefined) return existing;
+
+    const ancestry = getFolderAncestry(folders, folder.id);
+    const parent = ancestry.length > 1 ? ancestry[ancestry.length - 2] : null;
+    const parentPath = parent ? getPath(parent) : '';
+
+    if (!takenByDirectory.has(parentPath)) takenByDirectory.set(parentPath, new Set());
+    const name = claimUniqueName(
+      takenByDirectory.get(parentPath) as Set<string>,
+      toSafeFileName(folder.name, 'Untitled folder')
+    );
+    const path = parentPath ? `${parentPath}/${name}` : name;
+    paths.set(folder.id, path);
+    return path;
+  };
+
+  [...folders]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(getPath);
+
+  return { paths, takenByDirectory };
+};
+
+interface BuildExportOptions {
+  exportedBy?: string | null;
+  exportedAt?: Date;
+}
+
+export const buildMarkdownExport = (
+  notes: ExportNote[],
+  folders: ExportFolder[],
+  { exportedBy = null, exportedAt = new Date() }: BuildExportOptions = {}
+): Uint8Array => {
+  const { paths: folderPaths, takenByDirectory } = buildFolderPaths(folders);
+  const files: Record<string, Uint8Array> = {};
+
+  const manifest: ExportManifest = {
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    exportedBy,
+    folders: folders.map(folder => ({
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parentId && folderPaths.has(folder.parentId) ? folder.parentId : null,
+      path: folderPaths.get(folder.id) as string
+    })),
+    notes: []
+  };
+
+  // Keep directories for folders without notes, so the structure survives a round trip
+  folders.forEach(folder => {
+    files[`${folderPaths.get(folder.id)}/`] = new Uint8Array(0);
+  });
+
+  [...notes]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(note => {
+      const folderPath = note.folderId ? folderPaths.get(note.folderId) ?? null : null;
+      const directory = folderPath || '';
+      if (!takenByDirectory.has(directory)) takenByDirectory.set(directory, new Set());
+
+      const fileName = claimUniqueName(
+        takenByDirectory.get(directory) as Set<string>,
+        toSafeFileName(note.title, 'Untitled'),
+        '.md'
+      );
+      const path = directory ? `${directory}/${fileName}` : fileName;
+
+      files[path] = strToU8(`${buildFrontMatter(note, folderPath)}\n\n${note.content}\n`);
+      manifest.notes.push({
+        id: note.id,
+        title: note.title,
+        path,
+        folderId: folderPath === null ? null : note.folderId || null,
+        createdAt: new Date(note.createdAt).toISOString(),
+        updatedAt: new Date(note.updatedAt).toISOString(),
+        tags: note.tags || []
+      });
+    });
+
+  files[MANIFEST_FILE_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(files, { mtime: exportedAt });
+};
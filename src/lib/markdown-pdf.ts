@@ -0,0 +1,287 @@
+import type { jsPDF } from 'jspdf';
+import type { Token, Tokens } from 'marked';
+import { lexMarkdown } from '@/lib/markdown';
+
+export interface PdfTextLayout {
+  x: number;          // Left edge of the text block (mm)
+  width: number;      // Width available for text (mm)
+  pageHeight: number; // Full page height (mm)
+  margin: number;     // Top and bottom margin (mm)
+  fontSize?: number;  // Body font size (pt), 12 by default
+}
+
+interface InlineSegment {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+const HEADING_SIZES = [18, 16, 14, 13, 12, 12];
+const PT_TO_MM = 0.3528;
+
+const lineHeightFor = (fontSize: number) => fontSize * PT_TO_MM * 1.4;
+
+// Turn inline tokens into runs of text with the same style
+const flattenInline = (tokens: Token[] = [], style: Omit<InlineSegment, 'text'> = {}): InlineSegment[] =>
+  tokens.flatMap((token): InlineSegment[] => {
+    switch (token.type) {
+      case 'strong':
+        return flattenInline((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em':
+        return flattenInline((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del':
+        return flattenInline((token as Tokens.Del).tokens, style);
+      case 'codespan':
+        return [{ ...style, text: (token as Tokens.Codespan).text, code: true }];
+      case 'link': {
+        const link = token as Tokens.Link;
+        const label = flattenInline(link.tokens, style);
+        const labelText = label.map(segment => segment.text).join('');
+        return labelText === link.href ? label : [...label, { ...style, text: ` (${link.href})` }];
+      }
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'html':
+        return [{ ...style, text: token.raw.replace(/<[^>]*>/g, '') }];
+      case 'image':
+        return [{ ...style, text: `[${(token as Tokens.Image).text || 'image'}]` }];
+      default: {
+        const textToken = token as Tokens.Text;
+        if (textToken.tokens?.length) return flattenInline(textToken.tokens, style);
+        return [{ ...style, text: decodeEntities(textToken.text ?? token.raw) }];
+      }
+    }
+  });
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const applyFont = (doc: jsPDF, segment: Omit<InlineSegment, 'text'>) => {
+  if (segment.code) {
+    doc.setFont('courier', 'normal');
+    return;
+  }
+  const style = segment.bold && segment.italic
+    ? 'bolditalic'
+    : segment.bold ? 'bold' : segment.italic ? 'italic' : 'normal';
+  doc.setFont('helvetica', style);
+};
+
+// Writes Markdown into a jsPDF document, keeping headings, emphasis, lists,
+// task lists, code blocks, quotes and tables. Returns the y position after the text.
+export const writeMarkdownToPdf = (
+  doc: jsPDF,
+  source: string,
+  startY: number,
+  layout: PdfTextLayout
+): number => {
+  const bodySize = layout.fontSize || 12;
+  let y = startY;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > layout.pageHeight - layout.margin) {
+      doc.addPage();
+      y = layout.margin;
+    }
+  };
+
+  // Lay out styled runs word by word, wrapping at the block width
+  const writeInline = (segments: InlineSegment[], x: number, width: number, fontSize: number) => {
+    const lineHeight = lineHeightFor(fontSize);
+    doc.setFontSize(fontSize);
+    ensureSpace(lineHeight);
+
+    let cursorX = x;
+    const newLine = () => {
+      y += lineHeight;
+      ensureSpace(lineHeight);
+      cursorX = x;
+    };
+
+    segments.forEach((segment) => {
+      applyFont(doc, segment);
+      segment.text.split(/(\n|\s+)/).forEach((word) => {
+        if (!word) return;
+        if (word === '\n') {
+          newLine();
+          return;
+        }
+        if (/^\s+$/.test(word)) {
+          if (cursorX > x) cursorX += doc.getTextWidth(' ');
+          return;
+        }
+
+        let wordWidth = doc.getTextWidth(word);
+        if (cursorX + wordWidth > x + width && cursorX > x) {
+          newLine();
+        }
+
+        // Words wider than the whole line are split across lines
+        if (wordWidth > width) {
+          const pieces: string[] = doc.splitTextToSize(word, width);
+          pieces.slice(0, -1).forEach((piece) => {
+            doc.text(piece, cursorX, y);
+            newLine();
+          });
+          word = pieces[pieces.length - 1];
+          wordWidth = doc.getTextWidth(word);
+        }
+
+        doc.text(word, cursorX, y);
+        cursorX += wordWidth;
+      });
+    });
+
+    y += lineHeight;
+  };
+
+  const writeCodeBlock = (text: string, x: number, width: number) => {
+    const fontSize = bodySize - 2;
+    const lineHeight = lineHeightFor(fontSize);
+    doc.setFont('courier', 'normal');
+    doc.setFontSize(fontSize);
+
+    const lines: string[] = text.split('\n').flatMap(line => doc.splitTextToSize(line || ' ', width - 4));
+    lines.forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.setFillColor(243, 244, 246);
+      doc.rect(x, y - lineHeight * 0.75, width, lineHeight, 'F');
+      doc.text(line, x + 2, y);
+      y += lineHeight;
+    });
+    y += 2;
+  };
+
+  const writeTable = (table: Tokens.Table, x: number, width: number) => {
+    const fontSize = bodySize - 2;
+    const lineHeight = lineHeightFor(fontSize);
+    const columnWidth = width / Math.max(table.header.length, 1);
+    doc.setFontSize(fontSize);
+    doc.setDrawColor(200, 200, 200);
+
+    const writeRow = (cells: Tokens.TableCell[], isHeader: boolean) => {
+      doc.setFont('helvetica', isHeader ? 'bold' : 'normal');
+      const cellLines = cells.map(cell => doc.splitTextToSize(
+        flattenInline(cell.tokens).map(segment => segment.text).join(''),
+        columnWidth - 3
+      ) as string[]);
+      const rowHeight = Math.max(...cellLines.map(lines => lines.length), 1) * lineHeight + 2;
+
+      ensureSpace(rowHeight);
+      cellLines.forEach((lines, index) => {
+        const cellX = x + index * columnWidth;
+        doc.rect(cellX, y, columnWidth, rowHeight);
+        lines.forEach((line, lineIndex) => {
+          doc.text(line, cellX + 1.5, y + 1 + lineHeight * (lineIndex + 0.75));
+        });
+      });
+      y += rowHeight;
+    };
+
+    writeRow(table.header, true);
+    table.rows.forEach(row => writeRow(row, false));
+    y += lineHeightFor(bodySize);
+  };
+
+  const writeList = (list: Tokens.List, x: number, width: number) => {
+    const indent = 6;
+    list.items.forEach((item, index) => {
+      const start = typeof list.start === 'number' ? list.start : 1;
+      const marker = item.task
+        ? (item.checked ? '[x]' : '[ ]')
+        : list.ordered ? `${start + index}.` : '•';
+
+      ensureSpace(lineHeightFor(bodySize));
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(bodySize);
+      doc.text(marker, x, y);
+
+      // Nested lists keep their own indentation; everything else flows after the marker
+      item.tokens.forEach((token) => {
+        if (token.type === 'list') {
+          writeList(token as Tokens.List, x + indent, width - indent);
+        } else if (token.type === 'checkbox') {
+          return;
+        } else if (token.type === 'text' || token.type === 'paragraph') {
+          writeInline(flattenInline((token as Tokens.Text).tokens || [token]), x + indent, width - indent, bodySize);
+        } else {
+          writeBlocks([token], x + indent, width - indent);
+        }
+      });
+    });
+    y += 1;
+  };
+
+  const writeBlocks = (tokens: Token[], x: number, width: number) => {
+    tokens.forEach((token) => {
+      switch (token.type) {
+        case 'heading': {
+          const heading = token as Tokens.Heading;
+          y += 2;
+          writeInline(
+            flattenInline(heading.tokens, { bold: true }),
+            x,
+            width,
+            HEADING_SIZES[heading.depth - 1] || bodySize
+          );
+          y += 1;
+          break;
+        }
+        case 'paragraph':
+          writeInline(flattenInline((token as Tokens.Paragraph).tokens), x, width, bodySize);
+          y += 2;
+          break;
+        case 'text':
+          writeInline(flattenInline((token as Tokens.Text).tokens || [token]), x, width, bodySize);
+          break;
+        case 'list':
+          writeList(token as Tokens.List, x, width);
+          break;
+        case 'code':
+          writeCodeBlock((token as Tokens.Code).text, x, width);
+          break;
+        case 'table':
+          writeTable(token as Tokens.Table, x, width);
+          break;
+        case 'blockquote': {
+          const startY = y;
+          const startPage = doc.getNumberOfPages();
+          writeBlocks((token as Tokens.Blockquote).tokens, x + 5, width - 5);
+          // Only draw the quote bar when the quote didn't span a page break
+          if (doc.getNumberOfPages() === startPage) {
+            doc.setDrawColor(200, 200, 200);
+            doc.setLineWidth(0.8);
+            doc.line(x + 1, startY - lineHeightFor(bodySize) * 0.75, x + 1, y - lineHeightFor(bodySize));
+            doc.setLineWidth(0.2);
+          }
+          break;
+        }
+        case 'hr':
+          ensureSpace(4);
+          doc.setDrawColor(200, 200, 200);
+          doc.line(x, y - 2, x + width, y - 2);
+          y += 4;
+          break;
+        case 'html':
+          writeInline([{ text: token.raw.replace(/<[^>]*>/g, '') }], x, width, bodySize);
+          break;
+        case 'space':
+          break;
+        default:
+          if ('text' in token && typeof token.text === 'string') {
+            writeInline([{ text: token.text }], x, width, bodySize);
+          }
+      }
+    });
+  };
+
+  writeBlocks(lexMarkdown(source), layout.x, layout.width);
+  doc.setFont('helvetica', 'normal');
+  return y;
+};
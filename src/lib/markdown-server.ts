@@ -0,0 +1,11 @@
+import { JSDOM } from 'jsdom';
+import DOMPurify from 'dompurify';
+import { renderMarkdownWithoutHtml, sanitizeHtml } from './markdown';
+
+// DOMPurify bound to a DOM of its own, for sanitizing on the server
+const purifier = DOMPurify(new JSDOM('').window);
+
+// Render note Markdown on the server for the public share page. Raw HTML never
+// makes it into the output, and what does is sanitized once more all the same.
+export const renderSharedMarkdown = (source: string): string =>
+  sanitizeHtml(renderMarkdownWithoutHtml(source), purifier);
@@ -0,0 +1,141 @@
+import { Marked, Tokens, TokensList } from 'marked';
+import DOMPurify, { type Config, type DOMPurify as Purifier } from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderCode = ({ text, lang }: Tokens.Code) => {
+  const language = (lang || '').match(/^\S*/)?.[0] || '';
+  const highlighted = language && hljs.getLanguage(language)
+    ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+    : escapeHtml(text);
+  const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+
+  return `<pre><code class="hljs${languageClass}">${highlighted}</code></pre>\n`;
+};
+
+// GFM gives us tables and task lists; `breaks` keeps single newlines from plain-text notes
+const markdown = new Marked({ gfm: true, breaks: true });
+
+markdown.use({
+  renderer: {
+    code: renderCode
+  }
+});
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Base for resolving relative URLs; only its protocol matters
+const URL_BASE = 'https://notes.invalid/';
+
+// Links may only point at web pages, mail addresses or paths on this site. The URL
+// is resolved the way a browser does, which drops tabs, newlines and leading control
+// characters, so e.g. `java\tscript:` is seen as the `javascript:` URL it turns into.
+export const isSafeUrl = (url: string) => {
+  try {
+    return SAFE_URL_PROTOCOLS.includes(new URL(url, URL_BASE).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// The same rule for DOMPurify, which strips whitespace and control characters
+// before matching: safe protocols, or no protocol at all
+const SAFE_URL_PATTERN = /^(?:(?:https?|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.:-]|$))/i;
+
+// Renderer for places without DOMPurify (server rendering): raw HTML is shown
+// as text and unsafe URLs are dropped, so the output needs no sanitizing
+const markdownWithoutHtml = new Marked({ gfm: true, breaks: true });
+
+markdownWithoutHtml.use({
+  renderer: {
+    code: renderCode,
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }: Tokens.Link) {
+      const label = this.parser.parseInline(tokens);
+      if (!isSafeUrl(href)) return label;
+
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttribute} target="_blank" rel="noopener noreferrer">${label}</a>`;
+    },
+    image({ href, title, text }: Tokens.Image) {
+      if (!isSafeUrl(href)) return escapeHtml(text);
+
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttribute}>`;
+    }
+  }
+});
+
+const configuredPurifiers = new WeakSet<Purifier>();
+
+// Register the DOMPurify hooks once per purifier
+const configurePurifier = (purifier: Purifier) => {
+  if (configuredPurifiers.has(purifier)) return;
+  configuredPurifiers.add(purifier);
+
+  // Task list checkboxes are the only inputs allowed through
+  purifier.addHook('uponSanitizeElement', (node, data) => {
+    if (data.tagName === 'input' && (node as Element).getAttribute('type') !== 'checkbox') {
+      node.parentNode?.removeChild(node);
+    }
+  });
+
+  // Open links in a new tab without giving the target page access to ours
+  purifier.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer');
+    }
+    if (node.tagName === 'INPUT') {
+      node.setAttribute('disabled', '');
+    }
+  });
+};
+
+const PURIFY_CONFIG: Config = {
+  USE_PROFILES: { html: true },
+  FORBID_TAGS: ['style', 'form', 'button', 'textarea', 'select', 'option'],
+  FORBID_ATTR: ['style'],
+  ALLOWED_URI_REGEXP: SAFE_URL_PATTERN
+};
+
+// Strip anything that could run script or restyle the page from rendered HTML.
+// The server passes a purifier bound to its own DOM; see `./markdown-server`.
+export const sanitizeHtml = (html: string, purifier: Purifier = DOMPurify): string => {
+  // DOMPurify needs a DOM; there is nothing to sanitize with during server rendering
+  if (!purifier.isSupported) {
+    return escapeHtml(html);
+  }
+
+  configurePurifier(purifier);
+  return purifier.sanitize(html, PURIFY_CONFIG) as string;
+};
+
+// Render note Markdown to sanitized HTML that is safe to inject
+export const renderMarkdown = (source: string): string => {
+  if (!source) return '';
+
+  // Without a DOM to sanitize with, fall back to the escaped source text
+  if (typeof window === 'undefined' || !DOMPurify.isSupported) {
+    return `<p>${escapeHtml(source)}</p>`;
+  }
+
+  return sanitizeHtml(markdown.parse(source, { async: false }));
+};
+
+// Render note Markdown on the server, where there is no DOM to sanitize with.
+// Safe to inject because raw HTML never makes it into the output.
+export const renderMarkdownWithoutHtml = (source: string): string =>
+  source ? markdownWithoutHtml.parse(source, { async: false }) : '';
+
+// Block-level tokens, for renderers that don't produce HTML (e.g. the PDF export)
+export const lexMarkdown = (source: string): TokensList => markdown.lexer(source || '');
@@ -0,0 +1,289 @@
+// The app's own JSON backup format. Folders and notes keep the IDs they had in
+// the account they came from; importing assigns new ones and uses the old IDs only
+// to reconnect notes with their folders and folders with their parents.
+//
+// Version 2 made it a full account backup: it adds the profile, the inbox messages
+// and the trash. Version 1 files, which hold only folders and notes, still parse.
+// Attachment files are not part of a backup.
+
+import { MAX_NOTE_CONTENT_LENGTH } from './limits';
+
+export const BACKUP_FORMAT = 'notes-app-backup';
+export const BACKUP_VERSION = 2;
+
+export type BackupMessageType = 'welcome_back' | 'info' | 'warning' | 'success';
+
+const MESSAGE_TYPES: BackupMessageType[] = ['welcome_back', 'info', 'warning', 'success'];
+
+// The profile fields of `users/{uid}`. Role and login times are exported for the
+// record but never restored.
+export interface BackupUser {
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+  role: string | null;
+  createdAt: number | null;
+  lastLogin: number | null;
+  previousLogin: number | null;
+}
+
+export interface BackupMessage {
+  id: string;
+  type: BackupMessageType;
+  content: string;
+  timestamp: number;
+  read: boolean;
+}
+
+export interface BackupFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Set for folders in the trash
+}
+
+export interface BackupNote {
+  id: string;
+  title: string;
+  content: string;
+  folderId: string | null;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Set for notes in the trash
+  deletedFolderName?: string;
+}
+
+export interface NotesBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: BackupUser | null; // null in version 1 files
+  folders: BackupFolder[];
+  notes: BackupNote[];
+  messages: BackupMessage[];
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (record: Record<string, unknown>, key: string, where: string) => {
+  const value = record[key];
+  if (typeof value !== 'string') {
+    throw new BackupFormatError(`${where}: "${key}" must be a string`);
+  }
+  return value;
+};
+
+const readOptionalId = (record: Record<string, unknown>, key: string, where: string) => {
+  const value = record[key];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new BackupFormatError(`${where}: "${key}" must be a string or null`);
+  }
+  return value;
+};
+
+const readOptionalString = (record: Record<string, unknown>, key: string, where: string) => {
+  const value = record[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') {
+    throw new BackupFormatError(`${where}: "${key}" must be a string or null`);
+  }
+  return value;
+};
+
+const readTimestamp = (record: Record<string, unknown>, key: string, fallback: number) => {
+  const value = record[key];
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+  return fallback;
+};
+
+const readOptionalTimestamp = (record: Record<string, unknown>, key: string) => {
+  const value = readTimestamp(record, key, NaN);
+  return Number.isNaN(value) ? undefined : value;
+};
+
+const parseUser = (value: unknown): BackupUser | null => {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) throw new BackupFormatError('"user" must be an object');
+
+  return {
+    email: readOptionalString(value, 'email', 'user'),
+    displayName: readOptionalString(value, 'displayName', 'user'),
+    photoURL: readOptionalString(value, 'photoURL', 'user'),
+    role: readOptionalString(value, 'role', 'user'),
+    createdAt: readOptionalTimestamp(value, 'createdAt') ?? null,
+    lastLogin: readOptionalTimestamp(value, 'lastLogin') ?? null,
+    previousLogin: readOptionalTimestamp(value, 'previousLogin') ?? null
+  };
+};
+
+const parseMessage = (value: unknown, index: number): BackupMessage => {
+  const where = `messages[${index}]`;
+  if (!isRecord(value)) throw new BackupFormatError(`${where} must be an object`);
+
+  const type = value.type;
+  if (!MESSAGE_TYPES.includes(type as BackupMessageType)) {
+    throw new BackupFormatError(`${where}: unknown message type ${JSON.stringify(type)}`);
+  }
+
+  return {
+    id: readString(value, 'id', where),
+    type: type as BackupMessageType,
+    content: readString(value, 'content', where),
+    timestamp: readTimestamp(value, 'timestamp', Date.now()),
+    read: value.read === true
+  };
+};
+
+const withDeletedAt = (record: Record<string, unknown>) => {
+  const deletedAt = readOptionalTimestamp(record, 'deletedAt');
+  return deletedAt === undefined ? {} : { deletedAt };
+};
+
+const parseFolder = (value: unknown, index: number): BackupFolder => {
+  const where = `folders[${index}]`;
+  if (!isRecord(value)) throw new BackupFormatError(`${where} must be an object`);
+
+  const createdAt = readTimestamp(value, 'createdAt', Date.now());
+  return {
+    id: readString(value, 'id', where),
+    name: readString(value, 'name', where),
+    parentId: readOptionalId(value, 'parentId', where),
+    createdAt,
+    updatedAt: readTimestamp(value, 'updatedAt', createdAt),
+    ...withDeletedAt(value)
+  };
+};
+
+const parseNote = (value: unknown, index: number): BackupNote => {
+  const where = `notes[${index}]`;
+  if (!isRecord(value)) throw new BackupFormatError(`${where} must be an object`);
+
+  const tags = value.tags ?? [];
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new BackupFormatError(`${where}: "tags" must be a list of strings`);
+  }
+
+  // Anything longer would be rejected by the database halfway through a restore
+  const content = readString(value, 'content', where);
+  if (content.length > MAX_NOTE_CONTENT_LENGTH) {
+    throw new BackupFormatError(`${where}: "content" is longer than ${MAX_NOTE_CONTENT_LENGTH} characters`);
+  }
+
+  const createdAt = readTimestamp(value, 'createdAt', Date.now());
+  const deletedFolderName = readOptionalString(value, 'deletedFolderName', where);
+  return {
+    id: readString(value, 'id', where),
+    title: readString(value, 'title', where),
+    content,
+    folderId: readOptionalId(value, 'folderId', where),
+    tags,
+    createdAt,
+    updatedAt: readTimestamp(value, 'updatedAt', createdAt),
+    ...withDeletedAt(value),
+    ...(deletedFolderName ? { deletedFolderName } : {})
+  };
+};
+
+export const isNotesBackup = (value: unknown) =>
+  isRecord(value) && value.format === BACKUP_FORMAT;
+
+// Validate parsed JSON against the backup schema, throwing a BackupFormatError
+// that names the first problem found
+export const parseNotesBackup = (value: unknown): NotesBackup => {
+  if (!isNotesBackup(value)) {
+    throw new BackupFormatError('Not a notes backup file');
+  }
+
+  const backup = value as Record<string, unknown>;
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Unsupported backup version: ${String(backup.version)}`);
+  }
+  if (!Array.isArray(backup.folders) || !Array.isArray(backup.notes)) {
+    throw new BackupFormatError('A backup must contain "folders" and "notes" lists');
+  }
+  if (backup.messages !== undefined && !Array.isArray(backup.messages)) {
+    throw new BackupFormatError('"messages" must be a list');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: backup.version,
+    exportedAt: typeof backup.exportedAt === 'string' ? backup.exportedAt : '',
+    user: parseUser(backup.user),
+    folders: backup.folders.map(parseFolder),
+    notes: backup.notes.map(parseNote),
+    messages: Array.isArray(backup.messages) ? backup.messages.map(parseMessage) : []
+  };
+};
+
+const toRecords = (value: unknown): Array<[string, Record<string, unknown>]> =>
+  isRecord(value)
+    ? Object.entries(value).filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+    : [];
+
+const toStringOrNull = (value: unknown) => typeof value === 'string' ? value : null;
+
+const toTimestampOrNull = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+interface AccountData {
+  user: Record<string, unknown> | null; // `users/{uid}`
+  folders: Record<string, unknown> | null; // The user's own entries under `folders`
+  notes: Record<string, unknown> | null; // The user's own entries under `notes`
+}
+
+// Build a backup from the raw database values of an account, trash included.
+// The result goes through the same schema as a restore, so every backup we
+// write can be read back.
+export const createAccountBackup = (
+  { user, folders, notes }: AccountData,
+  exportedAt: Date = new Date()
+): NotesBackup => parseNotesBackup({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  user: user ? {
+    email: toStringOrNull(user.email),
+    displayName: toStringOrNull(user.displayName),
+    photoURL: toStringOrNull(user.photoURL),
+    role: toStringOrNull(user.role),
+    createdAt: toTimestampOrNull(user.createdAt),
+    lastLogin: toTimestampOrNull(user.lastLogin),
+    previousLogin: toTimestampOrNull(user.previousLogin)
+  } : null,
+  folders: toRecords(folders).map(([id, folder]) => ({
+    id,
+    name: toStringOrNull(folder.name) ?? '',
+    parentId: folder.parentId,
+    createdAt: folder.createdAt,
+    updatedAt: folder.updatedAt,
+    deletedAt: folder.deletedAt
+  })),
+  notes: toRecords(notes).map(([id, note]) => ({
+    id,
+    title: toStringOrNull(note.title) ?? '',
+    content: toStringOrNull(note.content) ?? '',
+    folderId: note.folderId,
+    tags: Array.isArray(note.tags) ? note.tags.filter(tag => typeof tag === 'string') : [],
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    deletedAt: note.deletedAt,
+    deletedFolderName: note.deletedFolderName
+  })),
+  messages: Array.isArray(user?.messages)
+    ? user.messages.filter(message => isRecord(message) && MESSAGE_TYPES.includes(message.type as BackupMessageType))
+    : []
+});
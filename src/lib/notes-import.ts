@@ -0,0 +1,285 @@
+import { unzipSync } from 'fflate';
+import { MANIFEST_FILE_NAME } from './markdown-export';
+import { BackupFormatError, isNotesBackup, parseNotesBackup } from './notes-backup';
+
+// Turns uploaded files into a plan of the folders and notes to create. Markdown
+// and text files become notes, directories inside ZIP archives become folders, and
+// JSON backups bring their own folder tree. Nothing is written here.
+
+export interface ImportSourceFile {
+  name: string; // Path for files inside an archive
+  data: Uint8Array;
+}
+
+export interface ImportFolder {
+  key: string;
+  name: string;
+  parentKey: string | null;
+}
+
+export interface ImportNote {
+  key: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt?: number;
+  updatedAt?: number;
+  folderKey: string | null; // null for notes that go straight into the destination
+  source: string; // File the note came from, for the preview
+}
+
+export interface ImportPlan {
+  folders: ImportFolder[]; // Parents always come before their children
+  notes: ImportNote[];
+  skipped: { source: string; reason: string }[];
+}
+
+const NOTE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+const getExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > name.lastIndexOf('/') ? name.slice(dot).toLowerCase() : '';
+};
+
+const getBaseName = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const extension = getExtension(name);
+  return extension ? name.slice(0, -extension.length) : name;
+};
+
+// TextDecoder drops a leading byte order mark by itself
+const decodeText = (data: Uint8Array) => new TextDecoder('utf-8').decode(data);
+
+// Files that archivers and operating systems add on their own
+const isSystemFile = (path: string) =>
+  path.split('/').some(part => part.startsWith('.') || part === '__MACOSX' || part === 'Thumbs.db');
+
+// Unquote a YAML scalar, covering what our own export and common tools write
+const parseYamlScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '' || value === 'null' || value === '~') return null;
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1)
+      .split(',')
+      .map(item => parseYamlScalar(item))
+      .filter(item => item !== null);
+  }
+  return value;
+};
+
+// Split YAML front matter off the top of a Markdown file. Only flat keys with
+// scalar, inline list or dash list values are understood; anything else is ignored.
+export const parseFrontMatter = (text: string): { attributes: Record<string, unknown>; body: string } => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { attributes: {}, body: text };
+
+  const attributes: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (listItem && listKey) {
+      (attributes[listKey] as unknown[]).push(parseYamlScalar(listItem[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === '') {
+      attributes[key] = [];
+      listKey = key;
+    } else {
+      attributes[key] = parseYamlScalar(rawValue);
+      listKey = null;
+    }
+  }
+
+  return { attributes, body: text.slice(match[0].length).replace(/^\r?\n/, '') };
+};
+
+const toTimestamp = (value: unknown) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return Date.parse(value);
+  return undefined;
+};
+
+// Title from front matter, then the first heading, then the file name
+const parseNoteFile = (path: string, text: string, folderKey: string | null, key: string): ImportNote => {
+  const isMarkdown = getExtension(path) !== '.txt';
+  const { attributes, body } = isMarkdown ? parseFrontMatter(text) : { attributes: {}, body: text };
+  const heading = isMarkdown ? body.match(/^#\s+(.+)$/m)?.[1].trim() : undefined;
+  const title = (typeof attributes.title === 'string' && attributes.title.trim()) || heading || getBaseName(path);
+  const tags = Array.isArray(attributes.tags)
+    ? attributes.tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')
+    : [];
+
+  return {
+    key,
+    title,
+    content: body.trim(),
+    tags,
+    createdAt: toTimestamp(attributes.createdAt),
+    updatedAt: toTimestamp(attributes.updatedAt),
+    folderKey,
+    source: path
+  };
+};
+
+// Only what's outside the trash is imported; restoring a whole account, trash
+// included, is done from the profile page
+const addBackup = (plan: ImportPlan, source: string, value: unknown) => {
+  const parsed = parseNotesBackup(value);
+  const backup = {
+    folders: parsed.folders.filter(folder => !folder.deletedAt),
+    notes: parsed.notes.filter(note => !note.deletedAt)
+  };
+  const folderIds = new Set(backup.folders.map(folder => folder.id));
+  const toKey = (id: string) => `${source}#${id}`;
+
+  // Order folders so every parent is planned before its children
+  const added = new Set<string>();
+  const addFolder = (id: string, seen: Set<string>) => {
+    if (added.has(id) || seen.has(id)) return;
+    const folder = backup.folders.find(candidate => candidate.id === id);
+    if (!folder) return;
+
+    seen.add(id);
+    const parentId = folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : null;
+    if (parentId) addFolder(parentId, seen);
+
+    added.add(id);
+    plan.folders.push({
+      key: toKey(id),
+      name: folder.name,
+      // A parent that's part of a cycle is dropped, leaving the folder at the top
+      parentKey: parentId && added.has(parentId) ? toKey(parentId) : null
+    });
+  };
+  backup.folders.forEach(folder => addFolder(folder.id, new Set()));
+
+  backup.notes.forEach(note => {
+    plan.notes.push({
+      key: toKey(`note:${note.id}`),
+      title: note.title,
+      content: note.content,
+      tags: note.tags,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      folderKey: note.folderId && folderIds.has(note.folderId) ? toKey(note.folderId) : null,
+      source
+    });
+  });
+};
+
+// Folders for every directory in a path, created on first use
+const ensureDirectoryFolders = (plan: ImportPlan, keyPrefix: string, directories: string[]) => {
+  let parentKey: string | null = null;
+  directories.forEach((name, index) => {
+    const key = `${keyPrefix}${directories.slice(0, index + 1).join('/')}/`;
+    if (!plan.folders.some(folder => folder.key === key)) {
+      plan.folders.push({ key, name, parentKey });
+    }
+    parentKey = key;
+  });
+  return parentKey;
+};
+
+const addZip = (plan: ImportPlan, source: string, data: Uint8Array) => {
+  const entries = unzipSync(data);
+
+  Object.keys(entries)
+    .filter(path => !isSystemFile(path))
+    .sort()
+    .forEach(path => {
+      const directories = path.split('/').filter(Boolean);
+      const isDirectory = path.endsWith('/');
+      const fileName = isDirectory ? null : directories.pop();
+      const folderKey = ensureDirectoryFolders(plan, `${source}:`, directories);
+      if (!fileName) return;
+
+      // The manifest of our own export only repeats what the files say
+      if (directories.length === 0 && fileName === MANIFEST_FILE_NAME) return;
+
+      const entryName = `${source}/${path}`;
+      if (!NOTE_EXTENSIONS.includes(getExtension(fileName))) {
+        plan.skipped.push({ source: entryName, reason: 'Unsupported file type' });
+        return;
+      }
+      plan.notes.push(parseNoteFile(fileName, decodeText(entries[path]), folderKey, entryName));
+    });
+};
+
+export const buildImportPlan = (files: ImportSourceFile[]): ImportPlan => {
+  const plan: ImportPlan = { folders: [], notes: [], skipped: [] };
+
+  files.forEach(({ name, data }) => {
+    const extension = getExtension(name);
+    try {
+      if (extension === '.zip') {
+        addZip(plan, name, data);
+      } else if (extension === '.json') {
+        const value = JSON.parse(decodeText(data));
+        if (!isNotesBackup(value)) {
+          plan.skipped.push({ source: name, reason: 'Not a notes backup file' });
+          return;
+        }
+        addBackup(plan, name, value);
+      } else if (NOTE_EXTENSIONS.includes(extension)) {
+        plan.notes.push(parseNoteFile(name, decodeText(data), null, name));
+      } else {
+        plan.skipped.push({ source: name, reason: 'Unsupported file type' });
+      }
+    } catch (error) {
+      const reason = error instanceof BackupFormatError || error instanceof SyntaxError
+        ? error.message
+        : 'Could not be read';
+      plan.skipped.push({ source: name, reason });
+    }
+  });
+
+  return plan;
+};
+
+// Folder names from the top of the import down to the given folder
+export const getImportFolderPath = (plan: ImportPlan, folderKey: string | null): string[] => {
+  const path: string[] = [];
+  let key = folderKey;
+  while (key) {
+    const folder = plan.folders.find(candidate => candidate.key === key);
+    if (!folder) break;
+    path.unshift(folder.name);
+    key = folder.parentKey;
+  }
+  return path;
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+// Notes whose title matches an existing note, or an earlier note in the same import
+export const findDuplicateNotes = (plan: ImportPlan, existingTitles: string[]) => {
+  const seen = new Set(existingTitles.map(normalizeTitle));
+  const duplicates = new Set<string>();
+
+  plan.notes.forEach(note => {
+    const title = normalizeTitle(note.title);
+    if (seen.has(title)) {
+      duplicates.add(note.key);
+    } else {
+      seen.add(title);
+    }
+  });
+
+  return duplicates;
+};
@@ -0,0 +1,292 @@
+import { describe, expect, it } from 'vitest';
+import { jsPDF } from 'jspdf';
+import { NotesPdfDocument, NotesPdfNote, generateNotesPdf, layoutNotesPdf } from './notes-pdf';
+
+const paragraph = (words: number) =>
+  Array.from({ length: words }, (_, index) => `word${index}`).join(' ');
+
+const makeNotes = (count: number, content = ''): NotesPdfNote[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `note-${index}`, title: `Note ${index + 1}`, content }));
+
+const makeDocument = (overrides: Partial<NotesPdfDocument> = {}): NotesPdfDocument => ({
+  title: 'My Notes',
+  author: 'ada@example.com',
+  generatedAt: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)),
+  sections: [{ id: 'work', name: 'Work', notes: [{ id: 'a', title: 'Plans', content: 'Ship it.' }] }],
+  pageSize: 'a4',
+  fontSize: 11,
+  includeToc: false,
+  ...overrides
+});
+
+const PT_PER_MM = 72 / 25.4;
+
+interface PlacedText {
+  text: string;
+  x: number; // mm from the left edge
+  y: number; // mm from the bottom edge
+}
+
+// Text drawn on a page, one entry per `text()` call, in drawing order
+const getPlacedText = (doc: jsPDF, page: number): PlacedText[] => {
+  const content = (doc.internal as unknown as { pages: string[][] }).pages[page].join('\n');
+  return Array.from(content.matchAll(/([\d.]+) ([\d.]+) Td\n\((.*)\) Tj/g), match => ({
+    text: match[3].replace(/\\([()\\])/g, '$1'),
+    x: Number(match[1]) / PT_PER_MM,
+    y: Number(match[2]) / PT_PER_MM
+  }));
+};
+
+const getPageText = (doc: jsPDF, page: number) => getPlacedText(doc, page).map(placed => placed.text);
+
+interface LinkAnnotation {
+  type: string;
+  options: { pageNumber: number; top: number };
+}
+
+const getLinks = (doc: jsPDF, page: number) =>
+  (doc.getPageInfo(page).pageContext as { annotations: LinkAnnotation[] }).annotations
+    .filter(annotation => annotation.type === 'link');
+
+describe('layoutNotesPdf', () => {
+  it('fits a short document on one page', () => {
+    const { doc, pageCount, toc, sectionByPage } = layoutNotesPdf(makeDocument());
+
+    expect(pageCount).toBe(1);
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(toc).toEqual([]);
+    expect(sectionByPage).toEqual({ 1: 'Work' });
+
+    const text = getPageText(doc, 1);
+    expect(text).toEqual(expect.arrayContaining([
+      'MY NOTES',
+      'User: ada@example.com',
+      '1. Work',
+      '1.1  Plans',
+      'Ship',
+      'it.',
+      'Page 1 of 1'
+    ]));
+    expect(text).not.toContain('Table of Contents');
+  });
+
+  it('falls back to placeholders for a missing author, note title and empty folder', () => {
+    const { doc } = layoutNotesPdf(makeDocument({
+      author: null,
+      sections: [
+        { id: 'empty', name: 'Empty', notes: [] },
+        { id: 'work', name: 'Work', notes: [{ id: 'a', title: '', content: '' }] }
+      ]
+    }));
+
+    expect(getPageText(doc, 1)).toEqual(expect.arrayContaining([
+      'User: Unknown',
+      'No notes exist for this folder',
+      '2.1  Untitled Note'
+    ]));
+  });
+
+  it('wraps long paragraphs to the width of the content column', () => {
+    const content = paragraph(120);
+    const { doc } = layoutNotesPdf(makeDocument({
+      sections: [{ id: 'work', name: 'Work', notes: [{ id: 'a', title: 'Long', content }] }]
+    }));
+
+    // Words are drawn one run at a time; those on the same baseline make up a line
+    const words = getPlacedText(doc, 1).filter(placed => placed.text.startsWith('word'));
+    expect(words.map(word => word.text).join(' ')).toBe(content);
+
+    const lines = new Map<number, PlacedText[]>();
+    words.forEach((word) => {
+      lines.set(word.y, [...(lines.get(word.y) || []), word]);
+    });
+    expect(lines.size).toBeGreaterThan(1);
+
+    // A4 is 210 mm wide; note content is indented 40 mm and has a 20 mm right margin
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    lines.forEach((line) => {
+      const last = line[line.length - 1];
+      expect(line[0].x).toBeCloseTo(40, 1);
+      expect(last.x + doc.getTextWidth(last.text)).toBeLessThanOrEqual(190.01);
+    });
+
+    // Every line but the last is full: the next word wouldn't have fit on it
+    const ordered = Array.from(lines.values());
+    ordered.slice(0, -1).forEach((line, index) => {
+      const last = line[line.length - 1];
+      const next = ordered[index + 1][0];
+      expect(last.x + doc.getTextWidth(`${last.text} ${next.text}`)).toBeGreaterThan(190);
+    });
+  });
+
+  it('wraps note titles that are too long for one line', () => {
+    const title = `A ${'very '.repeat(30)}long title`;
+    const { doc } = layoutNotesPdf(makeDocument({
+      sections: [{ id: 'work', name: 'Work', notes: [{ id: 'a', title, content: '' }] }]
+    }));
+
+    const text = getPageText(doc, 1);
+    const first = text.findIndex(line => line.startsWith('1.1  A very'));
+    expect(first).toBeGreaterThan(-1);
+    expect(text[first + 1]).toMatch(/^very/);
+    expect(text.slice(first).join(' ')).toContain('long title');
+  });
+
+  it('continues onto new pages with running headers and page footers', () => {
+    const { doc, pageCount, sectionByPage } = layoutNotesPdf(makeDocument({
+      sections: [
+        { id: 'work', name: 'Work', notes: makeNotes(6, paragraph(400)) },
+        { id: 'home', name: 'Home', notes: makeNotes(3, paragraph(400)) }
+      ]
+    }));
+
+    expect(pageCount).toBeGreaterThan(2);
+    expect(doc.getNumberOfPages()).toBe(pageCount);
+
+    for (let page = 1; page <= pageCount; page++) {
+      const text = getPageText(doc, page);
+      expect(text).toContain(`Page ${page} of ${pageCount}`);
+      if (page > 1) {
+        expect(text).toContain('My Notes');
+        expect(text).toContain(sectionByPage[page]);
+      }
+    }
+
+    // Every word of the notes made it into the document, in order
+    const allText = Array.from({ length: pageCount }, (_, index) => getPageText(doc, index + 1)).flat();
+    const words = allText.filter(line => line.startsWith('word')).join(' ').split(' ');
+    expect(words).toHaveLength(9 * 400);
+
+    // The running header names the folder each page starts in
+    const homePage = Object.keys(sectionByPage).map(Number).find(page => sectionByPage[page] === 'Home');
+    expect(homePage).toBeDefined();
+    expect(sectionByPage[1]).toBe('Work');
+    expect(sectionByPage[pageCount]).toBe('Home');
+  });
+
+  it('starts a new page instead of leaving a heading at the bottom of one', () => {
+    const { toc } = layoutNotesPdf(makeDocument({
+      includeToc: true,
+      sections: [
+        { id: 'work', name: 'Work', notes: makeNotes(12, paragraph(90)) },
+        { id: 'home', name: 'Home', notes: makeNotes(12, paragraph(90)) }
+      ]
+    }));
+
+    // A4 is 297 mm tall with 20 mm margins. Folder headings keep 30 mm free below
+    // them for the first note, note headings 20 mm for the first lines.
+    toc.forEach((entry) => {
+      expect(entry.y).toBeLessThanOrEqual(297 - 20 - (entry.isFolder ? 30 : 20));
+    });
+    expect(new Set(toc.map(entry => entry.page)).size).toBeGreaterThan(1);
+  });
+
+  it('uses more pages for smaller page sizes', () => {
+    const sections = [{ id: 'work', name: 'Work', notes: makeNotes(4, paragraph(300)) }];
+    const a4 = layoutNotesPdf(makeDocument({ sections, pageSize: 'a4' }));
+    const a5 = layoutNotesPdf(makeDocument({ sections, pageSize: 'a5' }));
+    const letter = layoutNotesPdf(makeDocument({ sections, pageSize: 'letter' }));
+
+    expect(a5.pageCount).toBeGreaterThan(a4.pageCount);
+    expect(letter.doc.internal.pageSize.getWidth()).toBeCloseTo(215.9, 1);
+  });
+
+  describe('with a table of contents', () => {
+    it('lists every folder and note with the page its heading is on', () => {
+      const { doc, toc } = layoutNotesPdf(makeDocument({
+        includeToc: true,
+        sections: [
+          { id: 'work', name: 'Work', notes: makeNotes(2, 'Text') },
+          { id: 'home', name: 'Home', notes: makeNotes(1, 'Text') }
+        ]
+      }));
+
+      expect(toc.map(entry => [entry.label, entry.isFolder])).toEqual([
+        ['1. Work', true],
+        ['1.1  Note 1', false],
+        ['1.2  Note 2', false],
+        ['2. Home', true],
+        ['2.1  Note 1', false]
+      ]);
+
+      const tocText = getPageText(doc, 1);
+      expect(tocText).toContain('Table of Contents');
+      toc.forEach((entry) => {
+        expect(entry.tocPage).toBe(1);
+        expect(tocText).toContain(entry.label);
+        expect(tocText).toContain(String(entry.page));
+        expect(getPageText(doc, entry.page)).toContain(entry.label);
+      });
+
+      // The notes start on the page after the table of contents
+      expect(toc[0].page).toBe(2);
+      expect(toc[0].y).toBe(20);
+    });
+
+    it('spreads a long table of contents over several pages before the notes', () => {
+      const { doc, toc, pageCount } = layoutNotesPdf(makeDocument({
+        includeToc: true,
+        sections: [
+          { id: 'work', name: 'Work', notes: makeNotes(40, 'Text') },
+          { id: 'home', name: 'Home', notes: makeNotes(40, 'Text') }
+        ]
+      }));
+
+      const tocPages = Math.max(...toc.map(entry => entry.tocPage));
+      expect(tocPages).toBeGreaterThan(1);
+      expect(getPageText(doc, 2)).toContain('Table of Contents (continued)');
+
+      // Entries fill each page top to bottom, and no heading is on a contents page
+      for (let index = 1; index < toc.length; index++) {
+        const [previous, entry] = [toc[index - 1], toc[index]];
+        expect(entry.tocPage > previous.tocPage || entry.tocY > previous.tocY).toBe(true);
+        expect(entry.page).toBeGreaterThanOrEqual(previous.page);
+      }
+      expect(toc[0].page).toBe(tocPages + 1);
+      expect(Math.max(...toc.map(entry => entry.tocY))).toBeLessThanOrEqual(297 - 20);
+      expect(getPageText(doc, pageCount)).toContain(`Page ${pageCount} of ${pageCount}`);
+    });
+
+    it('links every entry to its heading', () => {
+      const { doc, toc } = layoutNotesPdf(makeDocument({
+        includeToc: true,
+        sections: [
+          { id: 'work', name: 'Work', notes: makeNotes(30, paragraph(40)) },
+          { id: 'home', name: 'Home', notes: makeNotes(30, paragraph(40)) }
+        ]
+      }));
+
+      const tocPages = Math.max(...toc.map(entry => entry.tocPage));
+      for (let page = 1; page <= tocPages; page++) {
+        const entries = toc.filter(entry => entry.tocPage === page);
+        expect(getLinks(doc, page).map(({ options }) => [options.pageNumber, options.top])).toEqual(
+          entries.map(entry => [entry.page, Math.max(entry.y - 10, 0)])
+        );
+      }
+      expect(getLinks(doc, tocPages + 1)).toEqual([]);
+    });
+  });
+
+  it('adds no links without a table of contents', () => {
+    const { doc, pageCount } = layoutNotesPdf(makeDocument({
+      sections: [{ id: 'work', name: 'Work', notes: makeNotes(10, paragraph(200)) }]
+    }));
+
+    for (let page = 1; page <= pageCount; page++) {
+      expect(getLinks(doc, page)).toEqual([]);
+    }
+  });
+});
+
+describe('generateNotesPdf', () => {
+  it('returns the laid out document as a PDF file', async () => {
+    const blob = generateNotesPdf(makeDocument({ includeToc: true }));
+
+    expect(blob.type).toBe('application/pdf');
+    const text = await blob.text();
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text).toContain('(Page 2 of 2) Tj');
+    expect(text).toContain('/Subtype /Link');
+  });
+});
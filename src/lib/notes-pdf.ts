@@ -0,0 +1,246 @@
+import { jsPDF } from 'jspdf';
+import { writeMarkdownToPdf } from './markdown-pdf';
+
+// Lays out folders of notes as a PDF: a title block, an optional table of contents
+// with page numbers and links, one numbered section per folder, and running
+// headers and "page X of Y" footers. Takes plain data, so any page can use it.
+
+export type PdfPageSize = 'a4' | 'letter' | 'a5';
+
+export interface NotesPdfNote {
+  id: string;
+  title: string;
+  content: string; // Markdown
+}
+
+export interface NotesPdfSection {
+  id: string;
+  name: string; // Folder path, e.g. "Work / Projects"
+  notes: NotesPdfNote[];
+}
+
+export interface NotesPdfDocument {
+  title: string;
+  author: string | null; // Shown as "User: ..." under the title
+  generatedAt: Date;
+  sections: NotesPdfSection[];
+  pageSize: PdfPageSize;
+  fontSize: number; // Body text size in pt
+  includeToc: boolean;
+}
+
+export interface NotesPdfTocEntry {
+  label: string;
+  isFolder: boolean;
+  tocPage: number; // Page and baseline of the entry in the table of contents
+  tocY: number;
+  page: number; // Page and position of the heading it links to
+  y: number;
+}
+
+export interface NotesPdfLayout {
+  doc: jsPDF;
+  pageCount: number;
+  toc: NotesPdfTocEntry[]; // Empty without a table of contents
+  sectionByPage: Record<number, string>; // Folder named in each page's running header
+}
+
+const MARGIN = 20;
+const FOLDER_TOC_LINE_HEIGHT = 8;
+const NOTE_TOC_LINE_HEIGHT = 6;
+
+// y of the first line of the table of contents and, without one, of the notes
+const TOC_START_Y = 70;
+const BODY_START_Y = 60;
+
+const getTocLabels = (sections: NotesPdfSection[]) =>
+  sections.flatMap((section, sectionIndex) => [
+    { label: `${sectionIndex + 1}. ${section.name}`, isFolder: true },
+    ...section.notes.map((note, noteIndex) => ({
+      label: `${sectionIndex + 1}.${noteIndex + 1}  ${note.title || 'Untitled Note'}`,
+      isFolder: false
+    }))
+  ]);
+
+// Lay out the whole document. Returns the jsPDF instance together with where the
+// table of contents entries and their targets ended up.
+export const layoutNotesPdf = (input: NotesPdfDocument): NotesPdfLayout => {
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: input.pageSize });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const bottom = pageHeight - MARGIN;
+  const folderIndent = MARGIN;
+  const noteIndent = MARGIN + 10;
+  const contentIndent = MARGIN + 20;
+  const contentWidth = pageWidth - contentIndent - MARGIN;
+
+  // Title block
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.text(doc.splitTextToSize(input.title.toUpperCase(), pageWidth - 2 * MARGIN)[0], pageWidth / 2, 20, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(`User: ${input.author || 'Unknown'}`, MARGIN, 35);
+
+  // dd/mm/yyyy, hh:mm:ss AM/PM
+  const formattedDate = input.generatedAt.toLocaleDateString('en-GB');
+  const formattedTime = input.generatedAt.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: true
+  });
+  doc.text(`Generated on: ${formattedDate}, ${formattedTime}`, MARGIN, 42);
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(MARGIN, 48, pageWidth - MARGIN, 48);
+
+  // Every entry gets its place in the table of contents up front. The targets are
+  // filled in while the notes are laid out, and the entries are written last.
+  const toc: NotesPdfTocEntry[] = [];
+
+  if (input.includeToc) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text('Table of Contents', MARGIN, BODY_START_Y);
+
+    let tocPage = 1;
+    let tocY = TOC_START_Y;
+    getTocLabels(input.sections).forEach(({ label, isFolder }) => {
+      if (tocY > bottom) {
+        tocPage++;
+        tocY = MARGIN + 10;
+      }
+      toc.push({ label, isFolder, tocPage, tocY, page: 0, y: 0 });
+      tocY += isFolder ? FOLDER_TOC_LINE_HEIGHT : NOTE_TOC_LINE_HEIGHT;
+    });
+
+    // Reserve the pages the table of contents needs, then start the notes after it
+    for (let page = 1; page < tocPage; page++) {
+      doc.addPage();
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(14);
+      doc.text('Table of Contents (continued)', MARGIN, MARGIN);
+    }
+    doc.addPage();
+  }
+
+  let y = input.includeToc ? MARGIN : BODY_START_Y;
+  let tocIndex = 0;
+  const sectionByPage: Record<number, string> = {};
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const markTocTarget = () => {
+    const entry = toc[tocIndex++];
+    if (entry) {
+      entry.page = doc.getNumberOfPages();
+      entry.y = y;
+    }
+  };
+
+  // Bold heading, wrapped when the title is too long for one line
+  const writeHeading = (text: string, x: number, fontSize: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(fontSize);
+    const lineHeight = fontSize * 0.5;
+    (doc.splitTextToSize(text, pageWidth - x - MARGIN) as string[]).forEach((line) => {
+      ensureSpace(lineHeight);
+      doc.text(line, x, y);
+      y += lineHeight;
+    });
+  };
+
+  input.sections.forEach((section, sectionIndex) => {
+    // Keep a folder heading together with the start of its first note
+    ensureSpace(30);
+    const startPage = doc.getNumberOfPages();
+    markTocTarget();
+    writeHeading(`${sectionIndex + 1}. ${section.name}`, folderIndent, input.fontSize + 4);
+    y += 3;
+
+    if (section.notes.length === 0) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(input.fontSize);
+      doc.text('No notes exist for this folder', noteIndent, y);
+      y += 8;
+    }
+
+    section.notes.forEach((note, noteIndex) => {
+      ensureSpace(20);
+      markTocTarget();
+      writeHeading(`${sectionIndex + 1}.${noteIndex + 1}  ${note.title || 'Untitled Note'}`, noteIndent, input.fontSize + 2);
+      y += 2;
+
+      if (note.content) {
+        y = writeMarkdownToPdf(doc, note.content, y, {
+          x: contentIndent,
+          width: contentWidth,
+          pageHeight,
+          margin: MARGIN,
+          fontSize: input.fontSize
+        });
+      }
+      y += 8;
+    });
+
+    // Pages that start inside this folder show its name in the running header
+    for (let page = startPage; page <= doc.getNumberOfPages(); page++) {
+      if (!sectionByPage[page]) sectionByPage[page] = section.name;
+    }
+    y += 6;
+  });
+
+  // Now that every heading has a page, write the table of contents with links
+  toc.forEach((entry) => {
+    const x = entry.isFolder ? MARGIN : MARGIN + 8;
+    const lineHeight = entry.isFolder ? FOLDER_TOC_LINE_HEIGHT : NOTE_TOC_LINE_HEIGHT;
+    const pageLabel = String(entry.page);
+
+    doc.setPage(entry.tocPage);
+    doc.setFont('helvetica', entry.isFolder ? 'bold' : 'normal');
+    doc.setFontSize(entry.isFolder ? 12 : 11);
+
+    const available = pageWidth - MARGIN - x - doc.getTextWidth(pageLabel) - 4;
+    const lines = doc.splitTextToSize(entry.label, available) as string[];
+    doc.text(lines.length > 1 ? `${lines[0].replace(/\s+\S*$/, '')}...` : lines[0], x, entry.tocY);
+    doc.text(pageLabel, pageWidth - MARGIN, entry.tocY, { align: 'right' });
+    doc.link(x, entry.tocY - lineHeight * 0.75, pageWidth - MARGIN - x, lineHeight, {
+      pageNumber: entry.page,
+      top: Math.max(entry.y - 10, 0)
+    });
+  });
+
+  // Running headers and footers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(128, 128, 128);
+
+    // The first page already has the full title
+    if (page > 1) {
+      const halfWidth = (pageWidth - 2 * MARGIN) / 2 - 2;
+      doc.text(doc.splitTextToSize(input.title, halfWidth)[0], MARGIN, 12);
+      if (sectionByPage[page]) {
+        doc.text(doc.splitTextToSize(sectionByPage[page], halfWidth)[0], pageWidth - MARGIN, 12, { align: 'right' });
+      }
+      doc.line(MARGIN, 14, pageWidth - MARGIN, 14);
+    }
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  return { doc, pageCount, toc, sectionByPage };
+};
+
+export const generateNotesPdf = (input: NotesPdfDocument): Blob =>
+  layoutNotesPdf(input).doc.output('blob');
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './data-backend';
+import { createRepositories } from './repositories';
+import { NoteConflictError } from './notes-repository';
+import { folderRecord, noteRecord } from '@/test/records';
+
+// Work holds two notes, Shared is shared with an editor, and the trash has a note
+// whose folder was purged
+const setup = () => {
+  const backend = createMemoryBackend({
+    users: {
+      'user-1': { folders: ['work', 'home', 'shared'] }
+    },
+    folders: {
+      work: folderRecord({ name: 'Work', noteCount: 2 }),
+      home: folderRecord({ name: 'Home' }),
+      shared: folderRecord({ name: 'Shared', members: { editor: { role: 'editor', email: 'editor@example.com', addedAt: 1 } } })
+    },
+    notes: {
+      plans: noteRecord({ folderId: 'work', title: 'Plans', tags: ['todo', 'work'] }),
+      ideas: noteRecord({ folderId: 'work', title: 'Ideas', tags: ['idea'] }),
+      orphan: noteRecord({ folderId: 'gone', deletedAt: 50, deletedFolderName: 'Gone' })
+    },
+    shares: {
+      token: { userId: 'user-1', noteId: 'plans' }
+    },
+    drafts: {
+      'user-1': { plans: { title: 'Plans', content: 'Draft', updatedAt: 2 } }
+    }
+  });
+  return { backend, ...createRepositories(backend) };
+};
+
+describe('createNotesRepository', () => {
+  it('creates a note with its first revision and counts it in its folder', async () => {
+    const { backend, notes } = setup();
+
+    await notes.create('user-1', 'new', { title: 'New', content: 'Hi', createdAt: 100, updatedAt: 100, tags: ['#To Do'] }, 'home');
+
+    expect(await backend.get('notes/new')).toEqual({
+      title: 'New',
+      content: 'Hi',
+      createdAt: 100,
+      updatedAt: 100,
+      userId: 'user-1',
+      contentLength: 2,
+      folderId: 'home',
+      tags: ['to-do']
+    });
+    expect(Object.values(await backend.get<object>('noteRevisions/new') || {})).toHaveLength(1);
+    expect(await backend.get('folders/home/noteCount')).toBe(1);
+  });
+
+  it('creates notes in shared folders for the folder owner', async () => {
+    const { backend, notes } = setup();
+    const fields = { title: 'New', content: '', createdAt: 100, updatedAt: 100 };
+
+    await notes.create('editor', 'new', fields, 'shared');
+
+    expect(await backend.get('notes/new/userId')).toBe('user-1');
+    await expect(notes.create('stranger', 'other', fields, 'shared')).rejects.toThrow('do not have permission');
+  });
+
+  it('rejects an update based on a version that was saved over', async () => {
+    const { backend, notes } = setup();
+    await notes.update('user-1', 'plans', { content: 'Saved' }, { expectedUpdatedAt: 1 }, 100);
+
+    const saving = notes.update('user-1', 'plans', { content: 'Stale' }, { expectedUpdatedAt: 1 }, 200);
+
+    await expect(saving).rejects.toBeInstanceOf(NoteConflictError);
+    expect(await backend.get('notes/plans')).toMatchObject({ content: 'Saved', contentLength: 5, updatedAt: 100 });
+  });
+
+  it('moves a note\'s count along with it', async () => {
+    const { backend, notes } = setup();
+
+    await notes.move('user-1', 'plans', 'home', 100);
+
+    expect(await backend.get('folders/work/noteCount')).toBe(1);
+    expect(await backend.get('folders/home/noteCount')).toBe(1);
+    await expect(notes.move('editor', 'ideas', 'home')).rejects.toThrow('unauthorized');
+  });
+
+  it('moves notes to the trash and back into their folder', async () => {
+    const { backend, notes } = setup();
+
+    await notes.trash('user-1', 'plans', 100);
+    expect(await backend.get('notes/plans')).toMatchObject({ deletedAt: 100, deletedFolderName: 'Work' });
+    expect(await backend.get('folders/work/noteCount')).toBe(1);
+
+    await notes.restore('user-1', 'plans', 200);
+    expect(await backend.get('notes/plans')).toMatchObject({ folderId: 'work', updatedAt: 200 });
+    expect(await backend.get('notes/plans/deletedAt')).toBeNull();
+    expect(await backend.get('folders/work/noteCount')).toBe(2);
+  });
+
+  it('brings a trashed folder back when one of its notes is restored', async () => {
+    const { backend, folders, notes } = setup();
+    await folders.trash('user-1', 'work', 100);
+
+    await notes.restore('user-1', 'plans');
+
+    expect(await backend.get('folders/work/deletedAt')).toBeNull();
+    expect(await backend.get('folders/work/noteCount')).toBe(1);
+    expect(await backend.get('notes/ideas/deletedAt')).toBe(100);
+  });
+
+  it('recreates a purged folder by name for restored notes', async () => {
+    const { backend, folders, notes } = setup();
+
+    await notes.restore('user-1', 'orphan', 100);
+
+    const [folderId] = (await folders.listOwned('user-1')).filter(candidate => candidate.name === 'Gone').map(candidate => candidate.id);
+    expect(await backend.get(`folders/${folderId}`)).toMatchObject({ userId: 'user-1', noteCount: 1 });
+    expect(await backend.get('notes/orphan/folderId')).toBe(folderId);
+    expect(await backend.get<string[]>('users/user-1/folders')).toContain(folderId);
+    await expect(notes.restore('user-1', 'plans')).rejects.toThrow('not found in trash');
+  });
+
+  it('purges only notes in the trash', async () => {
+    const { backend, notes } = setup();
+
+    await expect(notes.purge('user-1', ['plans'])).rejects.toThrow('not found in trash');
+    expect(await notes.purge('user-1', ['plans', 'orphan'])).toEqual(['orphan']);
+    expect(await backend.get('notes/orphan')).toBeNull();
+    expect(await backend.get('notes/plans')).not.toBeNull();
+  });
+
+  it('empties the trash of notes and folders', async () => {
+    const { backend, folders, notes } = setup();
+    await folders.trash('user-1', 'work', 100);
+
+    expect((await notes.emptyTrash('user-1')).sort()).toEqual(['ideas', 'orphan', 'plans']);
+
+    expect(await backend.get('notes')).toBeNull();
+    expect(await backend.get('folders/work')).toBeNull();
+    expect(await backend.get('users/user-1/folders')).toEqual(['home', 'shared']);
+    expect(await notes.emptyTrash('user-1')).toEqual([]);
+  });
+
+  it('creates several notes at once and undoes it', async () => {
+    const { backend, notes } = setup();
+
+    const change = await notes.createMany('user-1', [
+      { ...noteRecord({ folderId: 'home' }), id: 'one' },
+      { ...noteRecord({ folderId: 'home', deletedAt: 50 }), id: 'two' }
+    ], 100);
+
+    expect(change.noteIds).toEqual(['one', 'two']);
+    expect(await backend.get('folders/home/noteCount')).toBe(1);
+    expect(await backend.get('noteRevisions/two')).not.toBeNull();
+
+    await notes.undoBulkChange(change);
+    expect(await backend.get('notes/one')).toBeNull();
+    expect(await backend.get('noteRevisions/two')).toBeNull();
+    expect(await backend.get('folders/home/noteCount')).toBe(0);
+  });
+
+  it('moves several notes and undoes the move', async () => {
+    const { backend, notes } = setup();
+
+    const change = await notes.moveMany('user-1', ['plans', 'ideas', 'missing'], 'home', 100);
+
+    expect(change).toMatchObject({ noteIds: ['plans', 'ideas'], skipped: 1 });
+    expect(await backend.get('folders/home/noteCount')).toBe(2);
+
+    await notes.undoBulkChange(change);
+    expect(await backend.get('notes/plans')).toMatchObject({ folderId: 'work', updatedAt: 1 });
+    expect(await backend.get('folders/work/noteCount')).toBe(2);
+    expect(await backend.get('folders/home/noteCount')).toBe(0);
+  });
+
+  it('leaves notes changed since a bulk change out of its undo', async () => {
+    const { backend, notes } = setup();
+    const change = await notes.moveMany('user-1', ['plans', 'ideas'], 'home', 100);
+    await notes.update('user-1', 'plans', { content: 'Edited elsewhere' }, {}, 200);
+
+    expect(await notes.undoBulkChange(change)).toEqual(['plans']);
+
+    expect(await backend.get('notes/plans')).toMatchObject({ folderId: 'home', content: 'Edited elsewhere', updatedAt: 200 });
+    expect(await backend.get('notes/ideas')).toMatchObject({ folderId: 'work', updatedAt: 1 });
+    expect(await backend.get('folders/work/noteCount')).toBe(1);
+    expect(await backend.get('folders/home/noteCount')).toBe(1);
+  });
+
+  it('keeps copies that were edited or deleted before the duplicate is undone', async () => {
+    const { backend, notes } = setup();
+    const change = await notes.duplicateMany('user-1', ['plans', 'ideas'], 100);
+    const [edited, deleted] = change.noteIds;
+    await notes.update('user-1', edited, { title: 'Kept' }, {}, 200);
+    // Deleted as `trash` and `purge` would, taking it out of its folder's count
+    await backend.update({ [`notes/${deleted}`]: null, 'folders/work/noteCount': 3 });
+
+    expect(await notes.undoBulkChange(change)).toEqual([edited, deleted]);
+
+    expect(await backend.get(`notes/${edited}`)).toMatchObject({ title: 'Kept' });
+    expect(await backend.get('folders/work/noteCount')).toBe(3);
+  });
+
+  it('merges tags on the user\'s notes', async () => {
+    const { backend, notes } = setup();
+
+    expect(await notes.mergeTags('user-1', ['todo', 'idea'], 'Work')).toBe(2);
+
+    expect(await backend.get('notes/plans/tags')).toEqual(['work']);
+    expect(await backend.get('notes/ideas/tags')).toEqual(['work']);
+    expect(await notes.mergeTags('user-1', ['work'], 'work')).toBe(0);
+    await expect(notes.mergeTags('user-1', ['work'], ' ')).rejects.toThrow('cannot be empty');
+  });
+
+  it('removes what a restored backup replaced, trashing notes with attachments', async () => {
+    const { backend, notes } = setup();
+    await backend.update({
+      'notes/plans/attachments': { a1: { name: 'a.png', storagePath: 'attachments/user-1/plans/a.png' } },
+      'notes/restored': noteRecord({ folderId: 'home' })
+    });
+
+    await notes.removeReplaced('user-1', {
+      noteIds: ['plans', 'ideas', 'orphan'],
+      folderIds: ['work', 'shared']
+    }, 100);
+
+    expect(await backend.get('notes/ideas')).toBeNull();
+    expect(await backend.get('notes/orphan')).toBeNull();
+    expect(await backend.get('notes/plans')).toMatchObject({ deletedAt: 100, deletedFolderName: 'Work' });
+    expect(await backend.get('notes/plans/folderId')).toBeNull();
+    expect(await backend.get('notes/restored')).not.toBeNull();
+    expect(await backend.get('folders/work')).toBeNull();
+    expect(await backend.get('users/user-1/folders')).toEqual(['home']);
+    expect(await backend.get('shares')).toBeNull();
+    expect(await backend.get('drafts')).toBeNull();
+  });
+});
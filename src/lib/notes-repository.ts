@@ -0,0 +1,699 @@
+import type { DataBackend, DataUpdates } from './data-backend';
+import type { NoteRecord, RevisionRecord } from './schema';
+import type { FolderRecordWithId, FoldersRepository } from './folders-repository';
+import { canEditFolderNotes } from './folder-members';
+import { MAX_NOTE_TITLE_LENGTH } from './limits';
+import { normalizeTag, normalizeTags } from './tags';
+
+export type NoteRecordWithId = NoteRecord & { id: string };
+
+// Fields a note update may change
+export type NoteChanges = Partial<Omit<NoteRecord, 'userId' | 'createdAt'>>;
+
+export interface UpdateNoteOptions {
+  restoredFrom?: string; // Revision ID when the update restores an earlier revision
+  expectedUpdatedAt?: number; // Reject the update if the note was saved elsewhere since this time
+}
+
+// Thrown when a note changed since the version the caller was editing
+export class NoteConflictError extends Error {
+  remoteNote: NoteRecordWithId;
+
+  constructor(remoteNote: NoteRecordWithId) {
+    super('This note was changed on another device');
+    this.name = 'NoteConflictError';
+    this.remoteNote = remoteNote;
+  }
+}
+
+// Maximum number of revisions kept per note; older ones are pruned after each save
+export const NOTE_REVISION_LIMIT = Number(process.env.NEXT_PUBLIC_NOTE_REVISION_LIMIT) || 50;
+
+// Multi-path update entries that append a revision for a note
+export const buildRevisionUpdates = (
+  backend: Pick<DataBackend, 'newKey'>,
+  noteId: string,
+  revision: RevisionRecord
+): Record<string, RevisionRecord> => {
+  const revisionId = backend.newKey(`noteRevisions/${noteId}`);
+  const { restoredFrom, ...snapshot } = revision;
+  return {
+    [`noteRevisions/${noteId}/${revisionId}`]: restoredFrom ? { ...snapshot, restoredFrom } : snapshot
+  };
+};
+
+// How to put back what a bulk change did to one note
+export interface NoteUndo {
+  updatedAt: number; // What the change left `updatedAt` at; a note changed since is left as it is
+  updates: DataUpdates; // Multi-path update entries that put the note back
+  counts: Record<string, number>; // Folder counters the change moved for the note
+}
+
+// A change to several notes, written as one multi-path update, with how to undo it
+export interface BulkNoteChange {
+  noteIds: string[]; // Notes written; for duplicates, the new copies
+  skipped: number; // Selected notes left alone: missing, not editable, or already as requested
+  undo: Record<string, NoteUndo>; // By note ID
+}
+
+// Where notes restored from the trash go when their folder was deleted permanently
+const RESTORED_FOLDER_NAME = 'Restored Notes';
+
+const addCount = (changes: Record<string, number>, folderId: string, delta: number) => {
+  changes[folderId] = (changes[folderId] || 0) + delta;
+};
+
+export const createNotesRepository = (backend: DataBackend, folders: FoldersRepository) => {
+  const get = (noteId: string) => backend.get<NoteRecord>(`notes/${noteId}`);
+
+  // Owners can change their notes; editors can change notes in folders shared with them
+  const canEdit = async (note: Pick<NoteRecord, 'userId' | 'folderId'>, uid: string) => {
+    if (note.userId === uid) return true;
+    if (!note.folderId) return false;
+    return canEditFolderNotes(await folders.get(note.folderId), uid);
+  };
+
+  // The note, if the user may change it
+  const getForEditing = async (noteId: string, uid: string) => {
+    const note = await get(noteId);
+    if (!note || !(await canEdit(note, uid))) {
+      throw new Error('Note not found or unauthorized');
+    }
+    return note;
+  };
+
+  // Remove the oldest revisions of a note beyond `limit`
+  const pruneRevisions = async (noteId: string, limit: number = NOTE_REVISION_LIMIT) => {
+    const revisions = await backend.get<Record<string, RevisionRecord>>(`noteRevisions/${noteId}`);
+    const revisionIds = Object.entries(revisions || {})
+      .sort(([, a], [, b]) => a.createdAt - b.createdAt)
+      .map(([revisionId]) => revisionId);
+
+    const excess = revisionIds.length - limit;
+    if (excess <= 0) return;
+
+    const updates: DataUpdates = {};
+    revisionIds.slice(0, excess).forEach((revisionId) => {
+      updates[`noteRevisions/${noteId}/${revisionId}`] = null;
+    });
+    await backend.update(updates);
+  };
+
+  // Write a new note with its first revision and count it in its folder. Notes
+  // belong to the folder owner, also when an editor creates them in a shared folder.
+  const create = async (
+    uid: string,
+    noteId: string,
+    fields: Pick<NoteRecord, 'title' | 'content' | 'createdAt' | 'updatedAt' | 'tags'>,
+    folderId: string
+  ): Promise<NoteRecord> => {
+    const folder = await folders.getForNewNotes(folderId, uid);
+    const tags = fields.tags || [];
+
+    const note: NoteRecord = {
+      title: fields.title,
+      content: fields.content,
+      createdAt: fields.createdAt,
+      updatedAt: fields.updatedAt,
+      userId: folder.userId,
+      contentLength: fields.content.length,
+      folderId,
+      ...(tags.length > 0 ? { tags: normalizeTags(tags) } : {})
+    };
+
+    await backend.update({
+      [`notes/${noteId}`]: note,
+      ...buildRevisionUpdates(backend, noteId, {
+        title: note.title,
+        content: note.content,
+        createdAt: Date.now(),
+        userId: uid
+      }),
+      ...folders.noteCountUpdates({ [folderId]: 1 })
+    });
+
+    return note;
+  };
+
+  // Save changes to a note, recording a revision when the title or content changed.
+  // Moving the note to another folder is left to its owner.
+  const update = async (
+    uid: string,
+    noteId: string,
+    changes: NoteChanges,
+    options: UpdateNoteOptions = {},
+    now: number = Date.now()
+  ) => {
+    const note = await getForEditing(noteId, uid);
+    const { expectedUpdatedAt } = options;
+
+    if (expectedUpdatedAt !== undefined) {
+      if (note.updatedAt !== expectedUpdatedAt) {
+        throw new NoteConflictError({ ...note, id: noteId });
+      }
+      // Claim the version being saved over by moving `updatedAt` on in a transaction,
+      // so of two devices saving over the same version only the first gets through
+      const claim = await backend.transaction<number>(`notes/${noteId}/updatedAt`, current =>
+        current === null ? null : current === expectedUpdatedAt ? now : undefined
+      );
+      if (!claim.committed || claim.value !== now) {
+        const remoteNote = await get(noteId);
+        throw new NoteConflictError({ ...(remoteNote || note), id: noteId });
+      }
+    }
+
+    const { folderId, ...noteChanges } = changes;
+    const fields: NoteChanges = { ...noteChanges, updatedAt: now };
+    if (changes.content !== undefined) {
+      fields.contentLength = changes.content.length;
+    }
+    if (changes.tags !== undefined) {
+      fields.tags = normalizeTags(changes.tags);
+    }
+
+    const updates: DataUpdates = {};
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates[`notes/${noteId}/${key}`] = value;
+      }
+    });
+
+    const previousFolderId = note.folderId;
+    if ('folderId' in changes && folderId !== previousFolderId) {
+      if (note.userId !== uid) {
+        throw new Error('Only the folder owner can move notes out of a shared folder');
+      }
+
+      // The new folder has to be one of the user's own
+      if (folderId) {
+        const folder = await folders.get(folderId);
+        if (!folder || folder.userId !== uid) {
+          throw new Error('Selected folder does not exist or you do not have permission');
+        }
+      }
+
+      // Trashed notes aren't counted in any folder
+      if (!note.deletedAt) {
+        const previousFolderExists = previousFolderId ? await folders.exists(previousFolderId) : false;
+        Object.assign(updates, folders.noteCountUpdates({
+          ...(previousFolderId && previousFolderExists ? { [previousFolderId]: -1 } : {}),
+          ...(folderId ? { [folderId]: 1 } : {})
+        }, now));
+      }
+
+      updates[`notes/${noteId}/folderId`] = folderId || null;
+    }
+
+    // Snapshot the saved title and content as a new revision
+    const isContentUpdate = noteChanges.title !== undefined || noteChanges.content !== undefined;
+    if (isContentUpdate) {
+      // Notes created before revisions existed get their previous text preserved first
+      if (!(await backend.hasChildren(`noteRevisions/${noteId}`))) {
+        Object.assign(updates, buildRevisionUpdates(backend, noteId, {
+          title: note.title,
+          content: note.content,
+          createdAt: note.updatedAt || note.createdAt || now,
+          userId: uid
+        }));
+      }
+
+      Object.assign(updates, buildRevisionUpdates(backend, noteId, {
+        title: noteChanges.title ?? note.title,
+        content: noteChanges.content ?? note.content,
+        createdAt: now,
+        userId: uid,
+        restoredFrom: options.restoredFrom
+      }));
+    }
+
+    try {
+      await backend.update(updates);
+    } catch (error) {
+      // Give the claimed version back, so the next save isn't taken for a conflict
+      if (expectedUpdatedAt !== undefined) {
+        await backend.transaction<number>(`notes/${noteId}/updatedAt`, current =>
+          current === null ? null : current === now ? expectedUpdatedAt : undefined
+        ).catch((rollbackError) => {
+          console.error('Error releasing note version:', rollbackError);
+        });
+      }
+      throw error;
+    }
+
+    if (isContentUpdate) {
+      pruneRevisions(noteId).catch((error) => {
+        console.error('Error pruning note revisions:', error);
+      });
+    }
+  };
+
+  // Move a note to the trash, taking it out of its folder but remembering where it
+  // came from. Notes deleted by an editor go to the folder owner's trash.
+  const trash = async (uid: string, noteId: string, deletedAt: number = Date.now()) => {
+    const note = await getForEditing(noteId, uid);
+    const updates: DataUpdates = {};
+
+    if (note.folderId) {
+      const folder = await folders.get(note.folderId);
+      if (folder) {
+        if (!note.deletedAt) {
+          Object.assign(updates, folders.noteCountUpdates({ [note.folderId]: -1 }, deletedAt));
+        }
+        updates[`notes/${noteId}/deletedFolderName`] = folder.name || null;
+      }
+    }
+
+    updates[`notes/${noteId}/deletedAt`] = deletedAt;
+    await backend.update(updates);
+  };
+
+  // Move one of the user's notes to another of their folders, or out of any folder
+  const move = async (
+    uid: string,
+    noteId: string,
+    targetFolderId: string | null,
+    now: number = Date.now()
+  ): Promise<NoteRecordWithId> => {
+    const note = await get(noteId);
+    if (!note || note.userId !== uid) {
+      throw new Error('Note not found or unauthorized');
+    }
+
+    if (targetFolderId) {
+      const targetFolder = await folders.get(targetFolderId);
+      if (targetFolder?.userId !== uid) {
+        throw new Error('Target folder not found or unauthorized');
+      }
+    }
+
+    const currentFolderId = note.folderId;
+    if ((currentFolderId || null) === targetFolderId) {
+      return { ...note, id: noteId };
+    }
+
+    const currentFolderExists = currentFolderId ? await folders.exists(currentFolderId) : false;
+    await backend.update({
+      [`notes/${noteId}/folderId`]: targetFolderId,
+      [`notes/${noteId}/updatedAt`]: now,
+      ...(note.deletedAt ? {} : folders.noteCountUpdates({
+        ...(currentFolderId && currentFolderExists ? { [currentFolderId]: -1 } : {}),
+        ...(targetFolderId ? { [targetFolderId]: 1 } : {})
+      }, now))
+    });
+
+    return { ...note, id: noteId, folderId: targetFolderId || undefined, updatedAt: now };
+  };
+
+  // The selected notes the user may change, read in parallel; the others are left out
+  const getManyForEditing = async (uid: string, noteIds: string[]) => {
+    const notes = await Promise.all(Array.from(new Set(noteIds)).map(async (noteId) => {
+      const note = await get(noteId);
+      return note && (await canEdit(note, uid)) ? { ...note, id: noteId } : null;
+    }));
+    return notes.filter((note): note is NoteRecordWithId => note !== null);
+  };
+
+  // Which of the given folders still exist, so their counters can be moved
+  const existingFolderIds = async (folderIds: Array<string | undefined>) => {
+    const ids = Array.from(new Set(folderIds.filter((id): id is string => Boolean(id))));
+    const exist = await Promise.all(ids.map(folders.exists));
+    return new Set(ids.filter((_, index) => exist[index]));
+  };
+
+  // Write a bulk change together with the folder counters its notes moved
+  const writeBulkChange = async (
+    selectedCount: number,
+    updates: DataUpdates,
+    undo: Record<string, NoteUndo>,
+    now: number
+  ): Promise<BulkNoteChange> => {
+    const noteIds = Object.keys(undo);
+    const change = { noteIds, skipped: selectedCount - noteIds.length, undo };
+    if (noteIds.length === 0) return change;
+
+    const counts: Record<string, number> = {};
+    Object.values(undo).forEach((noteUndo) => {
+      Object.entries(noteUndo.counts).forEach(([folderId, delta]) => addCount(counts, folderId, delta));
+    });
+    await backend.update({ ...updates, ...folders.noteCountUpdates(counts, now) });
+    return change;
+  };
+
+  // Move several of the user's own notes to one of their folders, or out of any folder
+  const moveMany = async (
+    uid: string,
+    noteIds: string[],
+    targetFolderId: string | null,
+    now: number = Date.now()
+  ): Promise<BulkNoteChange> => {
+    if (targetFolderId) {
+      const targetFolder = await folders.get(targetFolderId);
+      if (targetFolder?.userId !== uid) {
+        throw new Error('Target folder not found or unauthorized');
+      }
+    }
+
+    const notes = (await getManyForEditing(uid, noteIds))
+      .filter(note => note.userId === uid && (note.folderId || null) !== targetFolderId);
+    const currentFolderIds = await existingFolderIds(notes.map(note => note.folderId));
+
+    const updates: DataUpdates = {};
+    const undo: Record<string, NoteUndo> = {};
+    notes.forEach((note) => {
+      updates[`notes/${note.id}/folderId`] = targetFolderId;
+      updates[`notes/${note.id}/updatedAt`] = now;
+
+      // Trashed notes aren't counted in any folder
+      const counts: Record<string, number> = {};
+      if (!note.deletedAt) {
+        if (note.folderId && currentFolderIds.has(note.folderId)) addCount(counts, note.folderId, -1);
+        if (targetFolderId) addCount(counts, targetFolderId, 1);
+      }
+      undo[note.id] = {
+        updatedAt: now,
+        updates: {
+          [`notes/${note.id}/folderId`]: note.folderId || null,
+          [`notes/${note.id}/updatedAt`]: note.updatedAt
+        },
+        counts
+      };
+    });
+
+    return writeBulkChange(noteIds.length, updates, undo, now);
+  };
+
+  // Move several notes to the trash at once, as `trash` does for one
+  const trashMany = async (uid: string, noteIds: string[], deletedAt: number = Date.now()): Promise<BulkNoteChange> => {
+    const notes = (await getManyForEditing(uid, noteIds)).filter(note => !note.deletedAt);
+    const folderIds = Array.from(new Set(notes.map(note => note.folderId).filter((id): id is string => Boolean(id))));
+    const folderRecords = await Promise.all(folderIds.map(folders.get));
+    const folderNames = new Map(folderIds.map((folderId, index) => [folderId, folderRecords[index]?.name]));
+
+    const updates: DataUpdates = {};
+    const undo: Record<string, NoteUndo> = {};
+    notes.forEach((note) => {
+      const noteUndo: NoteUndo = {
+        updatedAt: note.updatedAt,
+        updates: { [`notes/${note.id}/deletedAt`]: null },
+        counts: {}
+      };
+      if (note.folderId && folderNames.get(note.folderId) !== undefined) {
+        addCount(noteUndo.counts, note.folderId, -1);
+        updates[`notes/${note.id}/deletedFolderName`] = folderNames.get(note.folderId) || null;
+        noteUndo.updates[`notes/${note.id}/deletedFolderName`] = note.deletedFolderName || null;
+      }
+      updates[`notes/${note.id}/deletedAt`] = deletedAt;
+      undo[note.id] = noteUndo;
+    });
+
+    return writeBulkChange(noteIds.length, updates, undo, deletedAt);
+  };
+
+  // Copy several notes into the folders they are in, each with a first revision.
+  // Attachments stay with the original, as their files are stored under its ID.
+  const duplicateMany = async (uid: string, noteIds: string[], now: number = Date.now()): Promise<BulkNoteChange> => {
+    const notes = (await getManyForEditing(uid, noteIds)).filter(note => !note.deletedAt);
+    const currentFolderIds = await existingFolderIds(notes.map(note => note.folderId));
+
+    const updates: DataUpdates = {};
+    const undo: Record<string, NoteUndo> = {};
+    notes.forEach((note) => {
+      const copyId = backend.newKey('notes');
+      const copy: NoteRecord = {
+        title: `${note.title} (copy)`.slice(0, MAX_NOTE_TITLE_LENGTH),
+        content: note.content,
+        userId: note.userId,
+        createdAt: now,
+        updatedAt: now,
+        contentLength: note.content.length,
+        ...(note.folderId ? { folderId: note.folderId } : {}),
+        ...(note.tags?.length ? { tags: note.tags } : {})
+      };
+
+      updates[`notes/${copyId}`] = copy;
+      Object.assign(updates, buildRevisionUpdates(backend, copyId, {
+        title: copy.title,
+        content: copy.content,
+        createdAt: now,
+        userId: uid
+      }));
+      undo[copyId] = {
+        updatedAt: now,
+        updates: { [`notes/${copyId}`]: null, [`noteRevisions/${copyId}`]: null },
+        counts: note.folderId && currentFolderIds.has(note.folderId) ? { [note.folderId]: 1 } : {}
+      };
+    });
+
+    return writeBulkChange(noteIds.length, updates, undo, now);
+  };
+
+  // Add a tag to several notes; notes that already have it, or have no room left, are skipped
+  const tagMany = async (uid: string, noteIds: string[], tag: string, now: number = Date.now()): Promise<BulkNoteChange> => {
+    const normalizedTag = normalizeTag(tag);
+    if (!normalizedTag) {
+      throw new Error('Tag cannot be empty');
+    }
+
+    const notes = (await getManyForEditing(uid, noteIds)).filter((note) => {
+      const tags = note.tags || [];
+      return !tags.includes(normalizedTag) && normalizeTags([...tags, normalizedTag]).includes(normalizedTag);
+    });
+
+    const updates: DataUpdates = {};
+    const undo: Record<string, NoteUndo> = {};
+    notes.forEach((note) => {
+      updates[`notes/${note.id}/tags`] = [...(note.tags || []), normalizedTag];
+      updates[`notes/${note.id}/updatedAt`] = now;
+      undo[note.id] = {
+        updatedAt: now,
+        updates: {
+          [`notes/${note.id}/tags`]: note.tags || null,
+          [`notes/${note.id}/updatedAt`]: note.updatedAt
+        },
+        counts: {}
+      };
+    });
+
+    return writeBulkChange(noteIds.length, updates, undo, now);
+  };
+
+  // Write several new notes of the user's at once, each with its first revision, for
+  // imports and restored backups. Notes outside the trash are counted in their folders.
+  const createMany = async (uid: string, notes: NoteRecordWithId[], now: number = Date.now()): Promise<BulkNoteChange> => {
+    const updates: DataUpdates = {};
+    const undo: Record<string, NoteUndo> = {};
+    notes.forEach(({ id, ...note }) => {
+      updates[`notes/${id}`] = note;
+      Object.assign(updates, buildRevisionUpdates(backend, id, {
+        title: note.title,
+        content: note.content,
+        createdAt: now,
+        userId: uid
+      }));
+      undo[id] = {
+        updatedAt: note.updatedAt,
+        updates: { [`notes/${id}`]: null, [`noteRevisions/${id}`]: null },
+        counts: note.folderId && !note.deletedAt ? { [note.folderId]: 1 } : {}
+      };
+    });
+
+    return writeBulkChange(notes.length, updates, undo, now);
+  };
+
+  // Replace tags on all of the user's notes outside the trash. Returns how many notes changed.
+  const mergeTags = async (uid: string, sources: string[], target: string): Promise<number> => {
+    const targetTag = normalizeTag(target);
+    if (!targetTag) {
+      throw new Error('Tag name cannot be empty');
+    }
+
+    const sourceTags = normalizeTags(sources).filter(tag => tag !== targetTag);
+    if (sourceTags.length === 0) return 0;
+
+    const notes = await backend.queryByChild<NoteRecord>('notes', 'userId', uid);
+    const updates: DataUpdates = {};
+    Object.entries(notes).forEach(([noteId, note]) => {
+      const noteTags = note.tags || [];
+      if (note.deletedAt || !noteTags.some(tag => sourceTags.includes(tag))) return;
+
+      updates[`notes/${noteId}/tags`] = normalizeTags(
+        noteTags.map(tag => sourceTags.includes(tag) ? targetTag : tag)
+      );
+    });
+
+    const affected = Object.keys(updates).length;
+    if (affected > 0) {
+      await backend.update(updates);
+    }
+    return affected;
+  };
+
+  // Bring one of the user's notes back from the trash. Its folder comes back with it
+  // if that is in the trash too; if the folder was deleted permanently, the note goes
+  // to a folder with the name it had, which is created if there is none.
+  const restore = async (uid: string, noteId: string, now: number = Date.now()) => {
+    const note = await get(noteId);
+    if (!note || note.userId !== uid || !note.deletedAt) {
+      throw new Error('Note not found in trash');
+    }
+
+    const updates: DataUpdates = {
+      [`notes/${noteId}/deletedAt`]: null,
+      [`notes/${noteId}/deletedFolderName`]: null,
+      [`notes/${noteId}/updatedAt`]: now
+    };
+
+    const ownFolders = await folders.listAll(uid);
+    const originalFolder = note.folderId
+      ? ownFolders.find(folder => folder.id === note.folderId)
+      : undefined;
+
+    if (originalFolder) {
+      // At the top level if its parent folder isn't active any more
+      if (originalFolder.deletedAt) {
+        updates[`folders/${originalFolder.id}/deletedAt`] = null;
+        if (originalFolder.parentId && !ownFolders.some(folder => folder.id === originalFolder.parentId && !folder.deletedAt)) {
+          updates[`folders/${originalFolder.id}/parentId`] = null;
+        }
+      }
+      Object.assign(updates, folders.noteCountUpdates({ [originalFolder.id]: 1 }, now));
+    } else {
+      const folderName = note.deletedFolderName || RESTORED_FOLDER_NAME;
+      const sameNameFolder = ownFolders.find(folder =>
+        !folder.deletedAt && folder.name.toLowerCase() === folderName.toLowerCase()
+      );
+
+      if (sameNameFolder) {
+        Object.assign(updates, folders.noteCountUpdates({ [sameNameFolder.id]: 1 }, now));
+        updates[`notes/${noteId}/folderId`] = sameNameFolder.id;
+      } else {
+        const newFolder: FolderRecordWithId = {
+          id: folders.newId(),
+          name: folderName,
+          userId: uid,
+          createdAt: now,
+          updatedAt: now,
+          noteCount: 1
+        };
+        Object.assign(updates, await folders.buildCreateUpdates(uid, [newFolder]));
+        updates[`notes/${noteId}/folderId`] = newFolder.id;
+      }
+    }
+
+    await backend.update(updates);
+  };
+
+  // The user's notes in the trash, by ID
+  const listTrashed = async (uid: string) => {
+    const notes = await backend.queryByChild<NoteRecord>('notes', 'userId', uid);
+    return Object.keys(notes).filter(noteId => notes[noteId].deletedAt);
+  };
+
+  // Permanently delete some of the user's trashed notes. Returns the IDs deleted.
+  const purge = async (uid: string, noteIds: string[]): Promise<string[]> => {
+    const trashedIds = await listTrashed(uid);
+    const purgedIds = noteIds.filter(noteId => trashedIds.includes(noteId));
+    if (purgedIds.length === 0) {
+      throw new Error('Note not found in trash');
+    }
+
+    await backend.update(await folders.buildPurgeUpdates(uid, [], purgedIds));
+    return purgedIds;
+  };
+
+  // Permanently delete everything in the user's trash. Returns the IDs of the notes deleted.
+  const emptyTrash = async (uid: string): Promise<string[]> => {
+    const [noteIds, ownFolders] = await Promise.all([listTrashed(uid), folders.listAll(uid)]);
+    const trashedFolders = ownFolders.filter(folder => folder.deletedAt);
+    if (noteIds.length === 0 && trashedFolders.length === 0) return [];
+
+    await backend.update(await folders.buildPurgeUpdates(uid, trashedFolders, noteIds));
+    return noteIds;
+  };
+
+  // Permanently delete the given notes and folders of the user's, with the folders'
+  // members' entries, their share links and drafts, once a restored backup took their
+  // place. Backups hold no attachment files, so notes with attachments are moved to
+  // the trash outside any folder instead.
+  const removeReplaced = async (
+    uid: string,
+    replaced: { noteIds: string[]; folderIds: string[] },
+    now: number = Date.now()
+  ) => {
+    const [notes, ownFolders, shares] = await Promise.all([
+      backend.queryByChild<NoteRecord>('notes', 'userId', uid),
+      folders.listAll(uid),
+      backend.queryByChild('shares', 'userId', uid)
+    ]);
+    const replacedNotes = replaced.noteIds
+      .filter(noteId => notes[noteId])
+      .map(noteId => ({ ...notes[noteId], id: noteId }));
+    const replacedFolders = ownFolders.filter(folder => replaced.folderIds.includes(folder.id));
+    const folderNames = new Map(ownFolders.map(folder => [folder.id, folder.name]));
+
+    const updates = await folders.buildPurgeUpdates(
+      uid,
+      replacedFolders,
+      replacedNotes.filter(note => !note.attachments).map(note => note.id)
+    );
+    replacedNotes.filter(note => note.attachments).forEach((note) => {
+      updates[`notes/${note.id}/folderId`] = null;
+      updates[`notes/${note.id}/deletedAt`] = note.deletedAt || now;
+      updates[`notes/${note.id}/deletedFolderName`] =
+        note.deletedFolderName || (note.folderId && folderNames.get(note.folderId)) || null;
+    });
+    Object.keys(shares).forEach((token) => {
+      updates[`shares/${token}`] = null;
+    });
+    updates[`drafts/${uid}`] = null;
+
+    await backend.update(updates);
+  };
+
+  // Put back what a bulk change wrote, leaving out notes that changed since, as undoing
+  // it would lose those changes. Returns the IDs of the notes left as they are.
+  const undoBulkChange = async (change: BulkNoteChange, now: number = Date.now()): Promise<string[]> => {
+    const entries = Object.entries(change.undo);
+    // A note that was deleted since can't be read, which counts as a change too
+    const currentUpdatedAt = await Promise.all(entries.map(([noteId]) =>
+      backend.get<number>(`notes/${noteId}/updatedAt`).catch(() => null)
+    ));
+    const isUnchanged = entries.map(([, noteUndo], index) => currentUpdatedAt[index] === noteUndo.updatedAt);
+    const unchanged = entries.filter((_, index) => isUnchanged[index]);
+    const changedIds = entries.filter((_, index) => !isUnchanged[index]).map(([noteId]) => noteId);
+    if (unchanged.length === 0) return changedIds;
+
+    const updates: DataUpdates = {};
+    const counts: Record<string, number> = {};
+    unchanged.forEach(([, noteUndo]) => {
+      Object.assign(updates, noteUndo.updates);
+      Object.entries(noteUndo.counts).forEach(([folderId, delta]) => addCount(counts, folderId, -delta));
+    });
+    await backend.update({ ...updates, ...folders.noteCountUpdates(counts, now) });
+    return changedIds;
+  };
+
+  return {
+    newId: () => backend.newKey('notes'),
+    get,
+    canEdit,
+    create,
+    update,
+    trash,
+    move,
+    moveMany,
+    trashMany,
+    duplicateMany,
+    tagMany,
+    createMany,
+    mergeTags,
+    restore,
+    purge,
+    emptyTrash,
+    removeReplaced,
+    undoBulkChange,
+    pruneRevisions
+  };
+};
+
+export type NotesRepository = ReturnType<typeof createNotesRepository>;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  OfflineNote,
+  PendingNoteOperation,
+  PendingNoteWrite,
+  applyPendingNoteWrites,
+  isRetryableWriteError,
+  planQueuedNoteWrite
+} from './offline-notes';
+
+const note = (id: string, overrides: Partial<OfflineNote> = {}): OfflineNote => ({
+  id,
+  title: `Note ${id}`,
+  content: '',
+  createdAt: 1,
+  updatedAt: 1,
+  userId: 'user-1',
+  folderId: 'folder-1',
+  ...overrides
+});
+
+const queued = (id: number, operation: PendingNoteOperation): PendingNoteWrite =>
+  ({ id, userId: 'user-1', queuedAt: id, operation });
+
+describe('planQueuedNoteWrite', () => {
+  it('folds edits into a note created offline', () => {
+    const queue = [queued(1, { type: 'create', note: note('a') })];
+    const plan = planQueuedNoteWrite(queue, { type: 'update', noteId: 'a', changes: { content: 'Hello' }, updatedAt: 5 });
+
+    expect(plan.replace?.operation).toEqual({
+      type: 'create',
+      note: { ...note('a'), content: 'Hello', contentLength: 5, updatedAt: 5 }
+    });
+  });
+
+  it('keeps the first base version when an update is edited again', () => {
+    const queue = [
+      queued(1, { type: 'update', noteId: 'a', changes: { title: 'One' }, updatedAt: 2, baseUpdatedAt: 1 })
+    ];
+    const plan = planQueuedNoteWrite(queue, { type: 'update', noteId: 'a', changes: { content: 'Two' }, updatedAt: 3 });
+
+    expect(plan.replace?.operation).toEqual({
+      type: 'update',
+      noteId: 'a',
+      changes: { title: 'One', content: 'Two' },
+      updatedAt: 3,
+      baseUpdatedAt: 1
+    });
+  });
+
+  it('drops a note created offline from the queue when it is deleted', () => {
+    const queue = [
+      queued(1, { type: 'create', note: note('a') }),
+      queued(2, { type: 'create', note: note('b') })
+    ];
+
+    expect(planQueuedNoteWrite(queue, { type: 'delete', noteId: 'a', deletedAt: 4 })).toEqual({ remove: [1] });
+  });
+});
+
+describe('applyPendingNoteWrites', () => {
+  it('shows queued changes on top of the cached notes', () => {
+    const writes = [
+      queued(1, { type: 'create', note: note('c', { folderId: 'folder-2' }) }),
+      queued(2, { type: 'update', noteId: 'a', changes: { title: 'Renamed' }, updatedAt: 9 }),
+      queued(3, { type: 'delete', noteId: 'b', deletedAt: 9 })
+    ];
+
+    const result = applyPendingNoteWrites([note('a'), note('b')], writes, 'folder-1');
+    expect(result).toEqual([{ ...note('a'), title: 'Renamed', updatedAt: 9 }]);
+  });
+});
+
+describe('isRetryableWriteError', () => {
+  it('retries writes that failed for lack of a connection', () => {
+    expect(isRetryableWriteError(new Error('Client is offline.'))).toBe(true);
+    expect(isRetryableWriteError(new Error('disconnect'))).toBe(true);
+    expect(isRetryableWriteError(new Error('A network error occurred'))).toBe(true);
+  });
+
+  it('gives up on writes that can never succeed', () => {
+    expect(isRetryableWriteError(new Error('PERMISSION_DENIED: Permission denied'))).toBe(false);
+    expect(isRetryableWriteError(new Error('Note not found or unauthorized'))).toBe(false);
+    expect(isRetryableWriteError('offline')).toBe(false);
+  });
+});
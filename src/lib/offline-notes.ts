@@ -0,0 +1,133 @@
+import type { QueuedWrite } from './offline-store';
+
+// Note changes made while offline. They are kept in the offline queue, shown on
+// top of the cached notes until they're replayed, and folded together so a note
+// edited several times offline is only written once.
+
+export interface OfflineNote {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  userId: string;
+  contentLength?: number;
+  folderId?: string;
+  tags?: string[];
+}
+
+export interface OfflineNoteChanges {
+  title?: string;
+  content?: string;
+  tags?: string[];
+}
+
+export type PendingNoteOperation =
+  | { type: 'create'; note: OfflineNote }
+  | {
+      type: 'update';
+      noteId: string;
+      changes: OfflineNoteChanges;
+      updatedAt: number;
+      baseUpdatedAt?: number; // Server version the changes were made on, to detect conflicts
+    }
+  | { type: 'delete'; noteId: string; deletedAt: number };
+
+export type PendingNoteWrite = QueuedWrite<PendingNoteOperation>;
+
+export const getOperationNoteId = (operation: PendingNoteOperation) =>
+  operation.type === 'create' ? operation.note.id : operation.noteId;
+
+const applyChanges = <T extends OfflineNote>(note: T, changes: OfflineNoteChanges, updatedAt: number): T => ({
+  ...note,
+  ...changes,
+  ...(changes.content !== undefined ? { contentLength: changes.content.length } : {}),
+  updatedAt
+});
+
+// Notes as they will be once the queued writes are replayed. With a folderId,
+// notes created offline are only added when they belong to that folder.
+export const applyPendingNoteWrites = <T extends OfflineNote>(
+  notes: T[],
+  writes: PendingNoteWrite[],
+  folderId?: string | null
+): T[] => {
+  let result = [...notes];
+
+  writes.forEach(({ operation }) => {
+    switch (operation.type) {
+      case 'create':
+        if (!folderId || operation.note.folderId === folderId) {
+          result = [...result.filter(note => note.id !== operation.note.id), operation.note as T];
+        }
+        break;
+      case 'update':
+        result = result.map(note => note.id === operation.noteId
+          ? applyChanges(note, operation.changes, operation.updatedAt)
+          : note);
+        break;
+      case 'delete':
+        result = result.filter(note => note.id !== operation.noteId);
+        break;
+    }
+  });
+
+  return result;
+};
+
+export interface QueuePlan {
+  add?: PendingNoteOperation;
+  replace?: PendingNoteWrite;
+  remove: number[]; // IDs of queued writes that are no longer needed
+}
+
+// How to record a new offline change given what's already queued: edits go into a
+// pending create or update of the same note, and deleting a note that was only
+// created offline drops it from the queue altogether.
+export const planQueuedNoteWrite = (queue: PendingNoteWrite[], operation: PendingNoteOperation): QueuePlan => {
+  const noteId = getOperationNoteId(operation);
+  const forNote = queue.filter(write => getOperationNoteId(write.operation) === noteId);
+  const pendingCreate = forNote.find(write => write.operation.type === 'create');
+
+  if (operation.type === 'update') {
+    if (pendingCreate && pendingCreate.operation.type === 'create') {
+      return {
+        replace: {
+          ...pendingCreate,
+          operation: { type: 'create', note: applyChanges(pendingCreate.operation.note, operation.changes, operation.updatedAt) }
+        },
+        remove: []
+      };
+    }
+
+    // Keeps the earliest base version, so conflicts are still detected on replay
+    const lastWrite = forNote[forNote.length - 1];
+    if (lastWrite?.operation.type === 'update') {
+      return {
+        replace: {
+          ...lastWrite,
+          operation: {
+            ...lastWrite.operation,
+            changes: { ...lastWrite.operation.changes, ...operation.changes },
+            updatedAt: operation.updatedAt
+          }
+        },
+        remove: []
+      };
+    }
+  }
+
+  if (operation.type === 'delete' && pendingCreate) {
+    return { remove: forNote.map(write => write.id as number) };
+  }
+
+  return { add: operation, remove: [] };
+};
+
+// Replaying a change fails either because the connection dropped again, and the
+// change stays queued for the next time, or because it can never succeed: the note
+// is gone, access to it was revoked or the database rules reject it.
+const RETRYABLE_ERROR = /offline|disconnect|network|unavailable|timed? ?out/i;
+
+export const isRetryableWriteError = (error: unknown) =>
+  error instanceof Error && RETRYABLE_ERROR.test(error.message);
@@ -0,0 +1,122 @@
+// IndexedDB storage for working offline: a cache of the last data seen from the
+// database, so pages can render before (or without) a connection, and a queue of
+// writes made while offline, replayed in order once the connection is back.
+
+const DB_NAME = 'notes-app-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+export interface QueuedWrite<T = unknown> {
+  id?: number; // Assigned by IndexedDB; also the replay order
+  userId: string;
+  queuedAt: number;
+  operation: T;
+}
+
+type QueueListener = () => void;
+
+const queueListeners = new Set<QueueListener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isSupported = () => typeof indexedDB !== 'undefined';
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true })
+            .createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyQueueListeners = () => {
+  queueListeners.forEach(listener => listener());
+};
+
+// Last value stored under a key, e.g. `notes/{uid}`; null when nothing is cached
+export const readCache = async <T>(key: string): Promise<T | null> => {
+  if (!isSupported()) return null;
+  const value = await runRequest<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  return value ?? null;
+};
+
+export const writeCache = async (key: string, value: unknown) => {
+  if (!isSupported()) return;
+  await runRequest(CACHE_STORE, 'readwrite', store => store.put(value, key));
+};
+
+// Queued writes of one user, oldest first
+export const getQueuedWrites = async <T>(userId: string): Promise<QueuedWrite<T>[]> => {
+  if (!isSupported()) return [];
+  return runRequest<QueuedWrite<T>[]>(QUEUE_STORE, 'readonly', store => store.index('userId').getAll(userId));
+};
+
+export const enqueueWrite = async <T>(userId: string, operation: T): Promise<number> => {
+  const write: QueuedWrite<T> = { userId, queuedAt: Date.now(), operation };
+  const id = await runRequest<number>(QUEUE_STORE, 'readwrite', store => store.add(write));
+  notifyQueueListeners();
+  return id;
+};
+
+export const replaceQueuedWrite = async <T>(write: QueuedWrite<T>) => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(write));
+  notifyQueueListeners();
+};
+
+export const removeQueuedWrite = async (id: number) => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(id));
+  notifyQueueListeners();
+};
+
+// Called whenever a write is queued, changed or removed
+export const subscribeToQueue = (listener: QueueListener) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+// Cached data of a user, and unless `includeQueue` is false their queued writes too
+export const clearOfflineData = async (userId: string, { includeQueue = true } = {}) => {
+  if (!isSupported()) return;
+  if (includeQueue) {
+    const writes = await getQueuedWrites(userId);
+    await Promise.all(writes.map(write => removeQueuedWrite(write.id as number)));
+  }
+  await Promise.all(['users', 'notes', 'folders'].map(collection =>
+    runRequest(CACHE_STORE, 'readwrite', store => store.delete(`${collection}/${userId}`))
+  ));
+};
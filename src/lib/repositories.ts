@@ -0,0 +1,17 @@
+import type { DataBackend } from './data-backend';
+import { createFoldersRepository } from './folders-repository';
+import { createNotesRepository } from './notes-repository';
+import { createUsersRepository } from './users-repository';
+
+// The notes app's data access on one backend: `createFirebaseBackend` in the hooks,
+// `createAdminBackend` in API routes and `createMemoryBackend` elsewhere
+export const createRepositories = (backend: DataBackend) => {
+  const folders = createFoldersRepository(backend);
+  return {
+    notes: createNotesRepository(backend, folders),
+    folders,
+    users: createUsersRepository(backend)
+  };
+};
+
+export type Repositories = ReturnType<typeof createRepositories>;
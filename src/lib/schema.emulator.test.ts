@@ -0,0 +1,246 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import {
+  AttachmentRecord,
+  Field,
+  FieldValue,
+  FolderMemberRecord,
+  FolderRecord,
+  NoteRecord,
+  RecordField,
+  RevisionRecord,
+  UserRecord,
+  attachmentSchema,
+  draftSchema,
+  folderMemberSchema,
+  folderSchema,
+  noteSchema,
+  presenceSchema,
+  revisionSchema,
+  userSchema
+} from './schema';
+import {
+  TEST_USERS,
+  createRulesEnvironment,
+  databaseAs,
+  seedDatabase,
+  seedTestUsers
+} from '@/test/rules-environment';
+
+// Writes records shaped by the TypeScript types to the emulator, which checks them
+// against the deployed `database.rules.json`, then breaks each field in turn. If the
+// types, the schema and the generated rules drift apart, one of these fails.
+
+const { owner, other } = TEST_USERS;
+
+const user: UserRecord = {
+  email: 'owner@example.com',
+  displayName: 'Owner',
+  photoURL: 'https://example.com/owner.png',
+  createdAt: 1,
+  lastLogin: 2,
+  previousLogin: 1,
+  role: 'user'
+};
+
+const member: FolderMemberRecord = {
+  role: 'editor',
+  email: 'other@example.com',
+  displayName: 'Other',
+  addedAt: 1
+};
+
+const folder: FolderRecord = {
+  id: 'folder-2',
+  name: 'Projects',
+  userId: owner.uid,
+  createdAt: 1,
+  updatedAt: 2,
+  parentId: 'folder-1',
+  noteCount: 0,
+  deletedAt: 3,
+  members: { [other.uid]: member }
+};
+
+const attachment: AttachmentRecord = {
+  name: 'plan.pdf',
+  size: 1024,
+  contentType: 'application/pdf',
+  storagePath: `attachments/${owner.uid}/note-1/attachment-1-plan.pdf`,
+  url: 'https://storage.example.com/plan.pdf',
+  uploadedAt: 1
+};
+
+const note: NoteRecord = {
+  title: 'Plans',
+  content: 'Ship it.',
+  userId: owner.uid,
+  folderId: 'folder-1',
+  createdAt: 1,
+  updatedAt: 2,
+  contentLength: 8,
+  tags: ['work'],
+  deletedAt: 3,
+  deletedFolderName: 'Work',
+  attachments: { 'attachment-1': attachment }
+};
+
+const revision: RevisionRecord = {
+  title: 'Plans',
+  content: 'Ship it.',
+  createdAt: 1,
+  userId: owner.uid,
+  restoredFrom: 'revision-0'
+};
+
+const draft: FieldValue<typeof draftSchema> = {
+  title: 'Plans',
+  content: 'Ship it soon.',
+  folderId: 'folder-1',
+  baseUpdatedAt: 2,
+  savedAt: 3
+};
+
+const presence: FieldValue<typeof presenceSchema> = {
+  userId: owner.uid,
+  displayName: 'Owner',
+  email: 'owner@example.com',
+  photoURL: 'https://example.com/owner.png',
+  status: 'editing',
+  selectionStart: 0,
+  selectionEnd: 4,
+  lastActive: 0 // Replaced by the server time, which the rules require
+};
+
+interface SchemaCase {
+  name: string;
+  schema: RecordField;
+  path: string; // Where the owner writes the record
+  record: object;
+  seed?: Record<string, unknown>; // Changes to the seeded data the case needs first
+}
+
+const cases: SchemaCase[] = [
+  // Written as at sign-up, since only a new profile may be written whole
+  { name: 'user', schema: userSchema, path: `users/${owner.uid}`, record: user, seed: { [`users/${owner.uid}`]: null } },
+  { name: 'folder', schema: folderSchema, path: 'folders/folder-2', record: folder },
+  { name: 'folder member', schema: folderMemberSchema, path: `folders/folder-1/members/${other.uid}`, record: member },
+  { name: 'note', schema: noteSchema, path: 'notes/note-1', record: note },
+  { name: 'attachment', schema: attachmentSchema, path: 'notes/note-1/attachments/attachment-1', record: attachment },
+  { name: 'revision', schema: revisionSchema, path: 'noteRevisions/note-1/revision-1', record: revision },
+  { name: 'draft', schema: draftSchema, path: `drafts/${owner.uid}/draft-1`, record: draft },
+  { name: 'presence', schema: presenceSchema, path: 'presence/note-1/session-1', record: presence }
+];
+
+const SERVER_TIMESTAMP = { '.sv': 'timestamp' };
+
+const toWritable = (record: object): Record<string, unknown> =>
+  'lastActive' in record ? { ...record, lastActive: SERVER_TIMESTAMP } : { ...record };
+
+// A value of the wrong kind for a field
+const wrongKind = (definition: Field): unknown => {
+  switch (definition.kind) {
+    case 'string':
+    case 'enum':
+      return 42;
+    case 'number':
+      return 'not a number';
+    case 'list':
+    case 'map':
+    case 'record':
+      return 'not a collection';
+  }
+};
+
+// Values of the right kind that break one of the field's limits
+const outOfRange = (definition: Field): Array<[string, unknown]> => {
+  switch (definition.kind) {
+    case 'string':
+      return [
+        ...(definition.minLength ? [['shorter than the minimum', ''] as [string, unknown]] : []),
+        ...(definition.maxLength !== undefined
+          ? [['longer than the maximum', 'a'.repeat(definition.maxLength + 1)] as [string, unknown]]
+          : [])
+      ];
+    case 'enum':
+      return [['not one of the allowed values', 'not-allowed']];
+    case 'number':
+      return definition.min !== undefined ? [['below the minimum', definition.min - 1]] : [];
+    case 'list':
+      return definition.maxItems !== undefined
+        ? [['with too many items', Array.from({ length: definition.maxItems + 1 }, (_, index) => `item-${index}`)]]
+        : [];
+    default:
+      return [];
+  }
+};
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createRulesEnvironment();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearDatabase();
+  await seedTestUsers(env);
+  await seedDatabase(env, {
+    'folders/folder-1': { id: 'folder-1', name: 'Work', userId: owner.uid, createdAt: 1, noteCount: 1 },
+    'notes/note-1': { title: 'Plans', content: '', userId: owner.uid, folderId: 'folder-1', createdAt: 1, updatedAt: 1 }
+  });
+});
+
+describe.each(cases)('$name records', ({ schema, path, record, seed }) => {
+  const write = (value: unknown) => databaseAs(env, 'owner').ref(path).set(value);
+  const fields = Object.entries(schema.fields);
+
+  if (seed) {
+    beforeEach(() => seedDatabase(env, seed));
+  }
+
+  it('accepts a record with every field', async () => {
+    await assertSucceeds(write(toWritable(record)));
+  });
+
+  it('accepts a record with only the required fields', async () => {
+    const required = Object.fromEntries(
+      Object.entries(toWritable(record)).filter(([name]) => !schema.fields[name].optional)
+    );
+    await assertSucceeds(write(required));
+  });
+
+  it.each(fields.filter(([, definition]) => !definition.optional).map(([name]) => name))(
+    'rejects a record without %s',
+    async (name) => {
+      const incomplete = toWritable(record);
+      delete incomplete[name];
+      await assertFails(write(incomplete));
+    }
+  );
+
+  it.each(fields.map(([name, definition]) => [name, wrongKind(definition)] as const))(
+    'rejects a record whose %s has the wrong type',
+    async (name, value) => {
+      await assertFails(write({ ...toWritable(record), [name]: value }));
+    }
+  );
+
+  const limits = fields.flatMap(([name, definition]) =>
+    outOfRange(definition).map(([problem, value]) => [name, problem, value] as const)
+  );
+  if (limits.length > 0) {
+    it.each(limits)('rejects a record whose %s is %s', async (name, _problem, value) => {
+      await assertFails(write({ ...toWritable(record), [name]: value }));
+    });
+  }
+
+  if (!schema.open) {
+    it('rejects fields the schema does not list', async () => {
+      await assertFails(write({ ...toWritable(record), unexpected: true }));
+    });
+  }
+});
@@ -0,0 +1,204 @@
+// The shape of every record the app stores in the Realtime Database. The TypeScript
+// types (`NoteRecord`, `FolderRecord`, `UserRecord`, ...) and the `.validate` rules
+// in `database.rules.json` (see `./database-rules`) are both derived from the
+// definitions here, so a field added, dropped or made optional changes both.
+//
+// Imports stay relative: the rules generator in `scripts/` compiles this file
+// without the `@/` path alias.
+
+import { MAX_FOLDER_NAME_LENGTH, MAX_NOTE_CONTENT_LENGTH, MAX_NOTE_TITLE_LENGTH } from './limits';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_NOTE } from './tags';
+
+interface FieldOptions {
+  optional?: boolean;
+  nullable?: boolean; // Optional, and cleared by writing `null`
+  validate?: string; // Extra rule condition, joined to the generated ones with `&&`
+}
+
+export interface StringField extends FieldOptions {
+  kind: 'string';
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface EnumField<V extends string = string> extends FieldOptions {
+  kind: 'enum';
+  values: readonly V[];
+}
+
+export interface NumberField extends FieldOptions {
+  kind: 'number';
+  min?: number;
+}
+
+export interface ListField<I extends Field = Field> extends FieldOptions {
+  kind: 'list';
+  item: I;
+  maxItems?: number;
+}
+
+export interface MapField<I extends Field = Field> extends FieldOptions {
+  kind: 'map';
+  key: string; // Wildcard the rules use for the keys, e.g. `$memberId`
+  item: I;
+}
+
+export interface RecordField<S extends Fields = Fields> extends FieldOptions {
+  kind: 'record';
+  fields: S;
+  open?: boolean; // Allow children the schema doesn't list
+}
+
+export type Field = StringField | EnumField | NumberField | ListField | MapField | RecordField;
+
+export type Fields = Record<string, Field>;
+
+type Optional<F> = F & { optional: true };
+
+type Nullable<F> = F & { optional: true; nullable: true };
+
+type RequiredKeys<S> = { [K in keyof S]-?: S[K] extends { optional: true } ? never : K }[keyof S];
+
+type OptionalKeys<S> = Exclude<keyof S, RequiredKeys<S>>;
+
+// The TypeScript type of a value stored under a field
+export type FieldValue<F> =
+  F extends { kind: 'enum'; values: readonly (infer V)[] } ? V :
+  F extends { kind: 'string' } ? string :
+  F extends { kind: 'number' } ? number :
+  F extends { kind: 'list'; item: infer I } ? FieldValue<I>[] :
+  F extends { kind: 'map'; item: infer I } ? Record<string, FieldValue<I>> :
+  F extends { kind: 'record'; fields: infer S } ? RecordValue<S> :
+  never;
+
+export type RecordValue<S> = {
+  [K in RequiredKeys<S>]: FieldValue<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: FieldValue<S[K]> | (S[K] extends { nullable: true } ? null : never);
+};
+
+const optional = <F extends Field>(definition: F) => ({ ...definition, optional: true }) as Optional<F>;
+
+const nullable = <F extends Field>(definition: F) => ({ ...definition, optional: true, nullable: true }) as Nullable<F>;
+
+// Builders for schema fields, e.g. `field.string({ maxLength: 100 })`
+export const field = {
+  string: (options?: Omit<StringField, 'kind'>): StringField => ({ kind: 'string', ...options }),
+  oneOf: <V extends string>(values: readonly V[], options?: FieldOptions): EnumField<V> =>
+    ({ kind: 'enum', values, ...options }),
+  number: (options?: Omit<NumberField, 'kind'>): NumberField => ({ kind: 'number', ...options }),
+  list: <I extends Field>(item: I, options?: Omit<ListField, 'kind' | 'item'>): ListField<I> =>
+    ({ kind: 'list', item, ...options }),
+  map: <I extends Field>(key: string, item: I, options?: FieldOptions): MapField<I> =>
+    ({ kind: 'map', key, item, ...options }),
+  record: <S extends Fields>(fields: S, options?: Omit<RecordField, 'kind' | 'fields'>): RecordField<S> =>
+    ({ kind: 'record', fields, ...options }),
+  optional,
+  nullable
+};
+
+// Checks that need other records, or the path, and so can't be described by a type
+const sameUser = 'newData.val() === auth.uid';
+const folderOwnedByUser = "newData.val() !== $folderId && newData.parent().parent().child(newData.val()).child('userId').val() === auth.uid";
+const attachmentInOwnerPrefix =
+  "newData.val().beginsWith('attachments/' + newData.parent().parent().parent().child('userId').val() + '/' + $noteId + '/')";
+
+export const USER_ROLES = ['user', 'admin', 'root_admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const FOLDER_ROLES = ['viewer', 'editor'] as const;
+
+// `users/{uid}`. Open, since the app also keeps login history and messages there.
+export const userSchema = field.record({
+  email: field.string(),
+  displayName: field.string({ minLength: 1 }),
+  photoURL: field.optional(field.string()),
+  createdAt: field.number(),
+  lastLogin: field.number(),
+  previousLogin: field.optional(field.number()),
+  role: field.optional(field.oneOf(USER_ROLES))
+}, { open: true });
+
+// `folders/{id}/members/{uid}`; see `./folder-members`
+export const folderMemberSchema = field.record({
+  role: field.oneOf(FOLDER_ROLES),
+  email: field.string(),
+  displayName: field.optional(field.string()),
+  addedAt: field.number()
+});
+
+// `folders/{id}`
+export const folderSchema = field.record({
+  id: field.optional(field.string({ validate: 'newData.val() === $folderId' })),
+  name: field.string({ minLength: 1, maxLength: MAX_FOLDER_NAME_LENGTH }),
+  userId: field.string({ validate: sameUser }),
+  createdAt: field.number(),
+  updatedAt: field.optional(field.number()),
+  parentId: field.nullable(field.string({ validate: folderOwnedByUser })), // Top-level folders have none
+  noteCount: field.optional(field.number()),
+  deletedAt: field.optional(field.number()),
+  members: field.optional(field.map('$memberId', folderMemberSchema))
+});
+
+// `notes/{id}/attachments/{attachmentId}`; see `./attachments`
+export const attachmentSchema = field.record({
+  name: field.string({ minLength: 1 }),
+  size: field.number({ min: 0 }),
+  contentType: field.string(),
+  storagePath: field.string({ validate: attachmentInOwnerPrefix }),
+  url: field.string({ validate: "newData.val().beginsWith('https://')" }),
+  uploadedAt: field.number()
+});
+
+// `notes/{id}`
+export const noteSchema = field.record({
+  title: field.string({ minLength: 1, maxLength: MAX_NOTE_TITLE_LENGTH }),
+  content: field.string({ maxLength: MAX_NOTE_CONTENT_LENGTH }),
+  userId: field.string({ validate: '(!data.exists() || newData.val() === data.val())' }),
+  folderId: field.optional(field.string()),
+  createdAt: field.number(),
+  updatedAt: field.number(),
+  contentLength: field.optional(field.number({ min: 0 })),
+  tags: field.optional(field.list(field.string({ minLength: 1, maxLength: MAX_TAG_LENGTH }), { maxItems: MAX_TAGS_PER_NOTE })),
+  deletedAt: field.optional(field.number()), // Set while the note is in the trash
+  deletedFolderName: field.optional(field.string({ maxLength: MAX_FOLDER_NAME_LENGTH })), // Recreates the folder on restore
+  attachments: field.optional(field.map('$attachmentId', attachmentSchema))
+});
+
+// `noteRevisions/{noteId}/{revisionId}`
+export const revisionSchema = field.record({
+  title: field.string(),
+  content: field.string(),
+  createdAt: field.number(),
+  userId: field.string({ validate: sameUser }),
+  restoredFrom: field.optional(field.string())
+});
+
+// `drafts/{uid}/{draftId}`
+export const draftSchema = field.record({
+  title: field.string(),
+  content: field.string(),
+  folderId: field.optional(field.string()),
+  baseUpdatedAt: field.optional(field.number()),
+  savedAt: field.number()
+}, { open: true });
+
+// `presence/{noteId}/{sessionId}`
+export const presenceSchema = field.record({
+  userId: field.string({ validate: sameUser }),
+  displayName: field.optional(field.string()),
+  email: field.optional(field.string()),
+  photoURL: field.optional(field.string()),
+  status: field.oneOf(['viewing', 'editing']),
+  selectionStart: field.optional(field.number()),
+  selectionEnd: field.optional(field.number()),
+  lastActive: field.number({ validate: 'newData.val() === now' })
+});
+
+export type UserRecord = FieldValue<typeof userSchema>;
+export type FolderMemberRecord = FieldValue<typeof folderMemberSchema>;
+export type FolderRecord = FieldValue<typeof folderSchema>;
+export type AttachmentRecord = FieldValue<typeof attachmentSchema>;
+export type NoteRecord = FieldValue<typeof noteSchema>;
+export type RevisionRecord = FieldValue<typeof revisionSchema>;
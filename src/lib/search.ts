@@ -0,0 +1,400 @@
+// Client-side full-text search over notes: tokenizer, query parser, inverted
+// index with prefix matching and ranking, and helpers for safe highlighting.
+
+import { slugifyFolderName } from '@/lib/folder-tree';
+
+export interface SearchableNote {
+  id: string;
+  title: string;
+  content: string;
+  folderId?: string;
+  tags?: string[];
+  updatedAt: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];            // Prefix-matched words that must all appear
+  phrases: string[];          // Exact phrases that must appear
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  folders: string[];          // `folder:` values (folder name or path)
+  excludedFolders: string[];
+  tags: string[];
+  excludedTags: string[];
+  before: number | null;      // Only notes updated before this time
+  after: number | null;       // Only notes updated on or after this time
+}
+
+export interface SearchResult {
+  noteId: string;
+  score: number;
+}
+
+interface Posting {
+  title: number;   // Occurrences in the title
+  content: number; // Occurrences in the content
+}
+
+interface IndexedDocument {
+  note: SearchableNote;
+  normalizedTitle: string;
+  normalizedContent: string;
+}
+
+export interface SearchIndex {
+  postings: Map<string, Map<string, Posting>>;
+  sortedTokens: string[]; // All indexed tokens in order, for prefix lookups
+  documents: Map<string, IndexedDocument>;
+}
+
+// How much more a match in the title counts than one in the content
+const TITLE_WEIGHT = 3;
+// Prefix matches (e.g. `meet` for `meeting`) score lower than whole words
+const PREFIX_WEIGHT = 0.5;
+const PHRASE_BONUS = 2;
+
+// Lowercase and strip accents so `Café` matches `cafe`
+export const normalizeText = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const countTokens = (tokens: string[]) => {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+};
+
+export const buildSearchIndex = (notes: SearchableNote[]): SearchIndex => {
+  const postings = new Map<string, Map<string, Posting>>();
+  const documents = new Map<string, IndexedDocument>();
+
+  const addPostings = (noteId: string, tokens: string[], field: keyof Posting) => {
+    countTokens(tokens).forEach((count, token) => {
+      let notePostings = postings.get(token);
+      if (!notePostings) {
+        notePostings = new Map();
+        postings.set(token, notePostings);
+      }
+      const posting = notePostings.get(noteId) || { title: 0, content: 0 };
+      posting[field] += count;
+      notePostings.set(noteId, posting);
+    });
+  };
+
+  notes.forEach((note) => {
+    const title = note.title || '';
+    const content = note.content || '';
+    documents.set(note.id, {
+      note,
+      normalizedTitle: normalizeText(title),
+      normalizedContent: normalizeText(content)
+    });
+    addPostings(note.id, tokenize(title), 'title');
+    addPostings(note.id, tokenize(content), 'content');
+  });
+
+  return {
+    postings,
+    sortedTokens: Array.from(postings.keys()).sort(),
+    documents
+  };
+};
+
+// Indexed tokens starting with the given prefix, found by binary search
+const findTokensWithPrefix = (index: SearchIndex, prefix: string): string[] => {
+  const { sortedTokens } = index;
+  let low = 0;
+  let high = sortedTokens.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedTokens[mid] < prefix) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < sortedTokens.length && sortedTokens[i].startsWith(prefix); i++) {
+    matches.push(sortedTokens[i]);
+  }
+  return matches;
+};
+
+// Parse `YYYY-MM-DD` (or anything Date understands) as local midnight
+const parseDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Supports words, "quoted phrases", -negation, folder:, tag:, before: and after:
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    folders: [],
+    excludedFolders: [],
+    tags: [],
+    excludedTags: [],
+    before: null,
+    after: null
+  };
+
+  const pattern = /(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const isNegated = match[1] === '-';
+    const operator = match[2]?.toLowerCase();
+    const isQuoted = match[3] !== undefined;
+    const value = (match[3] ?? match[4] ?? '').trim();
+    if (!value) continue;
+
+    switch (operator) {
+      case 'folder':
+        (isNegated ? parsed.excludedFolders : parsed.folders).push(normalizeText(value));
+        continue;
+      case 'tag':
+        (isNegated ? parsed.excludedTags : parsed.tags).push(normalizeText(value.replace(/^#/, '')));
+        continue;
+      case 'before': {
+        const date = parseDate(value);
+        if (date !== null) {
+          parsed.before = date;
+          continue;
+        }
+        break;
+      }
+      case 'after': {
+        // `after:2024-05-01` means from the following day on
+        const date = parseDate(value);
+        if (date !== null) {
+          parsed.after = date + DAY_MS;
+          continue;
+        }
+        break;
+      }
+    }
+
+    // Unknown operators are searched for as plain text
+    const text = operator ? `${match[2]}:${value}` : value;
+
+    if (isQuoted) {
+      const phrase = normalizeText(text).trim();
+      if (phrase) {
+        (isNegated ? parsed.excludedPhrases : parsed.phrases).push(phrase);
+      }
+    } else {
+      (isNegated ? parsed.excludedTerms : parsed.terms).push(...tokenize(text));
+    }
+  }
+
+  return parsed;
+};
+
+export const isEmptySearchQuery = (query: ParsedSearchQuery) =>
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  query.excludedTerms.length === 0 &&
+  query.excludedPhrases.length === 0 &&
+  query.folders.length === 0 &&
+  query.excludedFolders.length === 0 &&
+  query.tags.length === 0 &&
+  query.excludedTags.length === 0 &&
+  query.before === null &&
+  query.after === null;
+
+// Score of every note containing a word starting with `term`
+const scoreTerm = (index: SearchIndex, term: string): Map<string, number> => {
+  const scores = new Map<string, number>();
+  const documentCount = Math.max(index.documents.size, 1);
+
+  findTokensWithPrefix(index, term).forEach((token) => {
+    const notePostings = index.postings.get(token);
+    if (!notePostings) return;
+
+    const idf = Math.log(1 + documentCount / notePostings.size);
+    const weight = token === term ? 1 : PREFIX_WEIGHT;
+
+    notePostings.forEach((posting, noteId) => {
+      const frequency = posting.title * TITLE_WEIGHT + posting.content;
+      scores.set(noteId, Math.max(scores.get(noteId) || 0, frequency * idf * weight));
+    });
+  });
+
+  return scores;
+};
+
+const containsPhrase = (document: IndexedDocument, phrase: string) =>
+  document.normalizedTitle.includes(phrase) || document.normalizedContent.includes(phrase);
+
+interface SearchOptions {
+  // Folder name and full path (e.g. `work/clients`) for each folder ID, for `folder:`
+  folderPaths?: Record<string, { name: string; path: string }>;
+}
+
+const matchesFolder = (
+  note: SearchableNote,
+  value: string,
+  folderPaths: SearchOptions['folderPaths'] = {}
+) => {
+  const folder = note.folderId ? folderPaths[note.folderId] : undefined;
+  if (!folder) return false;
+
+  // Paths are made of URL slugs, so `folder:"client work"` also finds `client-work`
+  const slugPath = value.split('/').map(slugifyFolderName).join('/');
+  // A path matches the folder itself and everything nested in it
+  return normalizeText(folder.name) === value ||
+    folder.path === slugPath ||
+    folder.path.startsWith(`${slugPath}/`);
+};
+
+// Notes matching the query, best match first
+export const searchNotes = (
+  index: SearchIndex,
+  query: ParsedSearchQuery,
+  { folderPaths }: SearchOptions = {}
+): SearchResult[] => {
+  let candidates: Map<string, number> | null = null;
+
+  // Every term has to match; the note's score is the sum over the terms
+  for (const term of query.terms) {
+    const termScores = scoreTerm(index, term);
+    if (candidates === null) {
+      candidates = termScores;
+    } else {
+      const next = new Map<string, number>();
+      candidates.forEach((score, noteId) => {
+        const termScore = termScores.get(noteId);
+        if (termScore !== undefined) next.set(noteId, score + termScore);
+      });
+      candidates = next;
+    }
+    if (candidates.size === 0) return [];
+  }
+
+  // Queries made only of filters or phrases start from every note
+  const scored: Map<string, number> = candidates ?? new Map(
+    Array.from(index.documents.keys()).map(noteId => [noteId, 0])
+  );
+
+  const excludedIds = new Set<string>();
+  query.excludedTerms.forEach((term) => {
+    findTokensWithPrefix(index, term).forEach((token) => {
+      index.postings.get(token)?.forEach((_, noteId) => excludedIds.add(noteId));
+    });
+  });
+
+  const results: SearchResult[] = [];
+
+  scored.forEach((score, noteId) => {
+    const document = index.documents.get(noteId);
+    if (!document || excludedIds.has(noteId)) return;
+
+    const { note } = document;
+    const noteTags = (note.tags || []).map(normalizeText);
+
+    if (query.phrases.some(phrase => !containsPhrase(document, phrase))) return;
+    if (query.excludedPhrases.some(phrase => containsPhrase(document, phrase))) return;
+    if (query.tags.some(tag => !noteTags.includes(tag))) return;
+    if (query.excludedTags.some(tag => noteTags.includes(tag))) return;
+    if (query.folders.some(folder => !matchesFolder(note, folder, folderPaths))) return;
+    if (query.excludedFolders.some(folder => matchesFolder(note, folder, folderPaths))) return;
+    if (query.before !== null && !(note.updatedAt < query.before)) return;
+    if (query.after !== null && !(note.updatedAt >= query.after)) return;
+
+    const phraseScore = query.phrases.reduce((total, phrase) =>
+      total + (document.normalizedTitle.includes(phrase) ? TITLE_WEIGHT : 1) * PHRASE_BONUS, 0);
+
+    results.push({ noteId, score: score + phraseScore });
+  });
+
+  // Ties (e.g. filter-only queries) go to the most recently updated note
+  return results.sort((a, b) =>
+    b.score - a.score ||
+    (index.documents.get(b.noteId)?.note.updatedAt || 0) - (index.documents.get(a.noteId)?.note.updatedAt || 0)
+  );
+};
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Split text into matched and unmatched runs without building a RegExp from user
+// input. Terms match at the start of words (prefix search); phrases match anywhere.
+export const splitHighlights = (text: string, terms: string[], phrases: string[] = []): HighlightSegment[] => {
+  if (!text || (terms.length === 0 && phrases.length === 0)) {
+    return [{ text, isMatch: false }];
+  }
+
+  // Matching runs on the normalized text; positions only line up with the
+  // original when every character normalizes to exactly one character
+  const chars = text.split('');
+  const normalizedChars = chars.map(char => normalizeText(char));
+  if (normalizedChars.some(char => char.length !== 1)) {
+    return [{ text, isMatch: false }];
+  }
+  const normalized = normalizedChars.join('');
+
+  const isMatched = new Array<boolean>(normalized.length).fill(false);
+  const markRange = (start: number, length: number) => {
+    for (let i = start; i < start + length && i < isMatched.length; i++) isMatched[i] = true;
+  };
+
+  phrases.filter(Boolean).forEach((phrase) => {
+    let start = normalized.indexOf(phrase);
+    while (start !== -1) {
+      markRange(start, phrase.length);
+      start = normalized.indexOf(phrase, start + phrase.length);
+    }
+  });
+
+  terms.filter(Boolean).forEach((term) => {
+    let start = normalized.indexOf(term);
+    while (start !== -1) {
+      const isWordStart = start === 0 || !/[\p{L}\p{N}]/u.test(normalized[start - 1]);
+      if (isWordStart) markRange(start, term.length);
+      start = normalized.indexOf(term, start + 1);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  chars.forEach((char, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.isMatch === isMatched[index]) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, isMatch: isMatched[index] });
+    }
+  });
+
+  return segments;
+};
+
+// A short excerpt of `text` around the first match, so long notes show why they matched
+export const getSearchSnippet = (text: string, terms: string[], phrases: string[] = [], radius = 120): string => {
+  const normalized = normalizeText(text);
+  const positions = [...phrases, ...terms]
+    .map(needle => normalized.indexOf(needle))
+    .filter(position => position >= 0);
+
+  if (positions.length === 0 || normalized.length !== text.length) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,76 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+// Stored at `shares/{token}`; written only by the server, readable by the owner
+export interface NoteShare {
+  noteId: string;
+  userId: string;
+  noteTitle: string;       // Title when the link was created, for the owner's share list
+  createdAt: number;
+  expiresAt?: number;      // No expiry when missing
+  passwordHash?: string;   // `scrypt$<salt>$<hash>`; no password when missing
+}
+
+export interface NoteShareWithToken extends NoteShare {
+  token: string;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 32;
+
+// 24 random bytes, i.e. 192 bits that can't be guessed or enumerated
+export const generateShareToken = () => randomBytes(24).toString('base64url');
+
+// Tokens are URL path segments, so anything else can be rejected before a lookup
+export const isValidShareToken = (token: string) => /^[A-Za-z0-9_-]{32}$/.test(token);
+
+export const hashSharePassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16).toString('base64url');
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('base64url')}`;
+};
+
+export const verifySharePassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, salt, expected] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  const expectedHash = Buffer.from(expected, 'base64url');
+  return expectedHash.length === hash.length && timingSafeEqual(hash, expectedHash);
+};
+
+// Failed unlock attempts allowed per window, from one address and for a share overall.
+// The overall limit stops guessing spread over many addresses.
+export const UNLOCK_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+export const MAX_UNLOCK_FAILURES_PER_CLIENT = 5;
+export const MAX_UNLOCK_FAILURES_PER_SHARE = 50;
+
+// Stored under `shareUnlockFailures/{token}`; written only by the server
+export interface UnlockFailures {
+  count: number;
+  windowStart: number;
+}
+
+// Failures after one more, starting a new window once the last one has passed
+export const addUnlockFailure = (failures: UnlockFailures | null, now = Date.now()): UnlockFailures =>
+  failures && now - failures.windowStart < UNLOCK_FAILURE_WINDOW_MS
+    ? { count: failures.count + 1, windowStart: failures.windowStart }
+    : { count: 1, windowStart: now };
+
+export const isUnlockThrottled = (failures: UnlockFailures | null, limit: number, now = Date.now()) =>
+  failures !== null && now - failures.windowStart < UNLOCK_FAILURE_WINDOW_MS && failures.count >= limit;
+
+// Database key for a client address, which may contain characters keys can't
+export const getUnlockClientKey = (address: string) =>
+  createHash('sha256').update(address).digest('base64url');
+
+export const isShareExpired = (share: NoteShare, now = Date.now()) =>
+  typeof share.expiresAt === 'number' && share.expiresAt <= now;
+
+// Cookie set after the password was entered. Its value is derived from the stored
+// hash, so it stops working when the share is recreated with a new password.
+export const getShareAccessCookieName = (token: string) => `share-access-${token}`;
+
+export const getShareAccessKey = (token: string, share: NoteShare) =>
+  createHash('sha256').update(`${token}:${share.passwordHash || ''}`).digest('base64url');
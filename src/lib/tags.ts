@@ -0,0 +1,35 @@
+export const MAX_TAG_LENGTH = 32;
+
+// Most tags a note can have; the database rules enforce both limits
+export const MAX_TAGS_PER_NOTE = 20;
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// Tags are stored lowercase with whitespace collapsed to single dashes
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+
+// Normalize a list of tags, dropping empty values and duplicates
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).slice(0, MAX_TAGS_PER_NOTE);
+
+// Count how many notes use each tag, most used first
+export const countTags = (notes: Array<{ tags?: string[] }>): TagCount[] => {
+  const counts = new Map<string, number>();
+  notes.forEach((note) => {
+    (note.tags || []).forEach((tag) => {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    });
+  });
+
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,75 @@
+// Pixel position of a character offset inside a <textarea>. Textareas don't expose
+// this, so the text up to the offset is laid out in a hidden mirror element that
+// copies the textarea's box and font styles, and a marker span is measured instead.
+
+export interface CaretCoordinates {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Styles that affect where text wraps and how tall each line is
+const MIRRORED_PROPERTIES = [
+  'boxSizing',
+  'width',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontStyle',
+  'fontVariant',
+  'fontWeight',
+  'fontStretch',
+  'fontSize',
+  'lineHeight',
+  'fontFamily',
+  'textAlign',
+  'textTransform',
+  'textIndent',
+  'letterSpacing',
+  'wordSpacing',
+  'tabSize'
+] as const;
+
+// Coordinates are relative to the textarea's border box and ignore its scroll position
+export const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number): CaretCoordinates => {
+  const computed = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  const style = mirror.style;
+
+  for (const property of MIRRORED_PROPERTIES) {
+    style[property] = computed[property];
+  }
+  style.position = 'absolute';
+  style.visibility = 'hidden';
+  style.top = '0';
+  style.left = '-9999px';
+  style.whiteSpace = 'pre-wrap';
+  style.overflowWrap = 'break-word';
+  style.overflow = 'hidden';
+  // The mirror never scrolls, so leave out the room the textarea's scrollbar takes
+  style.width = `${textarea.clientWidth + parseFloat(computed.borderLeftWidth) + parseFloat(computed.borderRightWidth)}px`;
+
+  const offset = Math.max(0, Math.min(position, textarea.value.length));
+  mirror.textContent = textarea.value.slice(0, offset);
+
+  // The marker holds the rest of the text so wrapping at the offset matches the textarea
+  const marker = document.createElement('span');
+  marker.textContent = textarea.value.slice(offset) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const lineHeight = parseFloat(computed.lineHeight) || parseFloat(computed.fontSize) * 1.2;
+  const coordinates = {
+    top: marker.offsetTop + parseFloat(computed.borderTopWidth),
+    left: marker.offsetLeft + parseFloat(computed.borderLeftWidth),
+    height: lineHeight
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+};
@@ -0,0 +1,46 @@
+// Days a trashed note or folder is kept before it is purged permanently
+export const TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS) || 30;
+
+export const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Items trashed at or before this time are due for purging
+export const getTrashCutoff = (now: number = Date.now()) => now - TRASH_RETENTION_MS;
+
+export const getPurgeDate = (deletedAt: number) => new Date(deletedAt + TRASH_RETENTION_MS);
+
+interface PurgedFolder {
+  id: string;
+  members?: Record<string, unknown>;
+}
+
+interface PurgeTargets {
+  userId: string;
+  noteIds: string[];
+  folders: PurgedFolder[];
+  userFolderIds: string[]; // Current value of `users/{uid}/folders`
+}
+
+// Multi-path update entries that permanently remove trashed notes and folders,
+// along with the entries that list the folders for the members they were shared with
+export const buildPurgeUpdates = ({ userId, noteIds, folders, userFolderIds }: PurgeTargets) => {
+  const folderIds = folders.map(folder => folder.id);
+  const updates: Record<string, unknown> = {};
+
+  noteIds.forEach((noteId) => {
+    updates[`notes/${noteId}`] = null;
+    updates[`noteRevisions/${noteId}`] = null;
+  });
+
+  folders.forEach((folder) => {
+    updates[`folders/${folder.id}`] = null;
+    Object.keys(folder.members || {}).forEach((memberId) => {
+      updates[`users/${memberId}/sharedFolders/${folder.id}`] = null;
+    });
+  });
+
+  if (folderIds.length > 0) {
+    updates[`users/${userId}/folders`] = userFolderIds.filter((id) => !folderIds.includes(id));
+  }
+
+  return updates;
+};
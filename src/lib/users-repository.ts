@@ -0,0 +1,97 @@
+import type { DataBackend } from './data-backend';
+import type { UserRecord, UserRole } from './schema';
+
+export type UserRecordWithId = UserRecord & { uid: string };
+
+// The signed-in user an operation is carried out for
+export interface Actor {
+  uid: string;
+  role: UserRole;
+}
+
+// Thrown when the actor's role doesn't allow an operation; `code` tells the cases apart
+export class UserPermissionError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'UserPermissionError';
+    this.code = code;
+  }
+}
+
+// What the delete-user API removed, returned to the admin who asked for it
+export interface DeleteUserReport {
+  userId: string;
+  folderIds: string[];
+  noteIds: string[];
+  userRecordDeleted: boolean;
+  authRecordDeleted: boolean;
+}
+
+export const isAdminRole = (role: UserRole) => role === 'admin' || role === 'root_admin';
+
+export const createUsersRepository = (backend: DataBackend) => {
+  const get = (uid: string) => backend.get<UserRecord>(`users/${uid}`);
+
+  // Users without a stored role are regular users
+  const getRole = async (uid: string): Promise<UserRole> =>
+    (await backend.get<UserRole>(`users/${uid}/role`)) || 'user';
+
+  // Every user, for admins
+  const list = async (actor: Actor): Promise<UserRecordWithId[]> => {
+    if (!isAdminRole(actor.role)) {
+      throw new UserPermissionError('Insufficient permissions', 'auth/insufficient-role');
+    }
+
+    const users = await backend.get<Record<string, UserRecord>>('users');
+    return Object.entries(users || {}).map(([uid, user]) => ({ ...user, uid }));
+  };
+
+  // Only root admins can give or take away the root admin role
+  const setRole = async (actor: Actor, uid: string, role: UserRole) => {
+    if (actor.uid === uid) {
+      throw new UserPermissionError('Cannot change your own role', 'auth/self-role-change');
+    }
+
+    const user = await get(uid);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (actor.role !== 'root_admin' && (role === 'root_admin' || user.role === 'root_admin')) {
+      throw new UserPermissionError('Insufficient permissions', 'auth/insufficient-role');
+    }
+
+    await backend.update({ [`users/${uid}/role`]: role });
+  };
+
+  // Root admins can delete any user but themselves and other root admins. The user
+  // node may already be gone after an interrupted deletion, which can then be retried.
+  const checkCanDelete = async (actor: Actor, uid: string) => {
+    if (actor.role !== 'root_admin') {
+      throw new UserPermissionError('Only root admin can delete users', 'auth/insufficient-role');
+    }
+    if (uid === actor.uid) {
+      throw new UserPermissionError('Cannot delete your own account', 'auth/self-deletion');
+    }
+    if ((await getRole(uid)) === 'root_admin') {
+      throw new UserPermissionError('Cannot delete another root admin', 'auth/protected-user');
+    }
+  };
+
+  // Replace the user's inbox, newest first as the app keeps it
+  const setMessages = (uid: string, messages: Array<{ id: string; timestamp: number }>) =>
+    backend.update({ [`users/${uid}/messages`]: messages });
+
+  return {
+    get,
+    getRole,
+    list,
+    setRole,
+    setMessages,
+    checkCanDelete
+  };
+};
+
+export type UsersRepository = ReturnType<typeof createUsersRepository>;
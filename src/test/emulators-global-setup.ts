@@ -0,0 +1,6 @@
+import { seedEmulators } from './seed-emulators';
+
+// Runs once before the emulator tests
+export default async function setup() {
+  await seedEmulators();
+}
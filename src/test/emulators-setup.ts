@@ -0,0 +1,15 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Runs before each emulator test file. Hooks rendered outside Next.js have no
+// router, and rendered hooks are unmounted after every test.
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), back: vi.fn(), refresh: vi.fn() }),
+  usePathname: () => '/',
+  useSearchParams: () => new URLSearchParams()
+}));
+
+afterEach(() => {
+  cleanup();
+});
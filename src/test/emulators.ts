@@ -0,0 +1,35 @@
+import type { UserRole } from '../lib/schema';
+
+// The local Firebase emulators the tests run against (ports in firebase.json). A
+// `demo-` project ID keeps the SDKs from ever reaching a real project.
+//
+// Imports stay relative: `scripts/seed-emulators.ts` compiles this file without the
+// `@/` path alias.
+
+export const PROJECT_ID = 'demo-notes';
+
+export const EMULATOR_HOST = '127.0.0.1';
+
+// The app's database; the rules tests use a namespace of their own, named after the project
+export const DATABASE_URL = `https://${PROJECT_ID}-default-rtdb.firebaseio.com`;
+
+export interface EmulatorAccount {
+  uid: string;
+  email: string;
+  password: string;
+  displayName: string;
+  role: UserRole;
+}
+
+// Accounts `seedEmulators` creates in the Auth emulator, with their `users/{uid}` records
+export const EMULATOR_ACCOUNTS: Record<'user' | 'admin' | 'rootAdmin', EmulatorAccount> = {
+  user: { uid: 'seed-user', email: 'user@example.com', password: 'user-password', displayName: 'User', role: 'user' },
+  admin: { uid: 'seed-admin', email: 'admin@example.com', password: 'admin-password', displayName: 'Admin', role: 'admin' },
+  rootAdmin: {
+    uid: 'seed-root-admin',
+    email: 'root@example.com',
+    password: 'root-password',
+    displayName: 'Root Admin',
+    role: 'root_admin'
+  }
+};
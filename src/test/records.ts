@@ -0,0 +1,26 @@
+import type { FolderRecord, NoteRecord } from '@/lib/schema';
+
+// Records as `@/lib/schema` defines them, for tests to seed or write. Every required
+// field has a value; tests override the ones they are about.
+
+export const folderRecord = (overrides: Partial<FolderRecord> = {}): FolderRecord => ({
+  name: 'Work',
+  userId: 'user-1',
+  createdAt: 1,
+  updatedAt: 1,
+  noteCount: 0,
+  ...overrides
+});
+
+export const noteRecord = (overrides: Partial<NoteRecord> = {}): NoteRecord => {
+  const content = overrides.content ?? 'Ship it.';
+  return {
+    title: 'Plans',
+    content,
+    userId: 'user-1',
+    createdAt: 1,
+    updatedAt: 1,
+    contentLength: content.length,
+    ...overrides
+  };
+};
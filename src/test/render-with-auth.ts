@@ -0,0 +1,31 @@
+import { expect } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { auth } from '@/lib/firebase/config';
+import { AuthProvider, useAuth } from '@/context/AuthContext';
+import type { EmulatorAccount } from './emulators';
+
+// Renders hooks inside the app's AuthProvider, connected to the emulators
+
+export const AuthWrapper = ({ children }: { children: ReactNode }) => createElement(AuthProvider, null, children);
+
+export const signIn = async (account: EmulatorAccount) => {
+  await signInWithEmailAndPassword(auth, account.email, account.password);
+};
+
+// Render a hook for a signed-in account, once AuthContext has loaded its profile
+export const renderSignedIn = async <T>(account: EmulatorAccount, hook: () => T) => {
+  await signIn(account);
+
+  const rendered = renderHook(() => ({ auth: useAuth(), hook: hook() }), { wrapper: AuthWrapper });
+  await waitFor(() => expect(rendered.result.current.auth.user?.uid).toBe(account.uid));
+  return rendered;
+};
+
+export const signOutEverywhere = async () => {
+  await act(async () => {
+    await signOut(auth);
+  });
+  localStorage.clear();
+};
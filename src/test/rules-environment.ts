@@ -0,0 +1,46 @@
+import { readFileSync } from 'node:fs';
+import { RulesTestContext, RulesTestEnvironment, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import type { UserRole } from '@/lib/schema';
+import { PROJECT_ID } from './emulators';
+
+// Shared setup for the tests that run the database rules in the emulator
+// (`npm run test:emulators`). The rules are the generated `database.rules.json`,
+// so these tests also catch a file that wasn't rebuilt.
+
+// Accounts every rules test signs in as, with the role stored at `users/{uid}/role`
+export const TEST_USERS: Record<'owner' | 'other' | 'admin' | 'rootAdmin', { uid: string; role: UserRole }> = {
+  owner: { uid: 'owner-uid', role: 'user' },
+  other: { uid: 'other-uid', role: 'user' },
+  admin: { uid: 'admin-uid', role: 'admin' },
+  rootAdmin: { uid: 'root-admin-uid', role: 'root_admin' }
+};
+
+// The environment writes to a database namespace named after the project, apart from
+// the app's, so clearing it between tests leaves the seeded accounts alone
+export const createRulesEnvironment = () => initializeTestEnvironment({
+  projectId: PROJECT_ID,
+  database: { rules: readFileSync('database.rules.json', 'utf8') }
+});
+
+// Write data as the server would, bypassing the rules
+export const seedDatabase = (env: RulesTestEnvironment, data: Record<string, unknown>) =>
+  env.withSecurityRulesDisabled(async (context) => {
+    await context.database().ref().update(data);
+  });
+
+// `users/{uid}` for every test account
+export const seedTestUsers = (env: RulesTestEnvironment) =>
+  seedDatabase(env, Object.fromEntries(Object.values(TEST_USERS).map(({ uid, role }) => [`users/${uid}`, {
+    email: `${uid}@example.com`,
+    displayName: uid,
+    createdAt: 1,
+    lastLogin: 1,
+    role
+  }])));
+
+export const databaseAs = (env: RulesTestEnvironment, account: keyof typeof TEST_USERS | null) => {
+  const context: RulesTestContext = account
+    ? env.authenticatedContext(TEST_USERS[account].uid)
+    : env.unauthenticatedContext();
+  return context.database();
+};
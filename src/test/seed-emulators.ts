@@ -0,0 +1,44 @@
+import { App, deleteApp, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getDatabase } from 'firebase-admin/database';
+import { DATABASE_URL, EMULATOR_ACCOUNTS, EMULATOR_HOST, PROJECT_ID } from './emulators';
+
+// Run `work` with an Admin SDK app connected to the running emulators
+const withAdminApp = async <T>(name: string, work: (app: App) => Promise<T>) => {
+  // Set by `firebase emulators:exec`; when the emulators were started by hand, use
+  // the ports in firebase.json. The Admin SDK has no credentials for anything else.
+  process.env.FIREBASE_AUTH_EMULATOR_HOST ||= `${EMULATOR_HOST}:9099`;
+  process.env.FIREBASE_DATABASE_EMULATOR_HOST ||= `${EMULATOR_HOST}:9000`;
+
+  const app = initializeApp({ projectId: PROJECT_ID, databaseURL: DATABASE_URL }, name);
+  try {
+    return await work(app);
+  } finally {
+    await deleteApp(app);
+  }
+};
+
+// Create the accounts in `EMULATOR_ACCOUNTS`, or reset them to their seeded state,
+// in the running Auth and Database emulators. Safe to run more than once.
+export const seedEmulators = () => withAdminApp('seed-emulators', async (app) => {
+  const auth = getAuth(app);
+  const db = getDatabase(app);
+  const now = Date.now();
+
+  for (const { uid, email, password, displayName, role } of Object.values(EMULATOR_ACCOUNTS)) {
+    const exists = await auth.getUser(uid).then(() => true, () => false);
+    if (exists) {
+      await auth.updateUser(uid, { email, password, displayName });
+    } else {
+      await auth.createUser({ uid, email, password, displayName });
+    }
+
+    await db.ref(`users/${uid}`).set({ email, displayName, role, createdAt: now, lastLogin: now });
+  }
+});
+
+// Write to the database emulator as the API routes do, bypassing the rules
+export const updateAsServer = (updates: Record<string, unknown>) =>
+  withAdminApp(`server-${Date.now()}`, async (app) => {
+    await getDatabase(app).ref().update(updates);
+  });
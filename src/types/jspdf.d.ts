@@ -2,35 +2,19 @@ import 'jspdf';
 
 declare module 'jspdf' {
   interface jsPDF {
-    addNamedDestination(
-      name: string,
-      options: {
-        pageNumber: number;
-        x: number;
-        y: number;
-      }
-    ): void;
-    
+    // Internal link to a position on another page of the document; `top` is
+    // in the document's unit, measured from the top of the page
     link(
       x: number,
       y: number,
       width: number,
       height: number,
       options: {
-        page: number;
-        link: string;
+        pageNumber: number;
+        top?: number;
+        left?: number;
+        zoom?: number;
       }
     ): void;
-    
-    myText(
-      text: string,
-      x: number,
-      y: number,
-      link: string
-    ): void;
-    
-    getCurrentPageInfo(): {
-      pageNumber: number;
-    };
   }
 }
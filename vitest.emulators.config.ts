@@ -0,0 +1,32 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+import { DATABASE_URL, EMULATOR_HOST, PROJECT_ID } from './src/test/emulators';
+
+// Tests that need the Firebase Auth and Database emulators; run them with
+// `npm run test:emulators`, which starts the emulators first. The accounts in
+// `src/test/emulators.ts` are seeded once before the tests.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    include: ['src/**/*.emulator.test.ts'],
+    environment: 'node',
+    globalSetup: ['src/test/emulators-global-setup.ts'],
+    setupFiles: ['src/test/emulators-setup.ts'],
+    // What `src/lib/firebase/config.ts` reads to point the app at the emulators
+    env: {
+      NEXT_PUBLIC_FIREBASE_EMULATOR_HOST: EMULATOR_HOST,
+      NEXT_PUBLIC_FIREBASE_API_KEY: 'demo-api-key',
+      NEXT_PUBLIC_FIREBASE_PROJECT_ID: PROJECT_ID,
+      NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: `${PROJECT_ID}.firebaseapp.com`,
+      NEXT_PUBLIC_FIREBASE_DATABASE_URL: DATABASE_URL,
+      NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET: `${PROJECT_ID}.appspot.com`
+    },
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 30000
+  }
+});